@@ -2,6 +2,9 @@
 const nextConfig = {
   // Output configuration for deployment
   output: 'standalone',
+
+  // Packages that must be loaded from node_modules at runtime (e.g. to find their .wasm files)
+  serverExternalPackages: ['sql.js'],
   
   // Enable optimizations
   experimental: {
@@ -0,0 +1,87 @@
+// Creates the first admin account. Further staff are invited from the admin panel.
+//   npm run staff:create-admin -- --email admin@example.com --name "Jane Doe"
+// The password is read from the terminal without echoing it.
+import * as readline from 'readline';
+import { createStaffUser, getStaffUsers } from '../src/lib/auth-server';
+import { validatePassword } from '../src/lib/security';
+
+function argument(name: string): string | undefined {
+  const index = process.argv.indexOf(`--${name}`);
+  return index === -1 ? undefined : process.argv[index + 1];
+}
+
+// Asks questions on one readline interface without echoing the answers. Lines
+// are queued so that piped input answers the questions in order.
+function createHiddenPrompt() {
+  const rl = readline.createInterface({ input: process.stdin, output: process.stdout, terminal: true });
+  // Questions are written to stdout directly; nothing readline would echo is shown.
+  (rl as unknown as { _writeToOutput: (text: string) => void })._writeToOutput = () => {};
+
+  const lines: string[] = [];
+  const waiting: ((line: string) => void)[] = [];
+  rl.on('line', line => {
+    const resolve = waiting.shift();
+    if (resolve) resolve(line);
+    else lines.push(line);
+  });
+  rl.on('close', () => waiting.splice(0).forEach(resolve => resolve('')));
+
+  return {
+    ask: (question: string) => {
+      process.stdout.write(question);
+      return new Promise<string>(resolve => {
+        const answer = (line: string) => {
+          process.stdout.write('\n');
+          resolve(line);
+        };
+        const queued = lines.shift();
+        if (queued !== undefined) answer(queued);
+        else waiting.push(answer);
+      });
+    },
+    close: () => rl.close(),
+  };
+}
+
+async function main() {
+  const email = argument('email');
+  const fullName = argument('name') || 'Administrator';
+  if (!email) {
+    console.error('Usage: npm run staff:create-admin -- --email <email> [--name <full name>]');
+    process.exit(1);
+  }
+
+  const admins = (await getStaffUsers()).filter(user => user.role === 'admin');
+  if (admins.length > 0) {
+    console.error(`❌ An admin account already exists (${admins[0].email}). Invite further staff from the admin panel.`);
+    process.exit(1);
+  }
+
+  const prompt = createHiddenPrompt();
+  const password = await prompt.ask('Password: ');
+  const validation = validatePassword(password);
+  if (!validation.isValid) {
+    prompt.close();
+    console.error('❌ Password does not meet the requirements:');
+    validation.errors.forEach(error => console.error(`   - ${error}`));
+    process.exit(1);
+  }
+  const confirmation = await prompt.ask('Confirm password: ');
+  prompt.close();
+  if (confirmation !== password) {
+    console.error('❌ Passwords do not match.');
+    process.exit(1);
+  }
+
+  const result = await createStaffUser({ email, fullName, password, role: 'admin' });
+  if ('error' in result) {
+    console.error(`❌ ${result.error}`);
+    process.exit(1);
+  }
+  console.log(`✅ Created admin ${result.user.email} (${result.user.id})`);
+}
+
+main().catch(error => {
+  console.error('❌ Creating the admin account failed:', error);
+  process.exit(1);
+});
@@ -0,0 +1,27 @@
+// Applies pending data migrations, or reports them without writing with --dry-run.
+//   npm run db:migrate
+//   npm run db:migrate:dry-run
+import { runMigrations } from '../src/lib/migrations';
+
+async function main() {
+  const dryRun = process.argv.includes('--dry-run');
+  const reports = await runMigrations({ dryRun });
+
+  for (const report of reports) {
+    if (report.applied.length === 0) {
+      console.log(`✅ ${report.target}: up to date (v${report.fromVersion})`);
+      continue;
+    }
+
+    const verb = dryRun ? 'would migrate' : 'migrated';
+    console.log(`${dryRun ? '🔍' : '✅'} ${report.target}: ${verb} v${report.fromVersion} → v${report.toVersion}`);
+    for (const migration of report.applied) {
+      console.log(`   v${migration.version} ${migration.name}: ${migration.changed} record(s) changed`);
+    }
+  }
+}
+
+main().catch(error => {
+  console.error('❌ Migration failed:', error);
+  process.exit(1);
+});
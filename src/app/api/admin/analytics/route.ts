@@ -2,6 +2,7 @@
 import { NextResponse } from 'next/server';
 import { getAllWallets } from '@/lib/wallet';
 import { ranks, getUserRank } from '@/lib/ranks';
+import { requireAdmin } from '@/lib/route-guard';
 
 // A mock function to simulate fetching deposit/withdrawal history, as it's not in the wallet data model.
 const MOCK_TRANSACTION_TOTALS: Record<string, { deposits: number; withdrawals: number }> = {
@@ -10,6 +11,9 @@ const MOCK_TRANSACTION_TOTALS: Record<string, { deposits: number; withdrawals: n
 
 export async function POST(request: Request) {
   try {
+    const access = await requireAdmin(request);
+    if (access.denied) return access.denied;
+
     const wallets = await getAllWallets();
     if (!wallets) {
       throw new Error('Could not fetch wallet data.');
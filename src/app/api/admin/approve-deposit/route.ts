@@ -1,45 +1,22 @@
-
 import { NextResponse } from 'next/server';
-import { getWalletByUserId, updateWalletByUserId } from '@/lib/wallet';
-import { addNotification } from '@/lib/notifications';
+import { reviewDeposit } from '@/lib/deposits';
+import { requireStaff } from '@/lib/route-guard';
 
 export async function POST(request: Request) {
   try {
-    const { userId, depositId, amount, asset } = await request.json();
-    if (!userId || !depositId || !amount || !asset) {
+    const access = await requireStaff(request, 'deposit_approval');
+    if (access.denied) return access.denied;
+
+    const { userId, depositId } = await request.json();
+    if (!userId || !depositId) {
       return NextResponse.json({ error: 'Missing required fields' }, { status: 400 });
     }
 
-    const wallet = await getWalletByUserId(userId);
-    if (!wallet) {
-      return NextResponse.json({ error: 'User not found' }, { status: 404 });
+    const result = await reviewDeposit(userId, depositId, { action: 'approve', reviewerId: access.session.userId });
+    if (result.error) {
+      return NextResponse.json({ error: result.error }, { status: result.notFound ? 404 : 400 });
     }
 
-    // Filter out the approved deposit request
-    const updatedPendingDeposits = (wallet.pending_deposits || []).filter(
-      (req: any) => req.id !== depositId
-    );
-
-    // Update the balance
-    const updatedBalances = {
-      ...wallet.balances,
-      [asset.toLowerCase()]: (wallet.balances[asset.toLowerCase()] || 0) + parseFloat(amount),
-    };
-
-    const updatedWalletData = {
-      ...wallet,
-      balances: updatedBalances,
-      pending_deposits: updatedPendingDeposits,
-    };
-    
-    await updateWalletByUserId(userId, updatedWalletData);
-
-    await addNotification(userId, {
-      title: 'Deposit Approved',
-      content: `Your deposit of ${amount} ${asset.toUpperCase()} has been approved and credited to your account.`,
-      href: '/dashboard/deposit',
-    });
-
     return NextResponse.json({ message: 'Deposit approved and user credited successfully.' });
   } catch (error: any) {
     return NextResponse.json({ error: error.message || 'An unexpected error occurred.' }, { status: 500 });
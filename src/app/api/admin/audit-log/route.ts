@@ -0,0 +1,19 @@
+import { NextResponse } from 'next/server';
+import { getAuditEvents } from '@/lib/audit-log';
+import { requireAdmin } from '@/lib/route-guard';
+
+// GET /api/admin/audit-log?userId=... lists audit records, newest first.
+export async function GET(request: Request) {
+  try {
+    const access = await requireAdmin(request);
+    if (access.denied) return access.denied;
+
+    const userId = new URL(request.url).searchParams.get('userId') || undefined;
+    return NextResponse.json({ events: await getAuditEvents({ targetUserId: userId }) });
+  } catch (error: any) {
+    return NextResponse.json(
+      { error: error.message || 'An unexpected error occurred.' },
+      { status: 500 }
+    );
+  }
+}
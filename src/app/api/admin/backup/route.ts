@@ -0,0 +1,22 @@
+import { NextResponse } from 'next/server';
+import { createBackup } from '@/lib/backup';
+import { requireAdmin } from '@/lib/route-guard';
+
+export async function GET(request: Request) {
+  try {
+    const access = await requireAdmin(request);
+    if (access.denied) return access.denied;
+
+    const archive = await createBackup(access.session.email);
+    const fileName = `astralcore-backup-${archive.manifest.createdAt.replace(/[:.]/g, '-')}.json`;
+
+    return new NextResponse(JSON.stringify(archive, null, 2), {
+      headers: {
+        'Content-Type': 'application/json',
+        'Content-Disposition': `attachment; filename="${fileName}"`,
+      },
+    });
+  } catch (error: any) {
+    return NextResponse.json({ error: error.message || 'An unexpected error occurred.' }, { status: 500 });
+  }
+}
@@ -1,8 +1,12 @@
 import { NextResponse } from 'next/server';
 import { fetchAllData, fetchSystemStats } from '@/lib/data-aggregator';
+import { requireAdmin } from '@/lib/route-guard';
 
 export async function GET(request: Request) {
   try {
+    const access = await requireAdmin(request);
+    if (access.denied) return access.denied;
+
     const { searchParams } = new URL(request.url);
     const type = searchParams.get('type') || 'full';
 
@@ -24,6 +28,9 @@ export async function GET(request: Request) {
 
 export async function POST(request: Request) {
   try {
+    const access = await requireAdmin(request);
+    if (access.denied) return access.denied;
+
     const body = await request.json();
     const { userId, type } = body;
 
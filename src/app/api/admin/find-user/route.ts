@@ -1,38 +1,34 @@
 
 import { NextResponse } from 'next/server';
-import { getAllWallets } from '@/lib/wallet';
-
-// NOTE: This is a mock implementation. In a real application,
-// you would have a more efficient way to look up users by email from a database.
-// The mock user data does not store emails with wallets, so we are using a hardcoded map.
-const MOCK_EMAIL_TO_ID_MAP: Record<string, string> = {
-    'user@example.com': 'mock-user-123',
-    'another@example.com': 'mock-user-456',
-};
-
+import { getUserByEmail } from '@/lib/auth-server';
+import { getWalletByUserId, redactWallet } from '@/lib/wallet';
+import { requireAdmin } from '@/lib/route-guard';
 
 export async function POST(request: Request) {
   try {
+    const access = await requireAdmin(request);
+    if (access.denied) return access.denied;
+
     const { email } = await request.json();
     if (!email) {
       return NextResponse.json({ error: 'Email is required' }, { status: 400 });
     }
     
-    const userId = MOCK_EMAIL_TO_ID_MAP[email.toLowerCase()];
+    const user = await getUserByEmail(email);
 
-    if (!userId) {
+    if (!user) {
          return NextResponse.json({ error: 'User with that email not found.' }, { status: 404 });
     }
 
-    const allWallets = await getAllWallets();
-    const wallet = allWallets[userId];
+    const userId = user.id;
+    const wallet = await getWalletByUserId(userId);
 
     if (!wallet) {
       return NextResponse.json({ error: 'Wallet for that user not found.' }, { status: 404 });
     }
 
     // Return the wallet data along with the user ID
-    return NextResponse.json({ ...wallet, user_id: userId });
+    return NextResponse.json({ ...redactWallet(wallet), user_id: userId });
 
   } catch (error: any) {
     return NextResponse.json(
@@ -0,0 +1,32 @@
+
+import { NextResponse } from 'next/server';
+import { checkWalletAgainstLedger, getLedgerEntriesForUser } from '@/lib/ledger';
+import { requireAdmin } from '@/lib/route-guard';
+
+export async function POST(request: Request) {
+  try {
+    const access = await requireAdmin(request);
+    if (access.denied) return access.denied;
+
+    const { userId } = await request.json();
+    if (!userId) {
+      return NextResponse.json({ error: 'User ID is required' }, { status: 400 });
+    }
+
+    const [entries, balanceCheck] = await Promise.all([
+      getLedgerEntriesForUser(userId),
+      checkWalletAgainstLedger(userId),
+    ]);
+
+    return NextResponse.json({
+      entries,
+      balanceCheck,
+      inBalance: balanceCheck.every(check => check.difference === 0),
+    });
+  } catch (error: any) {
+    return NextResponse.json(
+      { error: error.message || 'An unexpected error occurred.' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,39 @@
+import { NextResponse } from 'next/server';
+import { getUserById } from '@/lib/auth-server';
+import { clearLoginLockout, getLoginLockouts } from '@/lib/login-protection';
+import { requireAdmin } from '@/lib/route-guard';
+import { logSecurityEvent } from '@/lib/security';
+
+// Accounts with failed sign-in attempts or an active lockout.
+export async function GET(request: Request) {
+  try {
+    const access = await requireAdmin(request);
+    if (access.denied) return access.denied;
+
+    const lockouts = await getLoginLockouts();
+    const withUsers = await Promise.all(lockouts.map(async lockout => {
+      const user = await getUserById(lockout.userId);
+      return { ...lockout, email: user?.email, fullName: user?.fullName };
+    }));
+    return NextResponse.json({ lockouts: withUsers });
+  } catch (error: any) {
+    return NextResponse.json({ error: error.message || 'An unexpected error occurred.' }, { status: 500 });
+  }
+}
+
+// DELETE /api/admin/login-lockouts?userId=usr_... clears the failed attempts and lockout.
+export async function DELETE(request: Request) {
+  try {
+    const access = await requireAdmin(request);
+    if (access.denied) return access.denied;
+
+    const userId = new URL(request.url).searchParams.get('userId');
+    if (!userId || !(await clearLoginLockout(userId))) {
+      return NextResponse.json({ error: 'No lockout found for this user.' }, { status: 404 });
+    }
+    logSecurityEvent('account_lockout_cleared', { userId, clearedBy: access.session.userId });
+    return NextResponse.json({ success: true });
+  } catch (error: any) {
+    return NextResponse.json({ error: error.message || 'An unexpected error occurred.' }, { status: 500 });
+  }
+}
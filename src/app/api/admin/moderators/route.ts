@@ -0,0 +1,37 @@
+import { NextResponse } from 'next/server';
+import { getStaffUsers } from '@/lib/auth-server';
+import { getModeratorAssignments, saveModeratorAssignments } from '@/lib/moderator-assignments';
+import { requireAdmin } from '@/lib/route-guard';
+
+// Moderator assignments for ModeratorManager, along with the moderator
+// accounts that can be assigned.
+export async function GET(request: Request) {
+  try {
+    const access = await requireAdmin(request);
+    if (access.denied) return access.denied;
+
+    const [moderators, staff] = await Promise.all([getModeratorAssignments(), getStaffUsers()]);
+    const accounts = staff
+      .filter(user => user.role === 'moderator')
+      .map(({ id, email, fullName, isActive }) => ({ id, email, fullName, isActive }));
+    return NextResponse.json({ moderators, accounts });
+  } catch (error: any) {
+    return NextResponse.json({ error: error.message || 'An unexpected error occurred.' }, { status: 500 });
+  }
+}
+
+export async function PUT(request: Request) {
+  try {
+    const access = await requireAdmin(request);
+    if (access.denied) return access.denied;
+
+    const { moderators } = await request.json();
+    const result = await saveModeratorAssignments(moderators);
+    if ('error' in result) {
+      return NextResponse.json({ error: result.error }, { status: 400 });
+    }
+    return NextResponse.json({ success: true, moderators: result.moderators });
+  } catch (error: any) {
+    return NextResponse.json({ error: error.message || 'An unexpected error occurred.' }, { status: 500 });
+  }
+}
@@ -1,15 +1,19 @@
 
 import { NextResponse } from 'next/server';
 import { getAllWallets } from '@/lib/wallet';
+import { requireStaff } from '@/lib/route-guard';
 
 export async function POST(request: Request) {
   try {
+    const access = await requireStaff(request, 'deposit_approval');
+    if (access.denied) return access.denied;
+
     const allWallets = await getAllWallets();
     
     const allPendingDeposits = Object.entries(allWallets)
       .filter(([, wallet]) => wallet.pending_deposits && wallet.pending_deposits.length > 0)
       .flatMap(([userId, wallet]) => 
-        wallet.pending_deposits.map((deposit: any) => ({
+        (wallet.pending_deposits || []).map((deposit: any) => ({
           ...deposit,
           userId,
           username: wallet.profile?.username || userId,
@@ -1,9 +1,13 @@
 
 import { NextResponse } from 'next/server';
 import { getAllWallets } from '@/lib/wallet';
+import { requireAdmin } from '@/lib/route-guard';
 
 export async function POST(request: Request) {
   try {
+    const access = await requireAdmin(request);
+    if (access.denied) return access.denied;
+
     const allWallets = await getAllWallets();
     
     const allPendingWithdrawals = Object.entries(allWallets)
@@ -0,0 +1,24 @@
+import { NextResponse } from 'next/server';
+import { reviewDeposit } from '@/lib/deposits';
+import { requireStaff } from '@/lib/route-guard';
+
+export async function POST(request: Request) {
+  try {
+    const access = await requireStaff(request, 'deposit_approval');
+    if (access.denied) return access.denied;
+
+    const { userId, depositId, reason } = await request.json();
+    if (!userId || !depositId) {
+      return NextResponse.json({ error: 'Missing required fields' }, { status: 400 });
+    }
+
+    const result = await reviewDeposit(userId, depositId, { action: 'reject', reviewerId: access.session.userId, reason });
+    if (result.error) {
+      return NextResponse.json({ error: result.error }, { status: result.notFound ? 404 : 400 });
+    }
+
+    return NextResponse.json({ message: 'Deposit rejected.', deposit: result.deposit });
+  } catch (error: any) {
+    return NextResponse.json({ error: error.message || 'An unexpected error occurred.' }, { status: 500 });
+  }
+}
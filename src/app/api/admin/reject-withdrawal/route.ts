@@ -0,0 +1,25 @@
+import { NextResponse } from 'next/server';
+import { rejectWithdrawal } from '@/lib/withdrawals';
+import { requireAdmin } from '@/lib/route-guard';
+
+// Rejects a pending withdrawal and refunds the held amount to the user.
+export async function POST(request: Request) {
+  try {
+    const access = await requireAdmin(request);
+    if (access.denied) return access.denied;
+
+    const { userId, withdrawalId, reason } = await request.json();
+    if (!userId || !withdrawalId) {
+      return NextResponse.json({ error: 'Missing required fields' }, { status: 400 });
+    }
+
+    const result = await rejectWithdrawal(userId, withdrawalId, { reviewerId: access.session.userId, reason });
+    if (result.error) {
+      return NextResponse.json({ error: result.error }, { status: result.notFound ? 404 : 400 });
+    }
+
+    return NextResponse.json({ message: 'Withdrawal rejected and the amount refunded.', withdrawal: result.withdrawal });
+  } catch (error: any) {
+    return NextResponse.json({ error: error.message || 'An unexpected error occurred.' }, { status: 500 });
+  }
+}
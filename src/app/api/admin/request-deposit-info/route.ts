@@ -0,0 +1,25 @@
+import { NextResponse } from 'next/server';
+import { reviewDeposit } from '@/lib/deposits';
+import { requireStaff } from '@/lib/route-guard';
+
+// Keeps the deposit open and asks the user for more information.
+export async function POST(request: Request) {
+  try {
+    const access = await requireStaff(request, 'deposit_approval');
+    if (access.denied) return access.denied;
+
+    const { userId, depositId, reason } = await request.json();
+    if (!userId || !depositId) {
+      return NextResponse.json({ error: 'Missing required fields' }, { status: 400 });
+    }
+
+    const result = await reviewDeposit(userId, depositId, { action: 'request_info', reviewerId: access.session.userId, reason });
+    if (result.error) {
+      return NextResponse.json({ error: result.error }, { status: result.notFound ? 404 : 400 });
+    }
+
+    return NextResponse.json({ message: 'More information requested from the user.', deposit: result.deposit });
+  } catch (error: any) {
+    return NextResponse.json({ error: error.message || 'An unexpected error occurred.' }, { status: 500 });
+  }
+}
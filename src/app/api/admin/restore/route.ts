@@ -0,0 +1,20 @@
+import { NextResponse } from 'next/server';
+import { restoreBackup } from '@/lib/backup';
+import { requireAdmin } from '@/lib/route-guard';
+
+export async function POST(request: Request) {
+  try {
+    const access = await requireAdmin(request);
+    if (access.denied) return access.denied;
+
+    const archive = await request.json();
+    const result = await restoreBackup(archive);
+    if (result.error) {
+      return NextResponse.json(result, { status: result.problems ? 400 : 500 });
+    }
+
+    return NextResponse.json({ success: true, restored: result.restored, sessionsRevoked: result.sessionsRevoked });
+  } catch (error: any) {
+    return NextResponse.json({ error: error.message || 'An unexpected error occurred.' }, { status: 500 });
+  }
+}
@@ -1,34 +1,35 @@
 import { NextResponse } from 'next/server';
-import * as fs from 'fs/promises';
-import * as path from 'path';
-
-const SETTINGS_FILE_PATH = path.join(process.cwd(), 'data', 'settings.json');
-
-async function readSettings() {
-  try {
-    const data = await fs.readFile(SETTINGS_FILE_PATH, 'utf-8');
-    return JSON.parse(data);
-  } catch (error) {
-    // If the file doesn't exist, return an empty object
-    return {};
-  }
-}
-
-async function writeSettings(data: any) {
-  await fs.writeFile(SETTINGS_FILE_PATH, JSON.stringify(data, null, 2), 'utf-8');
-}
+import { setSetting } from '@/lib/settings-store';
+import { requireAdmin } from '@/lib/route-guard';
+import { ASSET_NETWORKS_KEY, assetRegistrySchema } from '@/lib/asset-networks';
+import { SECURITY_SETTINGS_KEY, securitySettingsError } from '@/lib/security-settings';
 
 export async function POST(request: Request) {
   try {
+    const access = await requireAdmin(request);
+    if (access.denied) return access.denied;
+
     const { key, value } = await request.json();
     if (!key || value === undefined) {
       return NextResponse.json({ error: 'Key and value are required.' }, { status: 400 });
     }
 
-    const settings = await readSettings();
+    // The asset registry drives withdrawal checks, so it is validated before it is saved
+    if (key === ASSET_NETWORKS_KEY) {
+      const parsed = assetRegistrySchema.safeParse(value);
+      if (!parsed.success) {
+        const issue = parsed.error.issues[0];
+        return NextResponse.json({ error: `${issue.path.join('.') || key}: ${issue.message}` }, { status: 400 });
+      }
+    }
+
+    if (key === SECURITY_SETTINGS_KEY) {
+      const error = securitySettingsError(value);
+      if (error) return NextResponse.json({ error }, { status: 400 });
+    }
+
     // This allows nested key updates, e.g., key = "botSettings"
-    settings[key] = value;
-    await writeSettings(settings);
+    await setSetting(key, value);
 
     return NextResponse.json({ success: true, message: 'Settings updated.' });
   } catch (error: any) {
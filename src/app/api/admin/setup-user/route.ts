@@ -1,4 +1,5 @@
 import { NextRequest, NextResponse } from 'next/server';
+import { requireAdmin } from '@/lib/route-guard';
 
 // This is a placeholder for your actual user creation logic.
 // You'll need to replace this with your own implementation.
@@ -12,6 +13,9 @@ async function createUser(userId: string) {
 
 export async function POST(request: NextRequest) {
   try {
+    const access = await requireAdmin(request);
+    if (access.denied) return access.denied;
+
     const body = await request.json();
     const { userId } = body;
 
@@ -1,4 +1,5 @@
 import { NextRequest, NextResponse } from 'next/server';
+import { requireAdmin } from '@/lib/route-guard';
 
 interface SliderImage {
   id: string;
@@ -84,6 +85,9 @@ export async function GET(request: NextRequest) {
 
 export async function POST(request: NextRequest) {
   try {
+    const access = await requireAdmin(request);
+    if (access.denied) return access.denied;
+
     const body = await request.json();
     
     const newImage: SliderImage = {
@@ -116,6 +120,9 @@ export async function POST(request: NextRequest) {
 
 export async function PUT(request: NextRequest) {
   try {
+    const access = await requireAdmin(request);
+    if (access.denied) return access.denied;
+
     const body = await request.json();
     const { id, ...updateData } = body;
     
@@ -149,6 +156,9 @@ export async function PUT(request: NextRequest) {
 
 export async function DELETE(request: NextRequest) {
   try {
+    const access = await requireAdmin(request);
+    if (access.denied) return access.denied;
+
     const { searchParams } = new URL(request.url);
     const id = searchParams.get('id');
     
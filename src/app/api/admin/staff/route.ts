@@ -0,0 +1,64 @@
+import { NextResponse } from 'next/server';
+import { getStaffUsers } from '@/lib/auth-server';
+import { env } from '@/lib/env';
+import { requireAdmin } from '@/lib/route-guard';
+import { createStaffInvite, getPendingStaffInvites, isStaffRole, revokeStaffInvite } from '@/lib/staff';
+
+// Staff accounts and pending invites.
+export async function GET(request: Request) {
+  try {
+    const access = await requireAdmin(request);
+    if (access.denied) return access.denied;
+
+    const [users, invites] = await Promise.all([getStaffUsers(), getPendingStaffInvites()]);
+    const staff = users.map(({ id, email, fullName, role, isActive, createdAt, lastLogin }) => ({
+      id, email, fullName, role, isActive, createdAt, lastLogin,
+    }));
+    return NextResponse.json({ staff, invites });
+  } catch (error: any) {
+    return NextResponse.json({ error: error.message || 'An unexpected error occurred.' }, { status: 500 });
+  }
+}
+
+// Invites a new admin or moderator. The setup link is only returned here, once.
+export async function POST(request: Request) {
+  try {
+    const access = await requireAdmin(request);
+    if (access.denied) return access.denied;
+
+    const { email, role, fullName } = await request.json();
+    if (typeof email !== 'string' || !/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(email.trim())) {
+      return NextResponse.json({ error: 'A valid email address is required.' }, { status: 400 });
+    }
+    if (!isStaffRole(role)) {
+      return NextResponse.json({ error: 'Role must be "admin" or "moderator".' }, { status: 400 });
+    }
+
+    const result = await createStaffInvite({ email, role, fullName, invitedBy: access.session.email });
+    if ('error' in result) {
+      return NextResponse.json({ error: result.error }, { status: 409 });
+    }
+
+    const baseUrl = env.NEXT_PUBLIC_APP_URL || new URL(request.url).origin;
+    const setupUrl = `${baseUrl}/staff/setup?token=${encodeURIComponent(result.token)}`;
+    return NextResponse.json({ invite: result.invite, setupUrl });
+  } catch (error: any) {
+    return NextResponse.json({ error: error.message || 'An unexpected error occurred.' }, { status: 500 });
+  }
+}
+
+// DELETE /api/admin/staff?inviteId=inv_... withdraws a pending invite.
+export async function DELETE(request: Request) {
+  try {
+    const access = await requireAdmin(request);
+    if (access.denied) return access.denied;
+
+    const inviteId = new URL(request.url).searchParams.get('inviteId');
+    if (!inviteId || !(await revokeStaffInvite(inviteId))) {
+      return NextResponse.json({ error: 'Invite not found.' }, { status: 404 });
+    }
+    return NextResponse.json({ success: true });
+  } catch (error: any) {
+    return NextResponse.json({ error: error.message || 'An unexpected error occurred.' }, { status: 500 });
+  }
+}
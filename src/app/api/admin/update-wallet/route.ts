@@ -1,9 +1,24 @@
 
 import { NextResponse } from 'next/server';
 import { getWalletByUserId, updateWalletByUserId } from '@/lib/wallet';
+import { checkWalletAgainstLedger, creditUser, debitUser, INSUFFICIENT_BALANCE } from '@/lib/ledger';
+import { addNotification } from '@/lib/notifications';
+import { walletFieldErrors, walletUpdateSchema } from '@/lib/wallet-schema';
+import { requireAdmin } from '@/lib/route-guard';
+
+// Fields that have their own flows and cannot be overwritten here: pending
+// withdrawals hold debited funds and are closed through the withdrawal review,
+// and the address book and withdrawal passcode belong to the wallet's owner.
+const LOCKED_FIELDS: Record<string, string> = {
+  pending_withdrawals: 'Pending withdrawals can only be completed or rejected.',
+  security: 'The address book and withdrawal passcode are managed by the wallet owner.',
+};
 
 export async function POST(request: Request) {
   try {
+    const access = await requireAdmin(request);
+    if (access.denied) return access.denied;
+
     const { userId, newWalletData } = await request.json();
     if (!userId || !newWalletData) {
       return NextResponse.json({ error: 'User ID and new wallet data are required' }, { status: 400 });
@@ -14,10 +29,60 @@ export async function POST(request: Request) {
       return NextResponse.json({ error: 'User not found' }, { status: 404 });
     }
 
-    // A simple merge, in a real app you'd have more sophisticated logic
-    const updatedData = { ...currentWallet, ...newWalletData };
-    
-    await updateWalletByUserId(userId, updatedData);
+    // Every field is checked up front so that a bad request changes nothing
+    const locked = Object.keys(newWalletData).filter(field => field in LOCKED_FIELDS);
+    if (locked.length > 0) {
+      return NextResponse.json(
+        { error: 'Invalid wallet data.', fieldErrors: Object.fromEntries(locked.map(field => [field, LOCKED_FIELDS[field]])) },
+        { status: 400 }
+      );
+    }
+    const parsed = walletUpdateSchema.safeParse(newWalletData);
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: 'Invalid wallet data.', fieldErrors: walletFieldErrors(parsed.error) },
+        { status: 400 }
+      );
+    }
+
+    const { balances, ...otherData } = parsed.data;
+
+    // Balance edits are booked to the ledger as manual adjustments instead of being overwritten
+    const adjustments = Object.entries(balances || {}).flatMap(([asset, target]) => {
+      const difference = Number(target) - (currentWallet.balances?.[asset] || 0);
+      if (!Number.isFinite(difference) || Math.abs(difference) < 1e-8) return [];
+      return [{ asset, difference }];
+    });
+
+    // Every debit is checked against the ledger before anything is booked, so an
+    // edit of several balances is not left half applied
+    const ledgerBalances = new Map((await checkWalletAgainstLedger(userId)).map(check => [check.asset, check.ledgerBalance]));
+    if (adjustments.some(({ asset, difference }) => difference < 0 && (ledgerBalances.get(asset) || 0) < -difference)) {
+      return NextResponse.json({ error: INSUFFICIENT_BALANCE }, { status: 400 });
+    }
+
+    for (const { asset, difference } of adjustments) {
+      const posting = {
+        type: 'adjustment' as const,
+        referenceId: `adj_${crypto.randomUUID()}`,
+        asset,
+        amount: Math.abs(difference),
+        actor: access.session.userId,
+      };
+      if (difference > 0) {
+        await creditUser(userId, posting);
+        await addNotification(userId, {
+          title: 'AstralCore Deposit',
+          content: `Your balance has been credited with ${posting.amount} ${asset.toUpperCase()}.`,
+          href: '/dashboard',
+        });
+      } else {
+        await debitUser(userId, posting);
+      }
+    }
+
+    // Each remaining field replaces the stored one; the store validates the merged wallet
+    await updateWalletByUserId(userId, otherData);
 
     return NextResponse.json({ success: true, message: 'Wallet updated successfully.' });
   } catch (error: any) {
@@ -1,13 +1,17 @@
 import { NextResponse } from 'next/server';
 import { getAllWallets } from '@/lib/wallet';
+import { requireStaff } from '@/lib/route-guard';
 
 export async function POST(request: Request) {
   try {
+    const access = await requireStaff(request, 'user_verification');
+    if (access.denied) return access.denied;
+
     const allWallets = await getAllWallets();
     
     // Filter for wallets that have a verification status of "verifying"
     const pendingVerifications = Object.entries(allWallets)
-      .filter(([, wallet]) => wallet.verification_status === 'verifying' && wallet.profile?.id_card_front_url)
+      .filter(([, wallet]) => wallet.verification_status === 'verifying' && wallet.profile?.idCardFrontUrl)
       .map(([userId, wallet]) => ({
         ...wallet,
         user_id: userId, // Ensure user_id is in the object
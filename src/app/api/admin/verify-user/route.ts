@@ -2,9 +2,13 @@ import { NextResponse } from 'next/server';
 import { getWalletByUserId, updateWalletByUserId } from '@/lib/wallet';
 import { addNotification } from '@/lib/notifications';
 import { logModeratorAction } from '@/lib/moderator';
+import { requireStaff } from '@/lib/route-guard';
 
 export async function POST(request: Request) {
   try {
+    const access = await requireStaff(request, 'user_verification');
+    if (access.denied) return access.denied;
+
     const { userId } = await request.json();
     if (!userId) {
       return NextResponse.json({ error: 'User ID is required' }, { status: 400 });
@@ -18,11 +22,7 @@ export async function POST(request: Request) {
     // Update wallet data
     const updatedWalletData = {
       ...wallet,
-      verification_status: 'verified',
-      profile: {
-        ...wallet.profile,
-        verificationStatus: 'verified',
-      },
+      verification_status: 'verified' as const,
     };
     
     await updateWalletByUserId(userId, updatedWalletData);
@@ -35,7 +35,7 @@ export async function POST(request: Request) {
     });
 
     // Log the action
-    await logModeratorAction(`Manually approved verification for user ${wallet.profile.username || userId}.`);
+    await logModeratorAction(`Manually approved verification for user ${wallet.profile.username || userId}.`, access.session.userId, { userId });
 
     return NextResponse.json({ message: 'User verified successfully' });
   } catch (error: any) {
@@ -1,12 +1,16 @@
 
 import { NextResponse } from 'next/server';
-import { getAllWallets } from '@/lib/wallet';
+import { getAllWallets, redactWallet } from '@/lib/wallet';
+import { requireStaff } from '@/lib/route-guard';
 
 export async function POST(request: Request) {
   try {
+    const access = await requireStaff(request, 'customer_support');
+    if (access.denied) return access.denied;
+
     const wallets = await getAllWallets();
     const mappedWallets = Object.entries(wallets).map(([userId, walletData]) => ({
-        ...walletData,
+        ...redactWallet(walletData),
         user_id: userId,
     }));
     const walletsRecord = mappedWallets.reduce((acc, wallet) => {
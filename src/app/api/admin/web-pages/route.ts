@@ -1,8 +1,8 @@
 import { NextResponse } from 'next/server';
-import * as fs from 'fs/promises';
-import * as path from 'path';
+import { dataFilePath, readDataFile, writeDataFile, withFileTransaction } from '@/lib/data-file';
+import { requireAdmin } from '@/lib/route-guard';
 
-const WEB_PAGES_FILE = path.join(process.cwd(), 'data', 'web-pages.json');
+const WEB_PAGES_FILE = dataFilePath('web-pages.json');
 
 interface PageContent {
   id: string;
@@ -29,78 +29,71 @@ interface WebPage {
   content: PageContent[];
 }
 
-async function readWebPages(): Promise<WebPage[]> {
-  try {
-    const data = await fs.readFile(WEB_PAGES_FILE, 'utf-8');
-    return JSON.parse(data);
-  } catch (error) {
-    // Return default pages if file doesn't exist
-    const defaultPages: WebPage[] = [
-      {
-        id: 'welcome',
-        name: 'Welcome Page',
-        route: '/',
-        title: 'AstralCore - Quantum Trading Platform',
-        description: 'Main landing page with hero section and features',
-        lastModified: new Date().toISOString(),
-        status: 'published',
-        content: [
-          {
-            id: 'hero-title',
-            pageId: 'welcome',
-            section: 'hero',
-            type: 'text',
-            content: 'AstralCore',
-            metadata: {
-              className: 'text-6xl sm:text-8xl lg:text-9xl font-black bg-gradient-to-r from-indigo-400 via-purple-400 via-violet-400 to-cyan-400 bg-clip-text text-transparent'
-            }
-          },
-          {
-            id: 'hero-subtitle',
-            pageId: 'welcome',
-            section: 'hero',
-            type: 'text',
-            content: 'Quantum Hyperdrive v5.0',
-            metadata: {
-              className: 'text-xl sm:text-2xl text-indigo-300 font-medium tracking-[0.3em] uppercase'
-            }
-          },
-          {
-            id: 'hero-description',
-            pageId: 'welcome',
-            section: 'hero',
-            type: 'text',
-            content: 'Experience the next evolution in trading technology. Our Quantum Hyperdrive processes infinite market possibilities to generate autonomous wealth through advanced neural algorithms.',
-            metadata: {
-              className: 'text-xl sm:text-2xl lg:text-3xl text-gray-200 max-w-4xl mx-auto leading-relaxed'
-            }
+// Pages used to seed data/web-pages.json when it does not exist yet
+function defaultWebPages(): WebPage[] {
+  return [
+    {
+      id: 'welcome',
+      name: 'Welcome Page',
+      route: '/',
+      title: 'AstralCore - Quantum Trading Platform',
+      description: 'Main landing page with hero section and features',
+      lastModified: new Date().toISOString(),
+      status: 'published',
+      content: [
+        {
+          id: 'hero-title',
+          pageId: 'welcome',
+          section: 'hero',
+          type: 'text',
+          content: 'AstralCore',
+          metadata: {
+            className: 'text-6xl sm:text-8xl lg:text-9xl font-black bg-gradient-to-r from-indigo-400 via-purple-400 via-violet-400 to-cyan-400 bg-clip-text text-transparent'
           }
-        ]
-      }
-    ];
-    
-    // Create the file with default data
-    await writeWebPages(defaultPages);
-    return defaultPages;
-  }
+        },
+        {
+          id: 'hero-subtitle',
+          pageId: 'welcome',
+          section: 'hero',
+          type: 'text',
+          content: 'Quantum Hyperdrive v5.0',
+          metadata: {
+            className: 'text-xl sm:text-2xl text-indigo-300 font-medium tracking-[0.3em] uppercase'
+          }
+        },
+        {
+          id: 'hero-description',
+          pageId: 'welcome',
+          section: 'hero',
+          type: 'text',
+          content: 'Experience the next evolution in trading technology. Our Quantum Hyperdrive processes infinite market possibilities to generate autonomous wealth through advanced neural algorithms.',
+          metadata: {
+            className: 'text-xl sm:text-2xl lg:text-3xl text-gray-200 max-w-4xl mx-auto leading-relaxed'
+          }
+        }
+      ]
+    }
+  ];
 }
 
-async function writeWebPages(pages: WebPage[]): Promise<void> {
-  const dataDir = path.join(process.cwd(), 'data');
-  
-  // Ensure data directory exists
-  try {
-    await fs.access(dataDir);
-  } catch {
-    await fs.mkdir(dataDir, { recursive: true });
+async function readWebPages(): Promise<WebPage[]> {
+  const pages = await readDataFile<WebPage[] | null>(WEB_PAGES_FILE, null);
+  if (pages) {
+    return pages;
   }
-  
-  await fs.writeFile(WEB_PAGES_FILE, JSON.stringify(pages, null, 2), 'utf-8');
+
+  // Create the file with default data
+  const defaultPages = defaultWebPages();
+  await writeDataFile(WEB_PAGES_FILE, defaultPages);
+  return defaultPages;
 }
 
 // GET - Fetch all web pages
-export async function GET() {
+export async function GET(request: Request) {
   try {
+    const access = await requireAdmin(request);
+    if (access.denied) return access.denied;
+
     const pages = await readWebPages();
     return NextResponse.json({ pages });
   } catch (error: any) {
@@ -115,6 +108,9 @@ export async function GET() {
 // POST - Update web page content
 export async function POST(request: Request) {
   try {
+    const access = await requireAdmin(request);
+    if (access.denied) return access.denied;
+
     const body = await request.json();
     const { pageId, content, pageSettings } = body;
 
@@ -125,38 +121,37 @@ export async function POST(request: Request) {
       );
     }
 
-    const pages = await readWebPages();
-    const pageIndex = pages.findIndex(page => page.id === pageId);
-
-    if (pageIndex === -1) {
-      return NextResponse.json(
-        { error: 'Page not found' },
-        { status: 404 }
-      );
-    }
+    return await withFileTransaction<WebPage[], NextResponse>(WEB_PAGES_FILE, pages => {
+      const pageIndex = pages.findIndex(page => page.id === pageId);
 
-    // Update page content if provided
-    if (content) {
-      pages[pageIndex].content = content;
-    }
+      if (pageIndex === -1) {
+        return NextResponse.json(
+          { error: 'Page not found' },
+          { status: 404 }
+        );
+      }
 
-    // Update page settings if provided
-    if (pageSettings) {
-      pages[pageIndex] = {
-        ...pages[pageIndex],
-        ...pageSettings
-      };
-    }
+      // Update page content if provided
+      if (content) {
+        pages[pageIndex].content = content;
+      }
 
-    pages[pageIndex].lastModified = new Date().toISOString();
+      // Update page settings if provided
+      if (pageSettings) {
+        pages[pageIndex] = {
+          ...pages[pageIndex],
+          ...pageSettings
+        };
+      }
 
-    await writeWebPages(pages);
+      pages[pageIndex].lastModified = new Date().toISOString();
 
-    return NextResponse.json({
-      success: true,
-      message: 'Page updated successfully',
-      page: pages[pageIndex]
-    });
+      return NextResponse.json({
+        success: true,
+        message: 'Page updated successfully',
+        page: pages[pageIndex]
+      });
+    }, defaultWebPages());
   } catch (error: any) {
     console.error('Error updating web page:', error);
     return NextResponse.json(
@@ -169,6 +164,9 @@ export async function POST(request: Request) {
 // PUT - Create new web page
 export async function PUT(request: Request) {
   try {
+    const access = await requireAdmin(request);
+    if (access.denied) return access.denied;
+
     const body = await request.json();
     const { name, route, title, description } = body;
 
@@ -179,35 +177,34 @@ export async function PUT(request: Request) {
       );
     }
 
-    const pages = await readWebPages();
-
-    // Check if route already exists
-    if (pages.some(page => page.route === route)) {
-      return NextResponse.json(
-        { error: 'A page with this route already exists' },
-        { status: 400 }
-      );
-    }
+    return await withFileTransaction<WebPage[], NextResponse>(WEB_PAGES_FILE, pages => {
+      // Check if route already exists
+      if (pages.some(page => page.route === route)) {
+        return NextResponse.json(
+          { error: 'A page with this route already exists' },
+          { status: 400 }
+        );
+      }
 
-    const newPage: WebPage = {
-      id: `page-${Date.now()}`,
-      name,
-      route,
-      title: title || name,
-      description: description || '',
-      lastModified: new Date().toISOString(),
-      status: 'draft',
-      content: []
-    };
+      const newPage: WebPage = {
+        id: `page-${Date.now()}`,
+        name,
+        route,
+        title: title || name,
+        description: description || '',
+        lastModified: new Date().toISOString(),
+        status: 'draft',
+        content: []
+      };
 
-    pages.push(newPage);
-    await writeWebPages(pages);
+      pages.push(newPage);
 
-    return NextResponse.json({
-      success: true,
-      message: 'Page created successfully',
-      page: newPage
-    });
+      return NextResponse.json({
+        success: true,
+        message: 'Page created successfully',
+        page: newPage
+      });
+    }, defaultWebPages());
   } catch (error: any) {
     console.error('Error creating web page:', error);
     return NextResponse.json(
@@ -220,6 +217,9 @@ export async function PUT(request: Request) {
 // DELETE - Delete web page
 export async function DELETE(request: Request) {
   try {
+    const access = await requireAdmin(request);
+    if (access.denied) return access.denied;
+
     const { searchParams } = new URL(request.url);
     const pageId = searchParams.get('pageId');
 
@@ -230,22 +230,23 @@ export async function DELETE(request: Request) {
       );
     }
 
-    const pages = await readWebPages();
-    const filteredPages = pages.filter(page => page.id !== pageId);
+    return await withFileTransaction<WebPage[], NextResponse>(WEB_PAGES_FILE, (pages, replace) => {
+      const filteredPages = pages.filter(page => page.id !== pageId);
 
-    if (filteredPages.length === pages.length) {
-      return NextResponse.json(
-        { error: 'Page not found' },
-        { status: 404 }
-      );
-    }
+      if (filteredPages.length === pages.length) {
+        return NextResponse.json(
+          { error: 'Page not found' },
+          { status: 404 }
+        );
+      }
 
-    await writeWebPages(filteredPages);
+      replace(filteredPages);
 
-    return NextResponse.json({
-      success: true,
-      message: 'Page deleted successfully'
-    });
+      return NextResponse.json({
+        success: true,
+        message: 'Page deleted successfully'
+      });
+    }, defaultWebPages());
   } catch (error: any) {
     console.error('Error deleting web page:', error);
     return NextResponse.json(
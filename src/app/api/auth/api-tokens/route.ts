@@ -0,0 +1,54 @@
+import { NextResponse } from 'next/server';
+import { createApiToken, listApiTokens, revokeApiToken } from '@/lib/api-tokens';
+import { getSessionUser } from '@/lib/session';
+
+// Personal API tokens of the signed-in user. Managing tokens needs a browser
+// session; a token cannot create or revoke tokens.
+export async function GET() {
+  try {
+    const session = await getSessionUser();
+    if (!session) {
+      return NextResponse.json({ error: 'Authentication required' }, { status: 401 });
+    }
+    return NextResponse.json({ tokens: await listApiTokens(session.userId) });
+  } catch (error: any) {
+    return NextResponse.json({ error: error.message || 'An unexpected error occurred.' }, { status: 500 });
+  }
+}
+
+// Creates a token. The token itself is only returned here, once.
+export async function POST(request: Request) {
+  try {
+    const session = await getSessionUser();
+    if (!session) {
+      return NextResponse.json({ error: 'Authentication required' }, { status: 401 });
+    }
+
+    const { name, scopes, lifetimeDays } = await request.json();
+    const result = await createApiToken(session.userId, { name, scopes, lifetimeDays });
+    if ('error' in result) {
+      return NextResponse.json({ error: result.error }, { status: 400 });
+    }
+    return NextResponse.json({ token: result.token, info: result.info });
+  } catch (error: any) {
+    return NextResponse.json({ error: error.message || 'An unexpected error occurred.' }, { status: 500 });
+  }
+}
+
+// DELETE /api/auth/api-tokens?id=... revokes a token.
+export async function DELETE(request: Request) {
+  try {
+    const session = await getSessionUser();
+    if (!session) {
+      return NextResponse.json({ error: 'Authentication required' }, { status: 401 });
+    }
+
+    const id = new URL(request.url).searchParams.get('id');
+    if (!id || !(await revokeApiToken(session.userId, id))) {
+      return NextResponse.json({ error: 'Token not found.' }, { status: 404 });
+    }
+    return NextResponse.json({ success: true });
+  } catch (error: any) {
+    return NextResponse.json({ error: error.message || 'An unexpected error occurred.' }, { status: 500 });
+  }
+}
@@ -0,0 +1,34 @@
+import { NextResponse } from 'next/server';
+import { changePassword } from '@/lib/auth-server';
+import { getSessionUser } from '@/lib/session';
+
+// Changes the signed-in user's password; the current session stays signed in.
+export async function POST(request: Request) {
+  try {
+    const session = await getSessionUser();
+    if (!session) {
+      return NextResponse.json({ error: 'Authentication required' }, { status: 401 });
+    }
+
+    const { currentPassword, newPassword } = await request.json();
+    if (typeof currentPassword !== 'string' || typeof newPassword !== 'string') {
+      return NextResponse.json({ error: 'Current and new password are required' }, { status: 400 });
+    }
+
+    const result = await changePassword(session.userId, {
+      currentPassword,
+      newPassword,
+      keepSessionId: session.sessionId,
+    });
+    if (result.error) {
+      return NextResponse.json({ error: result.error }, { status: 400 });
+    }
+    return NextResponse.json({
+      success: true,
+      message: 'Password changed. Your other sessions have been signed out.',
+      revokedSessions: result.revokedSessions,
+    });
+  } catch (error: any) {
+    return NextResponse.json({ error: error.message || 'An unexpected error occurred.' }, { status: 500 });
+  }
+}
@@ -0,0 +1,20 @@
+import { NextResponse } from 'next/server';
+import { cancelEmailChange } from '@/lib/email-change';
+
+// Used by the cancel link emailed to the current address; needs no session.
+export async function POST(request: Request) {
+  try {
+    const { userId, token } = await request.json();
+    if (typeof userId !== 'string' || typeof token !== 'string' || !userId || !token) {
+      return NextResponse.json({ error: 'Invalid cancel link' }, { status: 400 });
+    }
+
+    const result = await cancelEmailChange(userId, token);
+    if (result.error) {
+      return NextResponse.json({ error: result.error }, { status: 404 });
+    }
+    return NextResponse.json({ success: true, message: 'The email change has been cancelled.' });
+  } catch (error: any) {
+    return NextResponse.json({ error: error.message || 'An unexpected error occurred.' }, { status: 500 });
+  }
+}
@@ -0,0 +1,26 @@
+import { NextResponse } from 'next/server';
+import { confirmEmailChange } from '@/lib/email-change';
+import { getSessionUser } from '@/lib/session';
+
+// Completes a change with the code sent to the new address.
+export async function POST(request: Request) {
+  try {
+    const session = await getSessionUser();
+    if (!session) {
+      return NextResponse.json({ error: 'Authentication required' }, { status: 401 });
+    }
+
+    const { code } = await request.json();
+    if (typeof code !== 'string' || !code) {
+      return NextResponse.json({ error: 'Confirmation code is required' }, { status: 400 });
+    }
+
+    const result = await confirmEmailChange(session.userId, code);
+    if (result.error) {
+      return NextResponse.json({ error: result.error }, { status: result.tooManyAttempts ? 429 : 400 });
+    }
+    return NextResponse.json({ success: true, email: result.email, message: 'Your email address has been changed.' });
+  } catch (error: any) {
+    return NextResponse.json({ error: error.message || 'An unexpected error occurred.' }, { status: 500 });
+  }
+}
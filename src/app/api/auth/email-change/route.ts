@@ -0,0 +1,57 @@
+import { NextResponse } from 'next/server';
+import { cancelEmailChange, getEmailChangeStatus, requestEmailChange } from '@/lib/email-change';
+import { env } from '@/lib/env';
+import { getSessionUser } from '@/lib/session';
+
+// The signed-in user's pending email change, if any.
+export async function GET() {
+  try {
+    const session = await getSessionUser();
+    if (!session) {
+      return NextResponse.json({ error: 'Authentication required' }, { status: 401 });
+    }
+    return NextResponse.json({ email: session.email, pending: await getEmailChangeStatus(session.userId) });
+  } catch (error: any) {
+    return NextResponse.json({ error: error.message || 'An unexpected error occurred.' }, { status: 500 });
+  }
+}
+
+// Starts a change: emails a code to the new address and a cancel link to the current one.
+export async function POST(request: Request) {
+  try {
+    const session = await getSessionUser();
+    if (!session) {
+      return NextResponse.json({ error: 'Authentication required' }, { status: 401 });
+    }
+
+    const { newEmail, password } = await request.json();
+    const result = await requestEmailChange(session.userId, {
+      newEmail,
+      password: typeof password === 'string' ? password : '',
+      baseUrl: env.NEXT_PUBLIC_APP_URL || new URL(request.url).origin,
+    });
+    if (result.error) {
+      return NextResponse.json({ error: result.error }, { status: 400 });
+    }
+    return NextResponse.json({ success: true, pending: result.status });
+  } catch (error: any) {
+    return NextResponse.json({ error: error.message || 'An unexpected error occurred.' }, { status: 500 });
+  }
+}
+
+export async function DELETE() {
+  try {
+    const session = await getSessionUser();
+    if (!session) {
+      return NextResponse.json({ error: 'Authentication required' }, { status: 401 });
+    }
+
+    const result = await cancelEmailChange(session.userId);
+    if (result.error) {
+      return NextResponse.json({ error: result.error }, { status: 404 });
+    }
+    return NextResponse.json({ success: true });
+  } catch (error: any) {
+    return NextResponse.json({ error: error.message || 'An unexpected error occurred.' }, { status: 500 });
+  }
+}
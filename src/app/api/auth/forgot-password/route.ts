@@ -13,18 +13,11 @@ export async function POST(request: Request) {
       );
     }
 
-    const error = await resetPasswordForEmail(email);
-
-    if (error) {
-      return NextResponse.json(
-        { error },
-        { status: 400 }
-      );
-    }
+    const result = await resetPasswordForEmail(email);
 
     return NextResponse.json({
       success: true,
-      message: 'Password reset instructions have been sent to your email.'
+      message: result.message
     });
   } catch (error: any) {
     console.error('Forgot password error:', error);
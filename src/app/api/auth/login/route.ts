@@ -1,7 +1,11 @@
-import { NextResponse } from 'next/server';
+import { NextRequest, NextResponse } from 'next/server';
 import { login } from '@/lib/auth-server';
+import { recordLoginSuccess, recordSignIn } from '@/lib/login-protection';
+import { getClientIP } from '@/lib/security';
+import { createSession, SESSION_COOKIE, SESSION_COOKIE_OPTIONS } from '@/lib/session';
+import { createLoginChallenge } from '@/lib/two-factor';
 
-export async function POST(request: Request) {
+export async function POST(request: NextRequest) {
   try {
     // Ensure we can read the body
     let body;
@@ -25,31 +29,41 @@ export async function POST(request: Request) {
 
     const result = await login({ email, password });
 
-    if (result.error) {
+    if (result.retryAfter) {
+      return NextResponse.json(
+        { error: result.error, retryAfter: result.retryAfter },
+        { status: 429, headers: { 'Retry-After': String(result.retryAfter) } }
+      );
+    }
+
+    if (result.error || !result.user) {
       return NextResponse.json(
         { error: result.error },
         { status: 401 }
       );
     }
 
-    // In a real app, you would set secure HTTP-only cookies here
+    // With 2FA the session is only created by /api/auth/login/two-factor
+    const challenge = await createLoginChallenge(result.user.id);
+    if (challenge) {
+      return NextResponse.json(challenge);
+    }
+
+    await recordLoginSuccess(result.user.id);
+    const sessionValue = await createSession({
+      userId: result.user.id,
+      email: result.user.email,
+      role: result.user.role
+    });
+    await recordSignIn(result.user.id, { ip: getClientIP(request), userAgent: request.headers.get('user-agent') || undefined });
+
     const response = NextResponse.json({
       success: true,
       role: result.role,
       message: 'Login successful'
     });
 
-    // Set mock session cookie
-    response.cookies.set('astralcore-session', JSON.stringify({
-      email,
-      role: result.role,
-      timestamp: Date.now()
-    }), {
-      httpOnly: true,
-      secure: process.env.NODE_ENV === 'production',
-      sameSite: 'lax',
-      maxAge: 60 * 60 * 24 * 7 // 7 days
-    });
+    response.cookies.set(SESSION_COOKIE, sessionValue, SESSION_COOKIE_OPTIONS);
 
     return response;
   } catch (error: any) {
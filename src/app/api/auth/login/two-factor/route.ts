@@ -0,0 +1,42 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getUserById } from '@/lib/auth-server';
+import { recordLoginSuccess, recordSignIn } from '@/lib/login-protection';
+import { getClientIP } from '@/lib/security';
+import { createSession, SESSION_COOKIE, SESSION_COOKIE_OPTIONS } from '@/lib/session';
+import { completeLoginChallenge } from '@/lib/two-factor';
+
+// Second step of signing in: answers the challenge returned by /api/auth/login
+// with an authenticator or backup code and starts the session.
+export async function POST(request: NextRequest) {
+  try {
+    const { challengeToken, code } = await request.json();
+    if (typeof challengeToken !== 'string' || typeof code !== 'string') {
+      return NextResponse.json({ error: 'Challenge token and code are required' }, { status: 400 });
+    }
+
+    const result = await completeLoginChallenge(challengeToken, code);
+    if ('error' in result) {
+      return NextResponse.json({ error: result.error }, { status: 401 });
+    }
+
+    const user = await getUserById(result.userId);
+    if (!user || !user.isActive) {
+      return NextResponse.json({ error: 'Account is deactivated. Please contact support.' }, { status: 401 });
+    }
+
+    await recordLoginSuccess(user.id);
+    const sessionValue = await createSession({ userId: user.id, email: user.email, role: user.role });
+    await recordSignIn(user.id, { ip: getClientIP(request), userAgent: request.headers.get('user-agent') || undefined });
+    const response = NextResponse.json({
+      success: true,
+      role: user.role,
+      message: 'Login successful',
+      backupCodes: result.backupCodes,
+    });
+    response.cookies.set(SESSION_COOKIE, sessionValue, SESSION_COOKIE_OPTIONS);
+    return response;
+  } catch (error: any) {
+    console.error('Two-factor login error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -1,14 +1,20 @@
 import { NextResponse } from 'next/server';
+import { getSessionUser, revokeSession, SESSION_COOKIE } from '@/lib/session';
 
 export async function POST() {
   try {
+    const session = await getSessionUser();
+    if (session) {
+      await revokeSession(session.sessionId);
+    }
+
     const response = NextResponse.json({
       success: true,
       message: 'Logged out successfully'
     });
 
     // Clear the session cookie
-    response.cookies.delete('astralcore-session');
+    response.cookies.delete(SESSION_COOKIE);
 
     return response;
   } catch (error: any) {
@@ -35,7 +35,6 @@ export async function POST(request: Request) {
       );
     }
 
-    // In a real app, you would send a verification email here
     const response = NextResponse.json({
       success: true,
       message: 'Registration successful! Please check your email for verification instructions.',
@@ -13,19 +13,12 @@ export async function POST(request: Request) {
       );
     }
 
-    if (newPassword.length < 8) {
-      return NextResponse.json(
-        { error: 'Password must be at least 8 characters long' },
-        { status: 400 }
-      );
-    }
-
     const result = await resetPassword(email, resetCode, newPassword);
 
     if (result.error) {
       return NextResponse.json(
         { error: result.error },
-        { status: 400 }
+        { status: result.tooManyAttempts ? 429 : 400 }
       );
     }
 
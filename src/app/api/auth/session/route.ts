@@ -1,10 +1,11 @@
 import { NextResponse } from 'next/server';
 import { cookies } from 'next/headers';
+import { getSessionUser, SESSION_COOKIE } from '@/lib/session';
 
 export async function GET() {
   try {
     const cookieStore = await cookies();
-    const sessionCookie = cookieStore.get('astralcore-session');
+    const sessionCookie = cookieStore.get(SESSION_COOKIE);
 
     if (!sessionCookie) {
       return NextResponse.json(
@@ -13,37 +14,25 @@ export async function GET() {
       );
     }
 
-    try {
-      const session = JSON.parse(sessionCookie.value);
-      
-      // Check if session is expired (7 days)
-      const maxAge = 60 * 60 * 24 * 7 * 1000; // 7 days in milliseconds
-      if (Date.now() - session.timestamp > maxAge) {
-        // Clear expired session cookie
-        const response = NextResponse.json(
-          { authenticated: false, user: null },
-          { status: 200 }
-        );
-        response.cookies.delete('astralcore-session');
-        return response;
-      }
-
-      return NextResponse.json({
-        authenticated: true,
-        user: {
-          email: session.email,
-          role: session.role
-        }
-      });
-    } catch (parseError) {
-      // Clear invalid session cookie
+    const session = await getSessionUser();
+    if (!session) {
+      // Clear expired, revoked or forged session cookie
       const response = NextResponse.json(
         { authenticated: false, user: null },
         { status: 200 }
       );
-      response.cookies.delete('astralcore-session');
+      response.cookies.delete(SESSION_COOKIE);
       return response;
     }
+
+    return NextResponse.json({
+      authenticated: true,
+      user: {
+        id: session.userId,
+        email: session.email,
+        role: session.role
+      }
+    });
   } catch (error: any) {
     console.error('Session validation error:', error);
     return NextResponse.json(
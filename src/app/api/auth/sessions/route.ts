@@ -0,0 +1,47 @@
+import { NextResponse } from 'next/server';
+import { getSessionUser, listUserSessions, revokeSession, revokeUserSessions, SESSION_COOKIE } from '@/lib/session';
+
+// Active sessions of the signed-in user.
+export async function GET() {
+  try {
+    const session = await getSessionUser();
+    if (!session) {
+      return NextResponse.json({ error: 'Authentication required' }, { status: 401 });
+    }
+
+    const sessions = await listUserSessions(session.userId, session.sessionId);
+    return NextResponse.json({ sessions });
+  } catch (error: any) {
+    return NextResponse.json({ error: error.message || 'An unexpected error occurred.' }, { status: 500 });
+  }
+}
+
+// DELETE /api/auth/sessions?id=ses_... signs out one session;
+// without an id every session of the user is signed out, this one included.
+export async function DELETE(request: Request) {
+  try {
+    const session = await getSessionUser();
+    if (!session) {
+      return NextResponse.json({ error: 'Authentication required' }, { status: 401 });
+    }
+
+    const id = new URL(request.url).searchParams.get('id');
+    if (id) {
+      const sessions = await listUserSessions(session.userId);
+      if (!sessions.some(candidate => candidate.id === id)) {
+        return NextResponse.json({ error: 'Session not found.' }, { status: 404 });
+      }
+      await revokeSession(id);
+    } else {
+      await revokeUserSessions(session.userId);
+    }
+
+    const response = NextResponse.json({ success: true });
+    if (!id || id === session.sessionId) {
+      response.cookies.delete(SESSION_COOKIE);
+    }
+    return response;
+  } catch (error: any) {
+    return NextResponse.json({ error: error.message || 'An unexpected error occurred.' }, { status: 500 });
+  }
+}
@@ -0,0 +1,34 @@
+import { NextResponse } from 'next/server';
+import { acceptStaffInvite, getStaffInviteByToken } from '@/lib/staff';
+
+// GET /api/auth/staff-setup?token=... describes the invite behind a setup link.
+export async function GET(request: Request) {
+  try {
+    const token = new URL(request.url).searchParams.get('token');
+    const invite = token ? await getStaffInviteByToken(token) : null;
+    if (!invite) {
+      return NextResponse.json({ error: 'This setup link is invalid or has expired.' }, { status: 404 });
+    }
+    return NextResponse.json({ email: invite.email, role: invite.role, fullName: invite.fullName });
+  } catch (error: any) {
+    return NextResponse.json({ error: error.message || 'An unexpected error occurred.' }, { status: 500 });
+  }
+}
+
+// Creates the staff account and uses the invite up.
+export async function POST(request: Request) {
+  try {
+    const { token, password, fullName } = await request.json();
+    if (typeof token !== 'string' || typeof password !== 'string') {
+      return NextResponse.json({ error: 'Token and password are required.' }, { status: 400 });
+    }
+
+    const result = await acceptStaffInvite(token, { password, fullName });
+    if ('error' in result) {
+      return NextResponse.json(result, { status: 400 });
+    }
+    return NextResponse.json({ success: true, ...result });
+  } catch (error: any) {
+    return NextResponse.json({ error: error.message || 'An unexpected error occurred.' }, { status: 500 });
+  }
+}
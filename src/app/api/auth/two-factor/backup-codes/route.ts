@@ -0,0 +1,26 @@
+import { NextResponse } from 'next/server';
+import { getSessionUser } from '@/lib/session';
+import { regenerateBackupCodes } from '@/lib/two-factor';
+
+// Replaces the backup codes; needs an authenticator code.
+export async function POST(request: Request) {
+  try {
+    const session = await getSessionUser();
+    if (!session) {
+      return NextResponse.json({ error: 'Authentication required' }, { status: 401 });
+    }
+
+    const { code } = await request.json();
+    if (typeof code !== 'string' || !code) {
+      return NextResponse.json({ error: 'A two-factor code is required.' }, { status: 400 });
+    }
+
+    const result = await regenerateBackupCodes(session.userId, code);
+    if ('error' in result && result.error) {
+      return NextResponse.json({ error: result.error }, { status: 400 });
+    }
+    return NextResponse.json({ success: true, ...result });
+  } catch (error: any) {
+    return NextResponse.json({ error: error.message || 'An unexpected error occurred.' }, { status: 500 });
+  }
+}
@@ -0,0 +1,20 @@
+import { NextResponse } from 'next/server';
+import { getSessionUser } from '@/lib/session';
+import { getTwoFactorStatus } from '@/lib/two-factor';
+
+export async function GET() {
+  try {
+    const session = await getSessionUser();
+    if (!session) {
+      return NextResponse.json({ error: 'Authentication required' }, { status: 401 });
+    }
+
+    const status = await getTwoFactorStatus(session.userId);
+    if (!status) {
+      return NextResponse.json({ error: 'User not found.' }, { status: 404 });
+    }
+    return NextResponse.json(status);
+  } catch (error: any) {
+    return NextResponse.json({ error: error.message || 'An unexpected error occurred.' }, { status: 500 });
+  }
+}
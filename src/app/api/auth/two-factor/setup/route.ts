@@ -0,0 +1,22 @@
+import { NextResponse } from 'next/server';
+import { getSessionUser } from '@/lib/session';
+import { beginTwoFactorSetup } from '@/lib/two-factor';
+
+// Returns a new secret and its otpauth:// URI for the QR code. 2FA is only
+// switched on once /api/auth/two-factor/enable confirms a code for it.
+export async function POST() {
+  try {
+    const session = await getSessionUser();
+    if (!session) {
+      return NextResponse.json({ error: 'Authentication required' }, { status: 401 });
+    }
+
+    const result = await beginTwoFactorSetup(session.userId);
+    if ('error' in result) {
+      return NextResponse.json({ error: result.error }, { status: 400 });
+    }
+    return NextResponse.json(result);
+  } catch (error: any) {
+    return NextResponse.json({ error: error.message || 'An unexpected error occurred.' }, { status: 500 });
+  }
+}
@@ -0,0 +1,28 @@
+import { NextResponse } from 'next/server';
+import { resendVerificationEmail } from '@/lib/auth-server';
+
+export async function POST(request: Request) {
+  try {
+    const { email } = await request.json();
+
+    if (!email) {
+      return NextResponse.json(
+        { error: 'Email is required' },
+        { status: 400 }
+      );
+    }
+
+    const result = await resendVerificationEmail(email);
+
+    return NextResponse.json({
+      success: true,
+      message: result.message
+    });
+  } catch (error: any) {
+    console.error('Resend verification error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
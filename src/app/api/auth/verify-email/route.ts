@@ -18,7 +18,7 @@ export async function POST(request: Request) {
     if (result.error) {
       return NextResponse.json(
         { error: result.error },
-        { status: 400 }
+        { status: result.tooManyAttempts ? 429 : 400 }
       );
     }
 
@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { getOrCreateWallet } from '@/lib/wallet';
+import { getSessionUser } from '@/lib/session';
+import { getWalletByUserId } from '@/lib/wallet';
 import { getUserRank } from '@/lib/ranks';
 import { getCurrentTier } from '@/lib/tiers';
 import { getBotTierSettingsServer } from '@/lib/tiers-server';
@@ -30,15 +31,21 @@ export async function GET() {
 export async function POST(request: NextRequest) {
   try {
     const body = await request.json();
-    const { userId, text, rank, tier } = body;
+    const { text, rank, tier } = body;
 
-    if (!userId || !text) {
+    const session = await getSessionUser();
+    if (!session) {
+      return NextResponse.json({ error: 'Authentication required' }, { status: 401 });
+    }
+    const userId = session.userId;
+
+    if (!text) {
       return NextResponse.json({ error: 'Missing required fields' }, { status: 400 });
     }
 
     // Get user wallet data for display name
-    const wallet = await getOrCreateWallet(userId);
-    const displayName = wallet?.profile?.displayName || wallet?.profile?.username || `User${userId.slice(-4)}`;
+    const wallet = await getWalletByUserId(userId);
+    const displayName = wallet?.profile?.username || `User${userId.slice(-4)}`;
 
     const newMessage = {
       id: `msg_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
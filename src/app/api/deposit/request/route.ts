@@ -1,48 +1,19 @@
 
 import { NextResponse } from 'next/server';
-import { getWalletByUserId, updateWalletByUserId } from '@/lib/wallet';
+import { getSessionUser } from '@/lib/session';
+import { withIdempotency } from '@/lib/idempotency';
+import type { PendingDeposit } from '@/lib/wallet';
+import { getWalletStore } from '@/lib/wallet-store';
 import { addNotification } from '@/lib/notifications';
 import { logModeratorAction } from '@/lib/moderator'; // Assuming an admin notification function exists here
 
 export async function POST(request: Request) {
   try {
-    const { userId, amount, asset } = await request.json();
-    if (!userId || !amount || !asset) {
-      return NextResponse.json({ error: 'Missing required fields' }, { status: 400 });
+    const session = await getSessionUser();
+    if (!session) {
+      return NextResponse.json({ error: 'Authentication required' }, { status: 401 });
     }
-    
-    const wallet = await getWalletByUserId(userId);
-    if (!wallet) {
-        return NextResponse.json({ error: 'User wallet not found.' }, { status: 404 });
-    }
-
-    const newDepositRequest = {
-        id: `dep_${crypto.randomUUID()}`,
-        amount: parseFloat(amount),
-        asset,
-        timestamp: new Date().toISOString(),
-        status: 'pending',
-    };
-    
-    const updatedWalletData = {
-        ...wallet,
-        pending_deposits: [...(wallet.pending_deposits || []), newDepositRequest],
-    };
-    
-    await updateWalletByUserId(userId, updatedWalletData);
-    
-    await addNotification(userId, {
-        title: "Deposit Request Received",
-        content: `Your request to deposit ${amount} ${asset.toUpperCase()} is pending approval.`,
-        href: "/dashboard/deposit",
-    });
-
-    // Notify admins/mods
-    await logModeratorAction(
-        `New deposit request from ${wallet.profile.username || userId} for ${amount} ${asset.toUpperCase()}.`
-    );
-
-    return NextResponse.json({ success: true, message: 'Deposit request submitted successfully.' });
+    return await withIdempotency(request, session.userId, () => submitDepositRequest(request, session.userId));
   } catch (error: any) {
     return NextResponse.json(
       { error: error.message || 'An unexpected error occurred.' },
@@ -50,3 +21,47 @@ export async function POST(request: Request) {
     );
   }
 }
+
+async function submitDepositRequest(request: Request, userId: string): Promise<NextResponse> {
+  const { amount, asset } = await request.json();
+  if (!amount || !asset || typeof asset !== 'string') {
+    return NextResponse.json({ error: 'Missing required fields' }, { status: 400 });
+  }
+
+  const depositAmount = parseFloat(amount);
+  if (!Number.isFinite(depositAmount) || depositAmount <= 0) {
+    return NextResponse.json({ error: 'Invalid deposit amount.' }, { status: 400 });
+  }
+
+  const timestamp = new Date().toISOString();
+  const newDepositRequest: PendingDeposit = {
+      id: `dep_${crypto.randomUUID()}`,
+      amount: depositAmount,
+      asset,
+      timestamp,
+      status: 'pending',
+      history: [{ status: 'pending', at: timestamp }],
+  };
+
+  const wallet = await getWalletStore().update(userId, current => ({
+      ...current,
+      pending_deposits: [...(current.pending_deposits || []), newDepositRequest],
+  }));
+  if (!wallet) {
+      return NextResponse.json({ error: 'User wallet not found.' }, { status: 404 });
+  }
+
+  await addNotification(userId, {
+      title: "Deposit Request Received",
+      content: `Your request to deposit ${depositAmount} ${asset.toUpperCase()} is pending approval.`,
+      href: "/dashboard/deposit",
+  });
+
+  // Notify admins/mods
+  await logModeratorAction(
+      `New deposit request from ${wallet.profile.username || userId} for ${depositAmount} ${asset.toUpperCase()}.`,
+      userId
+  );
+
+  return NextResponse.json({ success: true, message: 'Deposit request submitted successfully.' });
+}
@@ -0,0 +1,83 @@
+
+import { NextResponse } from 'next/server';
+import { getSessionUser } from '@/lib/session';
+import { getWalletByUserId, redactWallet } from '@/lib/wallet';
+import { getWalletStore } from '@/lib/wallet-store';
+import { getBotTierSettingsServer } from '@/lib/tiers-server';
+import { getCurrentTier } from '@/lib/tiers';
+import { creditUser } from '@/lib/ledger';
+import { getSetting } from '@/lib/settings-store';
+
+const NO_GRIDS_LEFT = 'You have no grids remaining for today.';
+
+async function getMinGridBalance(): Promise<number> {
+  const botSettings = await getSetting('botSettings');
+  return botSettings?.minGridBalance || 0;
+}
+
+// Runs one grid trade for the user: earnings are computed here and booked to the ledger.
+export async function POST() {
+  try {
+    const session = await getSessionUser();
+    if (!session) {
+      return NextResponse.json({ error: 'Authentication required' }, { status: 401 });
+    }
+    const userId = session.userId;
+
+    const [tierSettings, minGridBalance] = await Promise.all([
+      getBotTierSettingsServer(),
+      getMinGridBalance(),
+    ]);
+
+    const tradeId = `grid_${crypto.randomUUID()}`;
+    const timestamp = Date.now();
+    const wallet = await getWalletStore().get(userId);
+    if (!wallet) {
+      return NextResponse.json({ error: 'User wallet not found.' }, { status: 404 });
+    }
+    const balance = wallet.balances?.usdt ?? 0;
+    const currentTier = getCurrentTier(balance, tierSettings);
+    if (!currentTier) {
+      return NextResponse.json({ error: 'No trading tier available.' }, { status: 400 });
+    }
+    if (balance < minGridBalance) {
+      return NextResponse.json({ error: `You need at least $${minGridBalance.toFixed(2)} to run the bot.` }, { status: 400 });
+    }
+
+    // Users with a $0 balance get a small base earning so they can see the bot work
+    const earnings = balance > 0 ? (balance * currentTier.dailyProfit) / currentTier.clicks : 0.05;
+
+    // The grid is used up in the same wallet update that credits its earnings, so parallel trades cannot overspend them
+    try {
+      await creditUser(
+        userId,
+        { type: 'grid_earning', referenceId: tradeId, asset: 'usdt', amount: earnings, actor: userId },
+        current => {
+          if (current.growth.clicksLeft <= 0) throw new Error(NO_GRIDS_LEFT);
+          return {
+            ...current,
+            growth: {
+              ...current.growth,
+              clicksLeft: current.growth.clicksLeft - 1,
+              dailyEarnings: current.growth.dailyEarnings + earnings,
+              earningsHistory: [...current.growth.earningsHistory, { id: tradeId, amount: earnings, timestamp }],
+            },
+          };
+        }
+      );
+    } catch (error: any) {
+      if (error.message === NO_GRIDS_LEFT) {
+        return NextResponse.json({ error: NO_GRIDS_LEFT }, { status: 400 });
+      }
+      throw error;
+    }
+
+    const updatedWallet = await getWalletByUserId(userId);
+    return NextResponse.json({ success: true, earnings, wallet: updatedWallet && redactWallet(updatedWallet) });
+  } catch (error: any) {
+    return NextResponse.json(
+      { error: error.message || 'An unexpected error occurred.' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,17 +1,13 @@
-
 import { NextResponse } from 'next/server';
-
-// Mock implementation as Supabase is removed
-const mockActionLogs = [
-    { id: 'log_1', created_at: new Date(Date.now() - 10 * 60 * 1000).toISOString(), user_id: 'mock-moderator-id', action: 'Replied to support thread for user DefaultUser.', user: { username: 'ModUser' } },
-    { id: 'log_2', created_at: new Date(Date.now() - 60 * 60 * 1000).toISOString(), user_id: 'mock-moderator-id', action: 'Manually approved verification for user AnotherUser.', user: { username: 'ModUser' } },
-];
-
+import { getActionLogs } from '@/lib/moderator';
+import { requireAdmin } from '@/lib/route-guard';
 
 export async function POST(request: Request) {
   try {
-    // In a real app, you would fetch this from your database.
-    return NextResponse.json(mockActionLogs);
+    const access = await requireAdmin(request);
+    if (access.denied) return access.denied;
+
+    return NextResponse.json(await getActionLogs());
   } catch (error: any) {
     return NextResponse.json(
       { error: error.message || 'An unexpected error occurred.' },
@@ -0,0 +1,22 @@
+import { NextResponse } from 'next/server';
+import { getModeratorStatus } from '@/lib/moderator-assignments';
+import { requireRole } from '@/lib/route-guard';
+
+const NO_PERMISSIONS = { customer_support: false, user_verification: false, deposit_approval: false };
+
+// The signed-in moderator's own assignment, used to build the moderator panel.
+export async function GET(request: Request) {
+  try {
+    const access = await requireRole(request, ['moderator']);
+    if (access.denied) return access.denied;
+
+    const assignment = await getModeratorStatus(access.session.userId);
+    const active = assignment?.status === 'active';
+    return NextResponse.json({
+      status: assignment?.status || 'inactive',
+      permissions: active ? assignment.permissions : NO_PERMISSIONS,
+    });
+  } catch (error: any) {
+    return NextResponse.json({ error: error.message || 'An unexpected error occurred.' }, { status: 500 });
+  }
+}
@@ -1,13 +1,14 @@
 
 import { NextResponse } from 'next/server';
 import { clearNotifications } from '@/lib/notifications';
-
-const MOCK_USER_ID = 'mock-user-123';
+import { requireUser } from '@/lib/route-guard';
 
 export async function POST(request: Request) {
   try {
-    // In a real app, you would get the user ID from the session.
-    await clearNotifications(MOCK_USER_ID);
+    const access = await requireUser(request);
+    if (access.denied) return access.denied;
+
+    await clearNotifications(access.session.userId);
     return NextResponse.json({ success: true, message: 'Notifications cleared.' });
   } catch (error: any) {
     return NextResponse.json(
@@ -1,14 +1,23 @@
 
 import { NextResponse } from 'next/server';
+import { getSessionUser } from '@/lib/session';
 import { getWalletByUserId, updateWalletByUserId } from '@/lib/wallet';
+import { addNotification } from '@/lib/notifications';
+import { profileUpdateSchema, walletFieldErrors } from '@/lib/wallet-schema';
 
 export async function POST(request: Request) {
   try {
-    const body = await request.json();
-    const { userId, ...profileData } = body;
-
-    if (!userId) {
-      return NextResponse.json({ error: 'User ID is required' }, { status: 400 });
+    const session = await getSessionUser();
+    if (!session) {
+      return NextResponse.json({ error: 'Authentication required' }, { status: 401 });
+    }
+    const userId = session.userId;
+    const parsed = profileUpdateSchema.safeParse(await request.json());
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: 'Invalid profile data.', fieldErrors: walletFieldErrors(parsed.error) },
+        { status: 400 }
+      );
     }
 
     const wallet = await getWalletByUserId(userId);
@@ -18,15 +27,20 @@ export async function POST(request: Request) {
 
     const updatedWalletData = {
       ...wallet,
-      verification_status: 'verifying',
+      verification_status: 'verifying' as const,
       profile: {
         ...wallet.profile,
-        ...profileData,
-        verificationStatus: 'verifying',
+        ...parsed.data,
+        verificationSubmittedAt: new Date().toISOString(),
       },
     };
     
     await updateWalletByUserId(userId, updatedWalletData);
+    await addNotification(userId, {
+      title: 'Verification in Progress',
+      content: 'Your profile information has been submitted for verification.',
+      href: '/dashboard/profile',
+    });
 
     return NextResponse.json({ success: true, message: 'Profile submitted for verification.' });
   } catch (error: any) {
@@ -1,84 +1,105 @@
 
 import { NextResponse } from 'next/server';
-import { getWalletByUserId, updateWalletByUserId } from '@/lib/wallet';
+import { getSessionUser } from '@/lib/session';
+import { withIdempotency } from '@/lib/idempotency';
+import { getWalletStore } from '@/lib/wallet-store';
 import { getRewardSettings } from '@/lib/rewards';
 import { addNotification } from '@/lib/notifications';
+import { creditUser } from '@/lib/ledger';
+
+const REWARD_ALREADY_CLAIMED = 'Reward already claimed.';
+const REFERRAL_ALREADY_CLAIMED = 'Referral bonus already claimed.';
 
 export async function POST(request: Request) {
   try {
-    const { userId, type, key, referralId } = await request.json();
-
-    if (!userId || !type || !key) {
-      return NextResponse.json({ error: 'Missing required fields' }, { status: 400 });
+    const session = await getSessionUser();
+    if (!session) {
+      return NextResponse.json({ error: 'Authentication required' }, { status: 401 });
     }
+    return await withIdempotency(request, session.userId, () => claimReward(request, session.userId));
+  } catch (error: any) {
+    return NextResponse.json(
+      { error: error.message || 'An unexpected error occurred.' },
+      { status: 500 }
+    );
+  }
+}
 
-    const [wallet, rewardSettings] = await Promise.all([
-      getWalletByUserId(userId),
-      getRewardSettings(),
-    ]);
-    
-    if (!wallet) {
-      return NextResponse.json({ error: 'User wallet not found.' }, { status: 404 });
-    }
+async function claimReward(request: Request, userId: string): Promise<NextResponse> {
+  const { type, key, referralId } = await request.json();
 
-    let bonusAmount = 0;
-    let claimedMessage = '';
-    const claimedAchievements = wallet.claimed_achievements || { ranks: [], tiers: [] };
-    const claimedReferrals = wallet.claimed_referrals || [];
+  if (!type || !key) {
+    return NextResponse.json({ error: 'Missing required fields' }, { status: 400 });
+  }
 
-    if (type === 'rank' || type === 'tier') {
-        const settingsKey = type === 'rank' ? 'rankAchievementBonus' : 'tierAchievementBonus';
-        if (claimedAchievements[type + 's']?.includes(key)) {
-            return NextResponse.json({ error: 'Reward already claimed.' }, { status: 400 });
-        }
-        bonusAmount = rewardSettings[settingsKey] || 0;
-        claimedAchievements[type + 's'].push(key);
-        claimedMessage = `You claimed the ${key} achievement bonus!`;
-    } else if (type === 'referral') {
-        if (claimedReferrals.includes(referralId)) {
-            return NextResponse.json({ error: 'Referral bonus already claimed.' }, { status: 400 });
-        }
-        const totalReferrals = wallet.squad?.members?.length ?? 0;
-        bonusAmount = totalReferrals <= 3 ? rewardSettings.referralBonusTier1 : rewardSettings.referralBonusTier2;
-        claimedReferrals.push(referralId);
-        claimedMessage = `You claimed your referral bonus!`;
-    } else if (type === 'new_member_referral') {
-        if (claimedReferrals.includes(referralId)) {
-             return NextResponse.json({ error: 'Referral bonus already claimed.' }, { status: 400 });
-        }
-        bonusAmount = rewardSettings.newUserBonus;
-        claimedReferrals.push(referralId);
-        claimedMessage = `You claimed your new member bonus!`;
-    }
+  const rewardSettings = await getRewardSettings();
 
-    if (bonusAmount <= 0) {
-      return NextResponse.json({ error: 'Invalid reward or bonus not configured.' }, { status: 400 });
-    }
-    
-    const updatedWalletData = {
-      ...wallet,
-      balances: {
-        ...wallet.balances,
-        usdt: (wallet.balances.usdt || 0) + bonusAmount,
-      },
-      claimed_achievements: claimedAchievements,
-      claimed_referrals: claimedReferrals,
-    };
-    
-    await updateWalletByUserId(userId, updatedWalletData);
-    
-    await addNotification(userId, {
-        title: "Reward Claimed!",
-        content: `${claimedMessage} +$${bonusAmount.toFixed(2)} has been added to your balance.`,
-        href: "/dashboard/rewards",
-    });
+  const wallet = await getWalletStore().get(userId);
+  if (!wallet) {
+    return NextResponse.json({ error: 'User wallet not found.' }, { status: 404 });
+  }
 
-    return NextResponse.json({ success: true, message: 'Reward claimed successfully.' });
+  let bonusAmount = 0;
+  let claimedMessage = '';
+  if (type === 'rank' || type === 'tier') {
+    bonusAmount = rewardSettings[type === 'rank' ? 'rankAchievementBonus' : 'tierAchievementBonus'] || 0;
+    claimedMessage = `You claimed the ${key} achievement bonus!`;
+  } else if (type === 'referral') {
+    const totalReferrals = wallet.squad?.members?.length ?? 0;
+    bonusAmount = totalReferrals <= 3 ? rewardSettings.referralBonusTier1 : rewardSettings.referralBonusTier2;
+    claimedMessage = `You claimed your referral bonus!`;
+  } else if (type === 'new_member_referral') {
+    bonusAmount = rewardSettings.newUserBonus;
+    claimedMessage = `You claimed your new member bonus!`;
+  }
+  if (!(bonusAmount > 0)) {
+    return NextResponse.json({ error: 'Invalid reward or bonus not configured.' }, { status: 400 });
+  }
 
-  } catch (error: any) {
-    return NextResponse.json(
-      { error: error.message || 'An unexpected error occurred.' },
-      { status: 500 }
+  // The claim is checked and marked in the same wallet update that credits the bonus,
+  // so a reward cannot be claimed twice in parallel
+  try {
+    await creditUser(
+      userId,
+      {
+        type: 'reward',
+        referenceId: type === 'rank' || type === 'tier' ? `${type}:${key}` : `${type}:${referralId}`,
+        asset: 'usdt',
+        amount: bonusAmount,
+        actor: userId,
+        memo: claimedMessage,
+      },
+      current => {
+        if (type === 'rank' || type === 'tier') {
+          const list = type === 'rank' ? 'ranks' : 'tiers';
+          const claimed = current.claimed_achievements?.[list] || [];
+          if (claimed.includes(key)) throw new Error(REWARD_ALREADY_CLAIMED);
+          return {
+            ...current,
+            claimed_achievements: {
+              ranks: current.claimed_achievements?.ranks || [],
+              tiers: current.claimed_achievements?.tiers || [],
+              [list]: [...claimed, key],
+            },
+          };
+        }
+        const claimedReferrals = current.claimed_referrals || [];
+        if (claimedReferrals.includes(referralId)) throw new Error(REFERRAL_ALREADY_CLAIMED);
+        return { ...current, claimed_referrals: [...claimedReferrals, referralId] };
+      }
     );
+  } catch (error: any) {
+    if (error.message === REWARD_ALREADY_CLAIMED || error.message === REFERRAL_ALREADY_CLAIMED) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+    throw error;
   }
+
+  await addNotification(userId, {
+      title: "Reward Claimed!",
+      content: `${claimedMessage} +$${bonusAmount.toFixed(2)} has been added to your balance.`,
+      href: "/dashboard/rewards",
+  });
+
+  return NextResponse.json({ success: true, message: 'Reward claimed successfully.' });
 }
@@ -1,6 +1,5 @@
-'use server';
-
 import { NextResponse } from 'next/server';
+import { getSessionUser } from '@/lib/session';
 import { getClanForUser, addClanMessage, getClanMessages } from '@/lib/squad-clans';
 import { getWalletByUserId } from '@/lib/wallet';
 import { getUserRank } from '@/lib/ranks';
@@ -9,8 +8,13 @@ import { getBotTierSettingsServer } from '@/lib/tiers-server';
 
 export async function POST(request: Request) {
     try {
-        const { userId, text } = await request.json();
-        if (!userId || !text) {
+        const session = await getSessionUser();
+        if (!session) {
+            return NextResponse.json({ error: 'Authentication required' }, { status: 401 });
+        }
+        const userId = session.userId;
+        const { text } = await request.json();
+        if (!text) {
             return NextResponse.json({ error: 'Missing required fields' }, { status: 400 });
         }
 
@@ -31,7 +35,7 @@ export async function POST(request: Request) {
         const rank = getUserRank(wallet.balances.usdt ?? 0);
         const tier = await getCurrentTier(wallet.balances.usdt ?? 0, tierSettings);
         
-        const displayName = wallet.profile.displayName || wallet.profile.username || userId;
+        const displayName = wallet.profile.username || userId;
 
         await addClanMessage(clan.id, {
             userId,
@@ -48,16 +52,14 @@ export async function POST(request: Request) {
     }
 }
 
-export async function GET(request: Request) {
-    const { searchParams } = new URL(request.url);
-    const userId = searchParams.get('userId');
-
-    if (!userId) {
-        return NextResponse.json({ error: 'User ID is required' }, { status: 400 });
-    }
-
+export async function GET() {
     try {
-        const clan = await getClanForUser(userId);
+        const session = await getSessionUser();
+        if (!session) {
+            return NextResponse.json({ error: 'Authentication required' }, { status: 401 });
+        }
+
+        const clan = await getClanForUser(session.userId);
         if (!clan) {
             return NextResponse.json([]); // Return empty array if not in a clan
         }
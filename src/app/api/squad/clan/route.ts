@@ -1,31 +1,25 @@
-'use server';
-
 import { NextResponse } from 'next/server';
+import { requireUser } from '@/lib/route-guard';
 import { createClan, getClanForUser, getClanById } from '@/lib/squad-clans';
 import { getWalletByUserId, getAllWallets } from '@/lib/wallet';
 import { getBotTierSettingsServer } from '@/lib/tiers-server';
 
-// GET endpoint to fetch clan details for a user
+// GET endpoint to fetch the signed-in user's clan, or one they belong to by ?clanId=
 export async function GET(request: Request) {
-    const { searchParams } = new URL(request.url);
-    const userId = searchParams.get('userId');
-    const clanId = searchParams.get('clanId');
-
-    if (!userId && !clanId) {
-        return NextResponse.json({ error: 'User ID or Clan ID is required' }, { status: 400 });
-    }
-    
     try {
-        let clan;
-        if (clanId) {
-            clan = await getClanById(clanId);
-        } else if(userId) {
-            clan = await getClanForUser(userId);
-        }
+        const access = await requireUser(request);
+        if (access.denied) return access.denied;
+        const userId = access.session.userId;
+
+        const clanId = new URL(request.url).searchParams.get('clanId');
+        const clan = clanId ? await getClanById(clanId) : await getClanForUser(userId);
 
         if (!clan) {
             return NextResponse.json(null);
         }
+        if (!clan.members.includes(userId)) {
+            return NextResponse.json({ error: 'You are not part of this clan.' }, { status: 403 });
+        }
         
         // Enhance with sub-leader info
         const allWallets = await getAllWallets();
@@ -51,15 +45,18 @@ export async function GET(request: Request) {
 }
 
 
-// POST endpoint to create a new clan
+// POST endpoint to create a new clan led by the signed-in user
 export async function POST(request: Request) {
     try {
-        const { leaderId, name, avatarUrl } = await request.json();
-        if (!leaderId || !name || !avatarUrl) {
+        const access = await requireUser(request);
+        if (access.denied) return access.denied;
+
+        const { name, avatarUrl } = await request.json();
+        if (!name || !avatarUrl) {
             return NextResponse.json({ error: 'Missing required fields' }, { status: 400 });
         }
 
-        const newClan = await createClan(leaderId, name, avatarUrl);
+        const newClan = await createClan(access.session.userId, name, avatarUrl);
 
         if (!newClan) {
              return NextResponse.json({ error: 'Failed to create clan. Requirements not met.' }, { status: 400 });
@@ -2,8 +2,8 @@ import { NextResponse } from 'next/server';
 import { getUserRank } from '@/lib/ranks';
 import { getCurrentTier } from '@/lib/tiers';
 import { getBotTierSettingsServer } from '@/lib/tiers-server';
-
-const MOCK_USER_ID = 'mock-user-123';
+import { getSessionUser } from '@/lib/session';
+import { getWalletByUserId } from '@/lib/wallet';
 
 export type SquadMember = {
     id: string;
@@ -13,24 +13,30 @@ export type SquadMember = {
     team: SquadMember[];
 };
 
-export async function GET(request: Request) {
+export async function GET() {
     try {
-        const tierSettings = await getBotTierSettingsServer();
+        const session = await getSessionUser();
+        if (!session) {
+            return NextResponse.json({ error: 'Authentication required' }, { status: 401 });
+        }
 
-        // This is mock data and would be replaced by a database query in a real app
-        const mockSquad: Omit<SquadMember, 'rank' | 'tier'>[] = [
-            { id: 'mock-member-1', username: 'SquadMemberOne', team: [] },
-            { id: 'mock-member-2', username: 'SquadMemberTwo', team: [] },
-        ];
+        const [wallet, tierSettings] = await Promise.all([
+            getWalletByUserId(session.userId),
+            getBotTierSettingsServer(),
+        ]);
+        const memberIds: string[] = wallet?.squad?.members || [];
+        const memberWallets = await Promise.all(memberIds.map(memberId => getWalletByUserId(memberId)));
 
-        const squadWithDetails = mockSquad.map(member => {
-            // Simulate different balances for different ranks/tiers
-            const mockBalance = Math.random() * 10000;
-            const rank = getUserRank(mockBalance);
-            const tier = getCurrentTier(mockBalance, tierSettings);
+        const squadWithDetails = memberIds.map((memberId, index) => {
+            const memberWallet = memberWallets[index];
+            const balance = memberWallet?.balances?.usdt || 0;
+            const rank = getUserRank(balance);
+            const tier = getCurrentTier(balance, tierSettings);
 
             return {
-                ...member,
+                id: memberId,
+                username: memberWallet?.profile?.username || memberId,
+                team: [],
                 rank: {
                     name: rank.name,
                     Icon: rank.Icon,
@@ -1,6 +1,9 @@
 import { NextResponse } from 'next/server';
 import { getChatHistoryForUser, sendMessage, sendAdminMessage, getAllChats } from '@/lib/chat-server';
 import { type Message } from '@/lib/chat-server';
+import { logModeratorAction } from '@/lib/moderator';
+import { requireStaff } from '@/lib/route-guard';
+import { getWalletByUserId } from '@/lib/wallet';
 
 // This file acts as a proxy to the file-based chat system in lib/chat.ts
 // It adds the 24-hour filtering logic.
@@ -33,7 +36,12 @@ export async function POST(request: Request) {
         }
         
         if (sender === 'admin') {
+            const access = await requireStaff(request, 'customer_support');
+            if (access.denied) return access.denied;
+
             await sendAdminMessage(userId, text);
+            const wallet = await getWalletByUserId(userId);
+            await logModeratorAction(`Replied to support thread for user ${wallet?.profile.username || userId}.`, access.session.userId, { userId });
         } else {
             await sendMessage(userId, text, fileDataUrl);
         }
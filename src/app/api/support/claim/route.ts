@@ -1,32 +1,38 @@
-
 import { NextResponse } from 'next/server';
+import { requireStaff } from '@/lib/route-guard';
+import { claimSupportThread, getSupportClaims, releaseSupportThread } from '@/lib/support-threads';
 
-// In-memory store for mock claim status
-let claimStore: Record<string, any> = {};
+export async function GET(request: Request) {
+  try {
+    const access = await requireStaff(request, 'customer_support');
+    if (access.denied) return access.denied;
 
-export async function GET() {
-    return NextResponse.json(claimStore);
+    return NextResponse.json(await getSupportClaims());
+  } catch (error: any) {
+    return NextResponse.json({ error: error.message || 'An unexpected error occurred.' }, { status: 500 });
+  }
 }
 
 export async function POST(request: Request) {
-    try {
-        const body = await request.json();
-        const { supportUserId, action } = body;
-        const MOCK_MODERATOR = { id: 'mock-moderator-id', username: 'ModUser' };
-
-        if (action === 'claim') {
-            claimStore[supportUserId] = {
-                user_id: supportUserId,
-                handler_id: MOCK_MODERATOR.id,
-                handler: { username: MOCK_MODERATOR.username },
-            };
-        } else if (action === 'unclaim') {
-            delete claimStore[supportUserId];
-        }
+  try {
+    const access = await requireStaff(request, 'customer_support');
+    if (access.denied) return access.denied;
+    const { session } = access;
 
-        return NextResponse.json(claimStore[supportUserId] || null);
+    const { supportUserId, action } = await request.json();
+    if (typeof supportUserId !== 'string' || !supportUserId || (action !== 'claim' && action !== 'unclaim')) {
+      return NextResponse.json({ error: 'A support user id and an action of "claim" or "unclaim" are required.' }, { status: 400 });
+    }
 
-    } catch (error: any) {
-        return NextResponse.json({ error: 'Failed to update claim status' }, { status: 500 });
+    const result =
+      action === 'claim'
+        ? await claimSupportThread(supportUserId, session.userId)
+        : await releaseSupportThread(supportUserId, session.userId, session.role === 'admin');
+    if ('error' in result) {
+      return NextResponse.json({ error: result.error }, { status: result.conflict ? 409 : 400 });
     }
+    return NextResponse.json(result.claim);
+  } catch (error: any) {
+    return NextResponse.json({ error: error.message || 'An unexpected error occurred.' }, { status: 500 });
+  }
 }
@@ -0,0 +1,85 @@
+import { NextResponse } from 'next/server';
+import { requireUser } from '@/lib/route-guard';
+import {
+  DEFAULT_PAGE_SIZE,
+  MAX_PAGE_SIZE,
+  TRANSACTION_TYPES,
+  decodeCursor,
+  getTransactionPage,
+  getTransactions,
+  transactionsToCsv,
+  type TransactionFilters,
+  type TransactionType,
+} from '@/lib/transactions';
+
+// Date-only values ("2024-05-31") are read as whole days, so `to` includes the day itself.
+function parseDate(value: string | null, endOfDay: boolean): Date | null | undefined {
+  if (!value) return undefined;
+  const date = new Date(value);
+  if (isNaN(date.getTime())) return null;
+  if (endOfDay && /^\d{4}-\d{2}-\d{2}$/.test(value)) {
+    date.setUTCDate(date.getUTCDate() + 1);
+  }
+  return date;
+}
+
+function parseFilters(params: URLSearchParams): TransactionFilters | { error: string } {
+  const types = (params.get('type') || '').split(',').map(type => type.trim()).filter(Boolean);
+  const unknownType = types.find(type => !(TRANSACTION_TYPES as readonly string[]).includes(type));
+  if (unknownType) {
+    return { error: `Unknown transaction type "${unknownType}".` };
+  }
+
+  const from = parseDate(params.get('from'), false);
+  const to = parseDate(params.get('to'), true);
+  if (from === null || to === null) {
+    return { error: 'Invalid date filter.' };
+  }
+
+  return {
+    types: types as TransactionType[],
+    asset: params.get('asset') || undefined,
+    from,
+    to,
+  };
+}
+
+// GET /api/transactions?type=deposit,withdrawal&asset=usdt&from=2024-01-01&to=2024-01-31&cursor=...&limit=25
+// Pass format=csv to download every matching transaction instead of a page.
+// Accepts API tokens with the read:wallet scope.
+export async function GET(request: Request) {
+  try {
+    const access = await requireUser(request, 'read:wallet');
+    if (access.denied) return access.denied;
+    const { session } = access;
+
+    const params = new URL(request.url).searchParams;
+    const filters = parseFilters(params);
+    if ('error' in filters) {
+      return NextResponse.json({ error: filters.error }, { status: 400 });
+    }
+
+    if (params.get('format') === 'csv') {
+      const transactions = await getTransactions(session.userId, filters);
+      const fileName = `transactions-${new Date().toISOString().slice(0, 10)}.csv`;
+      return new NextResponse(transactionsToCsv(transactions), {
+        headers: {
+          'Content-Type': 'text/csv; charset=utf-8',
+          'Content-Disposition': `attachment; filename="${fileName}"`,
+        },
+      });
+    }
+
+    const cursorParam = params.get('cursor');
+    const cursor = cursorParam ? decodeCursor(cursorParam) : null;
+    if (cursorParam && !cursor) {
+      return NextResponse.json({ error: 'Invalid cursor.' }, { status: 400 });
+    }
+    const limit = Math.min(Math.max(Number(params.get('limit')) || DEFAULT_PAGE_SIZE, 1), MAX_PAGE_SIZE);
+
+    const page = await getTransactionPage(session.userId, filters, { cursor, limit });
+    return NextResponse.json(page);
+  } catch (error: any) {
+    return NextResponse.json({ error: error.message || 'An unexpected error occurred.' }, { status: 500 });
+  }
+}
@@ -1,37 +1,13 @@
 import { NextResponse } from 'next/server';
-import { verifyToken, updateUser, getUserById } from '@/lib/auth-server';
-import { headers } from 'next/headers';
+import { updateUser, getUserById } from '@/lib/auth-server';
+import { requireUser } from '@/lib/route-guard';
 
 export async function GET(request: Request) {
   try {
-    const headersList = await headers();
-    const authorization = headersList.get('authorization');
-    
-    if (!authorization?.startsWith('Bearer ')) {
-      return NextResponse.json(
-        { error: 'No token provided' },
-        { status: 401 }
-      );
-    }
-
-    const token = authorization.slice(7);
-    const tokenResult = await verifyToken(token);
-
-    if (tokenResult.error) {
-      return NextResponse.json(
-        { error: tokenResult.error },
-        { status: 401 }
-      );
-    }
-
-    if (!tokenResult.user || !tokenResult.user.id) {
- return NextResponse.json(
- { error: 'Invalid token payload' },
- { status: 401 }
- );
-    }
+    const access = await requireUser(request);
+    if (access.denied) return access.denied;
 
-    const user = await getUserById(tokenResult.user.id);
+    const user = await getUserById(access.session.userId);
     
     if (!user) {
       return NextResponse.json(
@@ -65,32 +41,8 @@ export async function GET(request: Request) {
 
 export async function PUT(request: Request) {
   try {
-    const headersList = await headers();
-    const authorization = headersList.get('authorization');
-    
-    if (!authorization?.startsWith('Bearer ')) {
-      return NextResponse.json(
-        { error: 'No token provided' },
-        { status: 401 }
-      );
-    }
-
-    const token = authorization.slice(7);
-    const tokenResult = await verifyToken(token);
-
-    if (tokenResult.error) {
-      return NextResponse.json(
-        { error: tokenResult.error },
-        { status: 401 }
-      );
-    }
-
-    if (!tokenResult.user || !tokenResult.user.id) {
- return NextResponse.json(
- { error: 'Invalid token payload' },
- { status: 401 }
- );
-    }
+    const access = await requireUser(request);
+    if (access.denied) return access.denied;
 
     const body: { fullName?: string, phoneNumber?: string, country?: string } = await request.json();
     const { fullName, phoneNumber, country } = body;
@@ -100,7 +52,7 @@ export async function PUT(request: Request) {
     if (phoneNumber) updates.phoneNumber = phoneNumber;
     if (country) updates.country = country;
 
-    const result = await updateUser(tokenResult.user.id, updates);
+    const result = await updateUser(access.session.userId, updates);
 
     if (result.error) {
       return NextResponse.json(
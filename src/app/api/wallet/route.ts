@@ -0,0 +1,20 @@
+import { NextResponse } from 'next/server';
+import { requireUser } from '@/lib/route-guard';
+import { getWalletByUserId, redactWallet } from '@/lib/wallet';
+
+// The caller's wallet: balances, pending requests and profile. Accepts API
+// tokens with the read:wallet scope.
+export async function GET(request: Request) {
+  try {
+    const access = await requireUser(request, 'read:wallet');
+    if (access.denied) return access.denied;
+
+    const wallet = await getWalletByUserId(access.session.userId);
+    if (!wallet) {
+      return NextResponse.json({ error: 'User wallet not found.' }, { status: 404 });
+    }
+    return NextResponse.json(redactWallet(wallet));
+  } catch (error: any) {
+    return NextResponse.json({ error: error.message || 'An unexpected error occurred.' }, { status: 500 });
+  }
+}
@@ -0,0 +1,81 @@
+import { NextResponse } from 'next/server';
+import { addAddressBookEntry, getAddressBook, removeAddressBookEntry, updateAddressBookEntry } from '@/lib/address-book';
+import { getSessionUser } from '@/lib/session';
+
+// The withdrawal address book of the signed-in user. Changing it needs a
+// browser session; API tokens can only withdraw to addresses saved here.
+export async function GET() {
+  try {
+    const session = await getSessionUser();
+    if (!session) {
+      return NextResponse.json({ error: 'Authentication required' }, { status: 401 });
+    }
+
+    const addresses = await getAddressBook(session.userId);
+    if (!addresses) {
+      return NextResponse.json({ error: 'User wallet not found.' }, { status: 404 });
+    }
+    return NextResponse.json({ addresses });
+  } catch (error: any) {
+    return NextResponse.json({ error: error.message || 'An unexpected error occurred.' }, { status: 500 });
+  }
+}
+
+// Saves a new address; it can be used once the cooldown has passed.
+export async function POST(request: Request) {
+  try {
+    const session = await getSessionUser();
+    if (!session) {
+      return NextResponse.json({ error: 'Authentication required' }, { status: 401 });
+    }
+
+    const { label, asset, network, address } = await request.json();
+    const result = await addAddressBookEntry(session.userId, { label, asset, network, address });
+    if ('error' in result) {
+      return NextResponse.json({ error: result.error }, { status: result.notFound ? 404 : 400 });
+    }
+    return NextResponse.json({ address: result.entry });
+  } catch (error: any) {
+    return NextResponse.json({ error: error.message || 'An unexpected error occurred.' }, { status: 500 });
+  }
+}
+
+// Renames an entry or changes where it points; a new address restarts the cooldown.
+export async function PATCH(request: Request) {
+  try {
+    const session = await getSessionUser();
+    if (!session) {
+      return NextResponse.json({ error: 'Authentication required' }, { status: 401 });
+    }
+
+    const { id, label, asset, network, address } = await request.json();
+    if (!id || typeof id !== 'string') {
+      return NextResponse.json({ error: 'Address ID is required.' }, { status: 400 });
+    }
+    const result = await updateAddressBookEntry(session.userId, id, { label, asset, network, address });
+    if ('error' in result) {
+      return NextResponse.json({ error: result.error }, { status: result.notFound ? 404 : 400 });
+    }
+    return NextResponse.json({ address: result.entry });
+  } catch (error: any) {
+    return NextResponse.json({ error: error.message || 'An unexpected error occurred.' }, { status: 500 });
+  }
+}
+
+// DELETE /api/withdraw/addresses?id=... removes an entry.
+export async function DELETE(request: Request) {
+  try {
+    const session = await getSessionUser();
+    if (!session) {
+      return NextResponse.json({ error: 'Authentication required' }, { status: 401 });
+    }
+
+    const id = new URL(request.url).searchParams.get('id');
+    if (!id || !(await removeAddressBookEntry(session.userId, id))) {
+      return NextResponse.json({ error: 'Address not found.' }, { status: 404 });
+    }
+    return NextResponse.json({ success: true });
+  } catch (error: any) {
+    return NextResponse.json({ error: error.message || 'An unexpected error occurred.' }, { status: 500 });
+  }
+}
@@ -0,0 +1,27 @@
+import { NextResponse } from 'next/server';
+import { requireUser } from '@/lib/route-guard';
+import { cancelWithdrawal } from '@/lib/withdrawals';
+
+// Cancels one of the caller's own withdrawals while it is still pending and
+// refunds the held amount. Accepts API tokens with the write:withdrawals scope.
+export async function POST(request: Request) {
+  try {
+    const access = await requireUser(request, 'write:withdrawals');
+    if (access.denied) return access.denied;
+
+    const { withdrawalId, reason } = await request.json();
+    if (!withdrawalId) {
+      return NextResponse.json({ error: 'Missing required fields' }, { status: 400 });
+    }
+
+    const result = await cancelWithdrawal(access.session.userId, withdrawalId, reason);
+    if (result.error) {
+      const error = result.notFound ? 'This withdrawal is no longer pending and cannot be cancelled.' : result.error;
+      return NextResponse.json({ error }, { status: result.notFound ? 404 : 400 });
+    }
+
+    return NextResponse.json({ message: 'Withdrawal cancelled and the amount returned to your balance.', withdrawal: result.withdrawal });
+  } catch (error: any) {
+    return NextResponse.json({ error: error.message || 'An unexpected error occurred.' }, { status: 500 });
+  }
+}
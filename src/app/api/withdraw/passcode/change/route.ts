@@ -0,0 +1,21 @@
+import { NextResponse } from 'next/server';
+import { getSessionUser } from '@/lib/session';
+import { changeWithdrawalPasscode } from '@/lib/withdrawal-passcode';
+
+export async function POST(request: Request) {
+  try {
+    const session = await getSessionUser();
+    if (!session) {
+      return NextResponse.json({ error: 'Authentication required' }, { status: 401 });
+    }
+
+    const { currentPasscode, passcode } = await request.json();
+    const result = await changeWithdrawalPasscode(session.userId, currentPasscode, passcode);
+    if (result.error) {
+      return NextResponse.json({ error: result.error }, { status: 400 });
+    }
+    return NextResponse.json({ success: true, message: 'Withdrawal passcode changed.' });
+  } catch (error: any) {
+    return NextResponse.json({ error: error.message || 'An unexpected error occurred.' }, { status: 500 });
+  }
+}
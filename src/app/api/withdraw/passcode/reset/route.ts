@@ -0,0 +1,23 @@
+import { NextResponse } from 'next/server';
+import { getSessionUser } from '@/lib/session';
+import { resetWithdrawalPasscode } from '@/lib/withdrawal-passcode';
+
+// Replaces a forgotten or locked passcode using the account password and,
+// with 2FA enabled, an authenticator code.
+export async function POST(request: Request) {
+  try {
+    const session = await getSessionUser();
+    if (!session) {
+      return NextResponse.json({ error: 'Authentication required' }, { status: 401 });
+    }
+
+    const { password, totpCode, passcode } = await request.json();
+    const result = await resetWithdrawalPasscode(session.userId, { password, totpCode, passcode });
+    if (result.error) {
+      return NextResponse.json({ error: result.error }, { status: 400 });
+    }
+    return NextResponse.json({ success: true, message: 'Withdrawal passcode reset.' });
+  } catch (error: any) {
+    return NextResponse.json({ error: error.message || 'An unexpected error occurred.' }, { status: 500 });
+  }
+}
@@ -0,0 +1,39 @@
+import { NextResponse } from 'next/server';
+import { getSessionUser } from '@/lib/session';
+import { getWithdrawalPasscodeStatus, setWithdrawalPasscode } from '@/lib/withdrawal-passcode';
+
+export async function GET() {
+  try {
+    const session = await getSessionUser();
+    if (!session) {
+      return NextResponse.json({ error: 'Authentication required' }, { status: 401 });
+    }
+
+    const status = await getWithdrawalPasscodeStatus(session.userId);
+    if (!status) {
+      return NextResponse.json({ error: 'User wallet not found.' }, { status: 404 });
+    }
+    return NextResponse.json(status);
+  } catch (error: any) {
+    return NextResponse.json({ error: error.message || 'An unexpected error occurred.' }, { status: 500 });
+  }
+}
+
+// Sets the first passcode; needs the account password.
+export async function POST(request: Request) {
+  try {
+    const session = await getSessionUser();
+    if (!session) {
+      return NextResponse.json({ error: 'Authentication required' }, { status: 401 });
+    }
+
+    const { password, passcode } = await request.json();
+    const result = await setWithdrawalPasscode(session.userId, password, passcode);
+    if (result.error) {
+      return NextResponse.json({ error: result.error }, { status: 400 });
+    }
+    return NextResponse.json({ success: true, message: 'Withdrawal passcode set.' });
+  } catch (error: any) {
+    return NextResponse.json({ error: error.message || 'An unexpected error occurred.' }, { status: 500 });
+  }
+}
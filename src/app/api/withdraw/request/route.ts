@@ -1,66 +1,142 @@
 
 import { NextResponse } from 'next/server';
-import { getWalletByUserId, updateWalletByUserId } from '@/lib/wallet';
+import { requireUser } from '@/lib/route-guard';
+import { withIdempotency } from '@/lib/idempotency';
+import { getWalletByUserId, type PendingWithdrawal } from '@/lib/wallet';
 import { addNotification } from '@/lib/notifications';
 import { logModeratorAction } from '@/lib/moderator';
+import { debitUser, INSUFFICIENT_BALANCE } from '@/lib/ledger';
+import { getUserById } from '@/lib/auth-server';
+import { getSecuritySettings, isTwoFactorEnabled, verifySecondFactor } from '@/lib/two-factor';
+import { verifyWithdrawalPasscode } from '@/lib/withdrawal-passcode';
+import { quoteWithdrawal } from '@/lib/withdrawals';
+import { validateAddress } from '@/lib/address-validation';
+import { findUsableAddress } from '@/lib/address-book';
 
+// Accepts API tokens with the write:withdrawals scope; the withdrawal passcode,
+// and the authenticator code on accounts with 2FA, are still required.
 export async function POST(request: Request) {
   try {
-    const { userId, amount, asset, address } = await request.json();
-    if (!userId || !amount || !asset || !address) {
-      return NextResponse.json({ error: 'Missing required fields' }, { status: 400 });
-    }
-    
-    const wallet = await getWalletByUserId(userId);
-    if (!wallet) {
-        return NextResponse.json({ error: 'User wallet not found.' }, { status: 404 });
-    }
+    const access = await requireUser(request, 'write:withdrawals');
+    if (access.denied) return access.denied;
+    const { session } = access;
+    return await withIdempotency(request, session.userId, () => submitWithdrawalRequest(request, session.userId));
+  } catch (error: any) {
+    return NextResponse.json(
+      { error: error.message || 'An unexpected error occurred.' },
+      { status: 500 }
+    );
+  }
+}
 
-    const withdrawAmount = parseFloat(amount);
-    if (isNaN(withdrawAmount) || withdrawAmount <= 0) {
-      return NextResponse.json({ error: 'Invalid withdrawal amount.' }, { status: 400 });
-    }
+async function submitWithdrawalRequest(request: Request, userId: string): Promise<NextResponse> {
+  const { amount, asset, network, address: givenAddress, totpCode, passcode } = await request.json();
+  if (!amount || !asset || !givenAddress || typeof givenAddress !== 'string') {
+    return NextResponse.json({ error: 'Missing required fields' }, { status: 400 });
+  }
+
+  const wallet = await getWalletByUserId(userId);
+  if (!wallet) {
+      return NextResponse.json({ error: 'User wallet not found.' }, { status: 404 });
+  }
+
+  const withdrawAmount = parseFloat(amount);
+  if (isNaN(withdrawAmount) || withdrawAmount <= 0) {
+    return NextResponse.json({ error: 'Invalid withdrawal amount.' }, { status: 400 });
+  }
+
+  // The network fee comes out of the amount, so the balance only has to cover the amount itself
+  const quote = await quoteWithdrawal(asset, network, withdrawAmount);
+  if ('error' in quote) {
+    return NextResponse.json({ error: quote.error }, { status: 400 });
+  }
+
+  const addressError = validateAddress(quote.network.addressFormat, givenAddress, quote.network.name);
+  if (addressError) {
+    return NextResponse.json({ error: addressError }, { status: 400 });
+  }
+  const address = givenAddress.trim();
+
+  // Only saved addresses whose cooldown has passed can receive withdrawals
+  const saved = await findUsableAddress(userId, asset, quote.network, address);
+  if ('error' in saved) {
+    return NextResponse.json({ error: saved.error }, { status: 400 });
+  }
 
-    if (wallet.balances[asset.toLowerCase()] < withdrawAmount) {
-      return NextResponse.json({ error: 'Insufficient balance.' }, { status: 400 });
+  if (wallet.balances[asset.toLowerCase()] < withdrawAmount) {
+    return NextResponse.json({ error: INSUFFICIENT_BALANCE }, { status: 400 });
+  }
+
+  const user = await getUserById(userId);
+  if (!user) {
+    return NextResponse.json({ error: 'User not found.' }, { status: 404 });
+  }
+  const twoFactorEnabled = isTwoFactorEnabled(user);
+  if (!twoFactorEnabled && (await getSecuritySettings()).requireTwoFactorForWithdrawals) {
+    return NextResponse.json({ error: 'Enable two-factor authentication before withdrawing.' }, { status: 403 });
+  }
+
+  // The passcode goes first, so a wrong passcode does not use up the authenticator code
+  const passcodeCheck = await verifyWithdrawalPasscode(userId, passcode);
+  if (passcodeCheck.error) {
+    return NextResponse.json({ error: passcodeCheck.error }, { status: passcodeCheck.locked ? 429 : 403 });
+  }
+
+  // With 2FA on, every withdrawal needs a fresh authenticator code; backup codes are only for signing in
+  if (twoFactorEnabled) {
+    const secondFactor = await verifySecondFactor(userId, totpCode, { allowBackupCode: false });
+    if (secondFactor.error) {
+      return NextResponse.json({ error: secondFactor.error }, { status: secondFactor.locked ? 429 : 400 });
     }
+  }
 
-    const newWithdrawalRequest = {
-        id: `wd_${crypto.randomUUID()}`,
-        amount: withdrawAmount,
+  const timestamp = new Date().toISOString();
+  const newWithdrawalRequest: PendingWithdrawal = {
+      id: `wd_${crypto.randomUUID()}`,
+      amount: withdrawAmount,
+      asset,
+      address,
+      network: quote.network.id,
+      fee: quote.fee,
+      timestamp,
+      status: 'pending',
+      history: [{ status: 'pending', at: timestamp }],
+  };
+
+  // The amount is held from the balance in the same wallet update that records the request
+  try {
+    await debitUser(
+      userId,
+      {
+        type: 'withdrawal',
+        referenceId: newWithdrawalRequest.id,
         asset,
-        address,
-        timestamp: new Date().toISOString(),
-        status: 'pending',
-    };
-    
-    const updatedWalletData = {
-        ...wallet,
-        balances: {
-          ...wallet.balances,
-          [asset.toLowerCase()]: wallet.balances[asset.toLowerCase()] - withdrawAmount,
-        },
-        pending_withdrawals: [...(wallet.pending_withdrawals || []), newWithdrawalRequest],
-    };
-    
-    await updateWalletByUserId(userId, updatedWalletData);
-    
-    await addNotification(userId, {
-        title: "Withdrawal Request Received",
-        content: `Your request to withdraw ${amount} ${asset.toUpperCase()} is pending approval.`,
-        href: "/dashboard/withdraw",
-    });
-
-    // Notify admins/mods
-    await logModeratorAction(
-        `New withdrawal request from ${wallet.profile.username || userId} for ${amount} ${asset.toUpperCase()}.`
+        amount: withdrawAmount,
+        actor: userId,
+        memo: `To ${saved.entry.label} (${address}) via ${quote.network.name}`,
+      },
+      current => ({ ...current, pending_withdrawals: [...current.pending_withdrawals, newWithdrawalRequest] })
     );
-
-    return NextResponse.json({ success: true, message: 'Withdrawal request submitted successfully.' });
   } catch (error: any) {
-    return NextResponse.json(
-      { error: error.message || 'An unexpected error occurred.' },
-      { status: 500 }
-    );
+    // The balance can change between the check above and the debit
+    if (error.message === INSUFFICIENT_BALANCE) {
+      return NextResponse.json({ error: INSUFFICIENT_BALANCE }, { status: 400 });
+    }
+    throw error;
   }
+
+  await addNotification(userId, {
+      title: "Withdrawal Request Received",
+      content: `Your request to withdraw ${amount} ${asset.toUpperCase()} over ${quote.network.name} is pending approval. After the ${quote.fee} ${asset.toUpperCase()} network fee, ${quote.netAmount} ${asset.toUpperCase()} will be sent.`,
+      href: "/dashboard/withdraw",
+  });
+
+  // Notify admins/mods
+  await logModeratorAction(
+      `New withdrawal request from ${wallet.profile.username || userId} for ${amount} ${asset.toUpperCase()}.`,
+      userId,
+      { withdrawalId: newWithdrawalRequest.id }
+  );
+
+  return NextResponse.json({ success: true, message: 'Withdrawal request submitted successfully.' });
 }
@@ -44,7 +44,7 @@ import { InboxIcon } from '@/components/icons/nav/inbox-icon';
 import { MessageSquare, UserPlus, Shield, Lock, Trophy, Cpu, Users, User, Globe, Waves, Atom, Zap, Brain } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { UserProvider } from '@/contexts/UserContext';
-import { getOrCreateWallet, type WalletData } from '@/lib/wallet';
+import { getOrCreateWallet, type WalletData } from '@/lib/wallet-actions';
 import { getUserRank } from '@/lib/ranks';
 import { type TierSetting as TierData, getBotTierSettings, getCurrentTier } from '@/lib/tiers';
 import { Badge } from '@/components/ui/badge';
@@ -79,12 +79,6 @@ const rankIcons: Record<string, IconComponent> = {
     Lock,
 };
 
-// Mock user object
-const mockUser = {
-  id: 'mock-user-123',
-  email: 'user@example.com',
-};
-
 function DashboardLoading() {
   return (
     <div className="purple relative min-h-dvh overflow-hidden bg-black flex flex-col items-center justify-center">
@@ -235,10 +229,10 @@ export default function DashboardLayout({
   const [isInitializing, setIsInitializing] = React.useState(true);
   const [downloadHref, setDownloadHref] = React.useState('');
 
-  const fetchWalletAndTiers = React.useCallback(async (userId: string) => {
+  const fetchWalletAndTiers = React.useCallback(async () => {
     try {
         const [walletData, tiers] = await Promise.all([
-            getOrCreateWallet(userId),
+            getOrCreateWallet(),
             Promise.resolve(getBotTierSettings())
         ]);
         setWallet(walletData);
@@ -250,20 +244,22 @@ export default function DashboardLayout({
 
   React.useEffect(() => {
     const initializeUser = async () => {
-      const loggedInEmail = sessionStorage.getItem('loggedInEmail') || mockUser.email;
-      const currentUser = { ...mockUser, email: loggedInEmail };
+      const response = await fetch('/api/auth/session');
+      const session = response.ok ? await response.json() : null;
+      if (!session?.authenticated) {
+        router.replace('/login');
+        return;
+      }
 
-      setUser(currentUser);
-      setIsAdmin(loggedInEmail === 'admin@astralcore.io');
-      setIsModerator(loggedInEmail === 'moderator@astralcore.io');
+      setUser(session.user);
+      setIsAdmin(session.user.role === 'admin');
+      setIsModerator(session.user.role === 'moderator');
 
-      if (currentUser.id) {
-        await fetchWalletAndTiers(currentUser.id);
-      }
+      await fetchWalletAndTiers();
       setIsInitializing(false);
     };
     initializeUser();
-  }, [fetchWalletAndTiers]);
+  }, [fetchWalletAndTiers, router]);
 
 
   React.useEffect(() => {
@@ -416,7 +412,7 @@ const getPageTitle = React.useCallback(() => {
               <div className="relative p-4 rounded-xl border border-sidebar-border/40 bg-black/30 backdrop-blur-xl">
                 <div className="flex items-center gap-3 mb-3">
                   <AvatarUploadDialog
-                    onUploadSuccess={() => fetchWalletAndTiers(user.id)}
+                    onUploadSuccess={() => fetchWalletAndTiers()}
                     wallet={wallet}
                   >
                     <div className="relative">
@@ -0,0 +1,18 @@
+import { Suspense } from "react";
+import { EmailChangeCancelForm } from "@/components/auth/email-change-cancel-form";
+import type { Metadata } from 'next';
+
+export const metadata: Metadata = {
+    title: "Cancel Email Change - AstralCore",
+    description: "Cancel a change of your AstralCore account email address.",
+};
+
+export default function EmailChangeCancelPage() {
+  return (
+    <main className="flex min-h-dvh items-center justify-center bg-secondary p-4">
+      <Suspense>
+        <EmailChangeCancelForm />
+      </Suspense>
+    </main>
+  );
+}
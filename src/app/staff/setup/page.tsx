@@ -0,0 +1,18 @@
+import { Suspense } from "react";
+import { StaffSetupForm } from "@/components/auth/staff-setup-form";
+import type { Metadata } from 'next';
+
+export const metadata: Metadata = {
+    title: "Staff Account Setup - AstralCore",
+    description: "Finish setting up your AstralCore staff account.",
+};
+
+export default function StaffSetupPage() {
+  return (
+    <main className="flex min-h-dvh items-center justify-center bg-secondary p-4">
+      <Suspense>
+        <StaffSetupForm />
+      </Suspense>
+    </main>
+  );
+}
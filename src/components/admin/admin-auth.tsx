@@ -16,19 +16,21 @@ export function AdminAuth({ children }: { children: React.ReactNode }) {
   const [user, setUser] = React.useState<any>(null);
 
   React.useEffect(() => {
-    // Check session storage to see if admin was logged in
-    const loggedInEmail = sessionStorage.getItem('loggedInEmail');
-    if (loggedInEmail === 'admin@astralcore.io') {
-      setAuthStatus("authed");
-      setUser({ id: 'mock-admin-id', email: loggedInEmail });
-    } else {
-      setAuthStatus("unauthed");
-    }
+    fetch('/api/auth/session')
+      .then(response => response.json())
+      .then(data => {
+        if (data.authenticated && data.user?.role === 'admin') {
+          setUser(data.user);
+          setAuthStatus("authed");
+        } else {
+          setAuthStatus("unauthed");
+        }
+      })
+      .catch(() => setAuthStatus("unauthed"));
   }, []);
 
-
-  const handleLoginSuccess = (email: string) => {
-    setUser({ id: 'mock-admin-id', email });
+  const handleLoginSuccess = (loggedInUser: any) => {
+    setUser(loggedInUser);
     setAuthStatus("authed");
   };
 
@@ -22,8 +22,9 @@ import {
   FormMessage,
 } from "@/components/ui/form";
 import { Input } from "@/components/ui/input";
-import { useToast, type Toast } from "@/hooks/use-toast";
-import { clientLogin as login } from "@/lib/auth-client";
+import { useToast } from "@/hooks/use-toast";
+import { clientLogin as login, type AuthResponse } from "@/lib/auth-client";
+import { TwoFactorChallenge } from "@/components/auth/two-factor-challenge";
 
 const adminLoginSchema = z.object({
   email: z.string().email(),
@@ -32,43 +33,62 @@ const adminLoginSchema = z.object({
 
 type AdminLoginFormValues = z.infer<typeof adminLoginSchema>;
 
-const MOCK_ADMIN_EMAIL = "admin@astralcore.io";
-
-export function AdminLoginForm({ onLoginSuccess }: { onLoginSuccess: (email: string) => void }) {
-  const { toast }: { toast: (props: Toast) => void } = useToast();
+export function AdminLoginForm({ onLoginSuccess }: { onLoginSuccess: (user: { email: string; role: string }) => void }) {
+  const { toast } = useToast();
   const [isLoading, setIsLoading] = React.useState(false);
+  const [challenge, setChallenge] = React.useState<AuthResponse | null>(null);
 
   const form = useForm<AdminLoginFormValues>({
     resolver: zodResolver(adminLoginSchema),
     defaultValues: {
-      email: MOCK_ADMIN_EMAIL,
-      password: "admin", // Pre-fill for demo purposes
+      email: "",
+      password: "",
     },
   });
 
-  const onSubmit = async (values: AdminLoginFormValues) => {
-    setIsLoading(true);
-    
-    const { error } = await login(values);
-
-    if (error) {
+  const finishLogin = (email: string, role?: string, error?: string) => {
+    if (error || role !== 'admin') {
        toast({
         title: "Login Failed",
-        description: error,
+        description: error || "This account does not have admin access.",
         variant: "destructive",
       });
     } else {
-      sessionStorage.setItem('loggedInEmail', values.email);
       toast({
         title: "Admin Login Successful",
         description: "Welcome to the AstralCore AI panel.",
       });
-      onLoginSuccess(values.email);
+      onLoginSuccess({ email, role });
+    }
+  };
+
+  const onSubmit = async (values: AdminLoginFormValues) => {
+    setIsLoading(true);
+    
+    const result = await login(values.email, values.password);
+
+    if (result.twoFactorRequired) {
+      setChallenge(result);
+    } else {
+      finishLogin(values.email, result.role, result.error);
     }
 
     setIsLoading(false);
   };
 
+  if (challenge) {
+    return (
+      <TwoFactorChallenge
+        challenge={challenge}
+        onSuccess={role => {
+          setChallenge(null);
+          finishLogin(form.getValues("email"), role);
+        }}
+        onCancel={() => setChallenge(null)}
+      />
+    );
+  }
+
   return (
     <Card className="w-full max-w-sm">
       <CardHeader className="text-center">
@@ -31,16 +31,24 @@ import {
   MessageSquare,
   Zap,
   Brain,
-  Edit
+  Edit,
+  UserCog,
+  Lock,
+  ShieldAlert,
+  Network
 } from 'lucide-react';
 import { WalletManager } from './wallet-manager';
 import { SupportChatManager } from './support-chat-manager';
 import { BotSettingsManager } from './bot-settings-manager';
 import { AnnouncementManager } from './announcement-manager';
 import { SiteSettingsManager } from './site-settings-manager';
+import { SecuritySettingsManager } from './security-settings-manager';
+import { AssetNetworkManager } from './asset-network-manager';
+import { LoginLockoutManager } from './login-lockout-manager';
 import { VerificationManager } from './verification-manager';
 import { PromotionManager } from './promotion-manager';
 import { ModeratorManager } from './moderator-manager';
+import { StaffManager } from './staff-manager';
 import { ActionLogViewer } from './action-log-viewer';
 import { AnalyticsManager } from './analytics/AnalyticsManager';
 import { DepositApprovalManager } from './deposit-approval-manager';
@@ -60,6 +68,7 @@ const adminSections = {
         'Users': { component: <UserManager />, icon: UserPlus },
         'Wallets': { component: <WalletManager />, icon: WalletCards },
         'KYC / UPDATE': { component: <VerificationManager />, icon: Shield },
+        'Staff Accounts': { component: <StaffManager />, icon: UserCog },
         'Moderators': { component: <ModeratorManager />, icon: Users },
     },
     'Financial Management': {
@@ -86,6 +95,9 @@ const adminSections = {
     },
     'System Management': {
         'General Settings': { component: <SiteSettingsManager />, icon: Settings },
+        'Security Settings': { component: <SecuritySettingsManager />, icon: Lock },
+        'Assets & Networks': { component: <AssetNetworkManager />, icon: Network },
+        'Login Lockouts': { component: <LoginLockoutManager />, icon: ShieldAlert },
         'Action Logs': { component: <ActionLogViewer />, icon: Activity },
         'Platform Analytics': { component: <AnalyticsManager />, icon: LayoutDashboard },
         'Data Management': { component: <DataFetcher />, icon: Globe },
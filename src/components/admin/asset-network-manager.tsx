@@ -0,0 +1,280 @@
+"use client";
+
+import * as React from "react";
+import {
+  ASSET_NETWORKS_KEY,
+  assetRegistrySchema,
+  parseAssetRegistry,
+  type AssetNetwork,
+  type RegistryAsset,
+} from "@/lib/asset-networks";
+import { ADDRESS_FORMATS, ADDRESS_FORMAT_LABELS, type AddressFormat } from "@/lib/address-validation";
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Skeleton } from "@/components/ui/skeleton";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { useToast } from "@/hooks/use-toast";
+import { Loader2, Plus, Save, Trash2 } from "lucide-react";
+
+const newNetwork = (): AssetNetwork => ({
+  id: "",
+  name: "",
+  depositAddress: "",
+  fee: 0,
+  minWithdraw: 0,
+  maxWithdraw: 1,
+  enabled: false,
+});
+
+const numberFields = [
+  { field: "fee", label: "Fee" },
+  { field: "minWithdraw", label: "Min" },
+  { field: "maxWithdraw", label: "Max" },
+] as const;
+
+// Networks without an address format accept any non-empty withdrawal address.
+const ANY_ADDRESS = "any";
+
+export function AssetNetworkManager() {
+  const { toast } = useToast();
+  const [assets, setAssets] = React.useState<RegistryAsset[]>([]);
+  const [newAsset, setNewAsset] = React.useState({ symbol: "", name: "", iconUrl: "" });
+  const [isLoading, setIsLoading] = React.useState(true);
+  const [isSaving, setIsSaving] = React.useState(false);
+
+  React.useEffect(() => {
+    async function fetchRegistry() {
+      try {
+        const response = await fetch(`/api/public-settings?key=${ASSET_NETWORKS_KEY}`);
+        if (!response.ok) throw new Error('Failed to fetch settings');
+        setAssets(parseAssetRegistry(await response.json()));
+      } catch (error: any) {
+        toast({ title: 'Error', description: error.message, variant: 'destructive' });
+        setAssets(parseAssetRegistry(null));
+      } finally {
+        setIsLoading(false);
+      }
+    }
+    fetchRegistry();
+  }, [toast]);
+
+  const updateAsset = (assetIndex: number, update: (asset: RegistryAsset) => RegistryAsset) => {
+    setAssets(current => current.map((asset, index) => (index === assetIndex ? update(asset) : asset)));
+  };
+
+  const updateNetwork = (assetIndex: number, networkIndex: number, changes: Partial<AssetNetwork>) => {
+    updateAsset(assetIndex, asset => ({
+      ...asset,
+      networks: asset.networks.map((network, index) => (index === networkIndex ? { ...network, ...changes } : network)),
+    }));
+  };
+
+  const addAsset = () => {
+    const symbol = newAsset.symbol.trim().toUpperCase();
+    if (!symbol || !newAsset.name.trim()) return;
+    setAssets(current => [...current, { symbol, name: newAsset.name.trim(), iconUrl: newAsset.iconUrl.trim(), networks: [newNetwork()] }]);
+    setNewAsset({ symbol: "", name: "", iconUrl: "" });
+  };
+
+  const handleSave = async () => {
+    const parsed = assetRegistrySchema.safeParse(assets);
+    if (!parsed.success) {
+      const issue = parsed.error.issues[0];
+      const [assetIndex, , networkIndex] = issue.path;
+      const asset = typeof assetIndex === "number" ? assets[assetIndex] : undefined;
+      const network = asset && typeof networkIndex === "number" ? asset.networks[networkIndex] : undefined;
+      const where = [asset?.symbol, network?.name || network?.id].filter(Boolean).join(" / ");
+      toast({ title: 'Invalid Settings', description: where ? `${where}: ${issue.message}` : issue.message, variant: 'destructive' });
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      const response = await fetch('/api/admin/settings', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ key: ASSET_NETWORKS_KEY, value: parsed.data }),
+      });
+      const result = await response.json();
+      if (!response.ok) throw new Error(result.error || 'Failed to save settings.');
+      toast({ title: "Settings Saved", description: "The asset networks have been updated." });
+    } catch (error: any) {
+      toast({ title: 'Error', description: error.message, variant: 'destructive' });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  if (isLoading) {
+    return <Skeleton className="h-96 w-full" />;
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Assets &amp; Networks</CardTitle>
+        <CardDescription>
+          The assets and networks shown on the deposit and withdraw pages. Withdrawal requests are checked against the network&apos;s minimum and maximum and its address format, and the fee is taken out of the withdrawn amount. Disabled networks are hidden from users; networks without a deposit address are only offered for withdrawals.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {assets.map((asset, assetIndex) => (
+          <div key={assetIndex} className="space-y-3 rounded-lg border p-4">
+            <div className="flex flex-wrap items-end gap-3">
+              <div className="space-y-1">
+                <Label>Symbol</Label>
+                <Input value={asset.symbol} readOnly className="w-24 font-mono" />
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor={`asset-name-${assetIndex}`}>Name</Label>
+                <Input
+                  id={`asset-name-${assetIndex}`}
+                  value={asset.name}
+                  onChange={event => updateAsset(assetIndex, current => ({ ...current, name: event.target.value }))}
+                  className="w-40"
+                />
+              </div>
+              <div className="flex-1 space-y-1 min-w-[12rem]">
+                <Label htmlFor={`asset-icon-${assetIndex}`}>Icon URL</Label>
+                <Input
+                  id={`asset-icon-${assetIndex}`}
+                  value={asset.iconUrl}
+                  onChange={event => updateAsset(assetIndex, current => ({ ...current, iconUrl: event.target.value }))}
+                />
+              </div>
+              <Button
+                variant="outline"
+                size="icon"
+                onClick={() => setAssets(current => current.filter((_, index) => index !== assetIndex))}
+                aria-label={`Remove ${asset.symbol}`}
+              >
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </div>
+
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Network</TableHead>
+                  <TableHead>ID</TableHead>
+                  <TableHead>Deposit Address</TableHead>
+                  <TableHead>Address Format</TableHead>
+                  {numberFields.map(({ field, label }) => <TableHead key={field}>{label}</TableHead>)}
+                  <TableHead>Enabled</TableHead>
+                  <TableHead />
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {asset.networks.map((network, networkIndex) => (
+                  <TableRow key={networkIndex}>
+                    <TableCell>
+                      <Input value={network.name} onChange={event => updateNetwork(assetIndex, networkIndex, { name: event.target.value })} className="min-w-[9rem]" />
+                    </TableCell>
+                    <TableCell>
+                      <Input
+                        value={network.id}
+                        onChange={event => updateNetwork(assetIndex, networkIndex, { id: event.target.value.toLowerCase() })}
+                        className="w-24 font-mono"
+                      />
+                    </TableCell>
+                    <TableCell>
+                      <Input
+                        value={network.depositAddress}
+                        onChange={event => updateNetwork(assetIndex, networkIndex, { depositAddress: event.target.value.trim() })}
+                        className="min-w-[12rem] font-mono text-xs"
+                      />
+                    </TableCell>
+                    <TableCell>
+                      <Select
+                        value={network.addressFormat || ANY_ADDRESS}
+                        onValueChange={value => updateNetwork(assetIndex, networkIndex, { addressFormat: value === ANY_ADDRESS ? undefined : value as AddressFormat })}
+                      >
+                        <SelectTrigger className="w-28"><SelectValue /></SelectTrigger>
+                        <SelectContent>
+                          {ADDRESS_FORMATS.map(format => <SelectItem key={format} value={format}>{ADDRESS_FORMAT_LABELS[format]}</SelectItem>)}
+                          <SelectItem value={ANY_ADDRESS}>Any</SelectItem>
+                        </SelectContent>
+                      </Select>
+                    </TableCell>
+                    {numberFields.map(({ field }) => (
+                      <TableCell key={field}>
+                        <Input
+                          type="number"
+                          min={0}
+                          step="any"
+                          value={network[field]}
+                          onChange={event => updateNetwork(assetIndex, networkIndex, { [field]: Number(event.target.value) || 0 })}
+                          className="w-24"
+                        />
+                      </TableCell>
+                    ))}
+                    <TableCell>
+                      <Switch checked={network.enabled} onCheckedChange={enabled => updateNetwork(assetIndex, networkIndex, { enabled })} />
+                    </TableCell>
+                    <TableCell>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        onClick={() => updateAsset(assetIndex, current => ({ ...current, networks: current.networks.filter((_, index) => index !== networkIndex) }))}
+                        aria-label="Remove network"
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+            <Button variant="outline" size="sm" onClick={() => updateAsset(assetIndex, current => ({ ...current, networks: [...current.networks, newNetwork()] }))}>
+              <Plus className="mr-2 h-4 w-4" />
+              Add Network
+            </Button>
+          </div>
+        ))}
+
+        <div className="flex flex-wrap items-end gap-3 rounded-lg border border-dashed p-4">
+          <div className="space-y-1">
+            <Label htmlFor="new-asset-symbol">Symbol</Label>
+            <Input id="new-asset-symbol" value={newAsset.symbol} onChange={event => setNewAsset({ ...newAsset, symbol: event.target.value })} className="w-24 font-mono" />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="new-asset-name">Name</Label>
+            <Input id="new-asset-name" value={newAsset.name} onChange={event => setNewAsset({ ...newAsset, name: event.target.value })} className="w-40" />
+          </div>
+          <div className="flex-1 space-y-1 min-w-[12rem]">
+            <Label htmlFor="new-asset-icon">Icon URL</Label>
+            <Input id="new-asset-icon" value={newAsset.iconUrl} onChange={event => setNewAsset({ ...newAsset, iconUrl: event.target.value })} />
+          </div>
+          <Button variant="outline" onClick={addAsset} disabled={!newAsset.symbol.trim() || !newAsset.name.trim()}>
+            <Plus className="mr-2 h-4 w-4" />
+            Add Asset
+          </Button>
+        </div>
+
+        <div className="flex justify-end">
+          <Button onClick={handleSave} disabled={isSaving}>
+            {isSaving ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Save className="mr-2 h-4 w-4" />}
+            Save Settings
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
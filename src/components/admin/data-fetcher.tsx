@@ -1,6 +1,6 @@
 'use client';
 
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useRef, type ChangeEvent } from 'react';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
@@ -9,7 +9,17 @@ import { LoadingSpinner } from '@/components/ui/loading-spinner';
 import { ScrollArea } from '@/components/ui/scroll-area';
 import { Alert, AlertDescription } from '@/components/ui/alert';
 import { Input } from '@/components/ui/input';
-import { Search, Download, RefreshCw, Users, Wallet, MessageSquare, Settings } from 'lucide-react';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { Search, Download, RefreshCw, Users, Wallet, MessageSquare, Settings, Archive, Upload } from 'lucide-react';
 
 interface AggregatedData {
   users: {
@@ -40,6 +50,10 @@ export function DataFetcher() {
   const [error, setError] = useState<string | null>(null);
   const [searchTerm, setSearchTerm] = useState('');
   const [selectedUserId, setSelectedUserId] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+  const [backupBusy, setBackupBusy] = useState(false);
+  const [pendingRestore, setPendingRestore] = useState<{ fileName: string; archive: any } | null>(null);
+  const restoreInputRef = useRef<HTMLInputElement>(null);
 
   const fetchAllData = async () => {
     setLoading(true);
@@ -69,19 +83,82 @@ export function DataFetcher() {
       
       // Download as JSON file
       const blob = new Blob([JSON.stringify(result, null, 2)], { type: 'application/json' });
-      const url = URL.createObjectURL(blob);
-      const a = document.createElement('a');
-      a.href = url;
-      a.download = `astralcore-data-export-${new Date().toISOString().split('T')[0]}.json`;
-      document.body.appendChild(a);
-      a.click();
-      document.body.removeChild(a);
-      URL.revokeObjectURL(url);
+      downloadBlob(blob, `astralcore-data-export-${new Date().toISOString().split('T')[0]}.json`);
     } catch (err) {
       setError('Failed to export data');
     }
   };
 
+  const downloadBlob = (blob: Blob, fileName: string) => {
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = fileName;
+    document.body.appendChild(a);
+    a.click();
+    document.body.removeChild(a);
+    URL.revokeObjectURL(url);
+  };
+
+  const downloadBackup = async () => {
+    setBackupBusy(true);
+    setError(null);
+    setNotice(null);
+    try {
+      const response = await fetch('/api/admin/backup');
+      if (!response.ok) {
+        const result = await response.json();
+        throw new Error(result.error || `HTTP ${response.status}`);
+      }
+      const fileName = response.headers.get('Content-Disposition')?.match(/filename="(.+)"/)?.[1]
+        || `astralcore-backup-${new Date().toISOString().split('T')[0]}.json`;
+      downloadBlob(await response.blob(), fileName);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to create backup');
+    } finally {
+      setBackupBusy(false);
+    }
+  };
+
+  const selectRestoreFile = async (event: ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+    try {
+      setPendingRestore({ fileName: file.name, archive: JSON.parse(await file.text()) });
+    } catch {
+      setError(`${file.name} is not a valid backup archive.`);
+    }
+  };
+
+  const restoreBackup = async () => {
+    if (!pendingRestore) return;
+    const { archive } = pendingRestore;
+    setPendingRestore(null);
+    setBackupBusy(true);
+    setError(null);
+    setNotice(null);
+    try {
+      const response = await fetch('/api/admin/restore', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(archive),
+      });
+      const result = await response.json();
+      if (!response.ok) {
+        throw new Error([result.error, ...(result.problems || [])].filter(Boolean).join(' '));
+      }
+      setNotice(
+        `Restored ${result.restored.length} data sections from the backup taken ${new Date(archive.manifest.createdAt).toLocaleString()}. ` +
+          'Everyone has been signed out, including you. Sign in again to continue.'
+      );
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to restore backup');
+    } finally {
+      setBackupBusy(false);
+    }
+  };
+
   useEffect(() => {
     fetchAllData();
   }, []);
@@ -120,15 +197,53 @@ export function DataFetcher() {
             <Download className="w-4 h-4 mr-2" />
             Export
           </Button>
+          <Button onClick={downloadBackup} disabled={backupBusy} variant="outline">
+            <Archive className="w-4 h-4 mr-2" />
+            Backup
+          </Button>
+          <Button onClick={() => restoreInputRef.current?.click()} disabled={backupBusy} variant="outline">
+            <Upload className="w-4 h-4 mr-2" />
+            Restore
+          </Button>
+          <input
+            ref={restoreInputRef}
+            type="file"
+            accept="application/json,.json"
+            className="hidden"
+            onChange={selectRestoreFile}
+          />
         </div>
       </div>
 
+      <AlertDialog open={!!pendingRestore} onOpenChange={(open) => !open && setPendingRestore(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Restore from {pendingRestore?.fileName}?</AlertDialogTitle>
+            <AlertDialogDescription>
+              Users, staff, API tokens, wallets, chats, notifications, settings, web pages, clans and squad chats
+              will be replaced with the contents of this backup. Anything changed since it was taken will be lost,
+              and every user, including you, will be signed out.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={restoreBackup}>Restore</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+
       {error && (
         <Alert variant="destructive">
           <AlertDescription>{error}</AlertDescription>
         </Alert>
       )}
 
+      {notice && (
+        <Alert>
+          <AlertDescription>{notice}</AlertDescription>
+        </Alert>
+      )}
+
       {data && (
         <>
           {/* Summary Cards */}
@@ -2,7 +2,7 @@
 "use client";
 
 import * as React from "react";
-import { Loader2, CheckCircle, RefreshCw, Banknote } from "lucide-react";
+import { Loader2, CheckCircle, RefreshCw, Banknote, XCircle, HelpCircle } from "lucide-react";
 import { format } from "date-fns";
 import { Button } from "@/components/ui/button";
 import {
@@ -22,7 +22,19 @@ import {
 } from "@/components/ui/table";
 import { useToast } from "@/hooks/use-toast";
 import { Skeleton } from "@/components/ui/skeleton";
+import { Badge } from "@/components/ui/badge";
+import { Textarea } from "@/components/ui/textarea";
+import { Label } from "@/components/ui/label";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
 import Image from "next/image";
+import type { DepositStatus } from "@/lib/deposits";
 
 type DepositRequest = {
   id: string;
@@ -31,6 +43,26 @@ type DepositRequest = {
   amount: number;
   asset: string;
   timestamp: string;
+  status: DepositStatus;
+  reason?: string;
+};
+
+// Rejecting and asking for more information both need a reason for the user.
+type ReasonAction = "reject" | "request_info";
+
+const reasonActions: Record<ReasonAction, { title: string; description: string; endpoint: string; confirm: string }> = {
+  reject: {
+    title: "Reject Deposit",
+    description: "The deposit will be closed without crediting the user. They will see this reason.",
+    endpoint: "/api/admin/reject-deposit",
+    confirm: "Reject",
+  },
+  request_info: {
+    title: "Request More Information",
+    description: "The deposit stays open and the user is asked for the details below.",
+    endpoint: "/api/admin/request-deposit-info",
+    confirm: "Send Request",
+  },
 };
 
 const assetIcons: { [key: string]: string } = {
@@ -44,6 +76,9 @@ export function DepositApprovalManager() {
   const [requests, setRequests] = React.useState<DepositRequest[]>([]);
   const [isApproving, setIsApproving] = React.useState<string | null>(null);
   const [isFetching, setIsFetching] = React.useState(true);
+  const [review, setReview] = React.useState<{ request: DepositRequest; action: ReasonAction } | null>(null);
+  const [reason, setReason] = React.useState("");
+  const [isSubmittingReview, setIsSubmittingReview] = React.useState(false);
 
   const refetchRequests = React.useCallback(async () => {
     setIsFetching(true);
@@ -83,12 +118,42 @@ export function DepositApprovalManager() {
     setIsApproving(null);
   };
 
+  const openReview = (request: DepositRequest, action: ReasonAction) => {
+    setReason("");
+    setReview({ request, action });
+  };
+
+  const handleReview = async () => {
+    if (!review || !reason.trim()) return;
+    const { request: req, action } = review;
+    setIsSubmittingReview(true);
+    try {
+        const response = await fetch(reasonActions[action].endpoint, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({ userId: req.userId, depositId: req.id, reason: reason.trim() }),
+        });
+        const result = await response.json();
+        if (!response.ok || result.error) throw new Error(result.error || 'API request failed');
+
+        setReview(null);
+        await refetchRequests();
+        toast({
+            title: action === "reject" ? "Deposit Rejected" : "Information Requested",
+            description: `${req.username} has been notified.`,
+        });
+    } catch (error: any) {
+        toast({ title: "Action Failed", description: error.message, variant: "destructive" });
+    }
+    setIsSubmittingReview(false);
+  };
+
   return (
     <Card>
         <CardHeader className="flex flex-row items-center justify-between">
             <div>
                 <CardTitle>Deposit Approval</CardTitle>
-                <CardDescription>Review and approve pending user deposit requests.</CardDescription>
+                <CardDescription>Approve, reject or ask for more information on pending user deposit requests.</CardDescription>
             </div>
             <Button onClick={refetchRequests} variant="outline" size="icon" disabled={isFetching}>
                 <RefreshCw className={isFetching ? "animate-spin" : ""} />
@@ -102,6 +167,7 @@ export function DepositApprovalManager() {
                         <TableHead>Asset</TableHead>
                         <TableHead className="text-right">Amount</TableHead>
                         <TableHead>Requested On</TableHead>
+                        <TableHead>Status</TableHead>
                         <TableHead className="text-right">Actions</TableHead>
                     </TableRow>
                 </TableHeader>
@@ -113,6 +179,7 @@ export function DepositApprovalManager() {
                                 <TableCell><Skeleton className="h-6 w-16" /></TableCell>
                                 <TableCell className="text-right"><Skeleton className="h-6 w-24 ml-auto" /></TableCell>
                                 <TableCell><Skeleton className="h-6 w-28" /></TableCell>
+                                <TableCell><Skeleton className="h-6 w-20" /></TableCell>
                                 <TableCell className="text-right"><Skeleton className="h-8 w-24 ml-auto" /></TableCell>
                             </TableRow>
                         ))
@@ -131,17 +198,33 @@ export function DepositApprovalManager() {
                                 </TableCell>
                                 <TableCell className="text-right font-mono">{req.amount.toFixed(2)}</TableCell>
                                 <TableCell>{format(new Date(req.timestamp), "PPp")}</TableCell>
+                                <TableCell>
+                                    <Badge variant={req.status === "info_requested" ? "outline" : "secondary"}>
+                                        {req.status === "info_requested" ? "Info requested" : "Pending"}
+                                    </Badge>
+                                    {req.reason && <div className="text-xs text-muted-foreground mt-1 max-w-[14rem] truncate" title={req.reason}>{req.reason}</div>}
+                                </TableCell>
                                 <TableCell className="text-right">
-                                    <Button size="sm" onClick={() => handleApprove(req)} disabled={isApproving === req.id}>
-                                        {isApproving === req.id ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <CheckCircle className="mr-2 h-4 w-4" />}
-                                        Approve
-                                    </Button>
+                                    <div className="flex justify-end gap-2">
+                                        <Button size="sm" onClick={() => handleApprove(req)} disabled={isApproving === req.id}>
+                                            {isApproving === req.id ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <CheckCircle className="mr-2 h-4 w-4" />}
+                                            Approve
+                                        </Button>
+                                        <Button size="sm" variant="outline" onClick={() => openReview(req, "request_info")} disabled={isApproving === req.id}>
+                                            <HelpCircle className="mr-2 h-4 w-4" />
+                                            Request Info
+                                        </Button>
+                                        <Button size="sm" variant="destructive" onClick={() => openReview(req, "reject")} disabled={isApproving === req.id}>
+                                            <XCircle className="mr-2 h-4 w-4" />
+                                            Reject
+                                        </Button>
+                                    </div>
                                 </TableCell>
                             </TableRow>
                         ))
                     ) : (
                         <TableRow>
-                            <TableCell colSpan={5} className="h-24 text-center">
+                            <TableCell colSpan={6} className="h-24 text-center">
                                 <Banknote className="mx-auto h-8 w-8 text-muted-foreground mb-2" />
                                 No pending deposit requests.
                             </TableCell>
@@ -150,6 +233,41 @@ export function DepositApprovalManager() {
                 </TableBody>
             </Table>
         </CardContent>
+        <Dialog open={!!review} onOpenChange={(open) => !open && !isSubmittingReview && setReview(null)}>
+            <DialogContent>
+                {review && (
+                    <>
+                        <DialogHeader>
+                            <DialogTitle>{reasonActions[review.action].title}</DialogTitle>
+                            <DialogDescription>
+                                {review.request.amount} {review.request.asset.toUpperCase()} from {review.request.username}. {reasonActions[review.action].description}
+                            </DialogDescription>
+                        </DialogHeader>
+                        <div className="space-y-2">
+                            <Label htmlFor="deposit-review-reason">Reason</Label>
+                            <Textarea
+                                id="deposit-review-reason"
+                                value={reason}
+                                onChange={(event) => setReason(event.target.value)}
+                                maxLength={500}
+                                placeholder={review.action === "reject" ? "e.g. No matching transfer was received." : "e.g. Please send the transaction hash of your transfer."}
+                            />
+                        </div>
+                        <DialogFooter>
+                            <Button variant="outline" onClick={() => setReview(null)} disabled={isSubmittingReview}>Cancel</Button>
+                            <Button
+                                variant={review.action === "reject" ? "destructive" : "default"}
+                                onClick={handleReview}
+                                disabled={isSubmittingReview || !reason.trim()}
+                            >
+                                {isSubmittingReview && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                                {reasonActions[review.action].confirm}
+                            </Button>
+                        </DialogFooter>
+                    </>
+                )}
+            </DialogContent>
+        </Dialog>
     </Card>
   );
 }
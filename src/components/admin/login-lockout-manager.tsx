@@ -0,0 +1,123 @@
+'use client';
+
+import * as React from 'react';
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from '@/components/ui/card';
+import {Badge} from '@/components/ui/badge';
+import {Button} from '@/components/ui/button';
+import {Skeleton} from '@/components/ui/skeleton';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import {useToast} from '@/hooks/use-toast';
+import {RefreshCw, Unlock} from 'lucide-react';
+import {format} from 'date-fns';
+
+type LoginLockout = {
+  userId: string;
+  email?: string;
+  fullName?: string;
+  failedAttempts: number;
+  lastFailedAt?: string;
+  nextAttemptAt?: string;
+  lockedUntil?: string;
+};
+
+export function LoginLockoutManager() {
+  const {toast} = useToast();
+  const [lockouts, setLockouts] = React.useState<LoginLockout[]>([]);
+  const [isLoading, setIsLoading] = React.useState(true);
+
+  const fetchLockouts = React.useCallback(async () => {
+    setIsLoading(true);
+    try {
+      const response = await fetch('/api/admin/login-lockouts');
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error);
+      setLockouts(data.lockouts);
+    } catch (error: any) {
+      toast({title: 'Error', description: error.message || 'Could not load login lockouts.', variant: 'destructive'});
+    } finally {
+      setIsLoading(false);
+    }
+  }, [toast]);
+
+  React.useEffect(() => {
+    fetchLockouts();
+  }, [fetchLockouts]);
+
+  const handleClear = async (lockout: LoginLockout) => {
+    try {
+      const response = await fetch(`/api/admin/login-lockouts?userId=${encodeURIComponent(lockout.userId)}`, {method: 'DELETE'});
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error);
+      toast({title: 'Lockout Cleared', description: `${lockout.email || lockout.userId} can sign in again.`});
+      await fetchLockouts();
+    } catch (error: any) {
+      toast({title: 'Error', description: error.message || 'Could not clear the lockout.', variant: 'destructive'});
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between space-y-0">
+        <div className="space-y-1.5">
+          <CardTitle>Login Lockouts</CardTitle>
+          <CardDescription>
+            Accounts with recent failed sign-in attempts. Repeated failures slow down further attempts and then lock the account for a while; clearing resets both.
+          </CardDescription>
+        </div>
+        <Button variant="outline" size="icon" onClick={fetchLockouts} disabled={isLoading}><RefreshCw className="h-4 w-4" /></Button>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <Skeleton className="h-48 w-full" />
+        ) : lockouts.length === 0 ? (
+          <p className="text-sm text-muted-foreground text-center py-8">No accounts have failed sign-in attempts.</p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow><TableHead>User</TableHead><TableHead>Failed Attempts</TableHead><TableHead>Last Failure</TableHead><TableHead>Status</TableHead><TableHead className="text-right">Actions</TableHead></TableRow>
+            </TableHeader>
+            <TableBody>
+              {lockouts.map(lockout => (
+                <TableRow key={lockout.userId}>
+                  <TableCell>
+                    <div className="font-medium">{lockout.fullName || '—'}</div>
+                    <div className="text-xs text-muted-foreground">{lockout.email || lockout.userId}</div>
+                  </TableCell>
+                  <TableCell>{lockout.failedAttempts}</TableCell>
+                  <TableCell>{lockout.lastFailedAt ? format(new Date(lockout.lastFailedAt), 'PPp') : '—'}</TableCell>
+                  <TableCell>
+                    {lockout.lockedUntil ? (
+                      <Badge variant="destructive">Locked until {format(new Date(lockout.lockedUntil), 'p')}</Badge>
+                    ) : lockout.nextAttemptAt ? (
+                      <Badge variant="secondary">Delayed until {format(new Date(lockout.nextAttemptAt), 'pp')}</Badge>
+                    ) : (
+                      <Badge variant="outline">Counting</Badge>
+                    )}
+                  </TableCell>
+                  <TableCell className="text-right">
+                    <Button variant="ghost" size="sm" onClick={() => handleClear(lockout)}>
+                      <Unlock className="mr-2 h-4 w-4" />Clear
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
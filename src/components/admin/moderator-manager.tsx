@@ -30,57 +30,70 @@ import {
 import {Label} from '../ui/label';
 import {Switch} from '../ui/switch';
 import {Separator} from '../ui/separator';
+import type {ModeratorAssignment} from '@/lib/moderator';
 
-type Moderator = {
-  userId: string;
+type Moderator = ModeratorAssignment & {
   username: string;
-  status: 'active' | 'inactive';
-  permissions: {
-    customer_support: boolean;
-    user_verification: boolean;
-    deposit_approval: boolean;
-  };
 };
 
-// Mock User type, simplified
-type User = {
-    id: string;
-    email: string;
-    user_metadata: {
-        username?: string;
-    }
-}
+// Staff accounts with the moderator role; invite them from Staff Accounts first.
+type ModeratorAccount = {
+  id: string;
+  email: string;
+  fullName: string;
+  isActive: boolean;
+};
+
+const accountName = (account?: ModeratorAccount) => account?.fullName || account?.email;
 
 export function ModeratorManager() {
   const {toast} = useToast();
   const [moderators, setModerators] = React.useState<Moderator[]>([]);
-  const [allUsers, setAllUsers] = React.useState<User[]>([]);
+  const [allUsers, setAllUsers] = React.useState<ModeratorAccount[]>([]);
   const [isLoading, setIsLoading] = React.useState(true);
   const [isSaving, setIsSaving] = React.useState(false);
 
-  // Since Supabase is removed, we'll use mock data.
   React.useEffect(() => {
-    setIsLoading(true);
-    // Simulate fetching data
-    setTimeout(() => {
-        setModerators([]); // No moderators by default
-        setAllUsers([
-            { id: 'mock-user-123', email: 'user@example.com', user_metadata: { username: 'DefaultUser'}},
-            { id: 'mock-user-456', email: 'another@example.com', user_metadata: { username: 'AnotherUser'}},
-        ]);
+    async function fetchModerators() {
+      try {
+        const response = await fetch('/api/admin/moderators');
+        const data = await response.json();
+        if (!response.ok) throw new Error(data.error);
+        const accounts: ModeratorAccount[] = data.accounts;
+        setAllUsers(accounts);
+        setModerators(
+          data.moderators.map((moderator: ModeratorAssignment) => ({
+            ...moderator,
+            username: accountName(accounts.find(a => a.id === moderator.userId)) || moderator.userId,
+          }))
+        );
+      } catch (error: any) {
+        toast({title: 'Error', description: error.message || 'Could not load moderators.', variant: 'destructive'});
+      } finally {
         setIsLoading(false);
-    }, 1000);
-  }, []);
+      }
+    }
+    fetchModerators();
+  }, [toast]);
 
   const handleSave = async () => {
     setIsSaving(true);
-    // Simulate API call
-    await new Promise(resolve => setTimeout(resolve, 1000));
-    toast({
-      title: 'Action Disabled',
-      description: 'Managing moderators is disabled in this mock environment.',
-    });
-    setIsSaving(false);
+    try {
+      const response = await fetch('/api/admin/moderators', {
+        method: 'PUT',
+        headers: {'Content-Type': 'application/json'},
+        body: JSON.stringify({
+          moderators: moderators.map(({userId, status, permissions}) => ({userId, status, permissions})),
+        }),
+      });
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error);
+      toast({title: 'Moderators Saved', description: 'Moderator access has been updated.'});
+    } catch (error: any) {
+      toast({title: 'Error', description: error.message || 'Could not save moderators.', variant: 'destructive'});
+    } finally {
+      setIsSaving(false);
+    }
   };
 
   const handleAddModerator = (userId: string) => {
@@ -98,7 +111,7 @@ export function ModeratorManager() {
         ...moderators,
         {
           userId: user.id,
-          username: user.user_metadata.username || user.email!,
+          username: accountName(user) || user.id,
           status: 'inactive',
           permissions: {
             customer_support: true,
@@ -239,12 +252,12 @@ export function ModeratorManager() {
                 disabled={availableUsers.length === 0}
               >
                 <SelectTrigger id="add-moderator">
-                  <SelectValue placeholder="Select a user to promote" />
+                  <SelectValue placeholder="Select a moderator account" />
                 </SelectTrigger>
                 <SelectContent>
                   {availableUsers.map(user => (
                     <SelectItem key={user.id} value={user.id}>
-                      {user.user_metadata.username || user.email}
+                      {accountName(user)}
                     </SelectItem>
                   ))}
                 </SelectContent>
@@ -4,7 +4,7 @@
 import * as React from 'react';
 import {formatDistanceToNow} from 'date-fns';
 import {useToast} from '@/hooks/use-toast';
-import {type Notification} from '@/lib/notifications';
+import type {Notification} from '@/lib/notification-actions';
 import {
   Card,
   CardHeader,
@@ -57,7 +57,7 @@ import {
   Edit,
 } from 'lucide-react';
 import Image from 'next/image';
-import {type Promotion, getPromotions} from '@/lib/promotions';
+import {type Promotion, listPromotions} from '@/lib/notification-actions';
 import {Badge} from '@/components/ui/badge';
 
 const promotionSchema = z.object({
@@ -86,7 +86,7 @@ export function PromotionManager() {
 
   const fetchPromotions = React.useCallback(async () => {
     setIsLoading(true);
-    const data = await getPromotions();
+    const data = await listPromotions();
     setPromotions(data);
     setIsLoading(false);
   }, []);
@@ -0,0 +1,136 @@
+"use client";
+
+import * as React from "react";
+import {
+  defaultSecuritySettings,
+  MAX_ADDRESS_COOLDOWN_HOURS,
+  SECURITY_SETTINGS_KEY,
+  type SecuritySettings,
+} from "@/lib/security-settings";
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Skeleton } from "@/components/ui/skeleton";
+import { useToast } from "@/hooks/use-toast";
+import { Loader2, Save } from "lucide-react";
+
+const STAFF_ROLES = [
+  { role: "admin", label: "Admins" },
+  { role: "moderator", label: "Moderators" },
+] as const;
+
+export function SecuritySettingsManager() {
+  const { toast } = useToast();
+  const [settings, setSettings] = React.useState<SecuritySettings>(defaultSecuritySettings);
+  const [isLoading, setIsLoading] = React.useState(true);
+  const [isSaving, setIsSaving] = React.useState(false);
+
+  React.useEffect(() => {
+    async function fetchSettings() {
+      try {
+        const response = await fetch(`/api/public-settings?key=${SECURITY_SETTINGS_KEY}`);
+        if (!response.ok) throw new Error('Failed to fetch settings');
+        const data = await response.json();
+        setSettings({ ...defaultSecuritySettings, ...data });
+      } catch (error: any) {
+        toast({ title: 'Error', description: error.message, variant: 'destructive' });
+      } finally {
+        setIsLoading(false);
+      }
+    }
+    fetchSettings();
+  }, [toast]);
+
+  const toggleRole = (role: SecuritySettings['requireTwoFactorRoles'][number], required: boolean) => {
+    setSettings(current => ({
+      ...current,
+      requireTwoFactorRoles: required
+        ? [...current.requireTwoFactorRoles.filter(r => r !== role), role]
+        : current.requireTwoFactorRoles.filter(r => r !== role),
+    }));
+  };
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    try {
+      const response = await fetch('/api/admin/settings', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ key: SECURITY_SETTINGS_KEY, value: settings }),
+      });
+      const result = await response.json();
+      if (!response.ok) throw new Error(result.error || 'Failed to save settings.');
+      toast({ title: "Settings Saved", description: "The security settings have been updated." });
+    } catch (error: any) {
+      toast({ title: 'Error', description: error.message, variant: 'destructive' });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  if (isLoading) {
+    return <Skeleton className="h-48 w-full" />;
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Security Settings</CardTitle>
+        <CardDescription>
+          Staff in a role that requires two-factor authentication must set up an authenticator app the next time they sign in, and cannot turn it off. New or changed withdrawal addresses can only be used once the address cooldown has passed.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {STAFF_ROLES.map(({ role, label }) => (
+          <div key={role} className="flex items-center justify-between rounded-lg border p-3">
+            <Label htmlFor={`require-2fa-${role}`}>Require two-factor authentication for {label}</Label>
+            <Switch
+              id={`require-2fa-${role}`}
+              checked={settings.requireTwoFactorRoles.includes(role)}
+              onCheckedChange={checked => toggleRole(role, checked)}
+            />
+          </div>
+        ))}
+        <div className="space-y-1 rounded-lg border p-3">
+          <div className="flex items-center justify-between">
+            <Label htmlFor="require-2fa-withdrawals">Require two-factor authentication for withdrawals</Label>
+            <Switch
+              id="require-2fa-withdrawals"
+              checked={settings.requireTwoFactorForWithdrawals}
+              onCheckedChange={checked => setSettings(current => ({ ...current, requireTwoFactorForWithdrawals: checked }))}
+            />
+          </div>
+          <p className="text-xs text-muted-foreground">
+            Accounts without two-factor authentication cannot withdraw while this is on; the withdraw page asks them to set it up first. Announce the change to users before turning it on. Accounts that have it always confirm withdrawals with a code.
+          </p>
+        </div>
+        <div className="flex items-center justify-between gap-4 rounded-lg border p-3">
+          <Label htmlFor="address-cooldown">Withdrawal address cooldown (hours)</Label>
+          <Input
+            id="address-cooldown"
+            type="number"
+            min={0}
+            max={MAX_ADDRESS_COOLDOWN_HOURS}
+            value={settings.addressCooldownHours}
+            onChange={event => setSettings(current => ({ ...current, addressCooldownHours: Number(event.target.value) || 0 }))}
+            className="w-24"
+          />
+        </div>
+        <div className="flex justify-end">
+          <Button onClick={handleSave} disabled={isSaving}>
+            {isSaving ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Save className="mr-2 h-4 w-4" />}
+            Save Settings
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
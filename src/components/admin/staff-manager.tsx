@@ -0,0 +1,213 @@
+'use client';
+
+import * as React from 'react';
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from '@/components/ui/card';
+import {Badge} from '@/components/ui/badge';
+import {Button} from '@/components/ui/button';
+import {Input} from '@/components/ui/input';
+import {Label} from '@/components/ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {Skeleton} from '@/components/ui/skeleton';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import {useToast} from '@/hooks/use-toast';
+import {Copy, Loader2, Mail, Trash2} from 'lucide-react';
+import {format} from 'date-fns';
+
+type StaffRole = 'admin' | 'moderator';
+
+type StaffMember = {
+  id: string;
+  email: string;
+  fullName: string;
+  role: StaffRole;
+  isActive: boolean;
+  createdAt: string;
+  lastLogin?: string;
+};
+
+type StaffInvite = {
+  id: string;
+  email: string;
+  fullName?: string;
+  role: StaffRole;
+  invitedBy: string;
+  createdAt: string;
+  expiresAt: string;
+};
+
+export function StaffManager() {
+  const {toast} = useToast();
+  const [staff, setStaff] = React.useState<StaffMember[]>([]);
+  const [invites, setInvites] = React.useState<StaffInvite[]>([]);
+  const [isLoading, setIsLoading] = React.useState(true);
+  const [isInviting, setIsInviting] = React.useState(false);
+  const [email, setEmail] = React.useState('');
+  const [fullName, setFullName] = React.useState('');
+  const [role, setRole] = React.useState<StaffRole>('moderator');
+  // The setup link is only available right after creating the invite.
+  const [setupUrl, setSetupUrl] = React.useState<string | null>(null);
+
+  const fetchStaff = React.useCallback(async () => {
+    try {
+      const response = await fetch('/api/admin/staff');
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error);
+      setStaff(data.staff);
+      setInvites(data.invites);
+    } catch (error: any) {
+      toast({title: 'Error', description: error.message || 'Could not load staff accounts.', variant: 'destructive'});
+    } finally {
+      setIsLoading(false);
+    }
+  }, [toast]);
+
+  React.useEffect(() => {
+    fetchStaff();
+  }, [fetchStaff]);
+
+  const handleInvite = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsInviting(true);
+    setSetupUrl(null);
+    try {
+      const response = await fetch('/api/admin/staff', {
+        method: 'POST',
+        headers: {'Content-Type': 'application/json'},
+        body: JSON.stringify({email, fullName, role}),
+      });
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error);
+      setSetupUrl(data.setupUrl);
+      setEmail('');
+      setFullName('');
+      toast({title: 'Invite Created', description: `Send the setup link to ${data.invite.email}.`});
+      await fetchStaff();
+    } catch (error: any) {
+      toast({title: 'Error', description: error.message || 'Could not create the invite.', variant: 'destructive'});
+    } finally {
+      setIsInviting(false);
+    }
+  };
+
+  const handleRevoke = async (invite: StaffInvite) => {
+    try {
+      const response = await fetch(`/api/admin/staff?inviteId=${encodeURIComponent(invite.id)}`, {method: 'DELETE'});
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error);
+      toast({title: 'Invite Withdrawn', description: `The setup link for ${invite.email} no longer works.`});
+      await fetchStaff();
+    } catch (error: any) {
+      toast({title: 'Error', description: error.message || 'Could not withdraw the invite.', variant: 'destructive'});
+    }
+  };
+
+  const copySetupUrl = async () => {
+    if (!setupUrl) return;
+    await navigator.clipboard.writeText(setupUrl);
+    toast({title: 'Copied', description: 'Setup link copied to clipboard.'});
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Staff Accounts</CardTitle>
+        <CardDescription>
+          Invite admins and moderators. Each invite has a one-time setup link where the new staff member chooses a password.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <form onSubmit={handleInvite} className="grid grid-cols-1 md:grid-cols-4 gap-2 items-end">
+          <div className="space-y-1">
+            <Label htmlFor="staff-email">Email</Label>
+            <Input id="staff-email" type="email" required value={email} onChange={e => setEmail(e.target.value)} />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="staff-name">Full Name</Label>
+            <Input id="staff-name" value={fullName} onChange={e => setFullName(e.target.value)} />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="staff-role">Role</Label>
+            <Select value={role} onValueChange={value => setRole(value as StaffRole)}>
+              <SelectTrigger id="staff-role"><SelectValue /></SelectTrigger>
+              <SelectContent>
+                <SelectItem value="moderator">Moderator</SelectItem>
+                <SelectItem value="admin">Admin</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+          <Button type="submit" disabled={isInviting}>
+            {isInviting ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Mail className="mr-2 h-4 w-4" />}
+            Invite
+          </Button>
+        </form>
+
+        {setupUrl && (
+          <div className="flex items-center gap-2 rounded-md border bg-muted/30 p-3">
+            <Input readOnly value={setupUrl} className="font-mono text-xs" />
+            <Button type="button" variant="outline" size="icon" onClick={copySetupUrl}><Copy className="h-4 w-4" /></Button>
+          </div>
+        )}
+
+        {isLoading ? (
+          <Skeleton className="h-48 w-full" />
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow><TableHead>Name</TableHead><TableHead>Email</TableHead><TableHead>Role</TableHead><TableHead>Status</TableHead><TableHead className="text-right">Actions</TableHead></TableRow>
+            </TableHeader>
+            <TableBody>
+              {staff.map(member => (
+                <TableRow key={member.id}>
+                  <TableCell className="font-medium">{member.fullName}</TableCell>
+                  <TableCell>{member.email}</TableCell>
+                  <TableCell className="capitalize">{member.role}</TableCell>
+                  <TableCell>
+                    <Badge variant={member.isActive ? 'default' : 'secondary'}>{member.isActive ? 'Active' : 'Inactive'}</Badge>
+                  </TableCell>
+                  <TableCell className="text-right text-xs text-muted-foreground">
+                    {member.lastLogin ? `Last login ${format(new Date(member.lastLogin), 'PPp')}` : 'Never signed in'}
+                  </TableCell>
+                </TableRow>
+              ))}
+              {invites.map(invite => (
+                <TableRow key={invite.id}>
+                  <TableCell className="font-medium">{invite.fullName || '—'}</TableCell>
+                  <TableCell>{invite.email}</TableCell>
+                  <TableCell className="capitalize">{invite.role}</TableCell>
+                  <TableCell>
+                    <Badge variant="outline">Invited, expires {format(new Date(invite.expiresAt), 'PP')}</Badge>
+                  </TableCell>
+                  <TableCell className="text-right">
+                    <Button variant="ghost" size="icon" onClick={() => handleRevoke(invite)}><Trash2 className="h-4 w-4" /></Button>
+                  </TableCell>
+                </TableRow>
+              ))}
+              {staff.length === 0 && invites.length === 0 && (
+                <TableRow><TableCell colSpan={5} className="h-24 text-center text-muted-foreground">No staff accounts yet.</TableCell></TableRow>
+              )}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
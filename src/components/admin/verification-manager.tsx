@@ -21,7 +21,7 @@ import {
   TableRow,
 } from "@/components/ui/table";
 import { useToast } from "@/hooks/use-toast";
-import type { WalletData, ProfileData } from "@/lib/wallet";
+import type { WalletData } from "@/lib/wallet";
 import { Skeleton } from "@/components/ui/skeleton";
 import { Badge } from "../ui/badge";
 import Image from "next/image";
@@ -34,7 +34,7 @@ import {
   } from "@/components/ui/dialog";
 
 type VerificationData = WalletData & {
-    profile: ProfileData
+    user_id: string;
 };
 
 export function VerificationManager() {
@@ -116,7 +116,7 @@ export function VerificationManager() {
                         verifications.map((v) => (
                             <TableRow key={v.user_id}>
                                 <TableCell>
-                                    <div className="font-medium">{v.profile.full_name || v.profile.username}</div>
+                                    <div className="font-medium">{v.profile.fullName || v.profile.username}</div>
                                     <div className="text-sm text-muted-foreground">{v.user_id}</div>
                                 </TableCell>
                                 <TableCell>
@@ -125,25 +125,25 @@ export function VerificationManager() {
                                     </Badge>
                                 </TableCell>
                                 <TableCell>
-                                    {v.profile.created_at ? formatDistanceToNow(new Date(v.profile.created_at), { addSuffix: true }) : 'N/A'}
+                                    {v.profile.verificationSubmittedAt ? formatDistanceToNow(new Date(v.profile.verificationSubmittedAt), { addSuffix: true }) : 'N/A'}
                                 </TableCell>
                                 <TableCell className="text-right space-x-2">
                                     <Dialog>
                                         <DialogTrigger asChild>
-                                            <Button variant="outline" size="sm" disabled={!v.profile.id_card_front_url}>View Docs</Button>
+                                            <Button variant="outline" size="sm" disabled={!v.profile.idCardFrontUrl}>View Docs</Button>
                                         </DialogTrigger>
                                         <DialogContent className="max-w-4xl">
                                             <DialogHeader>
-                                                <DialogTitle>Documents for {v.profile.full_name}</DialogTitle>
+                                                <DialogTitle>Documents for {v.profile.fullName}</DialogTitle>
                                             </DialogHeader>
                                             <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mt-4">
                                                 <div>
                                                     <h3 className="font-semibold mb-2">ID Card Front</h3>
-                                                    {v.profile.id_card_front_url ? <Image src={v.profile.id_card_front_url} alt="ID Front" width={500} height={300} className="rounded-md border" /> : <p>Not provided.</p>}
+                                                    {v.profile.idCardFrontUrl ? <Image src={v.profile.idCardFrontUrl} alt="ID Front" width={500} height={300} className="rounded-md border" /> : <p>Not provided.</p>}
                                                 </div>
                                                 <div>
                                                     <h3 className="font-semibold mb-2">ID Card Back</h3>
-                                                    {v.profile.id_card_back_url ? <Image src={v.profile.id_card_back_url} alt="ID Back" width={500} height={300} className="rounded-md border" /> : <p>Not provided.</p>}
+                                                    {v.profile.idCardBackUrl ? <Image src={v.profile.idCardBackUrl} alt="ID Back" width={500} height={300} className="rounded-md border" /> : <p>Not provided.</p>}
                                                 </div>
                                             </div>
                                         </DialogContent>
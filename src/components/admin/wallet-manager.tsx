@@ -55,7 +55,6 @@ import { useToast } from "@/hooks/use-toast";
 import type { WalletData } from "@/lib/wallet";
 import { sendAdminMessage } from "@/lib/chat-client";
 import { Skeleton } from "@/components/ui/skeleton";
-import { addNotification } from "@/lib/notifications";
 import { Badge } from "../ui/badge";
 
 type MappedWallet = WalletData & { user_id: string };
@@ -88,6 +87,7 @@ export function WalletManager() {
   const [allWallets, setAllWallets] = React.useState<Record<string, MappedWallet> | null>(null);
   const [selectedWalletData, setSelectedWalletData] = React.useState<MappedWallet | null>(null);
   const [isUpdating, setIsUpdating] = React.useState(false);
+  const [resetReason, setResetReason] = React.useState("");
   const [isCompleting, setIsCompleting] = React.useState<string | null>(null);
   const [isFetchingUser, setIsFetchingUser] = React.useState(false);
   const [isFetchingAll, setIsFetchingAll] = React.useState(true);
@@ -151,7 +151,10 @@ export function WalletManager() {
             body: JSON.stringify(body),
         });
         const result = await response.json();
-        if (!response.ok || result.error) throw new Error(result.error || 'API request failed');
+        if (!response.ok || result.error) {
+            const fieldErrors = Object.entries(result.fieldErrors || {}).map(([field, message]) => `${field}: ${message}`);
+            throw new Error([result.error || 'API request failed', ...fieldErrors].join(' '));
+        }
         
         // Refetch the user data after update
         const findResponse = await fetch('/api/admin/find-user', {
@@ -211,7 +214,6 @@ export function WalletManager() {
 
     if (action === "add") {
       await sendAdminMessage(selectedWalletData.user_id, `Credit received: ${values.amount.toFixed(8)} ${asset.toUpperCase()} has been added to your account.`);
-      await addNotification(selectedWalletData.user_id, { title: "AstralCore Deposit", content: `Your balance has been credited with ${values.amount} ${asset.toUpperCase()}.`, href: "/dashboard" });
     }
 
     const newWalletData: Partial<WalletData> = { balances: newBalances };
@@ -236,22 +238,21 @@ export function WalletManager() {
         return;
     }
 
-    const newWalletData: Partial<WalletData> = {
-        pending_withdrawals: selectedWalletData.pending_withdrawals.filter(w => w.id !== withdrawalId),
-    };
-
-    await postAdminUpdate('/api/admin/update-wallet', { userId: selectedWalletData.user_id, newWalletData }, searchForm.getValues("email"));
-    await sendAdminMessage(selectedWalletData.user_id, `Your withdrawal of ${withdrawal.amount.toFixed(2)} USDT to ${withdrawal.address} has been completed.`);
-    await addNotification(selectedWalletData.user_id, { title: "AstralCore Withdrawal", content: `Your withdrawal of $${withdrawal.amount.toFixed(2)} USDT has been successfully processed.`, href: "/dashboard/withdraw" });
-    
-    toast({ title: "Withdrawal Marked as Complete" });
+    // The route records the status change and notifies the user
+    const result = await postAdminUpdate('/api/admin/complete-withdrawal', { userId: selectedWalletData.user_id, withdrawalId }, searchForm.getValues("email"));
+    if (result) {
+        await sendAdminMessage(selectedWalletData.user_id, `Your withdrawal of ${withdrawal.amount.toFixed(2)} USDT to ${withdrawal.address} has been completed.`);
+        toast({ title: "Withdrawal Marked as Complete" });
+    }
     setIsCompleting(null);
   };
 
   const handleResetAddress = async () => {
     if (!selectedWalletData) return;
-    await postAdminUpdate('/api/admin/reset-address', { userId: selectedWalletData.user_id }, searchForm.getValues("email"));
-    toast({ title: "Withdrawal Address Reset", description: `Successfully reset withdrawal address for ${selectedWalletData.user_id}.` });
+    const result = await postAdminUpdate('/api/admin/reset-address', { userId: selectedWalletData.user_id, reason: resetReason }, searchForm.getValues("email"));
+    if (!result) return;
+    setResetReason("");
+    toast({ title: "Withdrawal Addresses Reset", description: result.message });
   };
 
 
@@ -460,18 +461,24 @@ export function WalletManager() {
                         <AlertDialogTrigger asChild>
                             <Button variant="destructive" disabled={isUpdating}>
                             <AlertTriangle className="mr-2 h-4 w-4" />
-                            Reset Withdrawal Address
+                            Reset Withdrawal Addresses
                             </Button>
                         </AlertDialogTrigger>
                         <AlertDialogContent>
                             <AlertDialogHeader>
                             <AlertDialogTitle>Are you absolutely sure?</AlertDialogTitle>
                             <AlertDialogDescription>
-                                This will delete the saved withdrawal address for{" "}
+                                This will delete every saved withdrawal address of{" "}
                                 <span className="font-bold">{selectedWalletData?.profile.username || selectedWalletData.user_id}</span>.
-                                The user will need to re-enter it. This action cannot be undone.
+                                The user is notified and will need to add their addresses again, which starts the address cooldown. The reset is recorded in the audit log.
                             </AlertDialogDescription>
                             </AlertDialogHeader>
+                            <Input
+                                placeholder="Reason (shown to the user)"
+                                maxLength={500}
+                                value={resetReason}
+                                onChange={(e) => setResetReason(e.target.value)}
+                            />
                             <AlertDialogFooter>
                             <AlertDialogCancel disabled={isUpdating}>Cancel</AlertDialogCancel>
                             <AlertDialogAction onClick={handleResetAddress} disabled={isUpdating} className="bg-destructive hover:bg-destructive/90">
@@ -2,7 +2,7 @@
 "use client";
 
 import * as React from "react";
-import { Loader2, CheckCircle, RefreshCw, Copy, Wallet } from "lucide-react";
+import { Loader2, CheckCircle, RefreshCw, Copy, Wallet, XCircle } from "lucide-react";
 import { format } from "date-fns";
 import { Button } from "@/components/ui/button";
 import {
@@ -22,6 +22,16 @@ import {
 } from "@/components/ui/table";
 import { useToast } from "@/hooks/use-toast";
 import { Skeleton } from "@/components/ui/skeleton";
+import { Textarea } from "@/components/ui/textarea";
+import { Label } from "@/components/ui/label";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
 import Image from "next/image";
 import { type WalletData } from "@/lib/wallet";
 
@@ -32,6 +42,8 @@ type WithdrawalRequest = {
   amount: number;
   asset: string;
   address: string;
+  network?: string;
+  fee?: number;
   timestamp: string;
 };
 
@@ -40,6 +52,9 @@ export function WithdrawalManager() {
   const [requests, setRequests] = React.useState<WithdrawalRequest[]>([]);
   const [isCompleting, setIsCompleting] = React.useState<string | null>(null);
   const [isFetching, setIsFetching] = React.useState(true);
+  const [requestToReject, setRequestToReject] = React.useState<WithdrawalRequest | null>(null);
+  const [reason, setReason] = React.useState("");
+  const [isRejecting, setIsRejecting] = React.useState(false);
 
   const refetchRequests = React.useCallback(async () => {
     setIsFetching(true);
@@ -79,6 +94,33 @@ export function WithdrawalManager() {
     setIsCompleting(null);
   };
 
+  const openReject = (req: WithdrawalRequest) => {
+    setReason("");
+    setRequestToReject(req);
+  };
+
+  const handleReject = async () => {
+    if (!requestToReject || !reason.trim()) return;
+    const req = requestToReject;
+    setIsRejecting(true);
+    try {
+        const response = await fetch('/api/admin/reject-withdrawal', {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({ userId: req.userId, withdrawalId: req.id, reason: reason.trim() }),
+        });
+        const result = await response.json();
+        if (!response.ok || result.error) throw new Error(result.error || 'API request failed');
+
+        setRequestToReject(null);
+        await refetchRequests();
+        toast({ title: "Withdrawal Rejected", description: `${req.amount.toFixed(2)} ${req.asset.toUpperCase()} was refunded to ${req.username}.` });
+    } catch (error: any) {
+        toast({ title: "Rejection Failed", description: error.message, variant: "destructive" });
+    }
+    setIsRejecting(false);
+  };
+
   const handleCopy = async (text: string) => {
     try {
       await navigator.clipboard.writeText(text);
@@ -97,7 +139,7 @@ export function WithdrawalManager() {
         <CardHeader className="flex flex-row items-center justify-between">
             <div>
                 <CardTitle>Withdrawal Approval</CardTitle>
-                <CardDescription>Review and approve pending user withdrawal requests.</CardDescription>
+                <CardDescription>Complete pending user withdrawal requests, or reject them to refund the held amount.</CardDescription>
             </div>
             <Button onClick={refetchRequests} variant="outline" size="icon" disabled={isFetching}>
                 <RefreshCw className={isFetching ? "animate-spin" : ""} />
@@ -132,10 +174,20 @@ export function WithdrawalManager() {
                                     <div className="font-medium">{req.username}</div>
                                     <div className="text-xs text-muted-foreground">{req.userId}</div>
                                 </TableCell>
-                                <TableCell className="font-mono">${req.amount.toFixed(2)}</TableCell>
+                                <TableCell>
+                                    <div className="font-mono">{req.amount} {req.asset.toUpperCase()}</div>
+                                    {req.fee !== undefined && (
+                                        <div className="text-xs text-muted-foreground">
+                                            Send {Math.round((req.amount - req.fee) * 1e8) / 1e8} after {req.fee} fee
+                                        </div>
+                                    )}
+                                </TableCell>
                                 <TableCell>
                                     <div className="flex items-center gap-2">
-                                        <span className="font-mono text-xs truncate max-w-[150px]">{req.address}</span>
+                                        <div>
+                                            <span className="font-mono text-xs truncate max-w-[150px] block">{req.address}</span>
+                                            {req.network && <span className="text-xs text-muted-foreground uppercase">{req.network}</span>}
+                                        </div>
                                         <Button variant="ghost" size="icon" className="h-6 w-6" onClick={() => handleCopy(req.address)}>
                                             <Copy className="h-3 w-3" />
                                         </Button>
@@ -143,10 +195,16 @@ export function WithdrawalManager() {
                                 </TableCell>
                                 <TableCell>{format(new Date(req.timestamp), "PPp")}</TableCell>
                                 <TableCell className="text-right">
-                                    <Button size="sm" onClick={() => handleComplete(req)} disabled={isCompleting === req.id}>
-                                        {isCompleting === req.id ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <CheckCircle className="mr-2 h-4 w-4" />}
-                                        Mark as Complete
-                                    </Button>
+                                    <div className="flex justify-end gap-2">
+                                        <Button size="sm" onClick={() => handleComplete(req)} disabled={isCompleting === req.id}>
+                                            {isCompleting === req.id ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <CheckCircle className="mr-2 h-4 w-4" />}
+                                            Mark as Complete
+                                        </Button>
+                                        <Button size="sm" variant="destructive" onClick={() => openReject(req)} disabled={isCompleting === req.id}>
+                                            <XCircle className="mr-2 h-4 w-4" />
+                                            Reject
+                                        </Button>
+                                    </div>
                                 </TableCell>
                             </TableRow>
                         ))
@@ -161,6 +219,37 @@ export function WithdrawalManager() {
                 </TableBody>
             </Table>
         </CardContent>
+        <Dialog open={!!requestToReject} onOpenChange={(open) => !open && !isRejecting && setRequestToReject(null)}>
+            <DialogContent>
+                {requestToReject && (
+                    <>
+                        <DialogHeader>
+                            <DialogTitle>Reject Withdrawal</DialogTitle>
+                            <DialogDescription>
+                                {requestToReject.amount.toFixed(2)} {requestToReject.asset.toUpperCase()} for {requestToReject.username}. The amount is returned to the user&apos;s balance and they will see this reason.
+                            </DialogDescription>
+                        </DialogHeader>
+                        <div className="space-y-2">
+                            <Label htmlFor="withdrawal-reject-reason">Reason</Label>
+                            <Textarea
+                                id="withdrawal-reject-reason"
+                                value={reason}
+                                onChange={(event) => setReason(event.target.value)}
+                                maxLength={500}
+                                placeholder="e.g. The withdrawal address could not be verified."
+                            />
+                        </div>
+                        <DialogFooter>
+                            <Button variant="outline" onClick={() => setRequestToReject(null)} disabled={isRejecting}>Cancel</Button>
+                            <Button variant="destructive" onClick={handleReject} disabled={isRejecting || !reason.trim()}>
+                                {isRejecting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                                Reject and Refund
+                            </Button>
+                        </DialogFooter>
+                    </>
+                )}
+            </DialogContent>
+        </Dialog>
     </Card>
   );
 }
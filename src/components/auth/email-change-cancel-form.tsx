@@ -0,0 +1,70 @@
+"use client";
+
+import * as React from "react";
+import Link from "next/link";
+import { useSearchParams } from "next/navigation";
+import { CheckCircle, Loader2, MailX } from "lucide-react";
+
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+
+// Opened from the link emailed to the current address when an email change is
+// requested. Cancelling needs a click, so mail scanners that fetch links do not
+// cancel anything.
+export function EmailChangeCancelForm() {
+  const searchParams = useSearchParams();
+  const userId = searchParams?.get("user") || "";
+  const token = searchParams?.get("token") || "";
+  const [status, setStatus] = React.useState<"ready" | "working" | "done" | "failed">("ready");
+  const [message, setMessage] = React.useState("");
+
+  const cancelChange = async () => {
+    setStatus("working");
+    try {
+      const response = await fetch('/api/auth/email-change/cancel', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ userId, token }),
+      });
+      const data = await response.json();
+      setMessage(response.ok ? data.message : data.error);
+      setStatus(response.ok ? "done" : "failed");
+    } catch {
+      setMessage("Could not reach the server. Please try again.");
+      setStatus("failed");
+    }
+  };
+
+  return (
+    <Card className="w-full max-w-sm">
+      <CardHeader className="text-center">
+        <div className="mx-auto bg-primary/10 p-3 rounded-full mb-2">
+          {status === "done" ? <CheckCircle className="h-8 w-8 text-primary" /> : <MailX className="h-8 w-8 text-primary" />}
+        </div>
+        <CardTitle>Cancel Email Change</CardTitle>
+        <CardDescription>
+          {!userId || !token
+            ? "This link is incomplete. Open the cancel link from the email again."
+            : status === "ready" || status === "working"
+            ? "Someone asked to change the email address of your account. If it wasn't you, cancel the change and then change your password."
+            : message}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-2">
+        {(status === "ready" || status === "working") && (
+          <Button className="w-full" onClick={cancelChange} disabled={status === "working" || !userId || !token}>
+            {status === "working" && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Cancel the Change
+          </Button>
+        )}
+        <Button asChild variant="outline" className="w-full"><Link href="/login">Go to sign in</Link></Button>
+      </CardContent>
+    </Card>
+  );
+}
@@ -29,6 +29,8 @@ import { Input } from "@/components/ui/input";
 import { Checkbox } from "@/components/ui/checkbox";
 import { useToast } from "@/hooks/use-toast";
 import { loginSchema } from "@/lib/validators";
+import type { AuthResponse } from "@/lib/auth-client";
+import { TwoFactorChallenge } from "./two-factor-challenge";
 import { AstralLogo } from "../icons/astral-logo";
 import { Separator } from "../ui/separator";
 
@@ -41,6 +43,7 @@ export function LoginForm() {
   const { toast } = useToast();
   const [isLoading, setIsLoading] = React.useState(false);
   const [showPassword, setShowPassword] = React.useState(false);
+  const [challenge, setChallenge] = React.useState<AuthResponse | null>(null);
 
   const form = useForm<LoginFormValues>({
     resolver: zodResolver(loginSchema),
@@ -61,6 +64,27 @@ export function LoginForm() {
     }
   }, [form]);
 
+  const completeLogin = (role?: string) => {
+    toast({
+      title: "Login Successful",
+      description: "Welcome to AstralCore!",
+    });
+
+    // Store user role for routing
+    if (typeof window !== 'undefined') {
+      sessionStorage.setItem('userRole', role || 'user');
+    }
+
+    // Redirect based on role
+    if (role === 'admin') {
+      router.push('/admin');
+    } else if (role === 'moderator') {
+      router.push('/moderator');
+    } else {
+      router.push('/dashboard');
+    }
+  };
+
   const onSubmit = async (values: LoginFormValues) => {
     setIsLoading(true);
 
@@ -94,23 +118,10 @@ export function LoginForm() {
         // Success - parse JSON
         const data = await response.json();
 
-        toast({
-          title: "Login Successful",
-          description: "Welcome to AstralCore!",
-        });
-
-        // Store user role for routing
-        if (typeof window !== 'undefined') {
-          sessionStorage.setItem('userRole', data.role || 'user');
-        }
-
-        // Redirect based on role
-        if (data.role === 'admin') {
-          router.push('/admin');
-        } else if (data.role === 'moderator') {
-          router.push('/moderator');
+        if (data.twoFactorRequired) {
+          setChallenge(data);
         } else {
-          router.push('/dashboard');
+          completeLogin(data.role);
         }
       } else {
         // Error - try to get error message
@@ -150,6 +161,16 @@ export function LoginForm() {
     // Placeholder for email sign-in logic
   }
 
+  if (challenge) {
+    return (
+      <TwoFactorChallenge
+        challenge={challenge}
+        onSuccess={completeLogin}
+        onCancel={() => setChallenge(null)}
+      />
+    );
+  }
+
   return (
     <Card className="w-full max-w-sm">
       <CardHeader className="text-center">
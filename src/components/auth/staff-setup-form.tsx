@@ -0,0 +1,128 @@
+"use client";
+
+import * as React from "react";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import * as z from "zod";
+import Link from "next/link";
+import { useSearchParams } from "next/navigation";
+import { CheckCircle, Loader2, ShieldCheck } from "lucide-react";
+
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+
+const staffSetupSchema = z.object({
+  fullName: z.string().min(1, "Your name is required."),
+  password: z.string().min(8, "Password must be at least 8 characters."),
+  confirmPassword: z.string(),
+}).refine(data => data.password === data.confirmPassword, {
+  message: "Passwords do not match.",
+  path: ["confirmPassword"],
+});
+
+type StaffSetupFormValues = z.infer<typeof staffSetupSchema>;
+
+type Invite = {
+  email: string;
+  role: "admin" | "moderator";
+  fullName?: string;
+};
+
+export function StaffSetupForm() {
+  const searchParams = useSearchParams();
+  const token = searchParams?.get("token") || "";
+  const [invite, setInvite] = React.useState<Invite | null>(null);
+  const [status, setStatus] = React.useState<"loading" | "ready" | "invalid" | "done">("loading");
+  const [problems, setProblems] = React.useState<string[]>([]);
+
+  const form = useForm<StaffSetupFormValues>({
+    resolver: zodResolver(staffSetupSchema),
+    defaultValues: { fullName: "", password: "", confirmPassword: "" },
+  });
+
+  React.useEffect(() => {
+    if (!token) {
+      setStatus("invalid");
+      return;
+    }
+    fetch(`/api/auth/staff-setup?token=${encodeURIComponent(token)}`)
+      .then(async response => {
+        if (!response.ok) throw new Error();
+        const data: Invite = await response.json();
+        setInvite(data);
+        form.setValue("fullName", data.fullName || "");
+        setStatus("ready");
+      })
+      .catch(() => setStatus("invalid"));
+  }, [token, form]);
+
+  const onSubmit = async (values: StaffSetupFormValues) => {
+    setProblems([]);
+    const response = await fetch('/api/auth/staff-setup', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ token, password: values.password, fullName: values.fullName }),
+    });
+    const data = await response.json();
+    if (!response.ok) {
+      setProblems(data.problems?.length ? data.problems : [data.error || "Could not create the account."]);
+      return;
+    }
+    setStatus("done");
+  };
+
+  const loginPath = invite?.role === "moderator" ? "/moderator" : "/admin";
+
+  return (
+    <Card className="w-full max-w-sm">
+      <CardHeader className="text-center">
+        <div className="mx-auto bg-primary/10 p-3 rounded-full mb-2">
+          {status === "done" ? <CheckCircle className="h-8 w-8 text-primary" /> : <ShieldCheck className="h-8 w-8 text-primary" />}
+        </div>
+        <CardTitle>Staff Account Setup</CardTitle>
+        <CardDescription>
+          {status === "ready" && invite && <>You were invited as <strong>{invite.role}</strong> with {invite.email}. Choose a password to finish.</>}
+          {status === "invalid" && "This setup link is invalid, has already been used or has expired. Ask an administrator for a new invite."}
+          {status === "done" && "Your account is ready. You can now sign in."}
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {status === "loading" && <div className="flex justify-center"><Loader2 className="h-6 w-6 animate-spin" /></div>}
+        {status === "done" && <Button asChild className="w-full"><Link href={loginPath}>Go to sign in</Link></Button>}
+        {status === "ready" && (
+          <Form {...form}>
+            <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+              <FormField control={form.control} name="fullName" render={({ field }) => (<FormItem><FormLabel>Full Name</FormLabel><FormControl><Input {...field} /></FormControl><FormMessage /></FormItem>)} />
+              <FormField control={form.control} name="password" render={({ field }) => (<FormItem><FormLabel>Password</FormLabel><FormControl><Input type="password" placeholder="••••••••" {...field} /></FormControl><FormMessage /></FormItem>)} />
+              <FormField control={form.control} name="confirmPassword" render={({ field }) => (<FormItem><FormLabel>Confirm Password</FormLabel><FormControl><Input type="password" placeholder="••••••••" {...field} /></FormControl><FormMessage /></FormItem>)} />
+              {problems.length > 0 && (
+                <ul className="text-sm text-destructive list-disc pl-5 space-y-1">
+                  {problems.map(problem => <li key={problem}>{problem}</li>)}
+                </ul>
+              )}
+              <Button type="submit" className="w-full" disabled={form.formState.isSubmitting}>
+                {form.formState.isSubmitting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                Create Account
+              </Button>
+            </form>
+          </Form>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
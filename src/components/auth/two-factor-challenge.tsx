@@ -0,0 +1,133 @@
+"use client";
+
+import * as React from "react";
+import { QRCodeSVG } from "qrcode.react";
+import { KeyRound, Loader2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardFooter,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { useToast } from "@/hooks/use-toast";
+import { clientCompleteTwoFactorLogin, type AuthResponse } from "@/lib/auth-client";
+
+// Second sign-in step after the password was accepted. For "enroll" challenges
+// (staff accounts that are required to use 2FA) the authenticator app is set
+// up first, and the new backup codes are shown before continuing.
+export function TwoFactorChallenge({
+  challenge,
+  onSuccess,
+  onCancel,
+}: {
+  challenge: AuthResponse;
+  onSuccess: (role: string) => void;
+  onCancel: () => void;
+}) {
+  const { toast } = useToast();
+  const [code, setCode] = React.useState("");
+  const [isLoading, setIsLoading] = React.useState(false);
+  const [backupCodes, setBackupCodes] = React.useState<{ codes: string[]; role: string } | null>(null);
+  const isEnrollment = challenge.purpose === "enroll";
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!challenge.challengeToken) return;
+    setIsLoading(true);
+
+    const result = await clientCompleteTwoFactorLogin(challenge.challengeToken, code);
+    setIsLoading(false);
+
+    if (result.error || !result.role) {
+      setCode("");
+      toast({
+        title: "Verification Failed",
+        description: result.error || "Could not verify the code.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    if (result.backupCodes?.length) {
+      setBackupCodes({ codes: result.backupCodes, role: result.role });
+    } else {
+      onSuccess(result.role);
+    }
+  };
+
+  if (backupCodes) {
+    return (
+      <Card className="w-full max-w-sm">
+        <CardHeader className="text-center">
+          <CardTitle>Save Your Backup Codes</CardTitle>
+          <CardDescription>
+            Each code signs you in once if you lose access to your authenticator app. They will not be shown again.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <div className="grid grid-cols-2 gap-2 rounded-md border bg-muted/30 p-3 font-mono text-sm">
+            {backupCodes.codes.map(backupCode => <span key={backupCode}>{backupCode}</span>)}
+          </div>
+        </CardContent>
+        <CardFooter>
+          <Button className="w-full" onClick={() => onSuccess(backupCodes.role)}>
+            I have saved these codes
+          </Button>
+        </CardFooter>
+      </Card>
+    );
+  }
+
+  return (
+    <Card className="w-full max-w-sm">
+      <CardHeader className="text-center">
+        <div className="mx-auto bg-primary/10 p-3 rounded-full mb-2">
+          <KeyRound className="h-8 w-8 text-primary" />
+        </div>
+        <CardTitle>Two-Factor Authentication</CardTitle>
+        <CardDescription>
+          {isEnrollment
+            ? "Your account requires two-factor authentication. Scan the code with your authenticator app, then enter the 6-digit code it shows."
+            : "Enter the 6-digit code from your authenticator app, or one of your backup codes."}
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          {isEnrollment && challenge.otpauthUrl && (
+            <div className="flex flex-col items-center gap-2">
+              <div className="rounded-md bg-white p-2">
+                <QRCodeSVG value={challenge.otpauthUrl} size={160} />
+              </div>
+              <p className="text-xs text-muted-foreground break-all text-center">
+                Or enter this key manually: <span className="font-mono">{challenge.secret}</span>
+              </p>
+            </div>
+          )}
+          <div className="space-y-1">
+            <Label htmlFor="two-factor-code">Code</Label>
+            <Input
+              id="two-factor-code"
+              autoComplete="one-time-code"
+              autoFocus
+              value={code}
+              onChange={e => setCode(e.target.value)}
+              className="font-mono tracking-widest"
+            />
+          </div>
+          <Button type="submit" className="w-full" disabled={isLoading || !code.trim()}>
+            {isLoading && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Verify
+          </Button>
+          <Button type="button" variant="ghost" className="w-full" onClick={onCancel}>
+            Back to sign in
+          </Button>
+        </form>
+      </CardContent>
+    </Card>
+  );
+}
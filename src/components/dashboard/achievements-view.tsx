@@ -1,7 +1,7 @@
 "use client";
 
 import * as React from "react";
-import { getOrCreateWallet, type WalletData } from "@/lib/wallet";
+import { getOrCreateWallet, type WalletData } from "@/lib/wallet-actions";
 import {
   Card,
   CardContent,
@@ -288,7 +288,7 @@ export function AchievementsView() {
 
   React.useEffect(() => {
     if (user?.id) {
-      getOrCreateWallet(user.id).then((walletData) => {
+      getOrCreateWallet().then((walletData) => {
         setWallet(walletData);
         updateProgressData(walletData);
         setIsLoading(false);
@@ -299,7 +299,7 @@ export function AchievementsView() {
   const updateProgressData = (walletData: WalletData) => {
     const totalBalance = walletData.balances?.usdt || 0;
     const referralCount = walletData.squad?.members?.length || 0;
-    const depositCount = walletData.deposit_history?.length || 0;
+    const depositCount = walletData.deposit_history?.filter(deposit => deposit.status === 'approved').length || 0;
     const rank = getUserRank(totalBalance);
 
     // Update achievements progress
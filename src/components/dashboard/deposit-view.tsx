@@ -5,7 +5,7 @@ import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import * as z from "zod";
 import Image from "next/image";
-import { getOrCreateWallet, type WalletData } from "@/lib/wallet";
+import { getOrCreateWallet, type WalletData } from "@/lib/wallet-actions";
 import {
   Card,
   CardContent,
@@ -18,6 +18,9 @@ import { Button } from "@/components/ui/button";
 import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
 import { Input } from "@/components/ui/input";
 import { useToast } from "@/hooks/use-toast";
+import { useTransactions } from "@/hooks/use-transactions";
+import { useAssetRegistry } from "@/hooks/use-asset-registry";
+import { useIdempotencyKey } from "@/hooks/use-idempotency-key";
 import { useUser } from "@/contexts/UserContext";
 import { Skeleton } from "../ui/skeleton";
 import { cn } from "@/lib/utils";
@@ -46,7 +49,8 @@ import {
   TrendingUp,
   Coins,
   Network,
-  QrCode
+  QrCode,
+  XCircle
 } from "lucide-react";
 import { format } from 'date-fns';
 
@@ -73,66 +77,23 @@ const rankIcons: Record<string, IconComponent> = {
 
 type DepositFormValues = z.infer<typeof depositRequestSchema>;
 
-const cryptoAssets = [
-  {
-    symbol: "USDT",
-    name: "Tether",
-    iconUrl: "https://assets.coincap.io/assets/icons/usdt@2x.png",
-    networks: [
-      { name: "TRC20 (TRON)", address: "TQn9Y2khEsLJW1ChVWFMSMeRDow5oNDMkx", fee: "1 USDT" },
-      { name: "ERC20 (Ethereum)", address: "0x742d35Cc6544A8E5D7C5B6E4b7b3f3", fee: "5 USDT" },
-      { name: "BEP20 (BSC)", address: "0x742d35Cc6544A8E5D7C5B6E4b7b3f3", fee: "1 USDT" }
-    ]
-  },
-  {
-    symbol: "BTC",
-    name: "Bitcoin",
-    iconUrl: "https://assets.coincap.io/assets/icons/btc@2x.png",
-    networks: [
-      { name: "Bitcoin Network", address: "1A1zP1eP5QGefi2DMPTfTL5SLmv7DivfNa", fee: "0.0005 BTC" }
-    ]
-  },
-  {
-    symbol: "ETH",
-    name: "Ethereum",
-    iconUrl: "https://assets.coincap.io/assets/icons/eth@2x.png",
-    networks: [
-      { name: "ERC20 (Ethereum)", address: "0x742d35Cc6544A8E5D7C5B6E4b7b3f3", fee: "0.005 ETH" }
-    ]
-  }
-];
-
-const pendingDeposits = [
-  {
-    id: "dep_001",
-    amount: 100,
-    currency: "USDT",
-    network: "TRC20 (TRON)",
-    transactionId: "a1b2c3d4e5f6g7h8i9j0",
-    status: "pending",
-    timestamp: "2024-01-15T10:30:00Z"
-  },
-  {
-    id: "dep_002",
-    amount: 0.05,
-    currency: "BTC",
-    network: "Bitcoin Network",
-    transactionId: "z9y8x7w6v5u4t3s2r1q0",
-    status: "confirmed",
-    timestamp: "2024-01-14T15:45:00Z"
-  }
-];
-
 export function DepositView() {
   const [wallet, setWallet] = React.useState<WalletData | null>(null);
   const [isLoading, setIsLoading] = React.useState(true);
-  const [selectedAsset, setSelectedAsset] = React.useState(cryptoAssets[0]);
+  const [selectedSymbol, setSelectedSymbol] = React.useState("USDT");
   const [selectedNetwork, setSelectedNetwork] = React.useState(0);
   const [uploadedFile, setUploadedFile] = React.useState<File | null>(null);
   const [currentTab, setCurrentTab] = React.useState<"deposit" | "address" | "history">("deposit");
 
   const { user } = useUser();
   const { toast } = useToast();
+  const history = useTransactions({ types: ["deposit"] });
+  const registry = useAssetRegistry();
+  const idempotency = useIdempotencyKey();
+  // Only networks with a deposit address configured can receive deposits
+  const cryptoAssets = registry.assets
+    .map(asset => ({ ...asset, networks: asset.networks.filter(network => network.depositAddress) }))
+    .filter(asset => asset.networks.length > 0);
 
   const form = useForm<DepositFormValues>({
     resolver: zodResolver(depositRequestSchema),
@@ -146,7 +107,7 @@ export function DepositView() {
 
   React.useEffect(() => {
     if (user?.id) {
-      getOrCreateWallet(user.id).then((walletData) => {
+      getOrCreateWallet().then((walletData) => {
         setWallet(walletData);
         setIsLoading(false);
       });
@@ -155,8 +116,16 @@ export function DepositView() {
 
   const onSubmit = async (values: DepositFormValues) => {
     try {
-      console.log("Deposit request:", values);
-      
+      const body = JSON.stringify({ amount: values.amount, asset: values.currency });
+      const response = await fetch("/api/deposit/request", {
+        method: "POST",
+        headers: { "Content-Type": "application/json", ...idempotency.headersFor(body) },
+        body,
+      });
+      idempotency.settle(response);
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error);
+
       toast({
         title: "Quantum Deposit Initiated",
         description: "Your deposit request is being processed by our neural networks. You'll receive confirmation shortly.",
@@ -164,10 +133,11 @@ export function DepositView() {
 
       form.reset();
       setUploadedFile(null);
-    } catch (error) {
+      history.refresh();
+    } catch (error: any) {
       toast({
         title: "Neural Network Error",
-        description: "Failed to process deposit request. Please try again.",
+        description: error.message || "Failed to process deposit request. Please try again.",
         variant: "destructive"
       });
     }
@@ -189,7 +159,7 @@ export function DepositView() {
     }
   };
 
-  if (isLoading) {
+  if (isLoading || registry.isLoading) {
     return (
       <div className="space-y-4 max-w-4xl mx-auto">
         <Card className="bg-black/40 backdrop-blur-xl border-border/40">
@@ -211,7 +181,8 @@ export function DepositView() {
   const totalBalance = wallet?.balances?.usdt ?? 0;
   const rank = getUserRank(totalBalance);
   const RankIcon = rankIcons[rank.Icon] || Wallet;
-  const currentNetwork = selectedAsset.networks[selectedNetwork];
+  const selectedAsset = cryptoAssets.find(asset => asset.symbol === selectedSymbol) || cryptoAssets[0];
+  const currentNetwork = selectedAsset ? selectedAsset.networks[selectedNetwork] || selectedAsset.networks[0] : undefined;
 
   return (
     <div className="space-y-4 max-w-4xl mx-auto">
@@ -300,7 +271,7 @@ export function DepositView() {
                 <CheckCircle className="h-5 w-5 mx-auto text-blue-400" />
               </div>
             </div>
-            <p className="text-lg font-bold text-blue-400">{pendingDeposits.filter(d => d.status === "confirmed").length}</p>
+            <p className="text-lg font-bold text-blue-400">{history.transactions.filter(t => t.status === "completed").length}</p>
             <p className="text-xs text-gray-400">Confirmed</p>
           </CardContent>
         </Card>
@@ -313,7 +284,7 @@ export function DepositView() {
                 <Clock className="h-5 w-5 mx-auto text-yellow-400" />
               </div>
             </div>
-            <p className="text-lg font-bold text-yellow-400">{pendingDeposits.filter(d => d.status === "pending").length}</p>
+            <p className="text-lg font-bold text-yellow-400">{history.transactions.filter(t => t.status === "pending" || t.status === "info_requested").length}</p>
             <p className="text-xs text-gray-400">Pending</p>
           </CardContent>
         </Card>
@@ -373,7 +344,17 @@ export function DepositView() {
       </div>
 
       {/* Tab Content */}
-      {currentTab === "deposit" && (
+      {(currentTab === "deposit" || currentTab === "address") && (!selectedAsset || !currentNetwork) && (
+        <Card className="bg-black/40 backdrop-blur-xl border-border/40">
+          <CardContent className="py-8 text-center text-gray-400">
+            <AlertCircle className="h-10 w-10 mx-auto mb-3 opacity-50" />
+            <p className="font-medium">Deposits are currently unavailable</p>
+            <p className="text-sm">No deposit networks are enabled at the moment. Please check back later.</p>
+          </CardContent>
+        </Card>
+      )}
+
+      {currentTab === "deposit" && selectedAsset && currentNetwork && (
         <div className="space-y-4">
           {/* Asset Selection */}
           <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
@@ -390,7 +371,7 @@ export function DepositView() {
                   <button
                     key={asset.symbol}
                     onClick={() => {
-                      setSelectedAsset(asset);
+                      setSelectedSymbol(asset.symbol);
                       setSelectedNetwork(0);
                       form.setValue("currency", asset.symbol as any);
                     }}
@@ -431,7 +412,7 @@ export function DepositView() {
               <CardContent className="space-y-3">
                 {selectedAsset.networks.map((network, index) => (
                   <button
-                    key={index}
+                    key={network.id}
                     onClick={() => setSelectedNetwork(index)}
                     className={cn(
                       "flex items-center justify-between p-3 border rounded-lg text-left transition-all duration-300 w-full",
@@ -442,7 +423,7 @@ export function DepositView() {
                   >
                     <div>
                       <p className="font-medium text-white">{network.name}</p>
-                      <p className="text-sm text-gray-400">Fee: {network.fee}</p>
+                      <p className="text-sm text-gray-400">Withdrawal fee: {network.fee} {selectedAsset.symbol}</p>
                     </div>
                     {selectedNetwork === index && (
                       <CheckCircle className="h-5 w-5 text-purple-400" />
@@ -563,7 +544,7 @@ export function DepositView() {
         </div>
       )}
 
-      {currentTab === "address" && (
+      {currentTab === "address" && selectedAsset && currentNetwork && (
         <Card className="bg-black/40 backdrop-blur-xl border-border/40">
           <CardHeader className="pb-3">
             <CardTitle className="text-lg text-white flex items-center gap-2">
@@ -581,14 +562,14 @@ export function DepositView() {
                   <label className="text-sm font-medium text-gray-300">Quantum Address</label>
                   <div className="flex gap-2">
                     <Input
-                      value={currentNetwork.address}
+                      value={currentNetwork.depositAddress}
                       readOnly
                       className="font-mono text-sm bg-black/20 border-border/40"
                     />
                     <Button
                       variant="outline"
                       size="icon"
-                      onClick={() => copyToClipboard(currentNetwork.address)}
+                      onClick={() => copyToClipboard(currentNetwork.depositAddress)}
                       className="border-border/40"
                     >
                       <Copy className="h-4 w-4" />
@@ -606,9 +587,9 @@ export function DepositView() {
                 </div>
 
                 <div className="space-y-2">
-                  <label className="text-sm font-medium text-gray-300">Network Fee</label>
+                  <label className="text-sm font-medium text-gray-300">Withdrawal Fee</label>
                   <Input 
-                    value={currentNetwork.fee} 
+                    value={`${currentNetwork.fee} ${selectedAsset.symbol}`} 
                     readOnly 
                     className="bg-black/20 border-border/40"
                   />
@@ -617,7 +598,7 @@ export function DepositView() {
 
               <div className="flex flex-col items-center space-y-3">
                 <div className="p-4 bg-white rounded-lg">
-                  <QRCodeSVG value={currentNetwork.address} size={150} />
+                  <QRCodeSVG value={currentNetwork.depositAddress} size={150} />
                 </div>
                 <p className="text-sm text-gray-400 text-center">
                   Scan quantum code to copy address
@@ -658,26 +639,29 @@ export function DepositView() {
           </CardHeader>
           <CardContent>
             <div className="space-y-4">
-              {pendingDeposits.map((deposit) => (
-                <div key={deposit.id} className="flex items-center justify-between p-4 bg-white/5 border border-border/40 rounded-lg backdrop-blur-xl">
+              {history.transactions.map((txn) => (
+                <div key={txn.id} className="flex items-center justify-between p-4 bg-white/5 border border-border/40 rounded-lg backdrop-blur-xl">
                   <div className="flex items-center gap-4">
                     <Image
-                      src={cryptoAssets.find(a => a.symbol === deposit.currency)?.iconUrl || ""}
-                      alt={deposit.currency}
+                      src={cryptoAssets.find(a => a.symbol === txn.asset.toUpperCase())?.iconUrl || ""}
+                      alt={txn.asset.toUpperCase()}
                       width={32}
                       height={32}
                       className="rounded-full"
                     />
                     <div>
                       <p className="font-medium text-white">
-                        {deposit.amount} {deposit.currency}
+                        {Math.abs(txn.amount)} {txn.asset.toUpperCase()}
                       </p>
                       <p className="text-sm text-gray-400">
-                        {deposit.network} • {format(new Date(deposit.timestamp), 'MMM dd, yyyy')}
+                        {format(new Date(txn.createdAt), 'MMM dd, yyyy HH:mm')}
                       </p>
                       <p className="text-xs text-gray-500 font-mono">
-                        {deposit.transactionId}
+                        {txn.referenceId}
                       </p>
+                      {txn.memo && (
+                        <p className="text-xs text-gray-300 mt-1">{txn.memo}</p>
+                      )}
                     </div>
                   </div>
                   <div className="text-right">
@@ -685,26 +669,47 @@ export function DepositView() {
                       variant="outline"
                       className={cn(
                         "text-xs",
-                        deposit.status === "confirmed" 
+                        txn.status === "completed"
                           ? "border-green-400/40 text-green-300 bg-green-400/10"
+                          : txn.status === "rejected"
+                          ? "border-red-400/40 text-red-300 bg-red-400/10"
                           : "border-yellow-400/40 text-yellow-300 bg-yellow-400/10"
                       )}
                     >
-                      {deposit.status === "confirmed" && <CheckCircle className="h-3 w-3 mr-1" />}
-                      {deposit.status === "pending" && <Clock className="h-3 w-3 mr-1" />}
-                      {deposit.status.charAt(0).toUpperCase() + deposit.status.slice(1)}
+                      {txn.status === "completed" && <CheckCircle className="h-3 w-3 mr-1" />}
+                      {txn.status === "pending" && <Clock className="h-3 w-3 mr-1" />}
+                      {txn.status === "info_requested" && <AlertCircle className="h-3 w-3 mr-1" />}
+                      {txn.status === "rejected" && <XCircle className="h-3 w-3 mr-1" />}
+                      {txn.status === "info_requested" ? "Info requested" : txn.status.charAt(0).toUpperCase() + txn.status.slice(1)}
                     </Badge>
                   </div>
                 </div>
               ))}
-              
-              {pendingDeposits.length === 0 && (
+
+              {history.error && (
+                <p className="text-center text-sm text-red-400">{history.error}</p>
+              )}
+
+              {!history.isLoading && !history.error && history.transactions.length === 0 && (
                 <div className="text-center py-8 text-gray-400">
                   <Wallet className="h-12 w-12 mx-auto mb-4 opacity-50" />
                   <p className="font-medium">No deposits yet</p>
                   <p className="text-sm">Start by making your first quantum deposit!</p>
                 </div>
               )}
+
+              <div className="flex justify-center gap-2">
+                {history.hasMore && (
+                  <Button variant="outline" onClick={history.loadMore} disabled={history.isLoading}>
+                    {history.isLoading ? "Loading..." : "Load more"}
+                  </Button>
+                )}
+                {history.transactions.length > 0 && (
+                  <Button variant="ghost" asChild>
+                    <a href={history.csvUrl} download>Download CSV</a>
+                  </Button>
+                )}
+              </div>
             </div>
           </CardContent>
         </Card>
@@ -1,10 +1,9 @@
 "use client";
 
 import * as React from "react";
-import { getOrCreateWallet, type WalletData } from "@/lib/wallet";
-import { getNotifications, type Notification } from "@/lib/notifications";
+import { getOrCreateWallet, type WalletData } from "@/lib/wallet-actions";
+import { getMyNotifications, listPromotions, type Notification, type Promotion } from "@/lib/notification-actions";
 import { getAnnouncements, type Announcement } from "@/lib/announcements";
-import { getPromotions, type Promotion } from "@/lib/promotions";
 import {
   Card,
   CardContent,
@@ -95,7 +94,7 @@ export function InboxView() {
 
   React.useEffect(() => {
     if (user?.id) {
-      getOrCreateWallet(user.id).then((walletData) => {
+      getOrCreateWallet().then((walletData) => {
         setWallet(walletData);
         setIsLoading(false);
       });
@@ -105,9 +104,9 @@ export function InboxView() {
   const fetchAllData = React.useCallback(async () => {
     if (user?.id) {
       const [notifs, anncs, promos] = await Promise.all([
-        getNotifications(user.id),
+        getMyNotifications(),
         getAnnouncements(),
-        getPromotions(),
+        listPromotions(),
       ]);
       setNotifications(notifs);
       setAnnouncements(anncs.sort((a,b) => new Date(b.date).getTime() - new Date(a.date).getTime()));
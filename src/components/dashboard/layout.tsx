@@ -46,7 +46,7 @@ import { InboxIcon } from '@/components/icons/nav/inbox-icon';
 import { MessageSquare, UserPlus, Shield, Lock, Trophy } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { UserProvider } from '@/contexts/UserContext';
-import { getOrCreateWallet, type WalletData } from '@/lib/wallet';
+import { getOrCreateWallet, type WalletData } from '@/lib/wallet-actions';
 import { getUserRank } from '@/lib/ranks';
 import { type TierSetting as TierData, getBotTierSettings, getCurrentTier } from '@/lib/tiers';
 import { Badge } from '@/components/ui/badge';
@@ -78,12 +78,6 @@ const rankIcons: Record<string, IconComponent> = {
     Lock,
 };
 
-// Mock user object
-const mockUser = {
-  id: 'mock-user-123',
-  email: 'user@example.com',
-};
-
 function DashboardLoading() {
   return (
     <div className="flex flex-col items-center justify-center min-h-dvh bg-background text-foreground animate-in fade-in-50">
@@ -109,10 +103,10 @@ export default function DashboardLayout({
   const [isInitializing, setIsInitializing] = React.useState(true);
   const [downloadHref, setDownloadHref] = React.useState('');
 
-  const fetchWalletAndTiers = React.useCallback(async (userId: string) => {
+  const fetchWalletAndTiers = React.useCallback(async () => {
     try {
         const [walletData, tiers] = await Promise.all([
-            getOrCreateWallet(userId),
+            getOrCreateWallet(),
             Promise.resolve(getBotTierSettings())
         ]);
         setWallet(walletData);
@@ -124,20 +118,22 @@ export default function DashboardLayout({
 
   React.useEffect(() => {
     const initializeUser = async () => {
-      const loggedInEmail = sessionStorage.getItem('loggedInEmail') || mockUser.email;
-      const currentUser = { ...mockUser, email: loggedInEmail };
+      const response = await fetch('/api/auth/session');
+      const session = response.ok ? await response.json() : null;
+      if (!session?.authenticated) {
+        router.replace('/login');
+        return;
+      }
 
-      setUser(currentUser);
-      setIsAdmin(loggedInEmail === 'admin@astralcore.io');
-      setIsModerator(loggedInEmail === 'moderator@astralcore.io');
+      setUser(session.user);
+      setIsAdmin(session.user.role === 'admin');
+      setIsModerator(session.user.role === 'moderator');
 
-      if (currentUser.id) {
-        await fetchWalletAndTiers(currentUser.id);
-      }
+      await fetchWalletAndTiers();
       setIsInitializing(false);
     };
     initializeUser();
-  }, [fetchWalletAndTiers]);
+  }, [fetchWalletAndTiers, router]);
 
 
   React.useEffect(() => {
@@ -284,7 +280,7 @@ URL=${window.location.origin}`;
           <div className="mt-12 mb-4 px-4 space-y-4">
              <div className="flex items-center gap-3">
                   <AvatarUploadDialog 
-                    onUploadSuccess={() => fetchWalletAndTiers(user.id)}
+                    onUploadSuccess={() => fetchWalletAndTiers()}
                     wallet={wallet}
                   >
                     <Avatar className="h-12 w-12 cursor-pointer">
@@ -15,10 +15,10 @@ import { Button } from "@/components/ui/button";
 import { ScrollArea } from "@/components/ui/scroll-area";
 import { Skeleton } from "@/components/ui/skeleton";
 import {
-  getNotifications,
-  markAllAsRead,
+  getMyNotifications,
+  markMyNotificationsAsRead,
   type Notification,
-} from "@/lib/notifications";
+} from "@/lib/notification-actions";
 import { cn } from "@/lib/utils";
 import { useUser } from "@/contexts/UserContext";
 import { NotificationIcon } from "../icons/nav/notification-icon";
@@ -57,7 +57,7 @@ export function NotificationBell() {
       if(!isOpen) {
         setIsLoading(true);
       }
-      const data = await getNotifications(user.id);
+      const data = await getMyNotifications();
       setNotifications(data);
       setIsLoading(false);
     } else {
@@ -85,7 +85,7 @@ export function NotificationBell() {
   
   const handleMarkAllRead = async () => {
     if (!user?.id) return;
-    const updatedNotifications = await markAllAsRead(user.id);
+    const updatedNotifications = await markMyNotificationsAsRead();
     setNotifications(updatedNotifications);
   };
   
@@ -1,7 +1,7 @@
 "use client";
 
 import * as React from "react";
-import { getOrCreateWallet, type WalletData, updateWallet } from "@/lib/wallet";
+import { getOrCreateWallet, type WalletData, updateProfile } from "@/lib/wallet-actions";
 import {
   Card,
   CardContent,
@@ -86,15 +86,7 @@ export function AvatarUploadDialog({ onUploadSuccess, wallet, children }: Avatar
             // Simulate upload delay
             await new Promise(resolve => setTimeout(resolve, 2000));
             
-            const updatedWallet = {
-                ...wallet,
-                profile: {
-                    ...wallet.profile,
-                    avatarUrl: previewUrl
-                }
-            };
-
-            await updateWallet(wallet.id, updatedWallet);
+            await updateProfile({ avatarUrl: previewUrl });
             
             toast({
                 title: "Success",
@@ -197,12 +189,12 @@ export function ProfileView() {
 
     React.useEffect(() => {
         if (user?.id) {
-            getOrCreateWallet(user.id).then((walletData) => {
+            getOrCreateWallet().then((walletData) => {
                 setWallet(walletData);
                 setEditForm({
                     username: walletData.profile?.username || '',
                     country: walletData.profile?.country || '',
-                    phone: walletData.profile?.phone || ''
+                    phone: walletData.profile?.contactNumber || ''
                 });
                 setIsLoading(false);
             });
@@ -213,17 +205,17 @@ export function ProfileView() {
         if (!wallet) return;
 
         try {
+            const profileChanges = {
+                username: editForm.username,
+                country: editForm.country,
+                contactNumber: editForm.phone
+            };
             const updatedWallet = {
                 ...wallet,
-                profile: {
-                    ...wallet.profile,
-                    username: editForm.username,
-                    country: editForm.country,
-                    phone: editForm.phone
-                }
+                profile: { ...wallet.profile, ...profileChanges }
             };
 
-            await updateWallet(wallet.id, updatedWallet);
+            await updateProfile(profileChanges);
             setWallet(updatedWallet);
             setIsEditing(false);
             
@@ -242,7 +234,7 @@ export function ProfileView() {
 
     const fetchWalletData = React.useCallback(async () => {
         if (user?.id) {
-            const walletData = await getOrCreateWallet(user.id);
+            const walletData = await getOrCreateWallet();
             setWallet(walletData);
         }
     }, [user]);
@@ -485,7 +477,7 @@ export function ProfileView() {
                                     </div>
                                     <div>
                                         <p className="text-xs text-gray-400">Phone</p>
-                                        <p className="text-sm text-white">{wallet?.profile?.phone || 'Not set'}</p>
+                                        <p className="text-sm text-white">{wallet?.profile?.contactNumber || 'Not set'}</p>
                                     </div>
                                 </div>
                             </div>
@@ -538,7 +530,7 @@ export function ProfileView() {
                             <div>
                                 <p className="text-xs text-gray-400">Member Since</p>
                                 <p className="text-sm text-white">
-                                    {wallet?.createdAt ? format(new Date(wallet.createdAt), 'MMM yyyy') : 'N/A'}
+                                    {wallet?.created_at ? format(new Date(wallet.created_at), 'MMM yyyy') : 'N/A'}
                                 </p>
                             </div>
                         </div>
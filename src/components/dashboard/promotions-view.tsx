@@ -1,8 +1,8 @@
 "use client";
 
 import * as React from "react";
-import { getOrCreateWallet, type WalletData } from "@/lib/wallet";
-import { getPromotions, type Promotion } from "@/lib/promotions";
+import { getOrCreateWallet, type WalletData } from "@/lib/wallet-actions";
+import { listPromotions, type Promotion } from "@/lib/notification-actions";
 import {
   Card,
   CardContent,
@@ -110,7 +110,7 @@ export function PromotionsView() {
 
   React.useEffect(() => {
     if (user?.id) {
-      getOrCreateWallet(user.id).then((walletData) => {
+      getOrCreateWallet().then((walletData) => {
         setWallet(walletData);
         setIsLoading(false);
       });
@@ -119,7 +119,7 @@ export function PromotionsView() {
 
   React.useEffect(() => {
     async function fetchData() {
-      const data = await getPromotions();
+      const data = await listPromotions();
       setPromotions(data.filter(p => p.status !== 'Expired'));
     }
     fetchData();
@@ -145,7 +145,7 @@ export function PublicChatView({ isFloating = false }: { isFloating?: boolean })
     e.preventDefault();
     if (!newMessage.trim() || !user?.id || !wallet) return;
 
-    if (!wallet.profile?.displayName && !wallet.profile?.username) {
+    if (!wallet.profile?.username) {
         toast({ title: "Display Name Required", description: "Please set a display name in your profile before chatting.", variant: "destructive"});
         return;
     }
@@ -157,7 +157,6 @@ export function PublicChatView({ isFloating = false }: { isFloating?: boolean })
           method: 'POST',
           headers: { 'Content-Type': 'application/json' },
           body: JSON.stringify({
-              userId: user.id,
               text: newMessage,
               rank,
               tier
@@ -245,7 +244,7 @@ export function PublicChatView({ isFloating = false }: { isFloating?: boolean })
                                 <span className="text-xs text-muted-foreground">{format(new Date(message.timestamp), "h:mm a")}</span>
                             </div>
                             {isOwnMessage && (
-                                <Avatar className="h-10 w-10"><AvatarImage src={wallet?.profile.avatarUrl} /><AvatarFallback>{(wallet?.profile.displayName || wallet?.profile.username || 'U').charAt(0)}</AvatarFallback></Avatar>
+                                <Avatar className="h-10 w-10"><AvatarImage src={wallet?.profile.avatarUrl} /><AvatarFallback>{(wallet?.profile.username || 'U').charAt(0)}</AvatarFallback></Avatar>
                             )}
                         </div>
                         )
@@ -1,7 +1,7 @@
 "use client";
 
 import * as React from "react";
-import { getOrCreateWallet, type WalletData } from "@/lib/wallet";
+import { getOrCreateWallet, type WalletData } from "@/lib/wallet-actions";
 import {
   Card,
   CardContent,
@@ -14,6 +14,7 @@ import { Button } from "@/components/ui/button";
 import { Progress } from "@/components/ui/progress";
 import { useToast } from "@/hooks/use-toast";
 import { useUser } from "@/contexts/UserContext";
+import { useIdempotencyKey } from "@/hooks/use-idempotency-key";
 import { Skeleton } from "../ui/skeleton";
 import { cn } from "@/lib/utils";
 import { getUserRank } from "@/lib/ranks";
@@ -186,10 +187,12 @@ export function RewardsView() {
 
   const { user } = useUser();
   const { toast } = useToast();
+  const idempotency = useIdempotencyKey();
+  const [isClaimingRank, setIsClaimingRank] = React.useState(false);
 
   React.useEffect(() => {
     if (user?.id) {
-      getOrCreateWallet(user.id).then((walletData) => {
+      getOrCreateWallet().then((walletData) => {
         setWallet(walletData);
         setIsLoading(false);
       });
@@ -201,7 +204,7 @@ export function RewardsView() {
     if (wallet) {
       const totalBalance = wallet.balances?.usdt || 0;
       const referralCount = wallet.squad?.members?.length || 0;
-      const depositCount = wallet.deposit_history?.length || 0;
+      const depositCount = wallet.deposit_history?.filter(deposit => deposit.status === 'approved').length || 0;
 
       setUserAchievements(prev => prev.map(achievement => {
         let current = 0;
@@ -224,7 +227,7 @@ export function RewardsView() {
         return {
           ...achievement,
           requirement: { ...achievement.requirement, current },
-          claimed: wallet.claimed_achievements?.achievements?.includes(achievement.id) || false
+          claimed: false
         };
       }));
     }
@@ -260,6 +263,36 @@ export function RewardsView() {
     }
   };
 
+  // The rank bonus is paid by the server from the admin reward settings.
+  const handleClaimRankBonus = async (rankName: string) => {
+    setIsClaimingRank(true);
+    try {
+      const body = JSON.stringify({ type: "rank", key: rankName });
+      const response = await fetch("/api/rewards/claim", {
+        method: "POST",
+        headers: { "Content-Type": "application/json", ...idempotency.headersFor(body) },
+        body,
+      });
+      idempotency.settle(response);
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error);
+
+      toast({
+        title: "Quantum Reward Acquired!",
+        description: `Your ${rankName} rank bonus has been added to your balance.`,
+      });
+      getOrCreateWallet().then(setWallet);
+    } catch (error: any) {
+      toast({
+        title: "Neural Network Error",
+        description: error.message || "Failed to claim reward. Please try again.",
+        variant: "destructive"
+      });
+    } finally {
+      setIsClaimingRank(false);
+    }
+  };
+
   const handleClaimDailyReward = async () => {
     try {
       const today = new Date();
@@ -331,6 +364,7 @@ export function RewardsView() {
   const totalBalance = wallet?.balances?.usdt ?? 0;
   const rank = getUserRank(totalBalance);
   const RankIcon = rankIcons[rank.Icon] || Crown;
+  const canClaimRankBonus = totalBalance >= rank.minBalance && !wallet?.claimed_achievements?.ranks.includes(rank.name);
 
   return (
     <div className="space-y-4 max-w-4xl mx-auto">
@@ -365,6 +399,18 @@ export function RewardsView() {
                     <RankIcon className="h-3 w-3" />
                     Hyperdrive {rank.name}
                   </Badge>
+                  {canClaimRankBonus && (
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      className="h-6 px-2 text-xs"
+                      disabled={isClaimingRank}
+                      onClick={() => handleClaimRankBonus(rank.name)}
+                    >
+                      <Gift className="h-3 w-3 mr-1" />
+                      Claim {rank.name} Bonus
+                    </Button>
+                  )}
                   <Badge variant="outline" className="text-xs border-purple-400/40 text-purple-300 bg-purple-400/10">
                     <Flame className="h-3 w-3 mr-1" />
                     {dailyStreak} Day Streak
@@ -22,20 +22,61 @@ import {
 } from "@/components/ui/form";
 import { Input } from "@/components/ui/input";
 import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "@/components/ui/alert-dialog";
 import { useToast } from "@/hooks/use-toast";
-import { KeyRound, Loader2, Save, Shield } from "lucide-react";
+import { useAssetRegistry } from "@/hooks/use-asset-registry";
+import { validateAddress } from "@/lib/address-validation";
+import {
+  API_TOKEN_LIFETIMES_DAYS,
+  API_TOKEN_SCOPE_LABELS,
+  API_TOKEN_SCOPES,
+  type ApiTokenScope,
+} from "@/lib/api-token-scopes";
+import type { ApiTokenInfo } from "@/lib/api-tokens";
+import type { AddressBookEntry } from "@/lib/wallet";
+import type { EmailChangeStatus } from "@/lib/email-change";
+import type { SessionInfo } from "@/lib/session";
+import type { TwoFactorStatus } from "@/lib/two-factor";
+import type { WithdrawalPasscodeStatus } from "@/lib/withdrawal-passcode";
+import { formatDistanceToNow } from "date-fns";
+import { QRCodeSVG } from "qrcode.react";
+import { BookUser, Code, Copy, KeyRound, Loader2, LogOut, Mail, MonitorSmartphone, Pencil, Save, Shield, Smartphone, Trash2 } from "lucide-react";
 
 const passwordSchema = z.object({
     currentPassword: z.string().min(1, "Current password is required."),
-    newPassword: z.string().min(6, "New password must be at least 6 characters."),
+    newPassword: z.string().min(8, "New password must be at least 8 characters."),
     confirmPassword: z.string(),
 }).refine(data => data.newPassword === data.confirmPassword, {
     message: "Passwords do not match.",
     path: ["confirmPassword"],
 });
 
+// Which fields are needed depends on the mode (set, change or reset); the
+// server checks the ones it requires.
 const withdrawalPasscodeSchema = z.object({
-    currentPassword: z.string().min(1, "Your account password is required."),
+    currentPassword: z.string(),
+    currentPasscode: z.string(),
+    totpCode: z.string(),
     newPasscode: z.string().regex(/^\d{4,6}$/, "Passcode must be 4-6 digits."),
     confirmPasscode: z.string(),
 }).refine(data => data.newPasscode === data.confirmPasscode, {
@@ -45,11 +86,572 @@ const withdrawalPasscodeSchema = z.object({
 
 type PasswordFormValues = z.infer<typeof passwordSchema>;
 type PasscodeFormValues = z.infer<typeof withdrawalPasscodeSchema>;
+type PasscodeMode = "set" | "change" | "reset";
+
+// Enrolling an authenticator app, backup codes and switching 2FA off again.
+// Actions on an enabled setup are confirmed with a current code.
+function TwoFactorCard() {
+  const { toast } = useToast();
+  const [status, setStatus] = React.useState<TwoFactorStatus | null>(null);
+  const [setup, setSetup] = React.useState<{ secret: string; otpauthUrl: string } | null>(null);
+  const [code, setCode] = React.useState("");
+  const [backupCodes, setBackupCodes] = React.useState<string[] | null>(null);
+  const [isWorking, setIsWorking] = React.useState(false);
+
+  const fetchStatus = React.useCallback(async () => {
+    try {
+      const response = await fetch('/api/auth/two-factor');
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error);
+      setStatus(data);
+    } catch (error: any) {
+      toast({ title: "Error", description: error.message || "Could not load your two-factor settings.", variant: "destructive" });
+    }
+  }, [toast]);
+
+  React.useEffect(() => {
+    fetchStatus();
+  }, [fetchStatus]);
+
+  const post = async (path: string, body?: object) => {
+    setIsWorking(true);
+    try {
+      const response = await fetch(`/api/auth/two-factor${path}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body || {}),
+      });
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error);
+      return data;
+    } catch (error: any) {
+      toast({ title: "Error", description: error.message || "Could not update two-factor authentication.", variant: "destructive" });
+      return null;
+    } finally {
+      setCode("");
+      setIsWorking(false);
+    }
+  };
+
+  const startSetup = async () => {
+    const data = await post('/setup');
+    if (data) setSetup(data);
+  };
+
+  const enable = async () => {
+    const data = await post('/enable', { code });
+    if (!data) return;
+    setSetup(null);
+    setBackupCodes(data.backupCodes);
+    toast({ title: "Two-Factor Enabled", description: "Your authenticator app is now required to sign in and withdraw." });
+    await fetchStatus();
+  };
+
+  const regenerate = async () => {
+    const data = await post('/backup-codes', { code });
+    if (!data) return;
+    setBackupCodes(data.backupCodes);
+    await fetchStatus();
+  };
+
+  const disable = async () => {
+    const data = await post('/disable', { code });
+    if (!data) return;
+    setBackupCodes(null);
+    toast({ title: "Two-Factor Disabled", description: "Withdrawals are unavailable until you enable it again." });
+    await fetchStatus();
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Smartphone className="h-6 w-6" /><span>Two-Factor Authentication</span>
+          {status && <Badge variant={status.enabled ? "default" : "secondary"}>{status.enabled ? "Enabled" : "Disabled"}</Badge>}
+        </CardTitle>
+        <CardDescription>Use an authenticator app for a code at sign-in. Withdrawals always require a code from the app.</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {!status ? (
+          <div className="flex justify-center p-4"><Loader2 className="h-5 w-5 animate-spin" /></div>
+        ) : status.enabled ? (
+          <>
+            <p className="text-sm text-muted-foreground">
+              Enabled {status.enabledAt && formatDistanceToNow(new Date(status.enabledAt), { addSuffix: true })} • {status.backupCodesRemaining} backup codes left
+            </p>
+            <div className="flex flex-col md:flex-row gap-2">
+              <Input placeholder="Authenticator code" autoComplete="one-time-code" value={code} onChange={(e) => setCode(e.target.value)} className="font-mono" />
+              <Button variant="outline" onClick={regenerate} disabled={isWorking || !code}>New Backup Codes</Button>
+              {!status.required && <Button variant="destructive" onClick={disable} disabled={isWorking || !code}>Disable</Button>}
+            </div>
+          </>
+        ) : setup ? (
+          <div className="flex flex-col md:flex-row gap-4 items-center">
+            <div className="rounded-md bg-white p-2"><QRCodeSVG value={setup.otpauthUrl} size={160} /></div>
+            <div className="space-y-2 flex-1 w-full">
+              <p className="text-sm text-muted-foreground">Scan the code with your authenticator app, or enter this key: <span className="font-mono break-all">{setup.secret}</span></p>
+              <div className="flex gap-2">
+                <Input placeholder="6-digit code" inputMode="numeric" autoComplete="one-time-code" maxLength={6} value={code} onChange={(e) => setCode(e.target.value)} className="font-mono" />
+                <Button onClick={enable} disabled={isWorking || code.length !== 6}>{isWorking && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}Enable</Button>
+              </div>
+            </div>
+          </div>
+        ) : (
+          <Button onClick={startSetup} disabled={isWorking}>{isWorking && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}Set Up Authenticator App</Button>
+        )}
+
+        {backupCodes && (
+          <div className="space-y-2 rounded-md border bg-muted/30 p-3">
+            <p className="text-sm font-medium">Backup codes — each works once for signing in. Store them somewhere safe; they will not be shown again.</p>
+            <div className="grid grid-cols-2 md:grid-cols-5 gap-2 font-mono text-sm">
+              {backupCodes.map((backupCode) => <span key={backupCode}>{backupCode}</span>)}
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+// Changing the login email: the new address gets a code that confirms the
+// change, the current one a link to cancel it.
+function EmailAddressCard() {
+  const { toast } = useToast();
+  const [email, setEmail] = React.useState<string | null>(null);
+  const [pending, setPending] = React.useState<EmailChangeStatus | null>(null);
+  const [newEmail, setNewEmail] = React.useState("");
+  const [password, setPassword] = React.useState("");
+  const [code, setCode] = React.useState("");
+  const [isWorking, setIsWorking] = React.useState(false);
+
+  const fetchStatus = React.useCallback(async () => {
+    try {
+      const response = await fetch('/api/auth/email-change');
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error);
+      setEmail(data.email);
+      setPending(data.pending);
+    } catch (error: any) {
+      toast({ title: "Error", description: error.message || "Could not load your email settings.", variant: "destructive" });
+    }
+  }, [toast]);
+
+  React.useEffect(() => {
+    fetchStatus();
+  }, [fetchStatus]);
+
+  const send = async (path: string, method: string, body?: object) => {
+    setIsWorking(true);
+    try {
+      const response = await fetch(`/api/auth/email-change${path}`, {
+        method,
+        headers: { 'Content-Type': 'application/json' },
+        body: body ? JSON.stringify(body) : undefined,
+      });
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error);
+      return data;
+    } catch (error: any) {
+      toast({ title: "Error", description: error.message || "Could not update your email address.", variant: "destructive" });
+      return null;
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const requestChange = async () => {
+    const data = await send('', 'POST', { newEmail, password });
+    setPassword("");
+    if (!data) return;
+    setNewEmail("");
+    setPending(data.pending);
+    toast({ title: "Check Your Inbox", description: `We sent a confirmation code to ${data.pending?.email}.` });
+  };
+
+  const confirmChange = async () => {
+    const data = await send('/confirm', 'POST', { code });
+    setCode("");
+    if (data) toast({ title: "Email Changed", description: data.message });
+    await fetchStatus();
+  };
+
+  const cancelChange = async () => {
+    if (await send('', 'DELETE')) await fetchStatus();
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2"><Mail className="h-6 w-6" /><span>Email Address</span></CardTitle>
+        <CardDescription>
+          {email ? <>You sign in with <strong>{email}</strong>. </> : null}
+          A new address only takes effect once you enter the code we send to it.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {email === null ? (
+          <div className="flex justify-center p-4"><Loader2 className="h-5 w-5 animate-spin" /></div>
+        ) : pending ? (
+          <>
+            <p className="text-sm text-muted-foreground">
+              Waiting for confirmation of <strong>{pending.email}</strong>. The code expires {formatDistanceToNow(new Date(pending.expiresAt), { addSuffix: true })}.
+            </p>
+            <div className="flex flex-col md:flex-row gap-2">
+              <Input placeholder="6-digit code" inputMode="numeric" autoComplete="one-time-code" maxLength={6} value={code} onChange={(e) => setCode(e.target.value)} className="font-mono" />
+              <Button onClick={confirmChange} disabled={isWorking || code.length !== 6}>{isWorking && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}Confirm</Button>
+              <Button variant="outline" onClick={cancelChange} disabled={isWorking}>Cancel Change</Button>
+            </div>
+          </>
+        ) : (
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-2">
+            <Input type="email" placeholder="New email address" value={newEmail} onChange={(e) => setNewEmail(e.target.value)} />
+            <Input type="password" placeholder="Current password" value={password} onChange={(e) => setPassword(e.target.value)} />
+            <Button onClick={requestChange} disabled={isWorking || !newEmail || !password}>{isWorking && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}Send Code</Button>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+// Personal API tokens for scripts. A new token is shown once, right after it
+// is created.
+function ApiTokensCard() {
+  const { toast } = useToast();
+  const [tokens, setTokens] = React.useState<ApiTokenInfo[] | null>(null);
+  const [name, setName] = React.useState("");
+  const [scopes, setScopes] = React.useState<ApiTokenScope[]>(["read:wallet"]);
+  const [lifetimeDays, setLifetimeDays] = React.useState<number>(30);
+  const [newToken, setNewToken] = React.useState<string | null>(null);
+  const [isWorking, setIsWorking] = React.useState(false);
+
+  const fetchTokens = React.useCallback(async () => {
+    try {
+      const response = await fetch('/api/auth/api-tokens');
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error);
+      setTokens(data.tokens);
+    } catch (error: any) {
+      toast({ title: "Error", description: error.message || "Could not load your API tokens.", variant: "destructive" });
+    }
+  }, [toast]);
+
+  React.useEffect(() => {
+    fetchTokens();
+  }, [fetchTokens]);
+
+  const toggleScope = (scope: ApiTokenScope, checked: boolean) => {
+    setScopes(current => checked ? [...current.filter(s => s !== scope), scope] : current.filter(s => s !== scope));
+  };
+
+  const createToken = async () => {
+    setIsWorking(true);
+    try {
+      const response = await fetch('/api/auth/api-tokens', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ name, scopes, lifetimeDays }),
+      });
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error);
+      setNewToken(data.token);
+      setName("");
+      await fetchTokens();
+    } catch (error: any) {
+      toast({ title: "Error", description: error.message || "Could not create the API token.", variant: "destructive" });
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const revokeToken = async (token: ApiTokenInfo) => {
+    try {
+      const response = await fetch(`/api/auth/api-tokens?id=${encodeURIComponent(token.id)}`, { method: 'DELETE' });
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error);
+      toast({ title: "Token Revoked", description: `"${token.name}" no longer works.` });
+      await fetchTokens();
+    } catch (error: any) {
+      toast({ title: "Error", description: error.message || "Could not revoke the API token.", variant: "destructive" });
+    }
+  };
+
+  const copyToken = async () => {
+    if (!newToken) return;
+    await navigator.clipboard.writeText(newToken);
+    toast({ title: "Copied", description: "API token copied to clipboard." });
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2"><Code className="h-6 w-6" /><span>API Tokens</span></CardTitle>
+        <CardDescription>
+          Tokens let your scripts read your wallet or request withdrawals with an <span className="font-mono">Authorization: Bearer</span> header. Withdrawals still need your authenticator code and withdrawal passcode.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-2">
+          <Input placeholder="Token name" maxLength={50} value={name} onChange={(e) => setName(e.target.value)} />
+          <Select value={String(lifetimeDays)} onValueChange={(value) => setLifetimeDays(Number(value))}>
+            <SelectTrigger><SelectValue /></SelectTrigger>
+            <SelectContent>
+              {API_TOKEN_LIFETIMES_DAYS.map(days => <SelectItem key={days} value={String(days)}>Expires in {days} days</SelectItem>)}
+            </SelectContent>
+          </Select>
+          <Button onClick={createToken} disabled={isWorking || !name.trim() || scopes.length === 0}>{isWorking && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}Create Token</Button>
+        </div>
+        <div className="flex flex-wrap gap-4">
+          {API_TOKEN_SCOPES.map(scope => (
+            <div key={scope} className="flex items-center gap-2">
+              <Checkbox id={`scope-${scope}`} checked={scopes.includes(scope)} onCheckedChange={(checked) => toggleScope(scope, checked === true)} />
+              <Label htmlFor={`scope-${scope}`}><span className="font-mono">{scope}</span> — {API_TOKEN_SCOPE_LABELS[scope]}</Label>
+            </div>
+          ))}
+        </div>
+
+        {newToken && (
+          <div className="space-y-2 rounded-md border bg-muted/30 p-3">
+            <p className="text-sm font-medium">Copy your new token now. It will not be shown again.</p>
+            <div className="flex items-center gap-2">
+              <Input readOnly value={newToken} className="font-mono text-xs" />
+              <Button type="button" variant="outline" size="icon" onClick={copyToken}><Copy className="h-4 w-4" /></Button>
+            </div>
+          </div>
+        )}
+
+        {tokens === null ? (
+          <div className="flex justify-center p-4"><Loader2 className="h-5 w-5 animate-spin" /></div>
+        ) : tokens.length === 0 ? (
+          <p className="text-sm text-muted-foreground">You have no API tokens.</p>
+        ) : (
+          <div className="space-y-2">
+            {tokens.map(token => (
+              <div key={token.id} className="flex items-center justify-between gap-4 rounded-lg border p-3">
+                <div className="min-w-0">
+                  <p className="text-sm font-medium truncate">{token.name}</p>
+                  <p className="text-xs text-muted-foreground">
+                    {token.scopes.join(', ')} • expires {formatDistanceToNow(new Date(token.expiresAt), { addSuffix: true })} • {token.lastUsedAt ? `last used ${formatDistanceToNow(new Date(token.lastUsedAt), { addSuffix: true })}` : 'never used'}
+                  </p>
+                </div>
+                <Button variant="ghost" size="icon" onClick={() => revokeToken(token)}><Trash2 className="h-4 w-4" /></Button>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+// The withdrawal address book. New and changed addresses show when they can
+// be used; the server enforces the cooldown and notifies the user.
+function AddressBookCard() {
+  const { toast } = useToast();
+  const registry = useAssetRegistry();
+  const [addresses, setAddresses] = React.useState<AddressBookEntry[] | null>(null);
+  const [editingId, setEditingId] = React.useState<string | null>(null);
+  const [label, setLabel] = React.useState("");
+  const [symbol, setSymbol] = React.useState("");
+  const [networkId, setNetworkId] = React.useState("");
+  const [address, setAddress] = React.useState("");
+  const [isWorking, setIsWorking] = React.useState(false);
+
+  const fetchAddresses = React.useCallback(async () => {
+    try {
+      const response = await fetch('/api/withdraw/addresses');
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error);
+      setAddresses(data.addresses);
+    } catch (error: any) {
+      toast({ title: "Error", description: error.message || "Could not load your address book.", variant: "destructive" });
+    }
+  }, [toast]);
+
+  React.useEffect(() => {
+    fetchAddresses();
+  }, [fetchAddresses]);
+
+  const asset = registry.assets.find(candidate => candidate.symbol === symbol);
+  const network = asset?.networks.find(candidate => candidate.id === networkId);
+  const addressError = address && network ? validateAddress(network.addressFormat, address, network.name) : null;
+
+  const networkName = (entry: AddressBookEntry) =>
+    registry.assets.find(candidate => candidate.symbol === entry.asset)?.networks.find(candidate => candidate.id === entry.network)?.name || entry.network;
+
+  const resetForm = () => {
+    setEditingId(null);
+    setLabel("");
+    setAddress("");
+  };
+
+  const startEditing = (entry: AddressBookEntry) => {
+    setEditingId(entry.id);
+    setLabel(entry.label);
+    setSymbol(entry.asset);
+    setNetworkId(entry.network);
+    setAddress(entry.address);
+  };
+
+  const saveAddress = async () => {
+    setIsWorking(true);
+    try {
+      const response = await fetch('/api/withdraw/addresses', {
+        method: editingId ? 'PATCH' : 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ id: editingId || undefined, label, asset: symbol, network: networkId, address }),
+      });
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error);
+      const saved: AddressBookEntry = data.address;
+      toast({
+        title: editingId ? "Address Updated" : "Address Saved",
+        description: new Date(saved.availableAt).getTime() > Date.now()
+          ? `"${saved.label}" can be used for withdrawals ${formatDistanceToNow(new Date(saved.availableAt), { addSuffix: true })}.`
+          : `"${saved.label}" can be used for withdrawals.`,
+      });
+      resetForm();
+      await fetchAddresses();
+    } catch (error: any) {
+      toast({ title: "Error", description: error.message || "Could not save the address.", variant: "destructive" });
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const removeAddress = async (entry: AddressBookEntry) => {
+    try {
+      const response = await fetch(`/api/withdraw/addresses?id=${encodeURIComponent(entry.id)}`, { method: 'DELETE' });
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error);
+      toast({ title: "Address Removed", description: `"${entry.label}" was removed from your address book.` });
+      if (editingId === entry.id) resetForm();
+      await fetchAddresses();
+    } catch (error: any) {
+      toast({ title: "Error", description: error.message || "Could not remove the address.", variant: "destructive" });
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2"><BookUser className="h-6 w-6" /><span>Withdrawal Address Book</span></CardTitle>
+        <CardDescription>
+          Withdrawals can only be sent to addresses saved here. For your security, a new or changed address can only be used after a waiting period, and we notify you of every change.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-2">
+          <Input placeholder="Label, e.g. My hardware wallet" maxLength={50} value={label} onChange={(e) => setLabel(e.target.value)} />
+          <Select value={symbol} onValueChange={(value) => { setSymbol(value); setNetworkId(""); }}>
+            <SelectTrigger><SelectValue placeholder="Asset" /></SelectTrigger>
+            <SelectContent>
+              {registry.assets.map(candidate => <SelectItem key={candidate.symbol} value={candidate.symbol}>{candidate.symbol} — {candidate.name}</SelectItem>)}
+            </SelectContent>
+          </Select>
+          <Select value={networkId} onValueChange={setNetworkId} disabled={!asset}>
+            <SelectTrigger><SelectValue placeholder="Network" /></SelectTrigger>
+            <SelectContent>
+              {asset?.networks.map(candidate => <SelectItem key={candidate.id} value={candidate.id}>{candidate.name}</SelectItem>)}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-1">
+          <Input placeholder="Wallet address" className="font-mono" value={address} onChange={(e) => setAddress(e.target.value)} aria-invalid={!!addressError} />
+          {addressError && <p className="text-sm font-medium text-destructive">{addressError}</p>}
+        </div>
+        <div className="flex justify-end gap-2">
+          {editingId && <Button variant="outline" onClick={resetForm} disabled={isWorking}>Cancel</Button>}
+          <Button onClick={saveAddress} disabled={isWorking || !label.trim() || !network || !address.trim() || !!addressError}>
+            {isWorking ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Save className="mr-2 h-4 w-4" />}
+            {editingId ? "Update Address" : "Save Address"}
+          </Button>
+        </div>
+
+        {addresses === null ? (
+          <div className="flex justify-center p-4"><Loader2 className="h-5 w-5 animate-spin" /></div>
+        ) : addresses.length === 0 ? (
+          <p className="text-sm text-muted-foreground">You have no saved withdrawal addresses.</p>
+        ) : (
+          <div className="space-y-2">
+            {addresses.map(entry => {
+              const isPending = new Date(entry.availableAt).getTime() > Date.now();
+              return (
+                <div key={entry.id} className="flex items-center justify-between gap-4 rounded-lg border p-3">
+                  <div className="min-w-0">
+                    <div className="flex items-center gap-2">
+                      <p className="text-sm font-medium truncate">{entry.label}</p>
+                      {!entry.network ? (
+                        <Badge variant="destructive">Choose a network</Badge>
+                      ) : isPending ? (
+                        <Badge variant="secondary">Usable {formatDistanceToNow(new Date(entry.availableAt), { addSuffix: true })}</Badge>
+                      ) : (
+                        <Badge variant="outline">Ready</Badge>
+                      )}
+                    </div>
+                    <p className="text-xs text-muted-foreground">{entry.asset}{entry.network && ` • ${networkName(entry)}`}</p>
+                    <p className="text-xs font-mono break-all">{entry.address}</p>
+                  </div>
+                  <div className="flex shrink-0">
+                    <Button variant="ghost" size="icon" onClick={() => startEditing(entry)} aria-label={`Edit ${entry.label}`}><Pencil className="h-4 w-4" /></Button>
+                    <Button variant="ghost" size="icon" onClick={() => removeAddress(entry)} aria-label={`Remove ${entry.label}`}><Trash2 className="h-4 w-4" /></Button>
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
 
 export function SecurityView() {
   const { toast } = useToast();
   const [isSavingPassword, setIsSavingPassword] = React.useState(false);
   const [isSavingPasscode, setIsSavingPasscode] = React.useState(false);
+  const [passcodeStatus, setPasscodeStatus] = React.useState<WithdrawalPasscodeStatus | null>(null);
+  const [isResettingPasscode, setIsResettingPasscode] = React.useState(false);
+  const [sessions, setSessions] = React.useState<SessionInfo[]>([]);
+  const [isLoadingSessions, setIsLoadingSessions] = React.useState(true);
+  const [revokingSessionId, setRevokingSessionId] = React.useState<string | null>(null);
+
+  const fetchSessions = React.useCallback(async () => {
+    try {
+      const response = await fetch('/api/auth/sessions');
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error);
+      setSessions(data.sessions);
+    } catch (error: any) {
+      toast({ title: "Error", description: error.message || "Could not load your sessions.", variant: "destructive" });
+    } finally {
+      setIsLoadingSessions(false);
+    }
+  }, [toast]);
+
+  React.useEffect(() => {
+    fetchSessions();
+  }, [fetchSessions]);
+
+  // Signing out the current session (or all of them) ends up on the login page.
+  const signOutSessions = async (session?: SessionInfo) => {
+    setRevokingSessionId(session?.id || "all");
+    try {
+      const response = await fetch(session ? `/api/auth/sessions?id=${encodeURIComponent(session.id)}` : '/api/auth/sessions', { method: 'DELETE' });
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error);
+      if (!session || session.current) {
+        window.location.href = '/login';
+        return;
+      }
+      toast({ title: "Session Signed Out", description: "That device will need to sign in again." });
+      await fetchSessions();
+    } catch (error: any) {
+      toast({ title: "Error", description: error.message || "Could not sign out the session.", variant: "destructive" });
+    } finally {
+      setRevokingSessionId(null);
+    }
+  };
 
   const passwordForm = useForm<PasswordFormValues>({
     resolver: zodResolver(passwordSchema),
@@ -58,31 +660,77 @@ export function SecurityView() {
   
   const passcodeForm = useForm<PasscodeFormValues>({
       resolver: zodResolver(withdrawalPasscodeSchema),
-      defaultValues: { currentPassword: "", newPasscode: "", confirmPasscode: "" },
+      defaultValues: { currentPassword: "", currentPasscode: "", totpCode: "", newPasscode: "", confirmPasscode: "" },
   });
 
+  const fetchPasscodeStatus = React.useCallback(async () => {
+    try {
+      const response = await fetch('/api/withdraw/passcode');
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error);
+      setPasscodeStatus(data);
+    } catch (error: any) {
+      toast({ title: "Error", description: error.message || "Could not load your withdrawal passcode settings.", variant: "destructive" });
+    }
+  }, [toast]);
+
+  React.useEffect(() => {
+    fetchPasscodeStatus();
+  }, [fetchPasscodeStatus]);
+
+  const passcodeMode: PasscodeMode = !passcodeStatus?.isSet ? "set" : isResettingPasscode ? "reset" : "change";
+
   const onPasswordSubmit = async (values: PasswordFormValues) => {
     setIsSavingPassword(true);
-    await new Promise(resolve => setTimeout(resolve, 1500));
-    console.log("Password change request:", values);
-    setIsSavingPassword(false);
-    toast({
-      title: "Password Updated",
-      description: "Your account password has been changed successfully.",
-    });
-    passwordForm.reset();
+    try {
+      const response = await fetch('/api/auth/change-password', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ currentPassword: values.currentPassword, newPassword: values.newPassword }),
+      });
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error);
+      toast({
+        title: "Password Updated",
+        description: data.message || "Your account password has been changed successfully.",
+      });
+      passwordForm.reset();
+      await fetchSessions();
+    } catch (error: any) {
+      toast({ title: "Error", description: error.message || "Could not change your password.", variant: "destructive" });
+    } finally {
+      setIsSavingPassword(false);
+    }
   };
   
   const onPasscodeSubmit = async (values: PasscodeFormValues) => {
       setIsSavingPasscode(true);
-      await new Promise(resolve => setTimeout(resolve, 1500));
-      console.log("Passcode change request:", values);
-      setIsSavingPasscode(false);
-      toast({
-        title: "Withdrawal Passcode Set",
-        description: "Your new passcode is now active.",
-      });
-      passcodeForm.reset();
+      const requests: Record<PasscodeMode, { path: string; body: object }> = {
+        set: { path: '', body: { password: values.currentPassword, passcode: values.newPasscode } },
+        change: { path: '/change', body: { currentPasscode: values.currentPasscode, passcode: values.newPasscode } },
+        reset: { path: '/reset', body: { password: values.currentPassword, totpCode: values.totpCode, passcode: values.newPasscode } },
+      };
+      try {
+        const { path, body } = requests[passcodeMode];
+        const response = await fetch(`/api/withdraw/passcode${path}`, {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify(body),
+        });
+        const data = await response.json();
+        if (!response.ok) throw new Error(data.error);
+        toast({
+          title: passcodeMode === "set" ? "Withdrawal Passcode Set" : "Withdrawal Passcode Updated",
+          description: "Your new passcode is now active.",
+        });
+        passcodeForm.reset();
+        setIsResettingPasscode(false);
+        await fetchPasscodeStatus();
+      } catch (error: any) {
+        toast({ title: "Error", description: error.message || "Could not update the withdrawal passcode.", variant: "destructive" });
+      } finally {
+        setIsSavingPasscode(false);
+      }
   };
 
   return (
@@ -90,7 +738,7 @@ export function SecurityView() {
       <Card>
         <CardHeader>
           <CardTitle className="flex items-center gap-2"><KeyRound className="h-6 w-6" /><span>Change Password</span></CardTitle>
-          <CardDescription>For your security, we recommend choosing a strong, unique password.</CardDescription>
+          <CardDescription>Use at least 8 characters with upper and lower case letters, a number and a special character. Your other sessions are signed out when the password changes.</CardDescription>
         </CardHeader>
         <CardContent>
           <Form {...passwordForm}>
@@ -106,24 +754,92 @@ export function SecurityView() {
         </CardContent>
       </Card>
 
+      <EmailAddressCard />
+
+      <TwoFactorCard />
+
+      <AddressBookCard />
+
       <Card>
         <CardHeader>
             <CardTitle className="flex items-center gap-2"><Shield className="h-6 w-6" /><span>Withdrawal Passcode</span></CardTitle>
-            <CardDescription>Set a separate 4-6 digit passcode for an extra layer of security when withdrawing funds.</CardDescription>
+            <CardDescription>A separate 4-6 digit passcode that every withdrawal asks for. It is locked for a while after 5 incorrect attempts.</CardDescription>
         </CardHeader>
         <CardContent>
             <Form {...passcodeForm}>
                 <form onSubmit={passcodeForm.handleSubmit(onPasscodeSubmit)} className="space-y-4">
-                    <FormField control={passcodeForm.control} name="currentPassword" render={({ field }) => (<FormItem><FormLabel>Current Account Password</FormLabel><FormControl><Input type="password" placeholder="Enter your login password" {...field} /></FormControl><FormMessage /></FormItem>)} />
+                    {passcodeStatus?.lockedUntil && (
+                        <p className="text-sm text-destructive">Locked after too many incorrect passcodes until {new Date(passcodeStatus.lockedUntil).toLocaleTimeString()}. You can reset it below.</p>
+                    )}
+                    {passcodeMode === "change" ? (
+                        <FormField control={passcodeForm.control} name="currentPasscode" render={({ field }) => (<FormItem><FormLabel>Current Passcode</FormLabel><FormControl><Input type="password" maxLength={6} placeholder="••••" {...field} /></FormControl><FormMessage /></FormItem>)} />
+                    ) : (
+                        <FormField control={passcodeForm.control} name="currentPassword" render={({ field }) => (<FormItem><FormLabel>Current Account Password</FormLabel><FormControl><Input type="password" placeholder="Enter your login password" {...field} /></FormControl><FormMessage /></FormItem>)} />
+                    )}
+                    {passcodeMode === "reset" && (
+                        <FormField control={passcodeForm.control} name="totpCode" render={({ field }) => (<FormItem><FormLabel>Authenticator Code (if 2FA is enabled)</FormLabel><FormControl><Input autoComplete="one-time-code" maxLength={6} placeholder="123456" {...field} /></FormControl><FormMessage /></FormItem>)} />
+                    )}
                     <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
                         <FormField control={passcodeForm.control} name="newPasscode" render={({ field }) => (<FormItem><FormLabel>New 4-6 Digit Passcode</FormLabel><FormControl><Input type="password" maxLength={6} placeholder="••••" {...field} /></FormControl><FormMessage /></FormItem>)} />
                         <FormField control={passcodeForm.control} name="confirmPasscode" render={({ field }) => (<FormItem><FormLabel>Confirm New Passcode</FormLabel><FormControl><Input type="password" maxLength={6} placeholder="••••" {...field} /></FormControl><FormMessage /></FormItem>)} />
                     </div>
-                    <div className="flex justify-end"><Button type="submit" disabled={isSavingPasscode}>{isSavingPasscode ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Save className="mr-2 h-4 w-4" />}Set Passcode</Button></div>
+                    <div className="flex justify-end gap-2">
+                        {passcodeStatus?.isSet && (
+                            <Button type="button" variant="link" onClick={() => setIsResettingPasscode(!isResettingPasscode)}>{isResettingPasscode ? "Change with current passcode" : "Forgot passcode?"}</Button>
+                        )}
+                        <Button type="submit" disabled={isSavingPasscode}>{isSavingPasscode ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Save className="mr-2 h-4 w-4" />}{passcodeMode === "set" ? "Set Passcode" : passcodeMode === "change" ? "Change Passcode" : "Reset Passcode"}</Button>
+                    </div>
                 </form>
             </Form>
         </CardContent>
       </Card>
+
+      <Card>
+        <CardHeader className="flex flex-row items-start justify-between gap-4">
+          <div className="space-y-1.5">
+            <CardTitle className="flex items-center gap-2"><MonitorSmartphone className="h-6 w-6" /><span>Active Sessions</span></CardTitle>
+            <CardDescription>Devices that are currently signed in to your account.</CardDescription>
+          </div>
+          <AlertDialog>
+            <AlertDialogTrigger asChild>
+              <Button variant="destructive" size="sm" disabled={revokingSessionId !== null || sessions.length === 0}><LogOut className="mr-2 h-4 w-4" />Sign out everywhere</Button>
+            </AlertDialogTrigger>
+            <AlertDialogContent>
+              <AlertDialogHeader>
+                <AlertDialogTitle>Sign out everywhere?</AlertDialogTitle>
+                <AlertDialogDescription>Every device, including this one, will be signed out and will need to sign in again.</AlertDialogDescription>
+              </AlertDialogHeader>
+              <AlertDialogFooter>
+                <AlertDialogCancel>Cancel</AlertDialogCancel>
+                <AlertDialogAction onClick={() => signOutSessions()}>Sign out everywhere</AlertDialogAction>
+              </AlertDialogFooter>
+            </AlertDialogContent>
+          </AlertDialog>
+        </CardHeader>
+        <CardContent className="space-y-3">
+          {isLoadingSessions ? (
+            <div className="flex justify-center p-4"><Loader2 className="h-5 w-5 animate-spin" /></div>
+          ) : sessions.map((session) => (
+            <div key={session.id} className="flex items-center justify-between gap-4 rounded-lg border p-3">
+              <div className="min-w-0">
+                <p className="font-medium truncate">{session.userAgent || "Unknown device"}</p>
+                <p className="text-sm text-muted-foreground">
+                  {session.ip || "Unknown IP"} • Active {formatDistanceToNow(new Date(session.lastSeenAt), { addSuffix: true })}
+                </p>
+              </div>
+              {session.current ? (
+                <Badge variant="secondary">This device</Badge>
+              ) : (
+                <Button variant="outline" size="sm" onClick={() => signOutSessions(session)} disabled={revokingSessionId !== null}>
+                  {revokingSessionId === session.id ? <Loader2 className="h-4 w-4 animate-spin" /> : "Sign out"}
+                </Button>
+              )}
+            </div>
+          ))}
+        </CardContent>
+      </Card>
+
+      <ApiTokensCard />
     </div>
   );
 }
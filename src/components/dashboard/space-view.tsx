@@ -1,7 +1,7 @@
 "use client";
 
 import * as React from "react";
-import { getOrCreateWallet, type WalletData } from "@/lib/wallet";
+import { getOrCreateWallet, type WalletData } from "@/lib/wallet-actions";
 import {
   Card,
   CardContent,
@@ -178,7 +178,7 @@ export function SpaceView() {
 
   React.useEffect(() => {
     if (user?.id) {
-      getOrCreateWallet(user.id).then((walletData) => {
+      getOrCreateWallet().then((walletData) => {
         setWallet(walletData);
         setIsLoading(false);
       });
@@ -9,6 +9,7 @@ import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
 import { Badge } from '@/components/ui/badge';
 import { Separator } from '@/components/ui/separator';
 import { useToast } from '@/hooks/use-toast';
+import { useUser } from '@/contexts/UserContext';
 import { Send, Users, Crown, Shield, Star, Clock, Image, File, Smile } from 'lucide-react';
 import { getUserRank } from '@/lib/ranks';
 import { getCurrentTier } from '@/lib/tiers';
@@ -48,10 +49,11 @@ interface ClanData {
 
 interface SquadClanChatProps {
   clanId: string;
-  currentUserId?: string;
 }
 
-export function SquadClanChat({ clanId, currentUserId = 'mock-user-123' }: SquadClanChatProps) {
+export function SquadClanChat({ clanId }: SquadClanChatProps) {
+  const { user } = useUser();
+  const currentUserId = user?.id ?? '';
   const [messages, setMessages] = useState<ClanMessage[]>([]);
   const [newMessage, setNewMessage] = useState('');
   const [isLoading, setIsLoading] = useState(true);
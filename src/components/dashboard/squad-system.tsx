@@ -25,7 +25,7 @@ import {
 
 import { useToast } from "@/hooks/use-toast";
 import { Skeleton } from "@/components/ui/skeleton";
-import { getOrCreateWallet, type WalletData } from "@/lib/wallet";
+import { getOrCreateWallet, type WalletData } from "@/lib/wallet-actions";
 import { useUser } from "@/contexts/UserContext";
 import { cn } from "@/lib/utils";
 
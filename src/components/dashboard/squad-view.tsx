@@ -42,7 +42,7 @@ import {
 
 import { useToast } from "@/hooks/use-toast";
 import { Skeleton } from "@/components/ui/skeleton";
-import { getOrCreateWallet, type WalletData } from "@/lib/wallet";
+import { getOrCreateWallet, type WalletData } from "@/lib/wallet-actions";
 import { useUser } from "@/contexts/UserContext";
 import { getUserRank } from "@/lib/ranks";
 import { cn } from "@/lib/utils";
@@ -124,7 +124,7 @@ export function SquadView() {
 
   React.useEffect(() => {
     if (user?.id) {
-      getOrCreateWallet(user.id).then((walletData) => {
+      getOrCreateWallet().then((walletData) => {
         setWallet(walletData);
         setIsLoading(false);
       });
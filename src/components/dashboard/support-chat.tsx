@@ -224,7 +224,7 @@ export function SupportChat() {
     let response = "";
     switch (action) {
       case "account_status":
-        response = `Your account status: ${wallet?.profile?.verificationStatus === 'verified' ? 'Verified' : 'Pending Verification'}. Balance: $${wallet?.balances?.usdt?.toFixed(2) || '0.00'} USDT`;
+        response = `Your account status: ${wallet?.verification_status === 'verified' ? 'Verified' : 'Pending Verification'}. Balance: $${wallet?.balances?.usdt?.toFixed(2) || '0.00'} USDT`;
         break;
       case "withdrawal_help":
         response = "For withdrawal issues, please ensure: 1) Your account is verified 2) You have sufficient balance 3) Withdrawal address is correct. If issues persist, please contact support.";
@@ -92,34 +92,24 @@ export function TradingBotCard({
 
     setIsAnimating(true);
     
-    // Simulate the animation and trading process
-    setTimeout(() => {
-        const usdtEarnings = profitPerTrade;
-        
-        const newEarning = { amount: usdtEarnings, timestamp: Date.now() };
+    // Run the animation, then book the trade on the server
+    setTimeout(async () => {
+        try {
+          const response = await fetch('/api/grid/trade', { method: 'POST' });
+          const result = await response.json();
+          if (!response.ok || result.error) throw new Error(result.error || 'Trade failed.');
 
-        const newWalletData: WalletData = {
-          ...walletData,
-          balances: {
-            ...walletData.balances,
-            usdt: (walletData.balances?.usdt ?? 0) + usdtEarnings,
-          },
-          growth: {
-            ...walletData.growth,
-            clicksLeft: (walletData.growth?.clicksLeft ?? 1) - 1,
-            dailyEarnings: (walletData.growth?.dailyEarnings ?? 0) + usdtEarnings,
-            earningsHistory: [...(walletData.growth.earningsHistory || []), newEarning],
-          },
-        };
+          onUpdate(result.wallet);
 
-        onUpdate(newWalletData);
-
-        toast({
-          title: "Trade Successful!",
-          description: `You've earned $${usdtEarnings.toFixed(2)} USDT.`,
-        });
-
-        setIsAnimating(false);
+          toast({
+            title: "Trade Successful!",
+            description: `You've earned $${result.earnings.toFixed(2)} USDT.`,
+          });
+        } catch (error: any) {
+          toast({ title: "Trade Failed", description: error.message, variant: "destructive" });
+        } finally {
+          setIsAnimating(false);
+        }
     }, 60000); // Animation duration
   };
 
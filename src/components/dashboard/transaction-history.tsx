@@ -0,0 +1,135 @@
+'use client';
+
+import * as React from "react";
+import { Download } from "lucide-react";
+
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { useTransactions } from "@/hooks/use-transactions";
+import type { TransactionType } from "@/lib/transactions";
+import { cn } from "@/lib/utils";
+
+export const transactionTypeLabels: Record<TransactionType, string> = {
+  deposit: "Deposit",
+  withdrawal: "Withdrawal",
+  grid_earning: "Grid Profit",
+  reward: "Reward",
+  adjustment: "Adjustment",
+};
+
+const ALL = "all";
+
+export function formatTransactionAmount(amount: number, asset: string) {
+  const sign = amount >= 0 ? "+" : "-";
+  if (asset === "usdt") {
+    return `${sign}$${Math.abs(amount).toFixed(2)}`;
+  }
+  return `${sign}${Math.abs(amount).toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 8 })} ${asset.toUpperCase()}`;
+}
+
+export function TransactionHistory() {
+  const [type, setType] = React.useState(ALL);
+  const [asset, setAsset] = React.useState(ALL);
+  const [from, setFrom] = React.useState("");
+  const [to, setTo] = React.useState("");
+
+  const { transactions, isLoading, error, hasMore, loadMore, csvUrl } = useTransactions({
+    types: type === ALL ? undefined : [type as TransactionType],
+    asset: asset === ALL ? undefined : asset,
+    from,
+    to,
+  });
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between gap-4">
+        <div>
+          <CardTitle>Transaction History</CardTitle>
+          <CardDescription>A record of all your deposits, withdrawals, and earnings.</CardDescription>
+        </div>
+        <Button variant="outline" size="sm" asChild>
+          <a href={csvUrl} download><Download className="mr-2 h-4 w-4" />CSV</a>
+        </Button>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid grid-cols-2 gap-2 md:grid-cols-4">
+          <Select value={type} onValueChange={setType}>
+            <SelectTrigger><SelectValue placeholder="Type" /></SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ALL}>All types</SelectItem>
+              {Object.entries(transactionTypeLabels).map(([value, label]) => (
+                <SelectItem key={value} value={value}>{label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Select value={asset} onValueChange={setAsset}>
+            <SelectTrigger><SelectValue placeholder="Asset" /></SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ALL}>All assets</SelectItem>
+              <SelectItem value="usdt">USDT</SelectItem>
+              <SelectItem value="btc">BTC</SelectItem>
+              <SelectItem value="eth">ETH</SelectItem>
+            </SelectContent>
+          </Select>
+          <Input type="date" value={from} onChange={(e) => setFrom(e.target.value)} aria-label="From date" />
+          <Input type="date" value={to} onChange={(e) => setTo(e.target.value)} aria-label="To date" />
+        </div>
+        <Table>
+          <TableHeader><TableRow><TableHead>Type</TableHead><TableHead>Asset</TableHead><TableHead>Amount</TableHead><TableHead>Date</TableHead><TableHead className="text-right">Status</TableHead></TableRow></TableHeader>
+          <TableBody>
+            {error ? (
+              <TableRow><TableCell colSpan={5} className="h-24 text-center text-destructive">{error}</TableCell></TableRow>
+            ) : transactions.length === 0 ? (
+              <TableRow><TableCell colSpan={5} className="h-24 text-center text-muted-foreground">{isLoading ? "Loading..." : "No transactions yet."}</TableCell></TableRow>
+            ) : (
+              transactions.map((txn) => (
+                <TableRow key={txn.id}>
+                  <TableCell>
+                    <div className="font-medium">{transactionTypeLabels[txn.type]}</div>
+                    {txn.memo && <div className="text-xs text-muted-foreground truncate max-w-[12rem]">{txn.memo}</div>}
+                  </TableCell>
+                  <TableCell>{txn.asset.toUpperCase()}</TableCell>
+                  <TableCell className={cn("font-mono", txn.amount >= 0 ? "text-green-600" : "text-red-600")}>
+                    {formatTransactionAmount(txn.amount, txn.asset)}
+                  </TableCell>
+                  <TableCell>{new Date(txn.createdAt).toLocaleDateString()}</TableCell>
+                  <TableCell className="text-right"><Badge variant={txn.status === "completed" ? "default" : txn.status === "rejected" ? "destructive" : "secondary"} className="capitalize">{txn.status.replace("_", " ")}</Badge></TableCell>
+                </TableRow>
+              ))
+            )}
+          </TableBody>
+        </Table>
+        {hasMore && (
+          <div className="text-center">
+            <Button variant="outline" onClick={loadMore} disabled={isLoading}>
+              {isLoading ? "Loading..." : "Load more"}
+            </Button>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
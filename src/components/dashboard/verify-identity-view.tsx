@@ -19,7 +19,6 @@ import { Badge } from "@/components/ui/badge";
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
 import { useToast } from "@/hooks/use-toast";
 import { useUser } from "@/contexts/UserContext";
-import { addNotification } from "@/lib/notifications";
 import { useRouter } from "next/navigation";
 import { 
   Loader2, 
@@ -44,7 +43,7 @@ import {
 import Image from "next/image";
 import { cn } from "@/lib/utils";
 import { getUserRank } from "@/lib/ranks";
-import { getOrCreateWallet, type WalletData } from "@/lib/wallet";
+import { getOrCreateWallet, type WalletData } from "@/lib/wallet-actions";
 
 const profileSchema = z.object({
   fullName: z.string().min(3, "Full name must be at least 3 characters.").max(50),
@@ -156,7 +155,7 @@ export function VerifyIdentityView() {
 
   React.useEffect(() => {
     if (user?.id) {
-      getOrCreateWallet(user.id).then((walletData) => {
+      getOrCreateWallet().then((walletData) => {
         setWallet(walletData);
       });
     }
@@ -195,7 +194,6 @@ export function VerifyIdentityView() {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({
-          userId: user.id,
           fullName: values.fullName,
           idCardNo: values.idCardNo,
           address: values.address,
@@ -216,12 +214,6 @@ export function VerifyIdentityView() {
         description: "Your documents are being verified. This may take a few minutes.",
       });
 
-      await addNotification(user.id, {
-        title: "Verification in Progress",
-        content: "Your profile information has been submitted for verification.",
-        href: "/dashboard/profile"
-      });
-      
       router.push('/dashboard/profile');
 
     } catch (error: any) {
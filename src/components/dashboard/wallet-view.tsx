@@ -14,14 +14,6 @@ import {
   CardHeader,
   CardTitle,
 } from "@/components/ui/card";
-import {
-  Table,
-  TableBody,
-  TableCell,
-  TableHead,
-  TableHeader,
-  TableRow,
-} from "@/components/ui/table";
 import { Skeleton } from "@/components/ui/skeleton";
 import { cn } from "@/lib/utils";
 import { AllAssetsChart } from "./all-assets-chart";
@@ -30,6 +22,7 @@ import { useUser } from "@/contexts/UserContext";
 import { tierIcons, tierClassNames } from '@/lib/settings';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { SquadSystem } from "./squad-system";
+import { TransactionHistory } from "./transaction-history";
 
 // Import rank icons
 import { RecruitRankIcon } from '@/components/icons/ranks/recruit-rank-icon';
@@ -52,15 +45,6 @@ const rankIcons: Record<string, IconComponent> = {
 };
 
 
-type Transaction = {
-  id: string;
-  type: string;
-  asset: 'USDT' | 'BTC' | 'ETH';
-  amount: number;
-  date: string;
-  status: "Completed" | "Pending" | "Failed";
-};
-
 type CryptoData = {
   id: string;
   name: string;
@@ -181,79 +165,6 @@ export function WalletView() {
     return () => clearInterval(interval);
   }, []);
 
-  const transactions = React.useMemo(() => {
-    if (!walletData || !walletData.created_at) return [];
-
-    const history: Transaction[] = [];
-    const registrationDate = new Date(walletData.created_at).toISOString();
-
-    history.push({
-      id: `reg-bonus-usdt-${registrationDate}`,
-      type: "Registration Bonus",
-      asset: "USDT",
-      amount: 5,
-      date: registrationDate,
-      status: "Completed",
-    });
-
-    if (walletData.squad.squad_leader) {
-      history.push({
-        id: `invite-bonus-usdt-${registrationDate}`,
-        type: "Invitation Bonus",
-        asset: "USDT",
-        amount: 5,
-        date: registrationDate,
-        status: "Completed",
-      });
-    }
-
-    const growth = walletData.growth as any;
-    if (growth.earningsHistory) {
-        growth.earningsHistory.forEach((earning: any, index: number) => {
-        history.push({
-          id: `grid-profit-${earning.timestamp}-${index}`,
-          type: "Grid Profit",
-          asset: "USDT",
-          amount: earning.amount,
-          date: new Date(earning.timestamp).toISOString(),
-          status: "Completed",
-        });
-      });
-    }
-
-    if(walletData.squad.members) {
-      walletData.squad.members.forEach((member: any, index: number) => {
-        history.push({
-          id: `squad-bonus-${index}-${member.id}`,
-          type: "Team Earnings",
-          asset: "USDT",
-          amount: 5,
-          date: new Date(
-            Date.now() - Math.random() * (index + 2) * 24 * 60 * 60 * 1000
-          ).toISOString(),
-          status: "Completed",
-        });
-      });
-    }
-
-    if (walletData.pending_withdrawals) {
-        walletData.pending_withdrawals.forEach((w: any) => {
-        history.push({
-          id: w.id,
-          type: "Withdrawal",
-          asset: "USDT",
-          amount: -w.amount,
-          date: new Date(w.timestamp).toISOString(),
-          status: "Pending",
-        });
-      });
-    }
-
-    return history.sort(
-      (a, b) => new Date(b.date).getTime() - new Date(a.date).getTime()
-    );
-  }, [walletData]);
-
   const totalBalance = React.useMemo(() => {
     if (!walletData || allAssetsData.length === 0) return 0;
     
@@ -359,31 +270,7 @@ export function WalletView() {
 
             <AllAssetsChart coins={allAssetsData} />
 
-            <Card>
-              <CardHeader><CardTitle>Transaction History</CardTitle><CardDescription>A record of all your deposits, withdrawals, and earnings.</CardDescription></CardHeader>
-              <CardContent>
-                <Table>
-                  <TableHeader><TableRow><TableHead>Type</TableHead><TableHead>Asset</TableHead><TableHead>Amount</TableHead><TableHead>Date</TableHead><TableHead className="text-right">Status</TableHead></TableRow></TableHeader>
-                  <TableBody>
-                    {transactions.length === 0 ? (
-                      <TableRow><TableCell colSpan={5} className="h-24 text-center text-muted-foreground">No transactions yet.</TableCell></TableRow>
-                    ) : (
-                      transactions.map((txn) => (
-                        <TableRow key={txn.id}>
-                          <TableCell><div className="font-medium">{txn.type}</div></TableCell>
-                          <TableCell>{txn.asset}</TableCell>
-                          <TableCell className={cn("font-mono", txn.amount >= 0 ? "text-green-600" : "text-red-600")}>
-                            {txn.asset === 'USDT' ? (`${txn.amount >= 0 ? "+" : "-"}$${Math.abs(txn.amount).toFixed(2)}`) : (`${txn.amount >= 0 ? "+" : ""}${Math.abs(txn.amount).toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 8 })} ${txn.asset}`)}
-                          </TableCell>
-                          <TableCell>{new Date(txn.date).toLocaleDateString()}</TableCell>
-                          <TableCell className="text-right"><Badge variant={txn.status === "Completed" ? "default" : txn.status === "Pending" ? "secondary" : "destructive"} className="capitalize">{txn.status}</Badge></TableCell>
-                        </TableRow>
-                      ))
-                    )}
-                  </TableBody>
-                </Table>
-              </CardContent>
-            </Card>
+            <TransactionHistory />
           </div>
         </TabsContent>
         <TabsContent value="squad">
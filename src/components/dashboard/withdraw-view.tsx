@@ -5,7 +5,7 @@ import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import * as z from "zod";
 import Image from "next/image";
-import { getOrCreateWallet, type WalletData } from "@/lib/wallet";
+import { getOrCreateWallet, type WalletData } from "@/lib/wallet-actions";
 import {
   Card,
   CardContent,
@@ -17,15 +17,22 @@ import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
 import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
 import { Input } from "@/components/ui/input";
-import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle, AlertDialogTrigger } from "@/components/ui/alert-dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { AlertDialog, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle, AlertDialogTrigger } from "@/components/ui/alert-dialog";
 import { useToast } from "@/hooks/use-toast";
+import { useTransactions } from "@/hooks/use-transactions";
+import { useAssetRegistry } from "@/hooks/use-asset-registry";
 import { useUser } from "@/contexts/UserContext";
+import { useIdempotencyKey } from "@/hooks/use-idempotency-key";
+import type { TwoFactorStatus } from "@/lib/two-factor";
 import { Skeleton } from "../ui/skeleton";
 import { cn } from "@/lib/utils";
 import { getUserRank } from "@/lib/ranks";
 import Link from "next/link";
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
 import { withdrawRequestSchema } from "@/lib/validators";
+import { validateAddress } from "@/lib/address-validation";
+import type { Transaction } from "@/lib/transactions";
 import { 
   Send, 
   Wallet, 
@@ -45,9 +52,11 @@ import {
   Coins,
   Network,
   ArrowDownLeft,
-  Minus
+  Minus,
+  Loader2,
+  XCircle
 } from "lucide-react";
-import { format } from 'date-fns';
+import { format, formatDistanceToNow } from 'date-fns';
 
 // Import rank icons
 import { RecruitRankIcon } from '@/components/icons/ranks/recruit-rank-icon';
@@ -72,68 +81,26 @@ const rankIcons: Record<string, IconComponent> = {
 
 type WithdrawFormValues = z.infer<typeof withdrawRequestSchema>;
 
-const cryptoAssets = [
-  {
-    symbol: "USDT",
-    name: "Tether",
-    iconUrl: "https://assets.coincap.io/assets/icons/usdt@2x.png",
-    networks: [
-      { name: "TRC20 (TRON)", fee: "1 USDT", minWithdraw: 10 },
-      { name: "ERC20 (Ethereum)", fee: "5 USDT", minWithdraw: 20 },
-      { name: "BEP20 (BSC)", fee: "1 USDT", minWithdraw: 10 }
-    ]
-  },
-  {
-    symbol: "BTC",
-    name: "Bitcoin",
-    iconUrl: "https://assets.coincap.io/assets/icons/btc@2x.png",
-    networks: [
-      { name: "Bitcoin Network", fee: "0.0005 BTC", minWithdraw: 0.001 }
-    ]
-  },
-  {
-    symbol: "ETH",
-    name: "Ethereum",
-    iconUrl: "https://assets.coincap.io/assets/icons/eth@2x.png",
-    networks: [
-      { name: "ERC20 (Ethereum)", fee: "0.005 ETH", minWithdraw: 0.01 }
-    ]
-  }
-];
-
-const pendingWithdrawals = [
-  {
-    id: "with_001",
-    amount: 500,
-    currency: "USDT",
-    network: "TRC20 (TRON)",
-    walletAddress: "TQn9Y2khEsLJW1ChVWFMSMeRDow5oNDMkx",
-    status: "pending",
-    timestamp: "2024-01-15T14:30:00Z",
-    fee: "1 USDT"
-  },
-  {
-    id: "with_002",
-    amount: 0.1,
-    currency: "BTC",
-    network: "Bitcoin Network",
-    walletAddress: "1A1zP1eP5QGefi2DMPTfTL5SLmv7DivfNa",
-    status: "completed",
-    timestamp: "2024-01-14T09:15:00Z",
-    fee: "0.0005 BTC"
-  }
-];
-
 export function WithdrawView() {
   const [wallet, setWallet] = React.useState<WalletData | null>(null);
   const [isLoading, setIsLoading] = React.useState(true);
-  const [selectedAsset, setSelectedAsset] = React.useState(cryptoAssets[0]);
+  const [selectedSymbol, setSelectedSymbol] = React.useState("USDT");
   const [selectedNetwork, setSelectedNetwork] = React.useState(0);
   const [isConfirming, setIsConfirming] = React.useState(false);
+  const [isSubmitting, setIsSubmitting] = React.useState(false);
+  const [totpCode, setTotpCode] = React.useState("");
+  const [passcode, setPasscode] = React.useState("");
+  const idempotency = useIdempotencyKey();
+  const [twoFactor, setTwoFactor] = React.useState<TwoFactorStatus | null>(null);
   const [currentTab, setCurrentTab] = React.useState<"withdraw" | "balance" | "history">("withdraw");
+  const [withdrawalToCancel, setWithdrawalToCancel] = React.useState<Transaction | null>(null);
+  const [isCancelling, setIsCancelling] = React.useState(false);
 
   const { user } = useUser();
   const { toast } = useToast();
+  const history = useTransactions({ types: ["withdrawal"] });
+  const registry = useAssetRegistry();
+  const cryptoAssets = registry.assets;
 
   const form = useForm<WithdrawFormValues>({
     resolver: zodResolver(withdrawRequestSchema),
@@ -147,21 +114,63 @@ export function WithdrawView() {
 
   React.useEffect(() => {
     if (user?.id) {
-      getOrCreateWallet(user.id).then((walletData) => {
+      getOrCreateWallet().then((walletData) => {
         setWallet(walletData);
         setIsLoading(false);
       });
+      fetch("/api/auth/two-factor")
+        .then(response => (response.ok ? response.json() : null))
+        .catch(() => null)
+        .then(setTwoFactor);
     }
   }, [user]);
 
   const watchedAmount = form.watch("amount");
-  const currentNetwork = selectedAsset.networks[selectedNetwork];
+  // Networks, fees and limits come from the admin-managed registry; the server checks them again
+  const selectedAsset = cryptoAssets.find(asset => asset.symbol === selectedSymbol) || cryptoAssets[0];
+  const currentNetwork = selectedAsset ? selectedAsset.networks[selectedNetwork] || selectedAsset.networks[0] : undefined;
   const balances = wallet?.balances as any;
-  const availableBalance = balances?.[selectedAsset.symbol.toLowerCase()] || 0;
-  const feeAmount = currentNetwork.fee.includes("USDT") ? parseFloat(currentNetwork.fee) : 0;
+  const availableBalance = (selectedAsset && balances?.[selectedAsset.symbol.toLowerCase()]) || 0;
+  const feeAmount = currentNetwork?.fee ?? 0;
   const netAmount = Math.max(0, watchedAmount - feeAmount);
+  // Withdrawals only go to saved addresses whose cooldown has passed (see the
+  // address book on the Security page); the server checks this again
+  const savedAddresses = (wallet?.security.addressBook || []).filter(
+    entry => entry.asset === selectedAsset?.symbol && entry.network === currentNetwork?.id
+  );
+  const checkAddress = (value: string): string | null => {
+    if (!currentNetwork) return null;
+    const formatError = validateAddress(currentNetwork.addressFormat, value, currentNetwork.name);
+    if (formatError) return formatError;
+    const trimmed = value.trim();
+    const saved = savedAddresses.find(entry =>
+      currentNetwork.addressFormat === "evm" ? entry.address.toLowerCase() === trimmed.toLowerCase() : entry.address === trimmed
+    );
+    if (!saved) return "This address is not in your address book. Save it on the Security page first.";
+    if (new Date(saved.availableAt).getTime() > Date.now()) {
+      return `"${saved.label}" was added or changed recently and can be used ${formatDistanceToNow(new Date(saved.availableAt), { addSuffix: true })}.`;
+    }
+    return null;
+  };
+  // Checked as the address is typed
+  const watchedAddress = form.watch("walletAddress");
+  const addressError = watchedAddress ? checkAddress(watchedAddress) : null;
+
+  React.useEffect(() => {
+    if (selectedAsset && currentNetwork) {
+      form.setValue("currency", selectedAsset.symbol as any);
+      form.setValue("network", currentNetwork.id);
+    }
+  }, [selectedAsset, currentNetwork, form]);
 
   const onSubmit = async (values: WithdrawFormValues) => {
+    if (!currentNetwork) return;
+    const invalidAddress = checkAddress(values.walletAddress);
+    if (invalidAddress) {
+      form.setError("walletAddress", { message: invalidAddress });
+      return;
+    }
+
     if (values.amount > availableBalance) {
       toast({
         title: "Insufficient Balance",
@@ -180,44 +189,107 @@ export function WithdrawView() {
       return;
     }
 
+    if (values.amount > currentNetwork.maxWithdraw) {
+      toast({
+        title: "Maximum Amount Exceeded",
+        description: `Maximum withdrawal amount is ${currentNetwork.maxWithdraw} ${selectedAsset.symbol}`,
+        variant: "destructive"
+      });
+      return;
+    }
+
+    if (values.amount <= currentNetwork.fee) {
+      toast({
+        title: "Amount Too Small",
+        description: `The amount must be more than the ${currentNetwork.fee} ${selectedAsset.symbol} network fee`,
+        variant: "destructive"
+      });
+      return;
+    }
+
     setIsConfirming(true);
   };
 
   const confirmWithdrawal = async () => {
+    setIsSubmitting(true);
     try {
-      const withdrawalData = {
-        ...form.getValues(),
-        currency: selectedAsset.symbol,
-        network: currentNetwork.name,
-        fee: currentNetwork.fee,
-        netAmount
-      };
-      
-      console.log("Withdrawal request:", withdrawalData);
-      
+      const values = form.getValues();
+      const body = JSON.stringify({
+        amount: values.amount,
+        asset: selectedAsset.symbol,
+        network: values.network,
+        address: values.walletAddress,
+        totpCode,
+        passcode,
+      });
+      const response = await fetch("/api/withdraw/request", {
+        method: "POST",
+        headers: { "Content-Type": "application/json", ...idempotency.headersFor(body) },
+        body,
+      });
+      idempotency.settle(response);
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error);
+
       toast({
         title: "AstralCore Withdrawal Initiated",
         description: "Your withdrawal request is being processed by our neural networks. You'll receive confirmation shortly.",
       });
 
-      form.reset();
+      form.reset({ amount: 0, currency: values.currency, walletAddress: "", network: values.network });
+      setTotpCode("");
+      setPasscode("");
       setIsConfirming(false);
-    } catch (error) {
+      history.refresh();
+      getOrCreateWallet().then(setWallet);
+    } catch (error: any) {
       toast({
         title: "Neural Network Error",
-        description: "Failed to process withdrawal request. Please try again.",
+        description: error.message || "Failed to process withdrawal request. Please try again.",
         variant: "destructive"
       });
-      setIsConfirming(false);
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  // Pending withdrawals can be cancelled; the held amount goes back to the balance.
+  const cancelWithdrawal = async () => {
+    if (!withdrawalToCancel) return;
+    setIsCancelling(true);
+    try {
+      const response = await fetch("/api/withdraw/cancel", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ withdrawalId: withdrawalToCancel.referenceId }),
+      });
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error);
+
+      toast({
+        title: "Withdrawal Cancelled",
+        description: `${Math.abs(withdrawalToCancel.amount)} ${withdrawalToCancel.asset.toUpperCase()} has been returned to your balance.`,
+      });
+      setWithdrawalToCancel(null);
+      history.refresh();
+      getOrCreateWallet().then(setWallet);
+    } catch (error: any) {
+      toast({
+        title: "Cancellation Failed",
+        description: error.message || "Failed to cancel the withdrawal. Please try again.",
+        variant: "destructive"
+      });
+    } finally {
+      setIsCancelling(false);
     }
   };
 
+  // The fee is taken out of the amount, so the whole balance can be withdrawn up to the network maximum
   const setMaxAmount = () => {
-    const maxAmount = Math.max(0, availableBalance - feeAmount);
-    form.setValue("amount", maxAmount);
+    form.setValue("amount", Math.min(availableBalance, currentNetwork?.maxWithdraw ?? 0));
   };
 
-  if (isLoading) {
+  if (isLoading || registry.isLoading) {
     return (
       <div className="space-y-4 max-w-4xl mx-auto">
         <Card className="bg-black/40 backdrop-blur-xl border-border/40">
@@ -327,7 +399,7 @@ export function WithdrawView() {
                 <CheckCircle className="h-5 w-5 mx-auto text-orange-400" />
               </div>
             </div>
-            <p className="text-lg font-bold text-orange-400">{pendingWithdrawals.filter(d => d.status === "completed").length}</p>
+            <p className="text-lg font-bold text-orange-400">{history.transactions.filter(t => t.status === "completed" && t.amount < 0).length}</p>
             <p className="text-xs text-gray-400">Completed</p>
           </CardContent>
         </Card>
@@ -340,7 +412,7 @@ export function WithdrawView() {
                 <Clock className="h-5 w-5 mx-auto text-yellow-400" />
               </div>
             </div>
-            <p className="text-lg font-bold text-yellow-400">{pendingWithdrawals.filter(d => d.status === "pending").length}</p>
+            <p className="text-lg font-bold text-yellow-400">{history.transactions.filter(t => t.status === "pending").length}</p>
             <p className="text-xs text-gray-400">Pending</p>
           </CardContent>
         </Card>
@@ -400,7 +472,17 @@ export function WithdrawView() {
       </div>
 
       {/* Tab Content */}
-      {currentTab === "withdraw" && (
+      {currentTab === "withdraw" && (!selectedAsset || !currentNetwork) && (
+        <Card className="bg-black/40 backdrop-blur-xl border-border/40">
+          <CardContent className="py-8 text-center text-gray-400">
+            <AlertCircle className="h-10 w-10 mx-auto mb-3 opacity-50" />
+            <p className="font-medium">Withdrawals are currently unavailable</p>
+            <p className="text-sm">No withdrawal networks are enabled at the moment. Please check back later.</p>
+          </CardContent>
+        </Card>
+      )}
+
+      {currentTab === "withdraw" && selectedAsset && currentNetwork && (
         <div className="space-y-4">
           {/* Asset and Network Selection */}
           <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
@@ -417,9 +499,8 @@ export function WithdrawView() {
                   <button
                     key={asset.symbol}
                     onClick={() => {
-                      setSelectedAsset(asset);
+                      setSelectedSymbol(asset.symbol);
                       setSelectedNetwork(0);
-                      form.setValue("currency", asset.symbol as any);
                     }}
                     className={cn(
                       "flex items-center gap-3 p-3 border rounded-lg text-left transition-all duration-300 w-full",
@@ -458,11 +539,8 @@ export function WithdrawView() {
               <CardContent className="space-y-3">
                 {selectedAsset.networks.map((network, index) => (
                   <button
-                    key={index}
-                    onClick={() => {
-                      setSelectedNetwork(index);
-                      form.setValue("network", network.name);
-                    }}
+                    key={network.id}
+                    onClick={() => setSelectedNetwork(index)}
                     className={cn(
                       "flex items-center justify-between p-3 border rounded-lg text-left transition-all duration-300 w-full",
                       selectedNetwork === index
@@ -473,7 +551,7 @@ export function WithdrawView() {
                     <div>
                       <p className="font-medium text-white">{network.name}</p>
                       <p className="text-sm text-gray-400">
-                        Fee: {network.fee} • Min: {network.minWithdraw} {selectedAsset.symbol}
+                        Fee: {network.fee} {selectedAsset.symbol} • Min: {network.minWithdraw} • Max: {network.maxWithdraw} {selectedAsset.symbol}
                       </p>
                     </div>
                     {selectedNetwork === index && (
@@ -505,14 +583,41 @@ export function WithdrawView() {
                     render={({ field }) => (
                       <FormItem>
                         <FormLabel className="text-gray-300">Destination Wallet Address</FormLabel>
+                        {savedAddresses.length > 0 ? (
+                          <Select
+                            value={savedAddresses.find(entry => entry.address === field.value)?.id || ""}
+                            onValueChange={id => field.onChange(savedAddresses.find(entry => entry.id === id)?.address || "")}
+                          >
+                            <SelectTrigger className="bg-black/20 border-border/40">
+                              <SelectValue placeholder="Choose a saved address" />
+                            </SelectTrigger>
+                            <SelectContent>
+                              {savedAddresses.map(entry => (
+                                <SelectItem key={entry.id} value={entry.id}>
+                                  {entry.label} ({entry.address.slice(0, 6)}…{entry.address.slice(-4)})
+                                </SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                        ) : (
+                          <p className="text-sm text-gray-400">
+                            You have no saved {selectedAsset.symbol} addresses for {currentNetwork.name}.{" "}
+                            <Link href="/dashboard/security" className="text-primary underline">Add one in your address book.</Link>
+                          </p>
+                        )}
                         <FormControl>
                           <Input
                             placeholder={`Enter ${selectedAsset.symbol} wallet address`}
                             className="bg-black/20 border-border/40 font-mono"
                             {...field}
+                            aria-invalid={!!addressError}
                           />
                         </FormControl>
-                        <FormMessage />
+                        {addressError && !form.formState.errors.walletAddress ? (
+                          <p className="text-sm font-medium text-destructive">{addressError}</p>
+                        ) : (
+                          <FormMessage />
+                        )}
                       </FormItem>
                     )}
                   />
@@ -564,7 +669,7 @@ export function WithdrawView() {
                         </div>
                         <div className="flex justify-between text-sm text-red-400">
                           <span>Network Fee:</span>
-                          <span>-{currentNetwork.fee}</span>
+                          <span>-{currentNetwork.fee} {selectedAsset.symbol}</span>
                         </div>
                         <div className="border-t border-border/40 pt-2 flex justify-between font-medium text-white">
                           <span>You Will Receive:</span>
@@ -579,7 +684,7 @@ export function WithdrawView() {
                       <Button 
                         type="submit" 
                         className="w-full bg-gradient-to-r from-red-500 to-orange-600"
-                        disabled={availableBalance === 0 || watchedAmount <= 0}
+                        disabled={availableBalance === 0 || watchedAmount <= 0 || !!addressError}
                       >
                         <Send className="h-4 w-4 mr-2" />
                         Confirm Withdrawal
@@ -612,7 +717,7 @@ export function WithdrawView() {
                               </div>
                               <div className="flex justify-between">
                                 <span className="text-gray-400">Fee:</span>
-                                <span className="font-medium text-red-400">{currentNetwork.fee}</span>
+                                <span className="font-medium text-red-400">{currentNetwork.fee} {selectedAsset.symbol}</span>
                               </div>
                               <div className="flex justify-between border-t border-border/40 pt-2">
                                 <span className="text-gray-300">Net Amount:</span>
@@ -625,17 +730,55 @@ export function WithdrawView() {
                                 This action cannot be undone. Please double-check the wallet address.
                               </p>
                             </div>
+                            <div className="space-y-2">
+                              <label htmlFor="withdraw-passcode" className="text-sm text-gray-300">Withdrawal passcode</label>
+                              <Input
+                                id="withdraw-passcode"
+                                type="password"
+                                inputMode="numeric"
+                                maxLength={6}
+                                placeholder="••••"
+                                value={passcode}
+                                onChange={(e) => setPasscode(e.target.value.replace(/\D/g, ""))}
+                                className="bg-black/40 border-border/40 font-mono tracking-widest"
+                              />
+                            </div>
+                            {twoFactor?.enabled ? (
+                              <div className="space-y-2">
+                                <label htmlFor="withdraw-totp" className="text-sm text-gray-300">Authenticator code</label>
+                                <Input
+                                  id="withdraw-totp"
+                                  inputMode="numeric"
+                                  autoComplete="one-time-code"
+                                  maxLength={6}
+                                  placeholder="123456"
+                                  value={totpCode}
+                                  onChange={(e) => setTotpCode(e.target.value.replace(/\D/g, ""))}
+                                  className="bg-black/40 border-border/40 font-mono tracking-widest"
+                                />
+                                <p className="text-xs text-gray-400">
+                                  Withdrawals require your authenticator code and passcode. <Link href="/dashboard/security" className="underline">Security settings</Link>
+                                </p>
+                              </div>
+                            ) : twoFactor?.requiredForWithdrawals ? (
+                              <p className="text-xs text-red-400">
+                                Withdrawals now require two-factor authentication. <Link href="/dashboard/security" className="underline">Set it up on the Security page</Link> to continue.
+                              </p>
+                            ) : null}
                           </div>
                         </AlertDialogDescription>
                       </AlertDialogHeader>
                       <AlertDialogFooter>
                         <AlertDialogCancel className="border-border/40">Cancel</AlertDialogCancel>
-                        <AlertDialogAction 
+                        <Button
+                          type="button"
                           onClick={confirmWithdrawal}
+                          disabled={isSubmitting || (twoFactor?.enabled ? totpCode.length !== 6 : !!twoFactor?.requiredForWithdrawals) || passcode.length < 4}
                           className="bg-gradient-to-r from-red-500 to-orange-600"
                         >
+                          {isSubmitting && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
                           Confirm Withdrawal
-                        </AlertDialogAction>
+                        </Button>
                       </AlertDialogFooter>
                     </AlertDialogContent>
                   </AlertDialog>
@@ -706,61 +849,110 @@ export function WithdrawView() {
           </CardHeader>
           <CardContent>
             <div className="space-y-4">
-              {pendingWithdrawals.map((withdrawal) => (
-                <div key={withdrawal.id} className="flex items-center justify-between p-4 bg-white/5 border border-border/40 rounded-lg backdrop-blur-xl">
+              {history.transactions.map((txn) => (
+                <div key={txn.id} className="flex items-center justify-between p-4 bg-white/5 border border-border/40 rounded-lg backdrop-blur-xl">
                   <div className="flex items-center gap-4">
                     <Image
-                      src={cryptoAssets.find(a => a.symbol === withdrawal.currency)?.iconUrl || ""}
-                      alt={withdrawal.currency}
+                      src={cryptoAssets.find(a => a.symbol === txn.asset.toUpperCase())?.iconUrl || ""}
+                      alt={txn.asset.toUpperCase()}
                       width={32}
                       height={32}
                       className="rounded-full"
                     />
                     <div>
                       <p className="font-medium text-white">
-                        {withdrawal.amount} {withdrawal.currency}
+                        {Math.abs(txn.amount)} {txn.asset.toUpperCase()}
                       </p>
                       <p className="text-sm text-gray-400">
-                        {withdrawal.network} • {format(new Date(withdrawal.timestamp), 'MMM dd, yyyy')}
-                      </p>
-                      <p className="text-xs text-gray-500 font-mono">
-                        To: {withdrawal.walletAddress.slice(0, 20)}...
+                        {format(new Date(txn.createdAt), 'MMM dd, yyyy HH:mm')}
                       </p>
+                      {txn.memo && (
+                        <p className="text-xs text-gray-500 font-mono" title={txn.memo}>
+                          {txn.memo.length > 24 ? `${txn.memo.slice(0, 24)}...` : txn.memo}
+                        </p>
+                      )}
                     </div>
                   </div>
-                  <div className="text-right">
+                  <div className="text-right space-y-2">
                     <Badge
                       variant="outline"
                       className={cn(
                         "text-xs",
-                        withdrawal.status === "completed" 
+                        txn.status === "completed"
                           ? "border-green-400/40 text-green-300 bg-green-400/10"
+                          : txn.status === "rejected" || txn.status === "cancelled"
+                          ? "border-red-400/40 text-red-300 bg-red-400/10"
                           : "border-yellow-400/40 text-yellow-300 bg-yellow-400/10"
                       )}
                     >
-                      {withdrawal.status === "completed" && <CheckCircle className="h-3 w-3 mr-1" />}
-                      {withdrawal.status === "pending" && <Clock className="h-3 w-3 mr-1" />}
-                      {withdrawal.status.charAt(0).toUpperCase() + withdrawal.status.slice(1)}
+                      {txn.status === "completed" && <CheckCircle className="h-3 w-3 mr-1" />}
+                      {txn.status === "pending" && <Clock className="h-3 w-3 mr-1" />}
+                      {(txn.status === "rejected" || txn.status === "cancelled") && <XCircle className="h-3 w-3 mr-1" />}
+                      {txn.amount > 0 ? "Refunded" : txn.status.charAt(0).toUpperCase() + txn.status.slice(1)}
                     </Badge>
-                    <p className="text-xs text-gray-400 mt-1">
-                      Fee: {withdrawal.fee}
-                    </p>
+                    {txn.status === "pending" && txn.amount < 0 && (
+                      <div>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          className="h-7 text-xs text-red-300 hover:text-red-200"
+                          onClick={() => setWithdrawalToCancel(txn)}
+                        >
+                          Cancel
+                        </Button>
+                      </div>
+                    )}
                   </div>
                 </div>
               ))}
-              
-              {pendingWithdrawals.length === 0 && (
+
+              {history.error && (
+                <p className="text-center text-sm text-red-400">{history.error}</p>
+              )}
+
+              {!history.isLoading && !history.error && history.transactions.length === 0 && (
                 <div className="text-center py-8 text-gray-400">
                   <Send className="h-12 w-12 mx-auto mb-4 opacity-50" />
                   <p className="font-medium">No withdrawals yet</p>
                   <p className="text-sm">Your withdrawal history will appear here!</p>
                 </div>
               )}
+
+              <div className="flex justify-center gap-2">
+                {history.hasMore && (
+                  <Button variant="outline" onClick={history.loadMore} disabled={history.isLoading}>
+                    {history.isLoading ? "Loading..." : "Load more"}
+                  </Button>
+                )}
+                {history.transactions.length > 0 && (
+                  <Button variant="ghost" asChild>
+                    <a href={history.csvUrl} download>Download CSV</a>
+                  </Button>
+                )}
+              </div>
             </div>
           </CardContent>
         </Card>
       )}
 
+      <AlertDialog open={!!withdrawalToCancel} onOpenChange={(open) => !open && !isCancelling && setWithdrawalToCancel(null)}>
+        <AlertDialogContent className="bg-black/90 backdrop-blur-xl border-border/40">
+          <AlertDialogHeader>
+            <AlertDialogTitle className="text-white">Cancel Withdrawal</AlertDialogTitle>
+            <AlertDialogDescription>
+              {withdrawalToCancel && `Cancel your withdrawal of ${Math.abs(withdrawalToCancel.amount)} ${withdrawalToCancel.asset.toUpperCase()}? The amount will be returned to your balance.`}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel className="border-border/40" disabled={isCancelling}>Keep Withdrawal</AlertDialogCancel>
+            <Button type="button" variant="destructive" onClick={cancelWithdrawal} disabled={isCancelling}>
+              {isCancelling && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Cancel Withdrawal
+            </Button>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+
       {/* Security Notice */}
       <Card className="bg-gradient-to-r from-yellow-500/10 to-orange-500/10 backdrop-blur-xl border-yellow-400/20">
         <CardContent className="p-4">
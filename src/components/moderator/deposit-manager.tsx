@@ -1,7 +1,7 @@
 'use client';
 
 import * as React from 'react';
-import {WalletManager} from '../admin/wallet-manager';
+import {DepositApprovalManager} from '../admin/deposit-approval-manager';
 import {Card, CardDescription, CardHeader, CardTitle} from '../ui/card';
 
 export function DepositManager() {
@@ -11,13 +11,14 @@ export function DepositManager() {
         <CardHeader>
           <CardTitle>Deposit Management</CardTitle>
           <CardDescription>
-            As a moderator, you can credit user accounts after confirming their
-            deposits. This tool is similar to the admin wallet manager but focused
-            on balance updates.
+            As a moderator, you review user deposit requests: approve a deposit
+            once you have confirmed the transfer to credit the user, ask the user
+            for more information, or reject it. Rejections and information
+            requests need a reason, which is sent to the user.
           </CardDescription>
         </CardHeader>
       </Card>
-      <WalletManager />
+      <DepositApprovalManager />
     </div>
   );
 }
@@ -11,27 +11,44 @@ import {
 import { ModeratorProvider } from "@/contexts/ModeratorContext";
 import { ModeratorLoginForm } from "./moderator-login-form";
 import { UserProvider } from "@/contexts/UserContext";
+import type { ModeratorPermissions } from "@/lib/moderator";
 
 export function ModeratorAuth({ children }: { children: React.ReactNode }) {
   const [authStatus, setAuthStatus] = React.useState<"loading" | "authed" | "unauthed">("loading");
   const [user, setUser] = React.useState<any>(null);
+  // undefined while the permissions are loading
+  const [permissions, setPermissions] = React.useState<ModeratorPermissions | null>();
 
+  // What the panel shows follows the permissions an admin assigned; the API
+  // routes enforce the same permissions.
   React.useEffect(() => {
-    const loggedInEmail = sessionStorage.getItem('loggedInEmail');
-    if (loggedInEmail === 'moderator@astralcore.io') {
-      setAuthStatus("authed");
-      setUser({ id: 'mock-moderator-id', email: loggedInEmail });
-    } else {
-      setAuthStatus("unauthed");
-    }
+    if (authStatus !== "authed") return;
+    fetch('/api/moderator/permissions')
+      .then(response => response.json())
+      .then(data => setPermissions(data.permissions || null))
+      .catch(() => setPermissions(null));
+  }, [authStatus]);
+
+  React.useEffect(() => {
+    fetch('/api/auth/session')
+      .then(response => response.json())
+      .then(data => {
+        if (data.authenticated && data.user?.role === 'moderator') {
+          setUser(data.user);
+          setAuthStatus("authed");
+        } else {
+          setAuthStatus("unauthed");
+        }
+      })
+      .catch(() => setAuthStatus("unauthed"));
   }, []);
 
-  const handleLoginSuccess = (email: string) => {
-    setUser({ id: 'mock-moderator-id', email });
+  const handleLoginSuccess = (loggedInUser: any) => {
+    setUser(loggedInUser);
     setAuthStatus("authed");
   };
 
-  if (authStatus === "loading") {
+  if (authStatus === "loading" || (authStatus === "authed" && permissions === undefined)) {
     return (
       <Card className="w-full max-w-sm">
         <CardHeader className="text-center">
@@ -48,10 +65,9 @@ export function ModeratorAuth({ children }: { children: React.ReactNode }) {
   }
 
   if (authStatus === "authed") {
-    // For the mock app, moderators have all permissions
     return (
       <UserProvider value={{ user, wallet: null, rank: null, tier: null, tierSettings: [] }}>
-        <ModeratorProvider permissions={{ customer_support: true, user_verification: true, deposit_approval: true }}>
+        <ModeratorProvider permissions={permissions || null}>
           {children}
         </ModeratorProvider>
       </UserProvider>
@@ -22,8 +22,9 @@ import {
   FormMessage,
 } from "@/components/ui/form";
 import { Input } from "@/components/ui/input";
-import { useToast, type ToastFn } from "@/hooks/use-toast";
-import { clientLogin as login } from "@/lib/auth-client";
+import { useToast } from "@/hooks/use-toast";
+import { clientLogin as login, type AuthResponse } from "@/lib/auth-client";
+import { TwoFactorChallenge } from "@/components/auth/two-factor-challenge";
 
 const moderatorLoginSchema = z.object({
   email: z.string().email(),
@@ -32,43 +33,62 @@ const moderatorLoginSchema = z.object({
 
 type ModeratorLoginFormValues = z.infer<typeof moderatorLoginSchema>;
 
-const MOCK_MODERATOR_EMAIL = "moderator@astralcore.io";
-
-export function ModeratorLoginForm({ onLoginSuccess }: { onLoginSuccess: (email: string) => void }) {
-  const { toast }: { toast: ToastFn } = useToast();
+export function ModeratorLoginForm({ onLoginSuccess }: { onLoginSuccess: (user: { email: string; role: string }) => void }) {
+  const { toast } = useToast();
   const [isLoading, setIsLoading] = React.useState(false);
+  const [challenge, setChallenge] = React.useState<AuthResponse | null>(null);
 
   const form = useForm<ModeratorLoginFormValues>({
     resolver: zodResolver(moderatorLoginSchema),
     defaultValues: {
-      email: MOCK_MODERATOR_EMAIL,
-      password: "moderator", // Pre-fill for demo
+      email: "",
+      password: "",
     },
   });
 
-  const onSubmit = async (values: ModeratorLoginFormValues) => {
-    setIsLoading(true);
-    
-    const { error } = await login(values);
-
-    if (error) {
+  const finishLogin = (email: string, role?: string, error?: string) => {
+    if (error || role !== 'moderator') {
        toast({
         title: "Login Failed",
-        description: error,
+        description: error || "This account does not have moderator access.",
         variant: "destructive",
       });
     } else {
-      sessionStorage.setItem('loggedInEmail', values.email);
       toast({
         title: "Moderator Login Successful",
         description: "Welcome to the AstralCore Moderator panel.",
       });
-      onLoginSuccess(values.email);
+      onLoginSuccess({ email, role });
+    }
+  };
+
+  const onSubmit = async (values: ModeratorLoginFormValues) => {
+    setIsLoading(true);
+    
+    const result = await login(values.email, values.password);
+
+    if (result.twoFactorRequired) {
+      setChallenge(result);
+    } else {
+      finishLogin(values.email, result.role, result.error);
     }
 
     setIsLoading(false);
   };
 
+  if (challenge) {
+    return (
+      <TwoFactorChallenge
+        challenge={challenge}
+        onSuccess={role => {
+          setChallenge(null);
+          finishLogin(form.getValues("email"), role);
+        }}
+        onCancel={() => setChallenge(null)}
+      />
+    );
+  }
+
   return (
     <Card className="w-full max-w-sm">
       <CardHeader className="text-center">
@@ -26,7 +26,6 @@ import {type SupportAgentOutput} from '@/ai/flows/support-agent-flow';
 import {Card, CardContent} from '@/components/ui/card';
 import {type WalletData} from '@/lib/wallet';
 import {useUser} from '@/contexts/UserContext';
-import {logModeratorAction} from '@/lib/moderator';
 
 type MappedWallet = WalletData & {user_id: string};
 type ClaimStatus = {
@@ -107,7 +106,7 @@ export function SupportManager() {
     fetchData();
   }, [fetchData]);
 
-  const handleSendMessage = async (userId: string, username: string) => {
+  const handleSendMessage = async (userId: string) => {
     const text = replyMessages[userId];
     if (!text || !text.trim()) return;
 
@@ -119,8 +118,6 @@ export function SupportManager() {
         body: JSON.stringify({ userId, text, sender: 'admin' }),
     });
 
-    await logModeratorAction(`Replied to support thread for user ${username}.`);
-
     await fetchData(); // Refetch all data
 
     setReplyMessages(prev => ({...prev, [userId]: ''}));
@@ -361,7 +358,7 @@ export function SupportManager() {
                 <form
                   onSubmit={e => {
                     e.preventDefault();
-                    handleSendMessage(userId, displayName);
+                    handleSendMessage(userId);
                   }}
                   className="flex w-full items-center space-x-2 border-t pt-4"
                 >
@@ -33,7 +33,7 @@ import {
 import Link from "next/link";
 import { usePathname } from "next/navigation";
 import { useUser } from "@/contexts/UserContext";
-import { getOrCreateWallet } from "@/lib/wallet";
+import { getOrCreateWallet } from "@/lib/wallet-actions";
 
 interface NavItem {
   href: string;
@@ -71,7 +71,7 @@ export function SideNavigation() {
   // Fetch user wallet data
   React.useEffect(() => {
     if (user?.id) {
-      getOrCreateWallet(user.id).then(setUserWallet);
+      getOrCreateWallet().then(setUserWallet);
     }
   }, [user]);
 
@@ -0,0 +1,25 @@
+import { useEffect, useState } from 'react';
+import { ASSET_NETWORKS_KEY, enabledAssets, parseAssetRegistry, type RegistryAsset } from '@/lib/asset-networks';
+
+// The assets and networks offered to users, from the admin-managed registry.
+export function useAssetRegistry() {
+  const [assets, setAssets] = useState<RegistryAsset[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+
+  useEffect(() => {
+    let cancelled = false;
+    fetch(`/api/public-settings?key=${ASSET_NETWORKS_KEY}`)
+      .then(response => (response.ok ? response.json() : null))
+      .catch(() => null)
+      .then(stored => {
+        if (cancelled) return;
+        setAssets(enabledAssets(parseAssetRegistry(stored)));
+        setIsLoading(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  return { assets, isLoading };
+}
@@ -0,0 +1,27 @@
+import { useCallback, useRef } from 'react';
+
+// Matches IDEMPOTENCY_HEADER in src/lib/idempotency.ts, which is server-only.
+const IDEMPOTENCY_HEADER = 'Idempotency-Key';
+
+// One Idempotency-Key per form submission. Retrying the same body after a
+// network or server error reuses its key, so a request that went through is
+// not repeated; once the server has answered, or the body changes, the next
+// submission gets a new key.
+export function useIdempotencyKey() {
+  const pending = useRef<{ body: string; key: string } | null>(null);
+
+  const headersFor = useCallback((body: string): Record<string, string> => {
+    if (pending.current?.body !== body) {
+      pending.current = { body, key: crypto.randomUUID() };
+    }
+    return { [IDEMPOTENCY_HEADER]: pending.current.key };
+  }, []);
+
+  const settle = useCallback((response: Response) => {
+    if (response.status < 500) {
+      pending.current = null;
+    }
+  }, []);
+
+  return { headersFor, settle };
+}
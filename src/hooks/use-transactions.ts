@@ -0,0 +1,70 @@
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import type { Transaction, TransactionPage, TransactionType } from '@/lib/transactions';
+
+export type TransactionQuery = {
+  types?: TransactionType[];
+  asset?: string;
+  // yyyy-mm-dd, both inclusive
+  from?: string;
+  to?: string;
+};
+
+function buildQuery({ types, asset, from, to }: TransactionQuery): URLSearchParams {
+  const params = new URLSearchParams();
+  if (types && types.length > 0) params.set('type', types.join(','));
+  if (asset) params.set('asset', asset);
+  if (from) params.set('from', from);
+  if (to) params.set('to', to);
+  return params;
+}
+
+// Pages through /api/transactions, newest first. Changing the query starts over from the first page.
+export function useTransactions(query: TransactionQuery) {
+  const [transactions, setTransactions] = useState<Transaction[]>([]);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const queryString = buildQuery(query).toString();
+
+  const fetchPage = useCallback(async (cursor: string | null) => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      const params = new URLSearchParams(queryString);
+      if (cursor) params.set('cursor', cursor);
+      const response = await fetch(`/api/transactions?${params}`);
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || `HTTP ${response.status}`);
+      }
+      const page = data as TransactionPage;
+      setTransactions(previous => (cursor ? [...previous, ...page.transactions] : page.transactions));
+      setNextCursor(page.nextCursor);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load transactions');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [queryString]);
+
+  useEffect(() => {
+    fetchPage(null);
+  }, [fetchPage]);
+
+  const csvUrl = useMemo(() => {
+    const params = new URLSearchParams(queryString);
+    params.set('format', 'csv');
+    return `/api/transactions?${params}`;
+  }, [queryString]);
+
+  return {
+    transactions,
+    isLoading,
+    error,
+    hasMore: nextCursor !== null,
+    loadMore: () => nextCursor && fetchPage(nextCursor),
+    refresh: () => fetchPage(null),
+    csvUrl,
+  };
+}
@@ -0,0 +1,17 @@
+// Runs once when the server starts.
+export async function register() {
+  if (process.env.NEXT_RUNTIME === 'nodejs') {
+    const { ensureDatabaseSchema, isDatabaseConfigured } = await import('./lib/db');
+    if (isDatabaseConfigured()) {
+      await ensureDatabaseSchema();
+    }
+
+    const { runMigrations } = await import('./lib/migrations');
+    const reports = await runMigrations();
+    reports
+      .filter(report => report.applied.length > 0)
+      .forEach(report => {
+        console.log(`Migrated ${report.target} from schema v${report.fromVersion} to v${report.toVersion}`);
+      });
+  }
+}
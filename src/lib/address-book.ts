@@ -0,0 +1,227 @@
+import { randomUUID } from 'crypto';
+import { validateAddress } from './address-validation';
+import { findAssetNetwork, type AssetNetwork, type RegistryAsset } from './asset-networks';
+import { recordAuditEvent } from './audit-log';
+import { logModeratorAction } from './moderator';
+import { addNotification } from './notifications';
+import { logSecurityEvent } from './security';
+import { getSecuritySettings } from './two-factor';
+import { getWalletStore } from './wallet-store';
+import type { AddressBookEntry } from './wallet-schema';
+import { getAssetRegistry } from './withdrawals';
+
+// The withdrawal address book of each user (wallet.security.addressBook).
+// Withdrawals can only go to a saved address for the same asset and network,
+// and a new or changed address can only be used once the cooldown from the
+// security settings has passed. Every change is announced to the user so a
+// hijacked session cannot quietly redirect withdrawals.
+
+const MAX_ENTRIES = 20;
+const MAX_LABEL_LENGTH = 50;
+
+export type AddressBookResult = { error: string; notFound?: boolean } | { entry: AddressBookEntry };
+
+type EntryDetails = { label: unknown; asset: unknown; network: unknown; address: unknown };
+
+const text = (value: unknown) => (typeof value === 'string' ? value.trim() : '');
+
+// EVM addresses differ only in checksum casing, so they are compared case-insensitively.
+function sameAddress(network: AssetNetwork | undefined, a: string, b: string): boolean {
+  return network?.addressFormat === 'evm' ? a.toLowerCase() === b.toLowerCase() : a === b;
+}
+
+const formatTime = (iso: string) => `${iso.slice(0, 16).replace('T', ' ')} UTC`;
+
+export function isAddressAvailable(entry: AddressBookEntry, now = Date.now()): boolean {
+  return new Date(entry.availableAt).getTime() <= now;
+}
+
+async function cooldownEnd(now: number): Promise<string> {
+  const { addressCooldownHours } = await getSecuritySettings();
+  return new Date(now + addressCooldownHours * 60 * 60 * 1000).toISOString();
+}
+
+// Checks the fields of a new or edited entry against the asset registry.
+function parseEntry(registry: RegistryAsset[], details: EntryDetails): { error: string } | { label: string; asset: string; network: AssetNetwork; address: string } {
+  const label = text(details.label);
+  if (!label || label.length > MAX_LABEL_LENGTH) return { error: `The label must be 1-${MAX_LABEL_LENGTH} characters.` };
+  const found = findAssetNetwork(registry, text(details.asset), text(details.network));
+  if (!found) return { error: 'Choose an asset and network from the list.' };
+  const address = text(details.address);
+  const addressError = validateAddress(found.network.addressFormat, address, found.network.name);
+  if (addressError) return { error: addressError };
+  return { label, asset: found.asset.symbol, network: found.network, address };
+}
+
+async function notifyAddressChange(userId: string, title: string, content: string): Promise<void> {
+  await addNotification(userId, {
+    title,
+    content: `${content} If this wasn't you, contact support right away and change your password.`,
+    href: '/dashboard/security',
+  });
+}
+
+export async function getAddressBook(userId: string): Promise<AddressBookEntry[] | null> {
+  const wallet = await getWalletStore().get(userId);
+  return wallet ? wallet.security.addressBook : null;
+}
+
+export async function addAddressBookEntry(userId: string, details: EntryDetails): Promise<AddressBookResult> {
+  const registry = await getAssetRegistry();
+  const parsed = parseEntry(registry, details);
+  if ('error' in parsed) return parsed;
+
+  const now = Date.now();
+  const entry: AddressBookEntry = {
+    id: `addr_${randomUUID()}`,
+    label: parsed.label,
+    asset: parsed.asset,
+    network: parsed.network.id,
+    address: parsed.address,
+    createdAt: new Date(now).toISOString(),
+    availableAt: await cooldownEnd(now),
+  };
+
+  let error: string | undefined;
+  const wallet = await getWalletStore().update(userId, current => {
+    const book = current.security.addressBook;
+    if (book.length >= MAX_ENTRIES) {
+      error = `You can save at most ${MAX_ENTRIES} addresses. Remove one first.`;
+      return current;
+    }
+    if (book.some(saved => saved.asset === entry.asset && saved.network === entry.network && sameAddress(parsed.network, saved.address, entry.address))) {
+      error = 'This address is already in your address book.';
+      return current;
+    }
+    return { ...current, security: { ...current.security, addressBook: [...book, entry] } };
+  });
+  if (!wallet) return { error: 'User wallet not found.', notFound: true };
+  if (error) return { error };
+
+  logSecurityEvent('withdrawal_address_added', { userId, entryId: entry.id, asset: entry.asset, network: entry.network });
+  await notifyAddressChange(
+    userId,
+    'Withdrawal Address Added',
+    `"${entry.label}" (${entry.address}) was added to your address book for ${entry.asset} over ${parsed.network.name}. It can be used for withdrawals from ${formatTime(entry.availableAt)}.`
+  );
+  return { entry };
+}
+
+// Relabelling takes effect at once; a new address or network starts the cooldown again.
+export async function updateAddressBookEntry(userId: string, entryId: string, changes: Partial<EntryDetails>): Promise<AddressBookResult> {
+  const registry = await getAssetRegistry();
+  const now = Date.now();
+  const availableAt = await cooldownEnd(now);
+
+  let error: AddressBookResult | undefined;
+  let change: { existing: AddressBookEntry; updated: AddressBookEntry; network: AssetNetwork; moved: boolean } | undefined;
+  const wallet = await getWalletStore().update(userId, current => {
+    const book = current.security.addressBook;
+    const existing = book.find(entry => entry.id === entryId);
+    if (!existing) {
+      error = { error: 'Address not found.', notFound: true };
+      return current;
+    }
+
+    const parsed = parseEntry(registry, {
+      label: changes.label ?? existing.label,
+      asset: changes.asset ?? existing.asset,
+      network: changes.network ?? existing.network,
+      address: changes.address ?? existing.address,
+    });
+    if ('error' in parsed) {
+      error = parsed;
+      return current;
+    }
+    if (book.some(saved => saved.id !== entryId && saved.asset === parsed.asset && saved.network === parsed.network.id && sameAddress(parsed.network, saved.address, parsed.address))) {
+      error = { error: 'This address is already in your address book.' };
+      return current;
+    }
+
+    const moved = parsed.asset !== existing.asset || parsed.network.id !== existing.network || !sameAddress(parsed.network, parsed.address, existing.address);
+    const updated: AddressBookEntry = {
+      ...existing,
+      label: parsed.label,
+      asset: parsed.asset,
+      network: parsed.network.id,
+      address: parsed.address,
+      updatedAt: new Date(now).toISOString(),
+      availableAt: moved ? availableAt : existing.availableAt,
+    };
+    change = { existing, updated, network: parsed.network, moved };
+    const addressBook = book.map(saved => (saved.id === entryId ? updated : saved));
+    return { ...current, security: { ...current.security, addressBook } };
+  });
+  if (!wallet) return { error: 'User wallet not found.', notFound: true };
+  if (error) return error;
+  if (!change) return { error: 'Address not found.', notFound: true };
+  const { existing, updated, network, moved } = change;
+
+  logSecurityEvent('withdrawal_address_changed', { userId, entryId, asset: updated.asset, network: updated.network, moved });
+  await notifyAddressChange(
+    userId,
+    'Withdrawal Address Changed',
+    moved
+      ? `"${updated.label}" in your address book now points to ${updated.address} (${updated.asset} over ${network.name}). It can be used for withdrawals from ${formatTime(updated.availableAt)}.`
+      : `The address book entry "${existing.label}" (${updated.address}) was renamed to "${updated.label}".`
+  );
+  return { entry: updated };
+}
+
+export async function removeAddressBookEntry(userId: string, entryId: string): Promise<boolean> {
+  let removed: AddressBookEntry | undefined;
+  await getWalletStore().update(userId, current => {
+    removed = current.security.addressBook.find(entry => entry.id === entryId);
+    if (!removed) return current;
+    const addressBook = current.security.addressBook.filter(entry => entry.id !== entryId);
+    return { ...current, security: { ...current.security, addressBook } };
+  });
+  if (!removed) return false;
+
+  logSecurityEvent('withdrawal_address_removed', { userId, entryId });
+  await notifyAddressChange(userId, 'Withdrawal Address Removed', `"${removed.label}" (${removed.address}) was removed from your address book.`);
+  return true;
+}
+
+// The saved entry a withdrawal may be sent to, or why it may not.
+export async function findUsableAddress(userId: string, asset: string, network: AssetNetwork, address: string): Promise<AddressBookResult> {
+  const book = (await getAddressBook(userId)) || [];
+  const entry = book.find(saved => saved.asset === asset.toUpperCase() && saved.network === network.id && sameAddress(network, saved.address, address));
+  if (!entry) return { error: 'Withdrawals can only be sent to an address in your address book. Add it on the Security page first.' };
+  if (!isAddressAvailable(entry)) return { error: `"${entry.label}" was added or changed recently and can be used from ${formatTime(entry.availableAt)}.` };
+  return { entry };
+}
+
+// Clears a user's address book on their request (e.g. a lost wallet) and
+// keeps an audit record of what was removed and by whom.
+export async function resetAddressBook(
+  userId: string,
+  reset: { adminId: string; reason?: unknown }
+): Promise<{ error?: string; notFound?: boolean; removed?: number }> {
+  const reason = text(reset.reason);
+  if (reason.length > 500) return { error: 'The reason must be at most 500 characters.' };
+
+  let removed: AddressBookEntry[] = [];
+  const wallet = await getWalletStore().update(userId, current => {
+    removed = current.security.addressBook;
+    return { ...current, security: { ...current.security, addressBook: [] } };
+  });
+  if (!wallet) return { error: 'User wallet not found.', notFound: true };
+
+  await recordAuditEvent({
+    actor: reset.adminId,
+    action: 'withdrawal_addresses_reset',
+    targetUserId: userId,
+    details: {
+      reason: reason || undefined,
+      removed: removed.map(({ id, label, asset, network, address }) => ({ id, label, asset, network, address })),
+    },
+  });
+  await addNotification(userId, {
+    title: 'Withdrawal Addresses Reset',
+    content: `Support cleared the saved withdrawal addresses on your account. Add your addresses again on the Security page.${reason ? ` Reason: ${reason}` : ''}`,
+    href: '/dashboard/security',
+  });
+  await logModeratorAction(`Reset the withdrawal addresses of user ${wallet.profile.username || userId} (${removed.length} removed).`, reset.adminId, { userId });
+  return { removed: removed.length };
+}
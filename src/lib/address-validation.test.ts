@@ -0,0 +1,92 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { detectAddressFormat, validateAddress } from './address-validation';
+
+const assertValid = (format: 'tron' | 'evm' | 'bitcoin', addresses: string[]) => {
+  for (const address of addresses) assert.equal(validateAddress(format, address), null, address);
+};
+const assertInvalid = (format: 'tron' | 'evm' | 'bitcoin', addresses: string[]) => {
+  for (const address of addresses) assert.notEqual(validateAddress(format, address), null, address);
+};
+
+describe('Bitcoin addresses', () => {
+  it('accepts the mainnet segwit vectors of BIP173 and BIP350', () => {
+    assertValid('bitcoin', [
+      'BC1QW508D6QEJXTDG4Y5R3ZARVARY0C5XW7KV8F3T4',
+      'bc1qw508d6qejxtdg4y5r3zarvary0c5xw7kv8f3t4',
+      'bc1qrp33g0q5c5txsp9arysrx4k6zdkfs4nce4xj0gdcccefvpysxf3qccfmv3',
+      'bc1pw508d6qejxtdg4y5r3zarvary0c5xw7kw508d6qejxtdg4y5r3zarvary0c5xw7kt5nd6y',
+      'BC1SW50QGDZ25J',
+      'bc1zw508d6qejxtdg4y5r3zarvaryvaxxpcs',
+      'bc1p0xlxvlhemja6c4dqv22uapctqupfhlxm9h8z3k2e72q4k9hcz7vqzk5jj0',
+    ]);
+  });
+
+  it('rejects the invalid mainnet vectors of BIP173 and BIP350', () => {
+    assertInvalid('bitcoin', [
+      // Mixed case
+      'bc1qW508D6QEJXTDG4Y5R3ZARVARY0C5XW7KV8F3T4',
+      // Witness version 1+ with a bech32 checksum, and version 0 with bech32m
+      'bc1p0xlxvlhemja6c4dqv22uapctqupfhlxm9h8z3k2e72q4k9hcz7vqh2y7hd',
+      'BC1S0XLXVLHEMJA6C4DQV22UAPCTQUPFHLXM9H8Z3K2E72Q4K9HCZ7VQ54WELL',
+      'bc1qw508d6qejxtdg4y5r3zarvary0c5xw7kemeawh',
+      // Invalid witness version, character, program length and padding
+      'BC130XLXVLHEMJA6C4DQV22UAPCTQUPFHLXM9H8Z3K2E72Q4K9HCZ7VQ7ZWS8R',
+      'bc1p38j9r5y49hruaue7wxjce0updqjuyyx0kh56v8s25huc6995vvpql3jow4',
+      'bc1pw5dgrnzv',
+      'bc1p0xlxvlhemja6c4dqv22uapctqupfhlxm9h8z3k2e72q4k9hcz7v8n0nx0muaewav253zgeav',
+      'BC1QR508D6QEJXTDG4Y5R3ZARVARYV98GJ9P',
+      'bc1p0xlxvlhemja6c4dqv22uapctqupfhlxm9h8z3k2e72q4k9hcz7vpggkg4j',
+      'bc1gmk9yu',
+      // Testnet
+      'tb1qrp33g0q5c5txsp9arysrx4k6zdkfs4nce4xj0gdcccefvpysxf3q0sl5k7',
+    ]);
+  });
+
+  it('checks legacy base58check addresses', () => {
+    assertValid('bitcoin', ['1A1zP1eP5QGefi2DMPTfTL5SLmv7DivfNa', '3J98t1WpEZ73CNmQviecrnyiWrnqRhWNLy']);
+    assertInvalid('bitcoin', ['1A1zP1eP5QGefi2DMPTfTL5SLmv7DivfNb', '1A1zP1eP5QGefi2DMPTfTL5SLmv7Divf0a']);
+  });
+});
+
+describe('EVM addresses', () => {
+  it('accepts the EIP-55 samples and single-case addresses', () => {
+    assertValid('evm', [
+      '0x5aAeb6053F3E94C9b9A09f33669435E7Ef1BeAed',
+      '0xfB6916095ca1df60bB79Ce92cE3Ea74c37c5d359',
+      '0xdbF03B407c01E7cD3CBea99509d93f8DDDC8C6FB',
+      '0xD1220A0cf47c7B9Be7A2E6BA89F429762e7b9aDb',
+      '0x52908400098527886E0F7030069857D2E4169EE7',
+      '0xde709f2102306220921060314715629080e2fb77',
+    ]);
+  });
+
+  it('names a mixed-case address with a wrong checksum', () => {
+    assert.match(validateAddress('evm', '0x5aAeb6053F3E94C9b9A09f33669435E7Ef1BeAeD') || '', /checksum does not match/);
+    assert.match(validateAddress('evm', '0xfb6916095ca1df60bB79Ce92cE3Ea74c37c5d359') || '', /checksum does not match/);
+    assertInvalid('evm', ['0x5aAeb6053F3E94C9b9A09f33669435E7Ef1BeA', '5aAeb6053F3E94C9b9A09f33669435E7Ef1BeAed']);
+  });
+});
+
+describe('TRON addresses', () => {
+  it('accepts addresses with a matching checksum', () => {
+    assertValid('tron', ['TR7NHqjeKQxGTCi8q8ZY4pL8otSzgjLj6t', 'T9yD14Nj9j7xAB4dbGeiX9h8unkKHxuWwb']);
+  });
+
+  it('rejects checksum failures', () => {
+    assertInvalid('tron', [
+      'TR7NHqjeKQxGTCi8q8ZY4pL8otSzgjLj6u',
+      'TR7NHqjeKQxGTCi8q8ZY4pL8otSzgjLJ6t',
+      'TQn9Y2khEsLJW1ChVWFMSMeRDow5oNDMkx',
+    ]);
+    assert.equal(detectAddressFormat('TR7NHqjeKQxGTCi8q8ZY4pL8otSzgjLj6u'), null);
+  });
+
+  it('names the format of an address sent to the wrong network', () => {
+    assert.equal(
+      validateAddress('tron', '1A1zP1eP5QGefi2DMPTfTL5SLmv7DivfNa', 'TRC20 (TRON)'),
+      'This looks like a Bitcoin address, but TRC20 (TRON) needs a TRON address.'
+    );
+    assert.equal(validateAddress('tron', '  '), 'Wallet address is required.');
+  });
+});
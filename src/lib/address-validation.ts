@@ -0,0 +1,177 @@
+import { keccak256, sha256 } from './hashes';
+
+// Withdrawal address checks for the address formats of the networks in the
+// asset registry (asset-networks.ts). Checksums are verified, so a mistyped
+// address is caught before it is submitted. Safe to import from client
+// components.
+
+export const ADDRESS_FORMATS = ['tron', 'evm', 'bitcoin'] as const;
+export type AddressFormat = (typeof ADDRESS_FORMATS)[number];
+
+export const ADDRESS_FORMAT_LABELS: Record<AddressFormat, string> = {
+  tron: 'TRON',
+  evm: 'EVM',
+  bitcoin: 'Bitcoin',
+};
+
+const BASE58_ALPHABET = '123456789ABCDEFGHJKLMNPQRSTUVWXYZabcdefghijkmnopqrstuvwxyz';
+const BECH32_ALPHABET = 'qpzry9x8gf2tvdw0s3jn54khce6mua7l';
+const BECH32_GENERATORS = [0x3b6a57b2, 0x26508e6d, 0x1ea119fa, 0x3d4233dd, 0x2a1462b3];
+const BECH32_CONST = 1;
+const BECH32M_CONST = 0x2bc830a3;
+
+function base58Decode(text: string): Uint8Array | null {
+  let value = BigInt(0);
+  for (const char of text) {
+    const digit = BASE58_ALPHABET.indexOf(char);
+    if (digit < 0) return null;
+    value = value * BigInt(58) + BigInt(digit);
+  }
+
+  const bytes: number[] = [];
+  while (value > BigInt(0)) {
+    bytes.unshift(Number(value % BigInt(256)));
+    value /= BigInt(256);
+  }
+  // Each leading "1" stands for a leading zero byte
+  for (const char of text) {
+    if (char !== '1') break;
+    bytes.unshift(0);
+  }
+  return Uint8Array.from(bytes);
+}
+
+// The payload of a base58check string whose double SHA-256 checksum matches.
+function base58CheckDecode(text: string): Uint8Array | null {
+  const bytes = base58Decode(text);
+  if (!bytes || bytes.length < 5) return null;
+  const payload = bytes.subarray(0, bytes.length - 4);
+  const checksum = sha256(sha256(payload));
+  for (let i = 0; i < 4; i++) {
+    if (checksum[i] !== bytes[payload.length + i]) return null;
+  }
+  return payload;
+}
+
+function bech32Polymod(values: number[]): number {
+  let checksum = 1;
+  for (const value of values) {
+    const top = checksum >>> 25;
+    checksum = ((checksum & 0x1ffffff) << 5) ^ value;
+    BECH32_GENERATORS.forEach((generator, i) => {
+      if ((top >>> i) & 1) checksum ^= generator;
+    });
+  }
+  return checksum >>> 0;
+}
+
+// Splits a bech32 or bech32m string into its prefix and 5-bit data, checksum removed.
+function bech32Decode(text: string): { hrp: string; data: number[]; variant: 'bech32' | 'bech32m' } | null {
+  if (text !== text.toLowerCase() && text !== text.toUpperCase()) return null;
+  const lower = text.toLowerCase();
+  const separator = lower.lastIndexOf('1');
+  if (separator < 1 || separator + 7 > lower.length || lower.length > 90) return null;
+
+  const hrp = lower.slice(0, separator);
+  const data: number[] = [];
+  for (const char of lower.slice(separator + 1)) {
+    const value = BECH32_ALPHABET.indexOf(char);
+    if (value < 0) return null;
+    data.push(value);
+  }
+
+  const expandedHrp = [...hrp].map(char => char.charCodeAt(0) >> 5).concat(0, [...hrp].map(char => char.charCodeAt(0) & 31));
+  const checksum = bech32Polymod([...expandedHrp, ...data]);
+  const variant = checksum === BECH32_CONST ? 'bech32' : checksum === BECH32M_CONST ? 'bech32m' : null;
+  if (!variant) return null;
+  return { hrp, data: data.slice(0, -6), variant };
+}
+
+// Regroups 5-bit words into bytes, rejecting non-zero padding.
+function fiveBitToBytes(words: number[]): number[] | null {
+  let accumulator = 0;
+  let bits = 0;
+  const bytes: number[] = [];
+  for (const word of words) {
+    accumulator = ((accumulator << 5) | word) & 0xfff;
+    bits += 5;
+    if (bits >= 8) {
+      bits -= 8;
+      bytes.push((accumulator >> bits) & 0xff);
+    }
+  }
+  if (bits >= 5 || accumulator & ((1 << bits) - 1)) return null;
+  return bytes;
+}
+
+function isTronAddress(address: string): boolean {
+  const payload = base58CheckDecode(address);
+  return !!payload && payload.length === 21 && payload[0] === 0x41;
+}
+
+// Addresses in a single case carry no checksum; mixed case must match EIP-55.
+function evmAddressError(address: string): string | null {
+  if (!/^0x[0-9a-fA-F]{40}$/.test(address)) return 'invalid';
+  const hex = address.slice(2);
+  if (hex === hex.toLowerCase() || hex === hex.toUpperCase()) return null;
+
+  const hash = keccak256(new TextEncoder().encode(hex.toLowerCase()));
+  for (let i = 0; i < 40; i++) {
+    const nibble = (hash[i >> 1] >> (i % 2 === 0 ? 4 : 0)) & 0xf;
+    const expected = nibble >= 8 ? hex[i].toUpperCase() : hex[i].toLowerCase();
+    if (hex[i] !== expected) return 'checksum';
+  }
+  return null;
+}
+
+function isBitcoinAddress(address: string): boolean {
+  if (/^(bc1|BC1)/.test(address)) {
+    const decoded = bech32Decode(address);
+    if (!decoded || decoded.hrp !== 'bc' || decoded.data.length < 1) return false;
+    const [version, ...words] = decoded.data;
+    const program = fiveBitToBytes(words);
+    if (!program || version > 16) return false;
+    // Version 0 (P2WPKH, P2WSH) uses bech32; taproot and later versions use bech32m
+    if (version === 0) return decoded.variant === 'bech32' && (program.length === 20 || program.length === 32);
+    return decoded.variant === 'bech32m' && program.length >= 2 && program.length <= 40;
+  }
+
+  // Legacy P2PKH (version 0x00) and P2SH (0x05)
+  const payload = base58CheckDecode(address);
+  return !!payload && payload.length === 21 && (payload[0] === 0x00 || payload[0] === 0x05);
+}
+
+const FORMAT_CHECKS: Record<AddressFormat, (address: string) => boolean> = {
+  tron: isTronAddress,
+  evm: address => evmAddressError(address) === null,
+  bitcoin: isBitcoinAddress,
+};
+
+// Which format an address belongs to, so a mismatch can be named in the error.
+export function detectAddressFormat(address: string): AddressFormat | null {
+  if (/^0x[0-9a-fA-F]{40}$/.test(address)) return 'evm';
+  return ADDRESS_FORMATS.find(format => format !== 'evm' && FORMAT_CHECKS[format](address)) || null;
+}
+
+const withArticle = (label: string) => `${/^[AEIOU]/.test(label) ? 'an' : 'a'} ${label}`;
+
+// An error message for an address that cannot receive funds over a network
+// with the given format, or null when it is valid. Networks without a format
+// only require a non-empty address. Surrounding whitespace is ignored; callers
+// store the trimmed address.
+export function validateAddress(format: AddressFormat | undefined, address: string, networkName = 'this network'): string | null {
+  const trimmed = address.trim();
+  if (!trimmed) return 'Wallet address is required.';
+  if (/\s/.test(trimmed)) return 'The address must not contain spaces.';
+  if (!format || FORMAT_CHECKS[format](trimmed)) return null;
+
+  const expected = withArticle(ADDRESS_FORMAT_LABELS[format]);
+  if (format === 'evm' && evmAddressError(trimmed) === 'checksum') {
+    return 'The address checksum does not match. Check the upper- and lowercase letters, or paste the address again.';
+  }
+  const detected = detectAddressFormat(trimmed);
+  if (detected && detected !== format) {
+    return `This looks like ${withArticle(ADDRESS_FORMAT_LABELS[detected])} address, but ${networkName} needs ${expected} address.`;
+  }
+  return `This is not ${expected.replace(/^an? /, 'a valid ')} address. Check it for typos.`;
+}
@@ -13,8 +13,8 @@ export const defaultAnnouncements: Omit<Announcement, 'id' | 'date'>[] = [
     content: 'We are thrilled to launch our redesigned platform. Explore the new features, including the Squad System and AI Growth Engine. We appreciate your feedback!',
   },
   {
-    title: 'Security Update: Withdrawal Addresses',
-    content: 'For your security, once a withdrawal address is saved, it cannot be changed directly. Please contact support if you need to update your address. This measure helps protect your assets from unauthorized access.',
+    title: 'Security Update: Withdrawal Address Book',
+    content: 'Save your withdrawal addresses with a label for each asset and network on the Security page. For your security, a new or changed address can only be used after a waiting period, and we notify you of every change. This measure helps protect your assets from unauthorized access.',
   },
   {
     title: 'Scheduled Maintenance on July 20th',
@@ -0,0 +1,22 @@
+// What a personal API token may be allowed to do (see api-tokens.ts). Safe to
+// import from client components.
+
+export const API_TOKEN_PREFIX = 'act_';
+
+export const API_TOKEN_SCOPES = ['read:wallet', 'write:withdrawals'] as const;
+
+export type ApiTokenScope = (typeof API_TOKEN_SCOPES)[number];
+
+export const API_TOKEN_SCOPE_LABELS: Record<ApiTokenScope, string> = {
+  'read:wallet': 'Read balances and transactions',
+  'write:withdrawals': 'Request withdrawals',
+};
+
+export const API_TOKEN_LIFETIMES_DAYS = [7, 30, 90, 365] as const;
+
+// Tokens look like act_<16 hex id>_<secret>; the id is not secret and lets the
+// middleware rate-limit a token without looking it up.
+export function apiTokenId(token: string): string | null {
+  const match = /^act_([0-9a-f]{16})_[A-Za-z0-9_-]{43}$/.exec(token);
+  return match ? match[1] : null;
+}
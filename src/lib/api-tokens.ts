@@ -0,0 +1,146 @@
+import { createHash, randomBytes, timingSafeEqual } from 'crypto';
+import { API_TOKEN_LIFETIMES_DAYS, API_TOKEN_PREFIX, API_TOKEN_SCOPES, apiTokenId, type ApiTokenScope } from './api-token-scopes';
+import { getUserById, type User } from './auth-server';
+import { dataFilePath, readDataFile, withFileTransaction } from './data-file';
+import { addNotification } from './notifications';
+import { logSecurityEvent } from './security';
+
+// Personal API tokens for scripting account access. A user creates a named
+// token with some scopes and a lifetime from the Security page; the token is
+// shown once and only its SHA-256 hash is stored (data/api-tokens.json).
+// Routes that accept tokens opt in through requireUser in route-guard.ts with
+// the scope they need.
+
+const TOKENS_FILE = dataFilePath('api-tokens.json');
+const MAX_TOKENS_PER_USER = 10;
+const LAST_USED_RESOLUTION_MS = 60 * 1000;
+
+type StoredApiToken = {
+  id: string;
+  userId: string;
+  name: string;
+  scopes: ApiTokenScope[];
+  tokenHash: string;
+  createdAt: string;
+  expiresAt: string;
+  lastUsedAt?: string;
+};
+
+export type ApiTokenInfo = Omit<StoredApiToken, 'tokenHash' | 'userId'>;
+
+export type ApiTokenCaller = {
+  tokenId: string;
+  user: User;
+  scopes: ApiTokenScope[];
+};
+
+const hashToken = (token: string) => createHash('sha256').update(token).digest('hex');
+
+function isExpired(token: StoredApiToken, now = Date.now()): boolean {
+  return new Date(token.expiresAt).getTime() <= now;
+}
+
+function toInfo(token: StoredApiToken): ApiTokenInfo {
+  const info: Partial<StoredApiToken> = { ...token };
+  delete info.tokenHash;
+  delete info.userId;
+  return info as ApiTokenInfo;
+}
+
+export function isApiTokenScope(scope: unknown): scope is ApiTokenScope {
+  return (API_TOKEN_SCOPES as readonly unknown[]).includes(scope);
+}
+
+export async function listApiTokens(userId: string): Promise<ApiTokenInfo[]> {
+  const tokens = await readDataFile<StoredApiToken[]>(TOKENS_FILE, []);
+  return tokens
+    .filter(token => token.userId === userId && !isExpired(token))
+    .sort((a, b) => b.createdAt.localeCompare(a.createdAt))
+    .map(toInfo);
+}
+
+// Creates a token and returns it in full; this is the only time it is available.
+export async function createApiToken(
+  userId: string,
+  details: { name: unknown; scopes: unknown; lifetimeDays: unknown }
+): Promise<{ error: string } | { token: string; info: ApiTokenInfo }> {
+  const name = typeof details.name === 'string' ? details.name.trim() : '';
+  if (!name || name.length > 50) return { error: 'Token name must be 1-50 characters.' };
+  const scopes = Array.isArray(details.scopes) ? [...new Set(details.scopes)] : [];
+  if (!scopes.length || !scopes.every(isApiTokenScope)) {
+    return { error: `Choose at least one scope: ${API_TOKEN_SCOPES.join(', ')}.` };
+  }
+  const lifetimeDays = Number(details.lifetimeDays);
+  if (!(API_TOKEN_LIFETIMES_DAYS as readonly number[]).includes(lifetimeDays)) {
+    return { error: `Token lifetime must be one of ${API_TOKEN_LIFETIMES_DAYS.join(', ')} days.` };
+  }
+
+  const user = await getUserById(userId);
+  if (!user || user.role !== 'user') return { error: 'API tokens are only available for customer accounts.' };
+
+  const id = randomBytes(8).toString('hex');
+  const token = `${API_TOKEN_PREFIX}${id}_${randomBytes(32).toString('base64url')}`;
+  const now = Date.now();
+  const stored: StoredApiToken = {
+    id,
+    userId,
+    name,
+    scopes,
+    tokenHash: hashToken(token),
+    createdAt: new Date(now).toISOString(),
+    expiresAt: new Date(now + lifetimeDays * 24 * 60 * 60 * 1000).toISOString(),
+  };
+
+  const created = await withFileTransaction<StoredApiToken[], boolean>(TOKENS_FILE, (tokens, replace) => {
+    const remaining = tokens.filter(existing => !isExpired(existing, now));
+    if (remaining.filter(existing => existing.userId === userId).length >= MAX_TOKENS_PER_USER) {
+      replace(remaining);
+      return false;
+    }
+    replace([...remaining, stored]);
+    return true;
+  }, []);
+  if (!created) return { error: `You can have at most ${MAX_TOKENS_PER_USER} API tokens. Revoke one first.` };
+
+  logSecurityEvent('api_token_created', { userId, tokenId: id, scopes });
+  await addNotification(userId, {
+    title: 'API Token Created',
+    content: `A new API token "${name}" (${scopes.join(', ')}) was created for your account. If this wasn't you, revoke it on the Security page and change your password.`,
+    href: '/dashboard/security',
+  });
+  return { token, info: toInfo(stored) };
+}
+
+export async function revokeApiToken(userId: string, tokenId: string): Promise<boolean> {
+  const revoked = await withFileTransaction<StoredApiToken[], boolean>(TOKENS_FILE, (tokens, replace) => {
+    const remaining = tokens.filter(token => !(token.id === tokenId && token.userId === userId));
+    replace(remaining);
+    return remaining.length !== tokens.length;
+  }, []);
+  if (revoked) logSecurityEvent('api_token_revoked', { userId, tokenId });
+  return revoked;
+}
+
+// Looks up the caller of a bearer token. Returns null for unknown, expired or
+// malformed tokens and for inactive accounts.
+export async function resolveApiToken(token: string): Promise<ApiTokenCaller | null> {
+  const id = apiTokenId(token);
+  if (!id) return null;
+
+  const now = Date.now();
+  const tokens = await readDataFile<StoredApiToken[]>(TOKENS_FILE, []);
+  const stored = tokens.find(candidate => candidate.id === id);
+  if (!stored || isExpired(stored, now)) return null;
+  if (!timingSafeEqual(Buffer.from(stored.tokenHash, 'hex'), Buffer.from(hashToken(token), 'hex'))) return null;
+
+  const user = await getUserById(stored.userId);
+  if (!user || !user.isActive) return null;
+
+  if (!stored.lastUsedAt || now - new Date(stored.lastUsedAt).getTime() > LAST_USED_RESOLUTION_MS) {
+    await withFileTransaction<StoredApiToken[]>(TOKENS_FILE, current => {
+      const match = current.find(candidate => candidate.id === id);
+      if (match) match.lastUsedAt = new Date(now).toISOString();
+    }, []);
+  }
+  return { tokenId: id, user, scopes: stored.scopes };
+}
@@ -0,0 +1,104 @@
+import { z } from 'zod';
+import { ADDRESS_FORMATS } from './address-validation';
+
+// The assets users can deposit and withdraw, and the networks each one moves
+// over, stored under the "assetNetworks" key and edited from the admin panel.
+// Fees, minimums and maximums are in units of the asset; the fee is taken out
+// of the withdrawn amount. The address format decides which withdrawal
+// addresses a network accepts (address-validation.ts). Safe to import from
+// client components.
+
+export const ASSET_NETWORKS_KEY = 'assetNetworks';
+
+export const assetNetworkSchema = z
+  .object({
+    id: z.string().regex(/^[a-z0-9-]+$/, 'Network IDs may only contain lowercase letters, digits and dashes.'),
+    name: z.string().min(1, 'Network name is required.'),
+    depositAddress: z.string(),
+    addressFormat: z.enum(ADDRESS_FORMATS).optional(),
+    fee: z.number().finite().nonnegative(),
+    minWithdraw: z.number().finite().nonnegative(),
+    maxWithdraw: z.number().finite().positive(),
+    enabled: z.boolean(),
+  })
+  .strict()
+  .refine(network => network.minWithdraw <= network.maxWithdraw, {
+    message: 'The minimum withdrawal cannot be larger than the maximum.',
+    path: ['minWithdraw'],
+  })
+  .refine(network => network.fee < network.maxWithdraw, {
+    message: 'The fee must be smaller than the maximum withdrawal.',
+    path: ['fee'],
+  });
+
+export const registryAssetSchema = z
+  .object({
+    symbol: z.string().regex(/^[A-Z0-9]+$/, 'Asset symbols are uppercase, e.g. USDT.'),
+    name: z.string().min(1, 'Asset name is required.'),
+    iconUrl: z.string(),
+    networks: z.array(assetNetworkSchema),
+  })
+  .strict()
+  .refine(asset => new Set(asset.networks.map(network => network.id)).size === asset.networks.length, {
+    message: 'Network IDs must be unique within an asset.',
+    path: ['networks'],
+  });
+
+export const assetRegistrySchema = z
+  .array(registryAssetSchema)
+  .refine(assets => new Set(assets.map(asset => asset.symbol)).size === assets.length, {
+    message: 'Asset symbols must be unique.',
+  });
+
+export type AssetNetwork = z.infer<typeof assetNetworkSchema>;
+export type RegistryAsset = z.infer<typeof registryAssetSchema>;
+
+// Networks without a deposit address are not offered on the deposit page until
+// an admin enters one.
+export const defaultAssetRegistry: RegistryAsset[] = [
+  {
+    symbol: 'USDT',
+    name: 'Tether',
+    iconUrl: 'https://assets.coincap.io/assets/icons/usdt@2x.png',
+    networks: [
+      { id: 'trc20', name: 'TRC20 (TRON)', depositAddress: '', addressFormat: 'tron', fee: 1, minWithdraw: 10, maxWithdraw: 100000, enabled: true },
+      { id: 'erc20', name: 'ERC20 (Ethereum)', depositAddress: '', addressFormat: 'evm', fee: 5, minWithdraw: 20, maxWithdraw: 100000, enabled: true },
+      { id: 'bep20', name: 'BEP20 (BSC)', depositAddress: '', addressFormat: 'evm', fee: 1, minWithdraw: 10, maxWithdraw: 100000, enabled: true },
+    ],
+  },
+  {
+    symbol: 'BTC',
+    name: 'Bitcoin',
+    iconUrl: 'https://assets.coincap.io/assets/icons/btc@2x.png',
+    networks: [
+      { id: 'bitcoin', name: 'Bitcoin Network', depositAddress: '1A1zP1eP5QGefi2DMPTfTL5SLmv7DivfNa', addressFormat: 'bitcoin', fee: 0.0005, minWithdraw: 0.001, maxWithdraw: 10, enabled: true },
+    ],
+  },
+  {
+    symbol: 'ETH',
+    name: 'Ethereum',
+    iconUrl: 'https://assets.coincap.io/assets/icons/eth@2x.png',
+    networks: [
+      { id: 'erc20', name: 'ERC20 (Ethereum)', depositAddress: '', addressFormat: 'evm', fee: 0.005, minWithdraw: 0.01, maxWithdraw: 100, enabled: true },
+    ],
+  },
+];
+
+// The stored registry, or the defaults when nothing valid has been saved yet.
+export function parseAssetRegistry(stored: unknown): RegistryAsset[] {
+  const parsed = assetRegistrySchema.safeParse(stored);
+  return parsed.success ? parsed.data : defaultAssetRegistry;
+}
+
+// What users are offered: only enabled networks, and only assets that have one.
+export function enabledAssets(registry: RegistryAsset[]): RegistryAsset[] {
+  return registry
+    .map(asset => ({ ...asset, networks: asset.networks.filter(network => network.enabled) }))
+    .filter(asset => asset.networks.length > 0);
+}
+
+export function findAssetNetwork(registry: RegistryAsset[], symbol: string, networkId: string): { asset: RegistryAsset; network: AssetNetwork } | null {
+  const asset = registry.find(candidate => candidate.symbol === symbol.toUpperCase());
+  const network = asset?.networks.find(candidate => candidate.id === networkId);
+  return asset && network ? { asset, network } : null;
+}
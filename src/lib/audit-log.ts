@@ -0,0 +1,34 @@
+import { randomUUID } from 'crypto';
+import { dataFilePath, readDataFile, withFileTransaction } from './data-file';
+
+// Append-only record of staff actions that change a user's account security,
+// such as resetting their withdrawal addresses (data/audit-log.json). Unlike
+// the moderator action log it is kept, and travels with backups.
+
+const AUDIT_LOG_FILE = dataFilePath('audit-log.json');
+
+export type AuditEvent = {
+  id: string;
+  at: string;
+  // The staff member who acted.
+  actor: string;
+  action: string;
+  targetUserId?: string;
+  details?: Record<string, unknown>;
+};
+
+export async function recordAuditEvent(event: Omit<AuditEvent, 'id' | 'at'>): Promise<AuditEvent> {
+  const recorded: AuditEvent = { id: `audit_${randomUUID()}`, at: new Date().toISOString(), ...event };
+  await withFileTransaction<AuditEvent[]>(AUDIT_LOG_FILE, events => {
+    events.push(recorded);
+  }, []);
+  return recorded;
+}
+
+// Newest first, optionally only the events about one user.
+export async function getAuditEvents(filter: { targetUserId?: string } = {}): Promise<AuditEvent[]> {
+  const events = await readDataFile<AuditEvent[]>(AUDIT_LOG_FILE, []);
+  return events
+    .filter(event => !filter.targetUserId || event.targetUserId === filter.targetUserId)
+    .reverse();
+}
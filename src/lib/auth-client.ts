@@ -8,8 +8,15 @@ export interface AuthResponse {
   token?: string;
   role?: string;
   message?: string;
-  verificationCode?: string;
-  resetCode?: string;
+  // Seconds until /api/auth/login accepts another attempt for a throttled or locked account
+  retryAfter?: number;
+  // Set by /api/auth/login when a second factor is needed before the session starts
+  twoFactorRequired?: boolean;
+  challengeToken?: string;
+  purpose?: 'verify' | 'enroll';
+  secret?: string;
+  otpauthUrl?: string;
+  backupCodes?: string[];
 }
 
 export async function clientLogin(email: string, password: string): Promise<AuthResponse> {
@@ -28,6 +35,22 @@ export async function clientLogin(email: string, password: string): Promise<Auth
   }
 }
 
+export async function clientCompleteTwoFactorLogin(challengeToken: string, code: string): Promise<AuthResponse> {
+  try {
+    const response = await fetch('/api/auth/login/two-factor', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({ challengeToken, code }),
+    });
+
+    return await response.json();
+  } catch {
+    return { error: 'Network error occurred' };
+  }
+}
+
 export async function clientRegister(credentials: {
   email: string;
   password: string;
@@ -1,16 +1,14 @@
 import bcrypt from 'bcryptjs';
-import jwt from 'jsonwebtoken';
-import * as fs from 'fs/promises';
-import * as path from 'path';
+import { dataFilePath, readDataFile, withFileTransaction } from './data-file';
+import { checkEmailCode, emailCodeTtlMinutes, issueEmailCode, type EmailCode, type EmailCodeCheck } from './email-codes';
+import { beginLoginAttempt, recordLoginFailure } from './login-protection';
+import { sendMail } from './mailer';
+import { addNotification } from './notifications';
+import { logSecurityEvent, validatePassword } from './security';
+import { revokeUserSessions } from './session';
+import { createWalletForUser, deleteWallet } from './wallet';
 
-const JWT_SECRET = process.env.JWT_SECRET || 'astralcore-secret-key-hyperdrive-v5';
-const USERS_FILE = path.join(process.cwd(), 'data', 'users.json');
-
-// Mock admin credentials
-const MOCK_ADMIN_EMAIL = "admin@astralcore.io";
-const MOCK_MODERATOR_EMAIL = "moderator@astralcore.io";
-const MOCK_ADMIN_PASS = "admin";
-const MOCK_MODERATOR_PASS = "moderator";
+const USERS_FILE = dataFilePath('users.json');
 
 export interface User {
   id: string;
@@ -28,30 +26,50 @@ export interface User {
   totalProfits: number;
   isActive: boolean;
   lastLogin?: string;
-  verificationCode?: string;
-  resetPasswordCode?: string;
+  verificationCode?: EmailCode;
+  resetPasswordCode?: EmailCode;
   role: 'user' | 'admin' | 'moderator';
+  twoFactor?: TwoFactorSettings;
+  pendingEmailChange?: PendingEmailChange;
+}
+
+// An email change waiting for the code sent to the new address (see email-change.ts).
+export interface PendingEmailChange {
+  email: string;
+  code: EmailCode;
+  // SHA-256 hash of the token in the cancel link sent to the current address.
+  cancelTokenHash: string;
+  requestedAt: string;
+}
+
+export interface TwoFactorSettings {
+  // Base32 TOTP secret, set once enrollment is confirmed.
+  secret?: string;
+  // Secret shown during enrollment, until the first code confirms it.
+  pendingSecret?: string;
+  enabledAt?: string;
+  // SHA-256 hashes of the unused backup codes.
+  backupCodeHashes: string[];
+  // Time step of the last accepted code, so a code cannot be used twice.
+  lastUsedStep?: number;
+  // Wrong codes since the last accepted one; too many lock code entry until lockedUntil.
+  failedAttempts?: number;
+  lockedUntil?: string;
 }
 
 async function readUsers(): Promise<User[]> {
-  try {
-    const data = await fs.readFile(USERS_FILE, 'utf-8');
-    return JSON.parse(data);
-  } catch (error) {
-    return [];
-  }
+  return readDataFile<User[]>(USERS_FILE, []);
 }
 
-async function writeUsers(users: User[]): Promise<void> {
-  const dataDir = path.join(process.cwd(), 'data');
-  
-  try {
-    await fs.access(dataDir);
-  } catch {
-    await fs.mkdir(dataDir, { recursive: true });
-  }
-  
-  await fs.writeFile(USERS_FILE, JSON.stringify(users, null, 2), 'utf-8');
+// Runs fn against the current users list under the users file lock and saves the result.
+function withUsers<R>(fn: (users: User[]) => R | Promise<R>): Promise<R> {
+  return withFileTransaction<User[], R>(USERS_FILE, fn, []);
+}
+
+// Email addresses are matched case-insensitively, as they are at registration.
+function findUserByEmail(users: User[], email: string): User | undefined {
+  const normalized = email.trim().toLowerCase();
+  return users.find(user => user.email.toLowerCase() === normalized);
 }
 
 type Credentials = {
@@ -71,58 +89,8 @@ export async function login(credentials: Credentials) {
     return { error: "Please provide both email and password." };
   }
 
-  // Check mock admin/moderator credentials first
-  if (credentials.email === MOCK_ADMIN_EMAIL && credentials.password === MOCK_ADMIN_PASS) {
-    const token = jwt.sign(
-      { 
-        userId: 'admin_001', 
-        email: credentials.email,
-        role: 'admin'
-      },
-      JWT_SECRET,
-      { expiresIn: '30d' }
-    );
-    
-    return { 
-      error: null, 
-      role: 'admin',
-      token,
-      user: {
-        id: 'admin_001',
-        email: credentials.email,
-        fullName: 'System Administrator',
-        role: 'admin'
-      }
-    };
-  }
-
-  if (credentials.email === MOCK_MODERATOR_EMAIL && credentials.password === MOCK_MODERATOR_PASS) {
-    const token = jwt.sign(
-      { 
-        userId: 'mod_001', 
-        email: credentials.email,
-        role: 'moderator'
-      },
-      JWT_SECRET,
-      { expiresIn: '30d' }
-    );
-    
-    return { 
-      error: null, 
-      role: 'moderator',
-      token,
-      user: {
-        id: 'mod_001',
-        email: credentials.email,
-        fullName: 'System Moderator',
-        role: 'moderator'
-      }
-    };
-  }
-
-  // Check regular users
-  const users = await readUsers();
-  const user = users.find(u => u.email === credentials.email);
+  // Staff accounts are ordinary user records with the admin or moderator role
+  const user = await getUserByEmail(credentials.email);
   
   if (!user) {
     return { error: "Invalid email or password" };
@@ -132,33 +100,40 @@ export async function login(credentials: Credentials) {
     return { error: "Account is deactivated. Please contact support." };
   }
 
+  const attempt = await beginLoginAttempt(user.id);
+  if (attempt.retryAfter) {
+    return {
+      error: attempt.locked
+        ? "Too many failed sign-in attempts. This account is temporarily locked."
+        : "Too many failed sign-in attempts. Please wait before trying again.",
+      retryAfter: attempt.retryAfter
+    };
+  }
+
   const isPasswordValid = await bcrypt.compare(credentials.password, user.password);
   
   if (!isPasswordValid) {
+    const failure = await recordLoginFailure(user.id);
+    if (failure.lockedUntil) {
+      return {
+        error: "Too many failed sign-in attempts. This account is temporarily locked.",
+        retryAfter: Math.ceil((new Date(failure.lockedUntil).getTime() - Date.now()) / 1000)
+      };
+    }
     return { error: "Invalid email or password" };
   }
+  // The attempt counter is only cleared once the sign-in completes, after any second factor
 
   // Update last login
   user.lastLogin = new Date().toISOString();
-  await writeUsers(users);
-
-  // Create JWT token
-  const token = jwt.sign(
-    { 
-      userId: user.id, 
-      email: user.email,
-      tier: user.tier,
-      isVerified: user.isVerified,
-      role: user.role
-    },
-    JWT_SECRET,
-    { expiresIn: '30d' }
-  );
+  await withUsers(users => {
+    const storedUser = users.find(u => u.id === user.id);
+    if (storedUser) storedUser.lastLogin = user.lastLogin;
+  });
 
   return {
     error: null,
     role: user.role,
-    token,
     user: {
       id: user.id,
       email: user.email,
@@ -180,23 +155,18 @@ export async function register(credentials: Credentials) {
     return { error: 'Please provide all required information.' };
   }
 
-  if (credentials.email === MOCK_ADMIN_EMAIL || credentials.email === MOCK_MODERATOR_EMAIL) {
-    return { error: "This email is reserved. Please use a different email." };
-  }
-
   // Read existing users
   const users = await readUsers();
   
   // Check if user already exists
-  if (users.find(user => user.email === credentials.email)) {
+  if (users.find(user => user.email.toLowerCase() === credentials.email!.trim().toLowerCase())) {
     return { error: 'User already exists with this email address' };
   }
 
   // Hash password
   const hashedPassword = await bcrypt.hash(credentials.password, 12);
 
-  // Generate verification code
-  const verificationCode = Math.random().toString(36).substring(2, 8).toUpperCase();
+  const verification = issueEmailCode();
 
   // Create user
   const user: User = {
@@ -214,12 +184,42 @@ export async function register(credentials: Credentials) {
     totalWithdrawals: 0,
     totalProfits: 0,
     isActive: true,
-    verificationCode,
+    verificationCode: verification.record,
     role: 'user'
   };
 
-  users.push(user);
-  await writeUsers(users);
+  // Re-check under the lock in case the same email registered concurrently.
+  // The wallet is created before the user is saved and removed again if saving
+  // fails, so an account never exists without its wallet.
+  let walletCreated = false;
+  let created: boolean;
+  try {
+    created = await withUsers(async users => {
+      if (users.find(existing => existing.email.toLowerCase() === user.email.trim().toLowerCase())) {
+        return false;
+      }
+      await createWalletForUser(user);
+      walletCreated = true;
+      users.push(user);
+      return true;
+    });
+  } catch (error) {
+    if (walletCreated) {
+      await deleteWallet(user.id);
+    }
+    throw error;
+  }
+
+  if (!created) {
+    return { error: 'User already exists with this email address' };
+  }
+
+  // The account exists either way; a code that failed to send can be requested again.
+  try {
+    await sendVerificationCode(user.email, verification.code);
+  } catch (error) {
+    console.error('Failed to send verification email:', error);
+  }
 
   return { 
     error: null, 
@@ -232,125 +232,133 @@ export async function register(credentials: Credentials) {
       isVerified: user.isVerified,
       createdAt: user.createdAt,
       role: user.role
-    },
-    verificationCode // In production, this would be sent via email
+    }
   };
 }
 
-export async function verifyToken(token: string) {
-  try {
-    const decoded = jwt.verify(token, JWT_SECRET) as any;
-    
-    // Handle admin/moderator tokens
-    if (decoded.role === 'admin' || decoded.role === 'moderator') {
-      return {
-        success: true,
-        user: {
-          id: decoded.userId,
-          email: decoded.email,
-          fullName: decoded.role === 'admin' ? 'System Administrator' : 'System Moderator',
-          role: decoded.role
-        }
-      };
+const CODE_ERRORS: Record<Exclude<EmailCodeCheck, 'valid'>, string> = {
+  invalid: 'Invalid or expired code',
+  expired: 'This code has expired. Please request a new one.',
+  exhausted: 'Too many incorrect attempts. Please request a new code.',
+};
+
+function sendVerificationCode(email: string, code: string) {
+  return sendMail({
+    to: email,
+    subject: 'Verify your email address',
+    text: `Your verification code is ${code}.\n\nIt expires in ${emailCodeTtlMinutes()} minutes. If you did not create an account, you can ignore this email.`,
+  });
+}
+
+export async function verifyEmail(email: string, verificationCode: string) {
+  return withUsers(users => {
+    const user = findUserByEmail(users, email);
+
+    if (!user) {
+      return { error: CODE_ERRORS.invalid };
     }
 
-    const users = await readUsers();
-    const user = users.find(u => u.id === decoded.userId);
-    
-    if (!user || !user.isActive) {
-      return { error: 'User not found or inactive' };
+    if (user.isVerified) {
+      return { error: 'Email already verified' };
     }
 
-    return {
-      success: true,
-      user: {
-        id: user.id,
-        email: user.email,
-        fullName: user.fullName,
-        tier: user.tier,
-        balance: user.balance,
-        isVerified: user.isVerified,
-        createdAt: user.createdAt,
-        lastLogin: user.lastLogin,
-        role: user.role
-      }
-    };
-  } catch (error) {
-    return { error: 'Invalid or expired token' };
-  }
-}
+    const check = checkEmailCode(user.verificationCode, verificationCode);
+    if (check !== 'valid') {
+      return { error: CODE_ERRORS[check], tooManyAttempts: check === 'exhausted' };
+    }
 
-export async function verifyEmail(email: string, verificationCode: string) {
-  const users = await readUsers();
-  const userIndex = users.findIndex(u => u.email === email);
-  
-  if (userIndex === -1) {
-    return { error: 'User not found' };
-  }
+    user.isVerified = true;
+    user.verificationCode = undefined;
 
-  const user = users[userIndex];
-  
-  if (user.isVerified) {
-    return { error: 'Email already verified' };
-  }
+    return { success: true, message: 'Email verified successfully' };
+  });
+}
 
-  if (user.verificationCode !== verificationCode) {
-    return { error: 'Invalid verification code' };
+// Replaces the verification code of an unverified account and emails the new one.
+export async function resendVerificationEmail(email: string) {
+  const verification = issueEmailCode();
+  const sendTo = await withUsers(users => {
+    const user = findUserByEmail(users, email);
+    if (!user || user.isVerified) return null;
+    user.verificationCode = verification.record;
+    return user.email;
+  });
+
+  if (sendTo) {
+    await sendVerificationCode(sendTo, verification.code);
   }
-
-  // Verify user
-  users[userIndex].isVerified = true;
-  users[userIndex].verificationCode = undefined;
-  await writeUsers(users);
-
-  return { success: true, message: 'Email verified successfully' };
+  return { success: true, message: 'If this account still needs verification, a new code has been sent.' };
 }
 
 export async function resetPasswordForEmail(email: string) {
   console.log("Password Reset requested for:", email);
-  
-  const users = await readUsers();
-  const userIndex = users.findIndex(u => u.email === email);
-  
-  if (userIndex === -1) {
-    // Return success even if user not found for security
-    return { success: true, message: 'If an account with this email exists, a reset code has been sent.' };
-  }
 
-  const resetCode = Math.random().toString(36).substring(2, 8).toUpperCase();
-  users[userIndex].resetPasswordCode = resetCode;
-  await writeUsers(users);
+  const reset = issueEmailCode();
+  const sendTo = await withUsers(users => {
+    const user = findUserByEmail(users, email);
+    if (!user) return null;
+    user.resetPasswordCode = reset.record;
+    return user.email;
+  });
+
+  // The response is the same whether or not the account exists.
+  if (sendTo) {
+    await sendMail({
+      to: sendTo,
+      subject: 'Reset your password',
+      text: `Your password reset code is ${reset.code}.\n\nIt expires in ${emailCodeTtlMinutes()} minutes. If you did not ask to reset your password, you can ignore this email; your password has not been changed.`,
+    });
+  }
 
-  return { 
-    success: true, 
-    message: 'Password reset code sent to your email.',
-    resetCode // In production, this would be sent via email
-  };
+  return { success: true, message: 'If an account with this email exists, a reset code has been sent.' };
 }
 
-export async function resetPassword(email: string, resetCode: string, newPassword: string) {
-  const users = await readUsers();
-  const userIndex = users.findIndex(u => u.email === email);
-  
-  if (userIndex === -1) {
-    return { error: 'Invalid reset code' };
-  }
-
-  const user = users[userIndex];
-  
-  if (user.resetPasswordCode !== resetCode) {
-    return { error: 'Invalid or expired reset code' };
+// Sets a new password with the emailed reset code. The password has to meet the
+// policy in validatePassword; every session of the user is signed out.
+export async function resetPassword(
+  email: string,
+  resetCode: string,
+  newPassword: string
+): Promise<{ error?: string; tooManyAttempts?: boolean; success?: boolean; message?: string }> {
+  const policy = validatePassword(newPassword);
+  if (!policy.isValid) {
+    return { error: `${policy.errors.join('. ')}.` };
   }
 
-  // Hash new password
+  // Hash new password before taking the lock; bcrypt is slow
   const hashedPassword = await bcrypt.hash(newPassword, 12);
-  
-  // Update password and clear reset code
-  users[userIndex].password = hashedPassword;
-  users[userIndex].resetPasswordCode = undefined;
-  await writeUsers(users);
 
-  return { success: true, message: 'Password reset successfully' };
+  let resetUserId: string | undefined;
+  const result = await withUsers(users => {
+    const user = findUserByEmail(users, email);
+
+    if (!user) {
+      return { error: CODE_ERRORS.invalid };
+    }
+
+    const check = checkEmailCode(user.resetPasswordCode, resetCode);
+    if (check !== 'valid') {
+      return { error: CODE_ERRORS[check], tooManyAttempts: check === 'exhausted' };
+    }
+
+    // Update password and clear reset code
+    user.password = hashedPassword;
+    user.resetPasswordCode = undefined;
+    resetUserId = user.id;
+
+    return { success: true, message: 'Password reset successfully' };
+  });
+
+  if (resetUserId) {
+    const revokedSessions = await revokeUserSessions(resetUserId);
+    logSecurityEvent('password_reset', { userId: resetUserId, revokedSessions });
+    await addNotification(resetUserId, {
+      title: 'Password Reset',
+      content: "Your account password was reset with an emailed code and all your sessions were signed out. If this wasn't you, contact support immediately.",
+      href: '/dashboard/security',
+    });
+  }
+  return result;
 }
 
 export async function getUserById(userId: string): Promise<User | null> {
@@ -358,18 +366,146 @@ export async function getUserById(userId: string): Promise<User | null> {
   return users.find(user => user.id === userId) || null;
 }
 
-export async function updateUser(userId: string, updates: Partial<User>) {
+export async function getUserByEmail(email: string): Promise<User | null> {
   const users = await readUsers();
-  const userIndex = users.findIndex(u => u.id === userId);
-  
-  if (userIndex === -1) {
-    return { error: 'User not found' };
+  return users.find(user => user.email.toLowerCase() === email.toLowerCase()) || null;
+}
+
+// Runs fn against the stored user under the users file lock; changes fn makes
+// to the user are saved. Returns null if the user does not exist.
+export async function withUser<R>(userId: string, fn: (user: User) => R | Promise<R>): Promise<R | null> {
+  return withUsers(async users => {
+    const user = users.find(u => u.id === userId);
+    return user ? fn(user) : null;
+  });
+}
+
+// Re-checks the account password before sensitive changes.
+export async function verifyUserPassword(userId: string, password: string): Promise<boolean> {
+  const user = await getUserById(userId);
+  return !!user && !!password && bcrypt.compare(password, user.password);
+}
+
+// Changes the password of a signed-in user. The new password has to meet the
+// policy in validatePassword; every other session of the user is signed out.
+export async function changePassword(
+  userId: string,
+  details: { currentPassword: string; newPassword: string; keepSessionId?: string }
+): Promise<{ error?: string; revokedSessions?: number }> {
+  const policy = validatePassword(details.newPassword);
+  if (!policy.isValid) {
+    return { error: `${policy.errors.join('. ')}.` };
+  }
+  if (!(await verifyUserPassword(userId, details.currentPassword))) {
+    return { error: 'Current password is incorrect.' };
+  }
+  if (details.currentPassword === details.newPassword) {
+    return { error: 'The new password must be different from the current one.' };
   }
 
-  users[userIndex] = { ...users[userIndex], ...updates };
-  await writeUsers(users);
+  const hashedPassword = await bcrypt.hash(details.newPassword, 12);
+  const changed = await withUser(userId, user => {
+    user.password = hashedPassword;
+    return true;
+  });
+  if (!changed) return { error: 'User not found.' };
+
+  const revokedSessions = await revokeUserSessions(userId, { except: details.keepSessionId });
+  logSecurityEvent('password_changed', { userId, revokedSessions });
+  await addNotification(userId, {
+    title: 'Password Changed',
+    content: "Your account password was changed and your other sessions were signed out. If this wasn't you, reset your password and contact support immediately.",
+    href: '/dashboard/security',
+  });
+  return { revokedSessions };
+}
 
-  return { success: true, user: users[userIndex] };
+// Deactivating an account or changing its role signs it out everywhere.
+export async function updateUser(userId: string, updates: Partial<User>) {
+  let revokeSessions = false;
+  const result = await withUsers(users => {
+    const userIndex = users.findIndex(u => u.id === userId);
+    
+    if (userIndex === -1) {
+      return { error: 'User not found' } as const;
+    }
+
+    const previous = users[userIndex];
+    users[userIndex] = { ...previous, ...updates };
+
+    revokeSessions = (previous.isActive && !users[userIndex].isActive) || previous.role !== users[userIndex].role;
+    return { success: true, user: users[userIndex] } as const;
+  });
+
+  if (revokeSessions) {
+    await revokeUserSessions(userId);
+  }
+  return result;
+}
+
+export async function isEmailTaken(email: string, exceptUserId?: string): Promise<boolean> {
+  const users = await readUsers();
+  const normalized = email.trim().toLowerCase();
+  return users.some(user => user.id !== exceptUserId && user.email.toLowerCase() === normalized);
+}
+
+// Switches the login email of an account, re-checking under the users lock that
+// no other account has the address by now.
+export async function setUserEmail(userId: string, email: string): Promise<{ error?: string; previousEmail?: string }> {
+  const normalized = email.trim().toLowerCase();
+  return withUsers(users => {
+    if (users.some(existing => existing.id !== userId && existing.email.toLowerCase() === normalized)) {
+      return { error: 'An account with this email address already exists.' };
+    }
+    const user = users.find(existing => existing.id === userId);
+    if (!user) return { error: 'User not found.' };
+    const previousEmail = user.email;
+    user.email = normalized;
+    user.isVerified = true;
+    return { previousEmail };
+  });
+}
+
+export type StaffRole = 'admin' | 'moderator';
+
+// Creates an admin or moderator account. Staff accounts have no wallet and
+// are verified from the start; they are created by the bootstrap script or
+// by accepting an invite.
+export async function createStaffUser(details: {
+  email: string;
+  fullName: string;
+  password: string;
+  role: StaffRole;
+}): Promise<{ error: string } | { user: User }> {
+  const hashedPassword = await bcrypt.hash(details.password, 12);
+  const user: User = {
+    id: generateUserId(),
+    email: details.email.trim().toLowerCase(),
+    password: hashedPassword,
+    fullName: details.fullName,
+    isVerified: true,
+    createdAt: new Date().toISOString(),
+    tier: 'recruit',
+    balance: 0,
+    totalDeposits: 0,
+    totalWithdrawals: 0,
+    totalProfits: 0,
+    isActive: true,
+    role: details.role,
+  };
+
+  return withUsers(users => {
+    if (users.some(existing => existing.email.toLowerCase() === user.email)) {
+      return { error: 'An account with this email address already exists.' };
+    }
+    users.push(user);
+    return { user };
+  });
+}
+
+export async function getStaffUsers(): Promise<User[]> {
+  const users = await readUsers();
+  return users.filter(user => user.role === 'admin' || user.role === 'moderator');
 }
 
 export async function logout() {
@@ -0,0 +1,343 @@
+import { createCipheriv, createDecipheriv, createHash, randomBytes, scryptSync } from 'crypto';
+import * as fs from 'fs/promises';
+import { getAllChats, replaceAllChats } from './chat-server';
+import { dataFilePath, readDataFileForUpdate, withFileLock, writeFileAtomic } from './data-file';
+import { env } from './env';
+import { getLatestSchemaVersion, getSchemaVersions, setSchemaVersion, upgradeData } from './migrations';
+import { getAllNotifications, replaceAllNotifications } from './notifications';
+import { revokeAllSessions } from './session';
+import { getAllSettings, replaceAllSettings } from './settings-store';
+import { walletFieldErrors, walletSchema } from './wallet-schema';
+import { getWalletStore } from './wallet-store';
+
+// Whole-platform snapshots. An archive is a manifest plus one data section per
+// store; the manifest records the archive format version, the schema version of
+// migrated data and a SHA-256 checksum of every section so that a damaged or
+// hand-edited archive is rejected before anything is overwritten. Restoring
+// signs every user out, since the sessions were issued for the accounts that
+// were just replaced.
+//
+// The sections hold password hashes, TOTP secrets and backup code hashes, and
+// API token and withdrawal passcode hashes, so the data is encrypted with
+// AES-256-GCM under a key derived from BACKUP_ENCRYPTION_KEY; only the manifest
+// is readable, and it is authenticated along with the data. Backups are refused
+// while the key is unset, and restoring needs the key the archive was made with.
+// Archives of version 2 and older are plaintext and can still be restored.
+
+export const BACKUP_FORMAT = 'astralcore-backup';
+export const BACKUP_VERSION = 3;
+const FIRST_ENCRYPTED_VERSION = 3;
+const BACKUP_KEY_MISSING = 'Set BACKUP_ENCRYPTION_KEY to create or restore encrypted backups.';
+
+// Files under data/ that are deliberately left out of archives, and why. The
+// list is written into every manifest.
+export const EXCLUDED_FILES: Record<string, string> = {
+  'sessions.json': 'Sessions are not restored; every session is revoked on restore.',
+  'login-challenges.json': 'Pending two-factor sign-in challenges expire within minutes.',
+  'login-protection.json': 'Failed sign-in counters and lockouts are short-lived.',
+  'idempotency-keys.json': 'Only guards recent requests against being repeated.',
+  'mail-outbox.json': 'Development copy of sent mail (MAIL_TRANSPORT=file).',
+  'schema-versions.json': 'Recorded in the manifest as schemaVersions.',
+  'action-logs.json': 'Rolling log of recent moderator actions; staff changes to accounts are kept in the auditLog section.',
+  'support-threads.json': 'Which staff member is handling a support chat; chats are claimed again after a restore.',
+};
+
+export type BackupSectionInfo = {
+  checksum: string;
+  // Number of top-level records (users, wallets, conversations, ...).
+  records: number;
+};
+
+export type BackupManifest = {
+  format: typeof BACKUP_FORMAT;
+  version: number;
+  createdAt: string;
+  createdBy?: string;
+  // Schema version of the sections that go through data migrations.
+  schemaVersions: Record<string, number>;
+  sections: Record<string, BackupSectionInfo>;
+  // Data files left out of the archive, with the reason (EXCLUDED_FILES).
+  excluded?: Record<string, string>;
+};
+
+export type EncryptedBackupData = {
+  algorithm: 'aes-256-gcm';
+  // Base64 scrypt salt, GCM nonce and tag, and the encrypted JSON of the sections.
+  salt: string;
+  iv: string;
+  tag: string;
+  ciphertext: string;
+};
+
+// What is downloaded and uploaded: the manifest and the encrypted sections.
+export type EncryptedBackupArchive = {
+  manifest: BackupManifest;
+  encrypted: EncryptedBackupData;
+};
+
+export type BackupArchive = {
+  manifest: BackupManifest;
+  data: Record<string, unknown>;
+};
+
+type BackupSection = {
+  key: string;
+  read(): Promise<unknown>;
+  write(data: any): Promise<void>;
+  isValid(data: unknown): boolean;
+  // Archive version that added the section. Older archives do not have it and
+  // leave the current data in place.
+  since?: number;
+};
+
+const RESTORE_LOCK = dataFilePath('.restore');
+
+const isObject = (data: unknown) => !!data && typeof data === 'object' && !Array.isArray(data);
+
+// A JSON document under data/. A missing file is archived as null and restoring
+// null removes the file again, so modules that seed defaults keep doing so. The
+// file is read under its lock, and an unreadable file fails the backup rather
+// than being archived as missing.
+function fileSection(key: string, fileName: string, shape: 'array' | 'object', since?: number): BackupSection {
+  const filePath = dataFilePath(fileName);
+  return {
+    key,
+    since,
+    read: () => withFileLock(filePath, () => readDataFileForUpdate<unknown>(filePath, null)),
+    write: data =>
+      withFileLock(filePath, async () => {
+        if (data === null) {
+          await fs.rm(filePath, { force: true });
+        } else {
+          await writeFileAtomic(filePath, JSON.stringify(data, null, 2));
+        }
+      }),
+    isValid: data => data === null || (shape === 'array' ? Array.isArray(data) : isObject(data)),
+  };
+}
+
+// Sections are restored in this order. The ledger travels with the wallets so
+// that restored balances still reconcile against it.
+function getBackupSections(): BackupSection[] {
+  return [
+    fileSection('users', 'users.json', 'array'),
+    fileSection('moderators', 'moderators.json', 'array', 2),
+    fileSection('staffInvites', 'staff-invites.json', 'array', 2),
+    fileSection('apiTokens', 'api-tokens.json', 'array', 2),
+    {
+      key: 'wallets',
+      read: () => getWalletStore().getAll(),
+      write: data => getWalletStore().updateAll(() => data),
+      isValid: isObject,
+    },
+    fileSection('ledger', 'ledger.json', 'array'),
+    fileSection('auditLog', 'audit-log.json', 'array'),
+    {
+      key: 'chats',
+      read: () => getAllChats(),
+      write: data => replaceAllChats(data),
+      isValid: isObject,
+    },
+    {
+      key: 'notifications',
+      read: () => getAllNotifications(),
+      write: data => replaceAllNotifications(data),
+      isValid: isObject,
+    },
+    {
+      key: 'settings',
+      read: () => getAllSettings(),
+      write: data => replaceAllSettings(data),
+      isValid: isObject,
+    },
+    fileSection('webPages', 'web-pages.json', 'array'),
+    fileSection('clans', 'squad-clans.json', 'object'),
+    fileSection('squadChats', 'squad-chats.json', 'object'),
+    fileSection('publicChat', 'public-chat.json', 'array', 2),
+  ];
+}
+
+function checksum(data: unknown): string {
+  return createHash('sha256').update(JSON.stringify(data)).digest('hex');
+}
+
+function countRecords(data: unknown): number {
+  if (Array.isArray(data)) return data.length;
+  if (isObject(data)) return Object.keys(data as object).length;
+  return 0;
+}
+
+async function readSections(sections: BackupSection[]): Promise<Record<string, unknown>> {
+  const data: Record<string, unknown> = {};
+  for (const section of sections) {
+    data[section.key] = await section.read();
+  }
+  return data;
+}
+
+function backupKey(salt: Buffer): Buffer {
+  if (!env.BACKUP_ENCRYPTION_KEY) throw new Error(BACKUP_KEY_MISSING);
+  return scryptSync(env.BACKUP_ENCRYPTION_KEY, salt, 32);
+}
+
+function encryptSections(manifest: BackupManifest, data: Record<string, unknown>): EncryptedBackupData {
+  const salt = randomBytes(16);
+  const iv = randomBytes(12);
+  const cipher = createCipheriv('aes-256-gcm', backupKey(salt), iv);
+  cipher.setAAD(Buffer.from(JSON.stringify(manifest)));
+  const ciphertext = Buffer.concat([cipher.update(JSON.stringify(data)), cipher.final()]);
+  return {
+    algorithm: 'aes-256-gcm',
+    salt: salt.toString('base64'),
+    iv: iv.toString('base64'),
+    tag: cipher.getAuthTag().toString('base64'),
+    ciphertext: ciphertext.toString('base64'),
+  };
+}
+
+// The readable archive, or the problems that prevent decrypting it. Plaintext
+// archives of older versions are passed through.
+export function decryptBackup(archive: any): { archive: BackupArchive } | { problems: string[] } {
+  const manifest = archive?.manifest;
+  if (manifest?.format !== BACKUP_FORMAT || typeof manifest.version !== 'number' || manifest.version < FIRST_ENCRYPTED_VERSION) {
+    return { archive };
+  }
+  const encrypted = archive.encrypted;
+  if (!isObject(encrypted) || encrypted.algorithm !== 'aes-256-gcm') {
+    return { problems: ['The archive data is not encrypted in a supported way.'] };
+  }
+  if (!env.BACKUP_ENCRYPTION_KEY) return { problems: [BACKUP_KEY_MISSING] };
+
+  try {
+    const decipher = createDecipheriv('aes-256-gcm', backupKey(Buffer.from(encrypted.salt, 'base64')), Buffer.from(encrypted.iv, 'base64'));
+    decipher.setAAD(Buffer.from(JSON.stringify(archive.manifest)));
+    decipher.setAuthTag(Buffer.from(encrypted.tag, 'base64'));
+    const plaintext = Buffer.concat([decipher.update(Buffer.from(encrypted.ciphertext, 'base64')), decipher.final()]);
+    return { archive: { manifest: archive.manifest, data: JSON.parse(plaintext.toString('utf-8')) } };
+  } catch {
+    return { problems: ['The archive cannot be decrypted: it was made with another BACKUP_ENCRYPTION_KEY, or it was changed.'] };
+  }
+}
+
+export async function createBackup(createdBy?: string): Promise<EncryptedBackupArchive> {
+  if (!env.BACKUP_ENCRYPTION_KEY) throw new Error(BACKUP_KEY_MISSING);
+  const data = await readSections(getBackupSections());
+  const versions = await getSchemaVersions();
+
+  const manifest: BackupManifest = {
+    format: BACKUP_FORMAT,
+    version: BACKUP_VERSION,
+    createdAt: new Date().toISOString(),
+    createdBy,
+    schemaVersions: { wallets: versions[getWalletStore().name] || 0 },
+    sections: Object.fromEntries(
+      Object.entries(data).map(([key, value]) => [key, { checksum: checksum(value), records: countRecords(value) }])
+    ),
+    excluded: EXCLUDED_FILES,
+  };
+  return { manifest, encrypted: encryptSections(manifest, data) };
+}
+
+// Returns every problem found in the archive; an empty list means it can be restored.
+export async function validateBackup(archive: any): Promise<string[]> {
+  const manifest = archive?.manifest;
+  if (!isObject(manifest) || !isObject(archive?.data)) {
+    return ['The archive must contain a manifest and a data object.'];
+  }
+  if (manifest.format !== BACKUP_FORMAT) {
+    return [`Unknown archive format "${manifest.format}".`];
+  }
+  if (typeof manifest.version !== 'number' || manifest.version > BACKUP_VERSION) {
+    return [`Archive version ${manifest.version} is not supported by this release (latest is ${BACKUP_VERSION}).`];
+  }
+
+  const problems: string[] = [];
+  for (const section of getBackupSections()) {
+    const info = manifest.sections?.[section.key];
+    if (!info || !(section.key in archive.data)) {
+      if (manifest.version < (section.since || 1)) continue;
+      problems.push(`Section "${section.key}" is missing.`);
+      continue;
+    }
+    const data = archive.data[section.key];
+    if (checksum(data) !== info.checksum) {
+      problems.push(`Section "${section.key}" does not match its checksum.`);
+    } else if (!section.isValid(data)) {
+      problems.push(`Section "${section.key}" has an unexpected shape.`);
+    }
+  }
+
+  const walletVersion = manifest.schemaVersions?.wallets || 0;
+  const latestWalletVersion = await getLatestSchemaVersion(getWalletStore().name);
+  if (walletVersion > latestWalletVersion) {
+    problems.push(`Wallet data is at schema v${walletVersion}, newer than this release supports (v${latestWalletVersion}).`);
+  } else if (problems.length === 0) {
+    const wallets = await upgradeWallets(archive);
+    for (const [userId, wallet] of Object.entries(wallets)) {
+      const result = walletSchema.safeParse(wallet);
+      if (!result.success) {
+        for (const [field, message] of Object.entries(walletFieldErrors(result.error))) {
+          problems.push(`Wallet ${userId}: ${field}: ${message}`);
+        }
+      }
+    }
+  }
+
+  return problems;
+}
+
+// Wallets in archives taken by older releases are migrated before they are validated or restored.
+async function upgradeWallets(archive: BackupArchive): Promise<Record<string, unknown>> {
+  const wallets = JSON.parse(JSON.stringify(archive.data.wallets));
+  return upgradeData(getWalletStore().name, wallets, archive.manifest.schemaVersions?.wallets || 0);
+}
+
+// Every section write is itself atomic, so a section that throws was left unchanged.
+async function writeSections(sections: BackupSection[], data: Record<string, unknown>, written: BackupSection[] = []) {
+  for (const section of sections) {
+    await section.write(data[section.key]);
+    written.push(section);
+  }
+}
+
+// Replaces the platform state with the archive. Nothing is written unless the
+// whole archive validates; if a section fails to write, every section written so
+// far is put back from a snapshot taken just before the restore.
+export async function restoreBackup(
+  upload: EncryptedBackupArchive | BackupArchive
+): Promise<{ error?: string; problems?: string[]; restored?: string[]; sessionsRevoked?: number }> {
+  return withFileLock(RESTORE_LOCK, async () => {
+    const decrypted = decryptBackup(upload);
+    if ('problems' in decrypted) {
+      return { error: 'The backup archive is invalid.', problems: decrypted.problems };
+    }
+    const { archive } = decrypted;
+    const problems = await validateBackup(archive);
+    if (problems.length > 0) {
+      return { error: 'The backup archive is invalid.', problems };
+    }
+
+    const sections = getBackupSections().filter(section => section.key in archive.data);
+    const snapshot = await readSections(sections);
+    const snapshotVersions = await getSchemaVersions();
+    const walletTarget = getWalletStore().name;
+    const data = { ...archive.data, wallets: await upgradeWallets(archive) };
+    const written: BackupSection[] = [];
+
+    try {
+      await writeSections(sections, data, written);
+      await setSchemaVersion(walletTarget, await getLatestSchemaVersion(walletTarget));
+    } catch (error: any) {
+      try {
+        await writeSections(written, snapshot);
+        await setSchemaVersion(walletTarget, snapshotVersions[walletTarget] || 0);
+      } catch (rollbackError: any) {
+        console.error('Rolling back a failed restore failed:', rollbackError);
+        return { error: `Restore failed (${error.message}) and could not be rolled back: ${rollbackError.message}` };
+      }
+      return { error: `Restore failed and was rolled back: ${error.message}` };
+    }
+
+    return { restored: sections.map(section => section.key), sessionsRevoked: await revokeAllSessions() };
+  });
+}
@@ -1,5 +1,7 @@
-// Mock implementation of chat functionality using a simple JSON structure.
+// Support chat, kept in memory (seeded from data/chats.json), or in the
+// messages table when DATABASE_URL is set.
 import initialChats from '../../data/chats.json';
+import { getDatabasePool, isDatabaseConfigured, withTransaction, type Queryable } from './db';
 import { addPlatformNotification } from './notifications';
 
 let mockChats: Record<string, any[]> = initialChats;
@@ -21,16 +23,78 @@ export type ChatHistory = {
 };
 
 
-// Admin function: Fetches all chats from the mock data.
+function rowToMessage(row: any): Message {
+    return {
+        id: row.id,
+        user_id: row.user_id,
+        text: row.text,
+        timestamp: new Date(row.timestamp).getTime(),
+        sender: row.sender,
+        silent: row.silent,
+        file_url: row.file_url ?? undefined,
+    };
+}
+
+async function insertMessage(db: Queryable, message: Message): Promise<void> {
+    await db.query(
+        'INSERT INTO messages (id, user_id, timestamp, sender, text, silent, file_url) VALUES ($1, $2, $3, $4, $5, $6, $7)',
+        [crypto.randomUUID(), message.user_id, new Date(message.timestamp), message.sender, message.text, !!message.silent, message.file_url ?? null]
+    );
+}
+
+async function saveMessage(message: Message): Promise<void> {
+    if (isDatabaseConfigured()) {
+        await insertMessage(getDatabasePool(), message);
+        return;
+    }
+
+    if (!mockChats[message.user_id]) {
+        mockChats[message.user_id] = [];
+    }
+    mockChats[message.user_id].push(message);
+}
+
+// Admin function: Fetches all chats.
 export async function getAllChats(): Promise<ChatHistory> {
+    if (isDatabaseConfigured()) {
+        const { rows } = await getDatabasePool().query('SELECT * FROM messages ORDER BY timestamp ASC');
+        const chats: ChatHistory = {};
+        for (const row of rows) {
+            (chats[row.user_id] ||= []).push(rowToMessage(row));
+        }
+        return chats;
+    }
     return mockChats;
 }
 
-// Fetches chat history for a single user from the mock data.
+// Fetches chat history for a single user.
 export async function getChatHistoryForUser(userId: string): Promise<Message[]> {
+    if (isDatabaseConfigured()) {
+        const { rows } = await getDatabasePool().query(
+            'SELECT * FROM messages WHERE user_id = $1 ORDER BY timestamp ASC',
+            [userId]
+        );
+        return rows.map(rowToMessage);
+    }
     return mockChats[userId] || [];
 }
 
+// Replaces every conversation, e.g. when a platform backup is restored.
+export async function replaceAllChats(chats: ChatHistory): Promise<void> {
+    if (isDatabaseConfigured()) {
+        await withTransaction(async client => {
+            await client.query('DELETE FROM messages');
+            for (const messages of Object.values(chats)) {
+                for (const message of messages) {
+                    await insertMessage(client, message);
+                }
+            }
+        });
+        return;
+    }
+    mockChats = chats;
+}
+
 // Universal function to send a message.
 async function createMessage(
   userId: string,
@@ -39,9 +103,6 @@ async function createMessage(
   silent: boolean,
   file_url?: string
 ): Promise<void> {
-    if (!mockChats[userId]) {
-        mockChats[userId] = [];
-    }
     const newMessage: Message = {
         id: `msg-${Date.now()}`,
         user_id: userId,
@@ -51,7 +112,7 @@ async function createMessage(
         timestamp: Date.now(),
         file_url,
     };
-    mockChats[userId].push(newMessage);
+    await saveMessage(newMessage);
 
     if (sender === 'user' && !silent) {
         await addPlatformNotification({
@@ -69,7 +130,7 @@ async function createMessage(
             silent: false,
             timestamp: Date.now() + 1,
         };
-        mockChats[userId].push(autoReply);
+        await saveMessage(autoReply);
     }
 }
 
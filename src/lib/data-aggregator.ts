@@ -4,7 +4,8 @@ import { getPublicChatMessages } from './chat-server';
 import { getAllSquadClans } from './squad-clans';
 import { getBotTierSettings } from './tiers';
 import { ranks, getUserRank } from './ranks';
-import * as fs from 'fs/promises';
+import { readDataFile } from './data-file';
+import { getAllSettings } from './settings-store';
 import * as path from 'path';
 
 export interface AggregatedData {
@@ -45,14 +46,7 @@ const MOCK_TRANSACTION_TOTALS: Record<string, { deposits: number; withdrawals: n
 };
 
 async function readJsonFile(filePath: string) {
-  try {
-    const fullPath = path.join(process.cwd(), filePath);
-    const data = await fs.readFile(fullPath, 'utf-8');
-    return JSON.parse(data);
-  } catch (error) {
-    console.warn(`Could not read file ${filePath}:`, error);
-    return {};
-  }
+  return readDataFile<Record<string, any>>(path.join(process.cwd(), filePath), {});
 }
 
 export async function fetchAllData(): Promise<AggregatedData> {
@@ -75,7 +69,7 @@ export async function fetchAllData(): Promise<AggregatedData> {
       const transactions = MOCK_TRANSACTION_TOTALS[userId] || { deposits: 0, withdrawals: 0 };
       
       const gridEarnings = wallet.growth?.earningsHistory?.reduce((acc: number, curr: { amount: number }) => acc + curr.amount, 0) || 0;
-      const pendingWithdrawalAmount = wallet.pendingWithdrawals?.reduce((acc: number, curr: { amount: number }) => acc + curr.amount, 0) || 0;
+      const pendingWithdrawalAmount = wallet.pending_withdrawals?.reduce((acc: number, curr: { amount: number }) => acc + curr.amount, 0) || 0;
 
       totalDeposits += transactions.deposits;
       totalWithdrawals += transactions.withdrawals;
@@ -111,7 +105,7 @@ export async function fetchAllData(): Promise<AggregatedData> {
     const squadClans = await getAllSquadClans();
 
     // Fetch settings
-    const botSettings = await readJsonFile('data/settings.json');
+    const botSettings = await getAllSettings();
     const botTierSettings = getBotTierSettings();
     const chatsData = await readJsonFile('data/chats.json');
     const squadChatsData = await readJsonFile('src/data/squad-chats.json');
@@ -120,7 +114,7 @@ export async function fetchAllData(): Promise<AggregatedData> {
     const profiles = userIds.map(userId => ({
       userId,
       ...wallets[userId].profile,
-      verificationStatus: wallets[userId].profile?.verificationStatus || 'unverified',
+      verificationStatus: wallets[userId].verification_status || 'unverified',
       squad: wallets[userId].squad,
     }));
 
@@ -0,0 +1,99 @@
+import * as fs from 'fs/promises';
+import * as path from 'path';
+
+// Shared helpers for the JSON documents under data/.
+// Writes go to a temporary file that is renamed over the target, so a crash can
+// never leave a half-written file behind, and every write to the same file is
+// serialised through an in-process mutex so concurrent requests do not lose updates.
+
+export const DATA_DIR = path.join(process.cwd(), 'data');
+
+export function dataFilePath(fileName: string): string {
+  return path.join(DATA_DIR, fileName);
+}
+
+const fileLocks = new Map<string, Promise<unknown>>();
+
+// Runs fn while holding the lock for filePath. Locks are not re-entrant:
+// do not call withFileLock/withFileTransaction for the same file from inside fn.
+export async function withFileLock<R>(filePath: string, fn: () => Promise<R>): Promise<R> {
+  const key = path.resolve(filePath);
+  const previous = fileLocks.get(key) || Promise.resolve();
+  const run = previous.catch(() => undefined).then(fn);
+  const tail = run.catch(() => undefined);
+  fileLocks.set(key, tail);
+
+  try {
+    return await run;
+  } finally {
+    // Drop the entry once nobody is queued behind us
+    if (fileLocks.get(key) === tail) {
+      fileLocks.delete(key);
+    }
+  }
+}
+
+// Writes data to filePath via a temporary sibling file and an atomic rename.
+// Callers are expected to hold the file lock.
+export async function writeFileAtomic(filePath: string, data: string | Uint8Array): Promise<void> {
+  await fs.mkdir(path.dirname(filePath), { recursive: true });
+  const tempPath = `${filePath}.${process.pid}.${crypto.randomUUID()}.tmp`;
+  try {
+    const handle = await fs.open(tempPath, 'w');
+    try {
+      await handle.writeFile(data);
+      await handle.sync();
+    } finally {
+      await handle.close();
+    }
+    await fs.rename(tempPath, filePath);
+  } catch (error) {
+    await fs.rm(tempPath, { force: true });
+    throw error;
+  }
+}
+
+// Returns the fallback when the file does not exist. Unreadable or corrupt files
+// throw, so a transaction never overwrites data it failed to parse.
+export async function readDataFileForUpdate<T>(filePath: string, fallback: T): Promise<T> {
+  let data: string;
+  try {
+    data = await fs.readFile(filePath, 'utf-8');
+  } catch (error: any) {
+    if (error?.code === 'ENOENT') return fallback;
+    throw error;
+  }
+  return JSON.parse(data);
+}
+
+export async function readDataFile<T>(filePath: string, fallback: T): Promise<T> {
+  try {
+    return await readDataFileForUpdate(filePath, fallback);
+  } catch (error) {
+    console.error(`Could not read data file ${filePath}:`, error);
+    return fallback;
+  }
+}
+
+export async function writeDataFile<T>(filePath: string, data: T): Promise<void> {
+  await withFileLock(filePath, () => writeFileAtomic(filePath, JSON.stringify(data, null, 2)));
+}
+
+// Read-modify-write of a JSON data file under its lock. fn receives the current
+// contents (or the fallback when the file does not exist yet) and may either
+// mutate it in place or return a replacement value via the `replace` callback.
+// The file is only written if fn resolves; if it throws, nothing is changed.
+export async function withFileTransaction<T, R = void>(
+  filePath: string,
+  fn: (data: T, replace: (next: T) => void) => R | Promise<R>,
+  fallback: T = {} as T
+): Promise<R> {
+  return withFileLock(filePath, async () => {
+    let data: T = await readDataFileForUpdate<T>(filePath, fallback);
+    const result = await fn(data, next => {
+      data = next;
+    });
+    await writeFileAtomic(filePath, JSON.stringify(data, null, 2));
+    return result;
+  });
+}
@@ -0,0 +1,147 @@
+import { Pool, type PoolClient } from 'pg';
+import { env } from './env';
+
+// PostgreSQL access shared by the lib modules. Setting DATABASE_URL switches
+// wallets, settings, notifications, support messages and claims, the moderator
+// action log and promotions from the JSON/in-memory implementations to the
+// tables in src/supabase/schema.sql.
+//
+// Tests (or scripts) can inject any pg-compatible pool, e.g. one created by pg-mem:
+//   const { Pool } = newDb().adapters.createPg();
+//   setDatabasePool(new Pool());
+//   await ensureDatabaseSchema();
+
+export type Queryable = Pick<Pool, 'query'> | PoolClient;
+
+let pool: Pool | null = null;
+let injected = false;
+
+export function isDatabaseConfigured(): boolean {
+  return injected || !!env.DATABASE_URL;
+}
+
+export function getDatabasePool(): Pool {
+  if (!pool) {
+    if (!env.DATABASE_URL) {
+      throw new Error('DATABASE_URL is not configured.');
+    }
+    pool = new Pool({ connectionString: env.DATABASE_URL });
+  }
+  return pool;
+}
+
+// Replaces the pool used by every Postgres-backed module. Pass null to go back
+// to DATABASE_URL (or to the file-based backends when it is not set).
+export function setDatabasePool(next: Pool | null): void {
+  pool = next;
+  injected = next !== null;
+}
+
+// Runs fn inside a transaction on a dedicated connection.
+export async function withTransaction<R>(fn: (client: PoolClient) => Promise<R>): Promise<R> {
+  const client = await getDatabasePool().connect();
+  try {
+    await client.query('BEGIN');
+    const result = await fn(client);
+    await client.query('COMMIT');
+    return result;
+  } catch (error) {
+    await client.query('ROLLBACK');
+    throw error;
+  } finally {
+    client.release();
+  }
+}
+
+// The tables from src/supabase/schema.sql in a form that runs on plain Postgres:
+// user ids are the application's own text ids rather than Supabase auth.users
+// uuids, the enum types become checked text columns, and wallets gain a unique
+// user_id plus an `extra` column for the document fields that have no dedicated
+// column (squad, reward claims, pending deposits).
+export const DATABASE_SCHEMA = `
+create table if not exists profiles (
+  user_id text primary key,
+  created_at timestamp with time zone not null default now(),
+  username text not null unique,
+  full_name text,
+  avatar_url text,
+  contact_number text,
+  country text,
+  referral_code text,
+  squad_leader_id text,
+  id_card_no text,
+  address text,
+  date_of_birth date,
+  id_card_front_url text,
+  id_card_back_url text
+);
+
+create table if not exists wallets (
+  id uuid primary key,
+  user_id text not null unique,
+  created_at timestamp with time zone not null default now(),
+  balances jsonb not null default '{"usdt": 0, "btc": 0, "eth": 0}'::jsonb,
+  addresses jsonb not null default '{"usdt": ""}'::jsonb,
+  security jsonb not null default '{}'::jsonb,
+  growth jsonb not null default '{}'::jsonb,
+  verification_status text not null default 'unverified',
+  pending_withdrawals jsonb[] not null default '{}'::jsonb[],
+  extra jsonb not null default '{}'::jsonb
+);
+
+create table if not exists messages (
+  id uuid primary key,
+  user_id text not null,
+  created_at timestamp with time zone not null default now(),
+  timestamp timestamp with time zone not null default now(),
+  sender text not null check (sender in ('user', 'admin')),
+  text text not null,
+  silent boolean not null default false,
+  file_url text
+);
+create index if not exists idx_messages_user_id on messages (user_id);
+
+create table if not exists notifications (
+  id uuid primary key,
+  user_id text not null,
+  created_at timestamp with time zone not null default now(),
+  title text not null,
+  content text not null,
+  read boolean not null default false,
+  href text
+);
+
+create table if not exists settings (
+  key text primary key,
+  value jsonb,
+  created_at timestamp with time zone not null default now()
+);
+
+create table if not exists support_threads (
+  user_id text primary key,
+  created_at timestamp with time zone not null default now(),
+  handler_id text
+);
+
+create table if not exists action_logs (
+  id uuid primary key,
+  created_at timestamp with time zone not null default now(),
+  user_id text not null,
+  action text not null,
+  metadata jsonb
+);
+create index if not exists idx_action_logs_created_at on action_logs (created_at);
+
+create table if not exists promotions (
+  id uuid primary key,
+  created_at timestamp with time zone not null default now(),
+  title text not null,
+  description text not null,
+  image_url text,
+  status text not null check (status in ('Upcoming', 'Active', 'Expired'))
+);
+`;
+
+export async function ensureDatabaseSchema(db: Queryable = getDatabasePool()): Promise<void> {
+  await db.query(DATABASE_SCHEMA);
+}
@@ -0,0 +1,125 @@
+import { addNotification } from './notifications';
+import { creditUser } from './ledger';
+import { getWalletStore } from './wallet-store';
+import type { PendingDeposit, WalletData } from './wallet-schema';
+
+// Staff review of deposit requests. A request stays in wallet.pending_deposits
+// while it is "pending" or "info_requested" (waiting on the user); approving
+// or rejecting it moves it to wallet.deposit_history. Every change is added to
+// the request's history, and rejections and requests for information must
+// come with a reason, which is passed on to the user.
+
+export type DepositStatus = 'pending' | 'info_requested' | 'approved' | 'rejected';
+
+export type DepositReviewAction = 'approve' | 'reject' | 'request_info';
+
+const ACTION_STATUS: Record<DepositReviewAction, DepositStatus> = {
+  approve: 'approved',
+  reject: 'rejected',
+  request_info: 'info_requested',
+};
+
+const MAX_REASON_LENGTH = 500;
+const DEPOSIT_NOT_PENDING = 'Deposit request is no longer pending.';
+
+export type DepositReviewResult = {
+  error?: string;
+  notFound?: boolean;
+  deposit?: PendingDeposit;
+};
+
+export async function reviewDeposit(
+  userId: string,
+  depositId: string,
+  review: { action: DepositReviewAction; reviewerId: string; reason?: unknown }
+): Promise<DepositReviewResult> {
+  const status = ACTION_STATUS[review.action];
+  const reason = typeof review.reason === 'string' ? review.reason.trim() : '';
+  if (review.action !== 'approve' && !reason) return { error: 'A reason is required.' };
+  if (reason.length > MAX_REASON_LENGTH) return { error: `The reason must be at most ${MAX_REASON_LENGTH} characters.` };
+
+  const found = await getWalletStore().get(userId);
+  if (!found) return { error: 'User not found', notFound: true };
+  const requested = (found.pending_deposits || []).find(candidate => candidate.id === depositId);
+  if (!requested) return { error: 'Deposit request not found', notFound: true };
+
+  let reviewed: PendingDeposit | undefined;
+  let alreadyInStatus = false;
+  const applyReview = (current: WalletData): WalletData => {
+    const pending = current.pending_deposits || [];
+    const deposit = pending.find(candidate => candidate.id === depositId);
+    if (!deposit) return current;
+    if (deposit.status === status) {
+      alreadyInStatus = true;
+      return current;
+    }
+
+    const at = new Date().toISOString();
+    const updated: PendingDeposit = {
+      ...deposit,
+      status,
+      reason: reason || undefined,
+      history: [
+        ...(deposit.history || [{ status: deposit.status, at: deposit.timestamp }]),
+        { status, at, by: review.reviewerId, reason: reason || undefined },
+      ],
+    };
+    reviewed = updated;
+    if (status === 'info_requested') {
+      return { ...current, pending_deposits: pending.map(candidate => (candidate.id === depositId ? updated : candidate)) };
+    }
+    return {
+      ...current,
+      pending_deposits: pending.filter(candidate => candidate.id !== depositId),
+      deposit_history: [...(current.deposit_history || []), updated],
+    };
+  };
+
+  if (status === 'approved') {
+    // The request leaves pending_deposits in the same booking that credits it,
+    // so an approval is credited exactly once, or not at all if it fails.
+    try {
+      await creditUser(
+        userId,
+        { type: 'deposit', referenceId: requested.id, asset: requested.asset, amount: requested.amount, actor: review.reviewerId },
+        current => {
+          const updated = applyReview(current);
+          if (!reviewed) throw new Error(DEPOSIT_NOT_PENDING);
+          return updated;
+        }
+      );
+    } catch (error: any) {
+      if (error?.message === DEPOSIT_NOT_PENDING) return { error: 'Deposit request not found', notFound: true };
+      throw error;
+    }
+  } else {
+    const wallet = await getWalletStore().update(userId, applyReview);
+    if (!wallet) return { error: 'User not found', notFound: true };
+  }
+  if (alreadyInStatus) return { error: 'More information has already been requested for this deposit.' };
+  if (!reviewed) return { error: 'Deposit request not found', notFound: true };
+  const deposit: PendingDeposit = reviewed;
+
+  const amount = `${deposit.amount} ${deposit.asset.toUpperCase()}`;
+  if (status === 'approved') {
+    await addNotification(userId, {
+      title: 'Deposit Approved',
+      content: `Your deposit of ${amount} has been approved and credited to your account.`,
+      href: '/dashboard/deposit',
+    });
+  } else if (status === 'rejected') {
+    await addNotification(userId, {
+      title: 'Deposit Rejected',
+      content: `Your deposit of ${amount} was rejected: ${reason}`,
+      href: '/dashboard/deposit',
+    });
+  } else {
+    await addNotification(userId, {
+      title: 'More Information Needed',
+      content: `We need more information about your deposit of ${amount}: ${reason} Please reply through support chat.`,
+      href: '/dashboard/support',
+    });
+  }
+
+  return { deposit };
+}
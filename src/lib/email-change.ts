@@ -0,0 +1,131 @@
+import { createHash, randomBytes, timingSafeEqual } from 'crypto';
+import { getUserById, isEmailTaken, setUserEmail, verifyUserPassword, withUser } from './auth-server';
+import { checkEmailCode, emailCodeTtlMinutes, issueEmailCode } from './email-codes';
+import { sendMail } from './mailer';
+import { addNotification } from './notifications';
+import { logSecurityEvent } from './security';
+import { updateUserSessionsEmail } from './session';
+
+// Changing the login email. Asking for a change (with the account password)
+// emails a code to the new address and a cancel link to the current one; the
+// address on the account only changes once the code is confirmed. Addresses
+// are checked for uniqueness when the change is asked for and again when it
+// is confirmed.
+
+export type EmailChangeStatus = {
+  email: string;
+  requestedAt: string;
+  expiresAt: string;
+};
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+const hashToken = (token: string) => createHash('sha256').update(token).digest('hex');
+
+export async function getEmailChangeStatus(userId: string): Promise<EmailChangeStatus | null> {
+  const pending = (await getUserById(userId))?.pendingEmailChange;
+  if (!pending || new Date(pending.code.expiresAt).getTime() <= Date.now()) return null;
+  return { email: pending.email, requestedAt: pending.requestedAt, expiresAt: pending.code.expiresAt };
+}
+
+// baseUrl is where the cancel link points, e.g. https://example.com.
+export async function requestEmailChange(
+  userId: string,
+  details: { newEmail: unknown; password: string; baseUrl: string }
+): Promise<{ error?: string; status?: EmailChangeStatus }> {
+  const newEmail = typeof details.newEmail === 'string' ? details.newEmail.trim().toLowerCase() : '';
+  if (!EMAIL_PATTERN.test(newEmail)) return { error: 'A valid email address is required.' };
+  if (!(await verifyUserPassword(userId, details.password))) return { error: 'Incorrect account password.' };
+  if (await isEmailTaken(newEmail, userId)) return { error: 'An account with this email address already exists.' };
+
+  const { code, record } = issueEmailCode();
+  const cancelToken = randomBytes(32).toString('base64url');
+  const currentEmail = await withUser(userId, user => {
+    if (user.email.toLowerCase() === newEmail) return null;
+    user.pendingEmailChange = {
+      email: newEmail,
+      code: record,
+      cancelTokenHash: hashToken(cancelToken),
+      requestedAt: new Date().toISOString(),
+    };
+    return user.email;
+  });
+  if (!currentEmail) return { error: 'This is already your email address.' };
+
+  const cancelUrl = `${details.baseUrl}/email-change/cancel?user=${encodeURIComponent(userId)}&token=${encodeURIComponent(cancelToken)}`;
+  await sendMail({
+    to: newEmail,
+    subject: 'Confirm your new email address',
+    text: `Your confirmation code is ${code}.\n\nEnter it on the Security page to use this address for your account. It expires in ${emailCodeTtlMinutes()} minutes.`,
+  });
+  await sendMail({
+    to: currentEmail,
+    subject: 'Your email address is being changed',
+    text: `Someone asked to change the email address of your account to ${newEmail}.\n\nIf this wasn't you, cancel the change here and change your password:\n${cancelUrl}`,
+  });
+  logSecurityEvent('email_change_requested', { userId, newEmail });
+
+  return { status: (await getEmailChangeStatus(userId)) || undefined };
+}
+
+export async function confirmEmailChange(userId: string, code: string): Promise<{ error?: string; email?: string; tooManyAttempts?: boolean }> {
+  const checked = await withUser(userId, user => {
+    const pending = user.pendingEmailChange;
+    if (!pending) return { error: 'There is no email change to confirm.' };
+    const check = checkEmailCode(pending.code, code);
+    if (check === 'valid') {
+      user.pendingEmailChange = undefined;
+      return { email: pending.email };
+    }
+    if (check === 'invalid') return { error: 'Invalid confirmation code.' };
+    // Expired or used up: the change has to be asked for again.
+    user.pendingEmailChange = undefined;
+    return {
+      error: check === 'expired'
+        ? 'This code has expired. Please request the change again.'
+        : 'Too many incorrect attempts. Please request the change again.',
+      tooManyAttempts: check === 'exhausted',
+    };
+  });
+  if (!checked) return { error: 'User not found.' };
+  if (!checked.email) return checked;
+
+  const result = await setUserEmail(userId, checked.email);
+  if (result.error) return { error: result.error };
+
+  await updateUserSessionsEmail(userId, checked.email);
+  logSecurityEvent('email_changed', { userId, previousEmail: result.previousEmail, email: checked.email });
+  await addNotification(userId, {
+    title: 'Email Address Changed',
+    content: `Your login email is now ${checked.email}. If this wasn't you, contact support immediately.`,
+    href: '/dashboard/security',
+  });
+  if (result.previousEmail) {
+    await sendMail({
+      to: result.previousEmail,
+      subject: 'Your email address was changed',
+      text: `The email address of your account was changed to ${checked.email}. If this wasn't you, contact support immediately.`,
+    });
+  }
+  return { email: checked.email };
+}
+
+// Cancels a pending change, either from the signed-in account or with the
+// token from the link sent to the current address.
+export async function cancelEmailChange(userId: string, token?: string): Promise<{ error?: string }> {
+  const cancelled = await withUser(userId, user => {
+    const pending = user.pendingEmailChange;
+    if (!pending) return false;
+    if (token !== undefined) {
+      const expected = Buffer.from(pending.cancelTokenHash, 'hex');
+      const actual = Buffer.from(hashToken(token), 'hex');
+      if (!timingSafeEqual(expected, actual)) return false;
+    }
+    user.pendingEmailChange = undefined;
+    return true;
+  });
+  if (!cancelled) return { error: 'This email change has already been completed, cancelled or has expired.' };
+
+  logSecurityEvent('email_change_cancelled', { userId, viaLink: token !== undefined });
+  return {};
+}
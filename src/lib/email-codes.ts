@@ -0,0 +1,53 @@
+import { createHash, randomInt } from 'crypto';
+import { env } from './env';
+
+// One-time codes sent by email for address verification and password resets.
+// A code is six random digits; only its hash is kept on the user record, with
+// an expiry and a count of the wrong guesses made against it. After
+// VERIFICATION_CODE_MAX_ATTEMPTS wrong guesses the code stops working and a
+// new one has to be requested.
+
+export type EmailCode = {
+  hash: string;
+  expiresAt: string;
+  attempts: number;
+};
+
+export type EmailCodeCheck = 'valid' | 'invalid' | 'expired' | 'exhausted';
+
+export function emailCodeTtlMinutes(): number {
+  return Number(env.VERIFICATION_CODE_TTL_MINUTES) || 15;
+}
+
+function maxAttempts(): number {
+  return Number(env.VERIFICATION_CODE_MAX_ATTEMPTS) || 5;
+}
+
+function hashCode(code: string): string {
+  return createHash('sha256').update(code).digest('hex');
+}
+
+export function issueEmailCode(): { code: string; record: EmailCode } {
+  const code = randomInt(0, 1_000_000).toString().padStart(6, '0');
+  return {
+    code,
+    record: {
+      hash: hashCode(code),
+      expiresAt: new Date(Date.now() + emailCodeTtlMinutes() * 60 * 1000).toISOString(),
+      attempts: 0,
+    },
+  };
+}
+
+// Checks a submitted code and counts a wrong guess on the record, so callers
+// must save the record afterwards (they run inside the users file transaction).
+// Codes stored before they were hashed are plain strings and never match.
+export function checkEmailCode(record: EmailCode | undefined, code: string): EmailCodeCheck {
+  if (!record || typeof record !== 'object') return 'invalid';
+  if (new Date(record.expiresAt).getTime() <= Date.now()) return 'expired';
+  if (record.attempts >= maxAttempts()) return 'exhausted';
+
+  if (hashCode(code.trim()) === record.hash) return 'valid';
+  record.attempts += 1;
+  return record.attempts >= maxAttempts() ? 'exhausted' : 'invalid';
+}
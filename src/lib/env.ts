@@ -12,16 +12,28 @@ const envSchema = z.object({
   JWT_SECRET: z.string().min(32, 'JWT_SECRET must be at least 32 characters'),
   NEXTAUTH_SECRET: z.string().min(32, 'NEXTAUTH_SECRET must be at least 32 characters'),
   NEXTAUTH_URL: z.string().url().optional(),
+  STAFF_INVITE_TTL_HOURS: z.coerce.number().positive().default(72),
+  BACKUP_ENCRYPTION_KEY: z.string().min(32, 'BACKUP_ENCRYPTION_KEY must be at least 32 characters').optional(),
   
   // Database
   DATABASE_URL: z.string().optional(),
   POSTGRES_URL: z.string().optional(),
+  WALLET_STORE: z.enum(['json', 'sqlite']).default('json'),
+  WALLET_STORE_PATH: z.string().optional(),
+  
+  // Requests
+  IDEMPOTENCY_KEY_TTL_HOURS: z.coerce.number().positive().default(24),
+  API_TOKEN_RATE_LIMIT_PER_MINUTE: z.coerce.number().int().positive().default(60),
   
   // Email
   SMTP_HOST: z.string().optional(),
   SMTP_PORT: z.coerce.number().optional(),
   SMTP_USER: z.string().email().optional(),
   SMTP_PASS: z.string().optional(),
+  MAIL_FROM: z.string().optional(),
+  MAIL_TRANSPORT: z.enum(['smtp', 'file', 'console']).optional(),
+  VERIFICATION_CODE_TTL_MINUTES: z.coerce.number().positive().default(15),
+  VERIFICATION_CODE_MAX_ATTEMPTS: z.coerce.number().int().positive().default(5),
   
   // Feature Flags
   NEXT_PUBLIC_ENABLE_TRADING: z.coerce.boolean().default(true),
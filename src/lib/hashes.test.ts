@@ -0,0 +1,45 @@
+import assert from 'node:assert/strict';
+import { createHash } from 'node:crypto';
+import { describe, it } from 'node:test';
+import { keccak256, sha256 } from './hashes';
+
+const hex = (bytes: Uint8Array) => Buffer.from(bytes).toString('hex');
+const utf8 = (text: string) => new TextEncoder().encode(text);
+
+describe('sha256', () => {
+  it('matches the NIST FIPS 180-2 examples', () => {
+    assert.equal(hex(sha256(utf8(''))), 'e3b0c44298fc1c149afbf4c8996fb92427ae41e4649b934ca495991b7852b855');
+    assert.equal(hex(sha256(utf8('abc'))), 'ba7816bf8f01cfea414140de5dae2223b00361a396177a9cb410ff61f20015ad');
+    assert.equal(
+      hex(sha256(utf8('abcdbcdecdefdefgefghfghighijhijkijkljklmklmnlmnomnopnopq'))),
+      '248d6a61d20638b8e5c026930c3e6039a33ce45964ff2167f6ecedd419db06c1'
+    );
+    assert.equal(hex(sha256(utf8('a'.repeat(1_000_000)))), 'cdc76e5c9914fb9281a1c7e284d73e67f1809a48a497200e046d39ccc7112cd0');
+  });
+
+  it('agrees with node:crypto around the block and padding boundaries', () => {
+    for (let length = 0; length <= 130; length++) {
+      const data = Uint8Array.from({ length }, (_, i) => (i * 31 + length) & 0xff);
+      assert.equal(hex(sha256(data)), createHash('sha256').update(data).digest('hex'), `length ${length}`);
+    }
+  });
+});
+
+describe('keccak256', () => {
+  it('matches the original Keccak-256 digests used by Ethereum', () => {
+    assert.equal(hex(keccak256(utf8(''))), 'c5d2460186f7233c927e7db2dcc703c0e500b653ca82273b7bfad8045d85a470');
+    assert.equal(hex(keccak256(utf8('abc'))), '4e03657aea45a94fc7d47ba826c8d667c0d1e6e33a64a036ec44f58fa12d6c45');
+    assert.equal(
+      hex(keccak256(utf8('The quick brown fox jumps over the lazy dog'))),
+      '4d741b6f1eb29cb2a9b9911c82f56fa8d73b04959d3d9d222895df6c0b28aa15'
+    );
+    assert.equal(
+      hex(keccak256(utf8('transfer(address,uint256)'))),
+      'a9059cbb2ab09eb219583f4a59a5d0623ade346d962bcd4e46b11da047c9049b'
+    );
+  });
+
+  it('differs from FIPS 202 SHA3-256, which pads differently', () => {
+    assert.notEqual(hex(keccak256(utf8('abc'))), createHash('sha3-256').update('abc').digest('hex'));
+  });
+});
@@ -0,0 +1,141 @@
+// SHA-256 and Keccak-256 in plain TypeScript, for code that also runs in the
+// browser (address checksums in address-validation.ts). Server-only code
+// should keep using the crypto module. Inputs are short, so these favour
+// clarity over speed.
+
+const SHA256_K = new Uint32Array([
+  0x428a2f98, 0x71374491, 0xb5c0fbcf, 0xe9b5dba5, 0x3956c25b, 0x59f111f1, 0x923f82a4, 0xab1c5ed5,
+  0xd807aa98, 0x12835b01, 0x243185be, 0x550c7dc3, 0x72be5d74, 0x80deb1fe, 0x9bdc06a7, 0xc19bf174,
+  0xe49b69c1, 0xefbe4786, 0x0fc19dc6, 0x240ca1cc, 0x2de92c6f, 0x4a7484aa, 0x5cb0a9dc, 0x76f988da,
+  0x983e5152, 0xa831c66d, 0xb00327c8, 0xbf597fc7, 0xc6e00bf3, 0xd5a79147, 0x06ca6351, 0x14292967,
+  0x27b70a85, 0x2e1b2138, 0x4d2c6dfc, 0x53380d13, 0x650a7354, 0x766a0abb, 0x81c2c92e, 0x92722c85,
+  0xa2bfe8a1, 0xa81a664b, 0xc24b8b70, 0xc76c51a3, 0xd192e819, 0xd6990624, 0xf40e3585, 0x106aa070,
+  0x19a4c116, 0x1e376c08, 0x2748774c, 0x34b0bcb5, 0x391c0cb3, 0x4ed8aa4a, 0x5b9cca4f, 0x682e6ff3,
+  0x748f82ee, 0x78a5636f, 0x84c87814, 0x8cc70208, 0x90befffa, 0xa4506ceb, 0xbef9a3f7, 0xc67178f2,
+]);
+
+const rotr = (value: number, bits: number) => (value >>> bits) | (value << (32 - bits));
+
+export function sha256(data: Uint8Array): Uint8Array {
+  // Pad with 0x80, zeros and the message length in bits to a multiple of 64 bytes.
+  const length = Math.ceil((data.length + 9) / 64) * 64;
+  const message = new Uint8Array(length);
+  message.set(data);
+  message[data.length] = 0x80;
+  const view = new DataView(message.buffer);
+  view.setUint32(length - 8, Math.floor(data.length / 0x20000000));
+  view.setUint32(length - 4, data.length * 8);
+
+  const hash = new Uint32Array([0x6a09e667, 0xbb67ae85, 0x3c6ef372, 0xa54ff53a, 0x510e527f, 0x9b05688c, 0x1f83d9ab, 0x5be0cd19]);
+  const w = new Uint32Array(64);
+  for (let offset = 0; offset < length; offset += 64) {
+    for (let i = 0; i < 16; i++) w[i] = view.getUint32(offset + i * 4);
+    for (let i = 16; i < 64; i++) {
+      const s0 = rotr(w[i - 15], 7) ^ rotr(w[i - 15], 18) ^ (w[i - 15] >>> 3);
+      const s1 = rotr(w[i - 2], 17) ^ rotr(w[i - 2], 19) ^ (w[i - 2] >>> 10);
+      w[i] = w[i - 16] + s0 + w[i - 7] + s1;
+    }
+
+    let [a, b, c, d, e, f, g, h] = hash;
+    for (let i = 0; i < 64; i++) {
+      const t1 = (h + (rotr(e, 6) ^ rotr(e, 11) ^ rotr(e, 25)) + ((e & f) ^ (~e & g)) + SHA256_K[i] + w[i]) >>> 0;
+      const t2 = ((rotr(a, 2) ^ rotr(a, 13) ^ rotr(a, 22)) + ((a & b) ^ (a & c) ^ (b & c))) >>> 0;
+      h = g;
+      g = f;
+      f = e;
+      e = (d + t1) >>> 0;
+      d = c;
+      c = b;
+      b = a;
+      a = (t1 + t2) >>> 0;
+    }
+    hash[0] += a;
+    hash[1] += b;
+    hash[2] += c;
+    hash[3] += d;
+    hash[4] += e;
+    hash[5] += f;
+    hash[6] += g;
+    hash[7] += h;
+  }
+
+  const digest = new Uint8Array(32);
+  const digestView = new DataView(digest.buffer);
+  hash.forEach((word, i) => digestView.setUint32(i * 4, word));
+  return digest;
+}
+
+const MASK_64 = (BigInt(1) << BigInt(64)) - BigInt(1);
+
+const KECCAK_ROUND_CONSTANTS = [
+  '0000000000000001', '0000000000008082', '800000000000808a', '8000000080008000',
+  '000000000000808b', '0000000080000001', '8000000080008081', '8000000000008009',
+  '000000000000008a', '0000000000000088', '0000000080008009', '000000008000000a',
+  '000000008000808b', '800000000000008b', '8000000000008089', '8000000000008003',
+  '8000000000008002', '8000000000000080', '000000000000800a', '800000008000000a',
+  '8000000080008081', '8000000000008080', '0000000080000001', '8000000080008008',
+].map(constant => BigInt(`0x${constant}`));
+
+// Rotation offsets of each lane, indexed by x + 5 * y.
+const KECCAK_ROTATIONS = [
+  0, 1, 62, 28, 27,
+  36, 44, 6, 55, 20,
+  3, 10, 43, 25, 39,
+  41, 45, 15, 21, 8,
+  18, 2, 61, 56, 14,
+].map(BigInt);
+
+const rotl64 = (value: bigint, bits: bigint) => ((value << bits) | (value >> (BigInt(64) - bits))) & MASK_64;
+
+function keccakF1600(state: bigint[]): void {
+  for (const roundConstant of KECCAK_ROUND_CONSTANTS) {
+    // Theta
+    const columns = [0, 1, 2, 3, 4].map(x => state[x] ^ state[x + 5] ^ state[x + 10] ^ state[x + 15] ^ state[x + 20]);
+    for (let x = 0; x < 5; x++) {
+      const d = columns[(x + 4) % 5] ^ rotl64(columns[(x + 1) % 5], BigInt(1));
+      for (let y = 0; y < 25; y += 5) state[x + y] ^= d;
+    }
+    // Rho and pi
+    const moved = new Array<bigint>(25);
+    for (let x = 0; x < 5; x++) {
+      for (let y = 0; y < 5; y++) {
+        moved[y + 5 * ((2 * x + 3 * y) % 5)] = rotl64(state[x + 5 * y], KECCAK_ROTATIONS[x + 5 * y]);
+      }
+    }
+    // Chi
+    for (let y = 0; y < 25; y += 5) {
+      for (let x = 0; x < 5; x++) {
+        state[x + y] = moved[x + y] ^ (~moved[((x + 1) % 5) + y] & moved[((x + 2) % 5) + y]);
+      }
+    }
+    // Iota
+    state[0] ^= roundConstant;
+  }
+}
+
+// Keccak-256 as used by Ethereum: the original Keccak padding, not SHA3-256's.
+export function keccak256(data: Uint8Array): Uint8Array {
+  const rate = 136;
+  const padded = new Uint8Array(Math.floor(data.length / rate) * rate + rate);
+  padded.set(data);
+  padded[data.length] ^= 0x01;
+  padded[padded.length - 1] ^= 0x80;
+
+  const state = new Array<bigint>(25).fill(BigInt(0));
+  for (let offset = 0; offset < padded.length; offset += rate) {
+    for (let lane = 0; lane < rate / 8; lane++) {
+      let value = BigInt(0);
+      for (let byte = 7; byte >= 0; byte--) {
+        value = (value << BigInt(8)) | BigInt(padded[offset + lane * 8 + byte]);
+      }
+      state[lane] ^= value;
+    }
+    keccakF1600(state);
+  }
+
+  const digest = new Uint8Array(32);
+  for (let i = 0; i < 32; i++) {
+    digest[i] = Number((state[Math.floor(i / 8)] >> BigInt((i % 8) * 8)) & BigInt(0xff));
+  }
+  return digest;
+}
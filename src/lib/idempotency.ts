@@ -0,0 +1,127 @@
+import { createHash } from 'crypto';
+import { NextResponse } from 'next/server';
+import { dataFilePath, withFileTransaction } from './data-file';
+import { env } from './env';
+
+// Idempotency-Key support for POST routes that move money. The first response
+// for a key is stored per user (data/idempotency-keys.json) for
+// IDEMPOTENCY_KEY_TTL_HOURS. A retry with the same body gets that response
+// replayed; reusing the key for a different body, or while the first request is
+// still running, is answered with 409.
+
+const IDEMPOTENCY_FILE = dataFilePath('idempotency-keys.json');
+const MAX_KEY_LENGTH = 255;
+
+export const IDEMPOTENCY_HEADER = 'Idempotency-Key';
+
+type IdempotencyRecord = {
+  requestHash: string;
+  createdAt: number;
+  // Absent while the first request is still being processed.
+  response?: {
+    status: number;
+    body: unknown;
+  };
+};
+
+type IdempotencyRecords = Record<string, IdempotencyRecord>;
+
+function ttlMs(): number {
+  return (Number(env.IDEMPOTENCY_KEY_TTL_HOURS) || 24) * 60 * 60 * 1000;
+}
+
+function pruneExpired(records: IdempotencyRecords, now: number) {
+  for (const [id, record] of Object.entries(records)) {
+    if (now - record.createdAt > ttlMs()) {
+      delete records[id];
+    }
+  }
+}
+
+function hashRequest(request: Request, body: string): string {
+  return createHash('sha256')
+    .update(`${request.method} ${new URL(request.url).pathname}\n${body}`)
+    .digest('hex');
+}
+
+// Runs handler at most once per Idempotency-Key and user. Requests without the
+// header are passed straight through. Server errors (5xx) are not stored, so the
+// client can retry them with the same key.
+export async function withIdempotency(
+  request: Request,
+  userId: string,
+  handler: () => Promise<NextResponse>
+): Promise<NextResponse> {
+  const key = request.headers.get(IDEMPOTENCY_HEADER);
+  if (key === null) {
+    return handler();
+  }
+  if (!key || key.length > MAX_KEY_LENGTH) {
+    return NextResponse.json(
+      { error: `${IDEMPOTENCY_HEADER} must be between 1 and ${MAX_KEY_LENGTH} characters.` },
+      { status: 400 }
+    );
+  }
+
+  const recordId = `${userId}:${key}`;
+  const requestHash = hashRequest(request, await request.clone().text());
+
+  const existing = await withFileTransaction<IdempotencyRecords, IdempotencyRecord | null>(
+    IDEMPOTENCY_FILE,
+    records => {
+      const now = Date.now();
+      pruneExpired(records, now);
+      if (records[recordId]) {
+        return records[recordId];
+      }
+      records[recordId] = { requestHash, createdAt: now };
+      return null;
+    }
+  );
+
+  if (existing) {
+    if (existing.requestHash !== requestHash) {
+      return NextResponse.json(
+        { error: `${IDEMPOTENCY_HEADER} has already been used for a different request.` },
+        { status: 409 }
+      );
+    }
+    if (!existing.response) {
+      return NextResponse.json(
+        { error: 'A request with this Idempotency-Key is still being processed.' },
+        { status: 409 }
+      );
+    }
+    return NextResponse.json(existing.response.body, {
+      status: existing.response.status,
+      headers: { 'Idempotent-Replayed': 'true' },
+    });
+  }
+
+  let response: NextResponse;
+  try {
+    response = await handler();
+  } catch (error) {
+    await releaseKey(recordId);
+    throw error;
+  }
+
+  if (response.status >= 500) {
+    await releaseKey(recordId);
+    return response;
+  }
+
+  const body = await response.clone().json().catch(() => null);
+  await withFileTransaction<IdempotencyRecords>(IDEMPOTENCY_FILE, records => {
+    if (records[recordId]) {
+      records[recordId].response = { status: response.status, body };
+    }
+  });
+  return response;
+}
+
+async function releaseKey(recordId: string): Promise<void> {
+  await withFileTransaction<IdempotencyRecords>(IDEMPOTENCY_FILE, records => {
+    delete records[recordId];
+  });
+}
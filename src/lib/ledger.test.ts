@@ -0,0 +1,103 @@
+import assert from 'node:assert/strict';
+import { rmSync } from 'node:fs';
+import { after, afterEach, before, beforeEach, describe, it } from 'node:test';
+import { resetTestDatabase, sampleWallet, useTestDatabase, useTestDataDir } from './test-utils';
+
+let ledger: typeof import('./ledger');
+let walletStore: typeof import('./wallet-store');
+let dataDir: string;
+
+const deposit = (amount: number) => ({ type: 'deposit' as const, referenceId: 'dep_1', asset: 'USDT', amount, actor: 'usr_admin' });
+const withdrawal = (amount: number) => ({ type: 'withdrawal' as const, referenceId: 'wd_2', asset: 'usdt', amount, actor: 'usr_alice' });
+
+describe('Ledger postings', () => {
+  before(async () => {
+    dataDir = useTestDataDir();
+    ledger = await import('./ledger');
+    walletStore = await import('./wallet-store');
+  });
+  after(() => rmSync(dataDir, { recursive: true, force: true }));
+  beforeEach(async () => {
+    await useTestDatabase();
+    await walletStore.getWalletStore().put('usr_alice', sampleWallet('alice'));
+  });
+  afterEach(() => {
+    resetTestDatabase();
+    rmSync(`${dataDir}/data`, { recursive: true, force: true });
+  });
+
+  it('books the existing balance as an opening entry, then a balanced credit', async () => {
+    assert.equal(await ledger.creditUser('usr_alice', deposit(10)), 135.5);
+
+    const entries = await ledger.getAllLedgerEntries();
+    assert.deepEqual(
+      entries.map(entry => [entry.type, entry.account, entry.direction, entry.amount]),
+      [
+        ['opening_balance', 'platform:opening_balances', 'debit', 125.5],
+        ['opening_balance', 'user:usr_alice', 'credit', 125.5],
+        ['deposit', 'platform:deposits', 'debit', 10],
+        ['deposit', 'user:usr_alice', 'credit', 10],
+      ]
+    );
+    assert.ok(entries.every(entry => entry.asset === 'usdt'));
+    assert.equal(entries[2].transactionId, entries[3].transactionId);
+    assert.equal((await walletStore.getWalletStore().get('usr_alice'))?.balances.usdt, 135.5);
+    assert.deepEqual(await ledger.getLedgerBalances('usr_alice'), { usdt: 135.5 });
+  });
+
+  it('debits the wallet and refuses to overdraw it', async () => {
+    assert.equal(await ledger.debitUser('usr_alice', withdrawal(25.5)), 100);
+    await assert.rejects(ledger.debitUser('usr_alice', withdrawal(100.01)), { message: ledger.INSUFFICIENT_BALANCE });
+
+    assert.equal((await walletStore.getWalletStore().get('usr_alice'))?.balances.usdt, 100);
+    assert.equal((await ledger.getLedgerEntriesForUser('usr_alice')).length, 2);
+  });
+
+  it('rejects amounts that are not positive numbers', async () => {
+    for (const amount of [0, -5, Number.NaN]) {
+      await assert.rejects(ledger.creditUser('usr_alice', deposit(amount)), /must be positive/);
+    }
+    assert.deepEqual(await ledger.getAllLedgerEntries(), []);
+  });
+
+  it('stores the change in the same wallet update as the balance', async () => {
+    await ledger.debitUser('usr_alice', withdrawal(20), wallet => ({
+      ...wallet,
+      pending_withdrawals: [...wallet.pending_withdrawals, { ...wallet.pending_withdrawals[0], id: 'wd_2' }],
+    }));
+
+    const wallet = await walletStore.getWalletStore().get('usr_alice');
+    assert.equal(wallet?.balances.usdt, 105.5);
+    assert.deepEqual(wallet?.pending_withdrawals.map(request => request.id), ['wd_1', 'wd_2']);
+  });
+
+  it('books nothing when the change throws or the wallet is missing', async () => {
+    await assert.rejects(
+      ledger.creditUser('usr_alice', deposit(10), () => {
+        throw new Error('Deposit request not found');
+      }),
+      /Deposit request not found/
+    );
+    assert.equal((await walletStore.getWalletStore().get('usr_alice'))?.balances.usdt, 125.5);
+    assert.deepEqual(await ledger.getAllLedgerEntries(), []);
+
+    await assert.rejects(ledger.creditUser('usr_nobody', deposit(10)), { message: ledger.WALLET_NOT_FOUND });
+    assert.deepEqual(await ledger.getAllLedgerEntries(), []);
+  });
+
+  it('reports wallet balances that drifted from the ledger', async () => {
+    await ledger.creditUser('usr_alice', deposit(10));
+    await walletStore.getWalletStore().update('usr_alice', wallet => ({ ...wallet, balances: { ...wallet.balances, usdt: 140, btc: 0.5 } }));
+
+    const checks = await ledger.checkWalletAgainstLedger('usr_alice');
+    assert.deepEqual(
+      checks.map(check => [check.asset, check.walletBalance, check.ledgerBalance, check.difference]),
+      [
+        ['usdt', 140, 135.5, 4.5],
+        // No BTC history yet: the wallet balance is the opening balance to come
+        ['btc', 0.5, 0.5, 0],
+        ['eth', 0, 0, 0],
+      ]
+    );
+  });
+});
@@ -0,0 +1,230 @@
+import { dataFilePath, readDataFile, readDataFileForUpdate, withFileLock, withFileTransaction, writeFileAtomic } from './data-file';
+import { getWalletByUserId } from './wallet';
+import type { WalletData } from './wallet-schema';
+import { getWalletStore } from './wallet-store';
+
+const LEDGER_FILE_PATH = dataFilePath('ledger.json');
+
+export type LedgerEntryType =
+  | 'opening_balance'
+  | 'deposit'
+  | 'withdrawal'
+  | 'reward'
+  | 'grid_earning'
+  | 'adjustment';
+
+// Accounts are either a user's wallet ("user:<id>") or a platform
+// counter-account ("platform:<name>") that balances the other side.
+export type LedgerAccount = `user:${string}` | `platform:${string}`;
+
+export type LedgerEntry = {
+  id: string;
+  transactionId: string;
+  type: LedgerEntryType;
+  referenceId: string;
+  asset: string;
+  account: LedgerAccount;
+  direction: 'debit' | 'credit';
+  amount: number;
+  actor: string;
+  memo?: string;
+  createdAt: string;
+};
+
+export type LedgerPosting = {
+  type: LedgerEntryType;
+  referenceId: string;
+  asset: string;
+  amount: number;
+  actor: string;
+  memo?: string;
+};
+
+// The platform account that sits on the other side of each kind of user posting.
+const COUNTER_ACCOUNTS: Record<LedgerEntryType, LedgerAccount> = {
+  opening_balance: 'platform:opening_balances',
+  deposit: 'platform:deposits',
+  withdrawal: 'platform:withdrawals',
+  reward: 'platform:rewards',
+  grid_earning: 'platform:grid_trading',
+  adjustment: 'platform:adjustments',
+};
+
+// Thrown by debitUser when the ledger balance does not cover the amount.
+export const INSUFFICIENT_BALANCE = 'Insufficient balance.';
+
+// Thrown when the wallet a posting is booked to does not exist.
+export const WALLET_NOT_FOUND = 'User wallet not found.';
+
+// Further wallet changes to store together with a posting's balance, e.g.
+// recording the withdrawal request that a debit pays for. A change may throw to
+// call the posting off; neither the wallet nor the ledger is written then.
+export type WalletChange = (wallet: WalletData) => WalletData;
+
+export const userAccount = (userId: string): LedgerAccount => `user:${userId}`;
+
+const roundAmount = (amount: number) => Math.round(amount * 1e8) / 1e8;
+
+async function readLedger(): Promise<LedgerEntry[]> {
+  return readDataFile<LedgerEntry[]>(LEDGER_FILE_PATH, []);
+}
+
+function accountBalance(ledger: LedgerEntry[], account: LedgerAccount, asset: string): number {
+  const balance = ledger
+    .filter(entry => entry.account === account && entry.asset === asset)
+    .reduce((sum, entry) => sum + (entry.direction === 'credit' ? entry.amount : -entry.amount), 0);
+  return roundAmount(balance);
+}
+
+// Builds a balanced transfer: one debit and one credit leg of the same amount.
+function buildTransfer(debit: LedgerAccount, credit: LedgerAccount, posting: LedgerPosting): LedgerEntry[] {
+  const amount = roundAmount(posting.amount);
+  if (!Number.isFinite(amount) || amount <= 0) {
+    throw new Error('Ledger amounts must be positive numbers.');
+  }
+
+  const transactionId = `txn_${crypto.randomUUID()}`;
+  const createdAt = new Date().toISOString();
+  const base = {
+    transactionId,
+    type: posting.type,
+    referenceId: posting.referenceId,
+    asset: posting.asset.toLowerCase(),
+    amount,
+    actor: posting.actor,
+    memo: posting.memo,
+    createdAt,
+  };
+
+  return [
+    { ...base, id: `led_${crypto.randomUUID()}`, account: debit, direction: 'debit' },
+    { ...base, id: `led_${crypto.randomUUID()}`, account: credit, direction: 'credit' },
+  ];
+}
+
+// Records a balanced transfer between two accounts.
+export async function postTransfer(
+  debit: LedgerAccount,
+  credit: LedgerAccount,
+  posting: LedgerPosting
+): Promise<LedgerEntry[]> {
+  const entries = buildTransfer(debit, credit, posting);
+  await withFileTransaction<LedgerEntry[]>(LEDGER_FILE_PATH, ledger => {
+    ledger.push(...entries);
+  }, []);
+  return entries;
+}
+
+// Wallets that existed before the ledger get their current balance booked once as an opening entry.
+async function openingBalanceEntries(userId: string, asset: string, ledger: LedgerEntry[]): Promise<LedgerEntry[]> {
+  const account = userAccount(userId);
+  if (ledger.some(entry => entry.account === account && entry.asset === asset)) {
+    return [];
+  }
+
+  const wallet = await getWalletByUserId(userId);
+  const existingBalance = roundAmount(wallet?.balances?.[asset] || 0);
+  if (existingBalance <= 0) {
+    return [];
+  }
+
+  return buildTransfer(COUNTER_ACCOUNTS.opening_balance, account, {
+    type: 'opening_balance',
+    referenceId: `opening:${userId}:${asset}`,
+    asset,
+    amount: existingBalance,
+    actor: 'system',
+  });
+}
+
+// Appends a user posting under the ledger lock and writes the ledger-derived
+// balance, along with any further wallet change, onto the wallet document
+// before the lock is released. The wallet is updated first so that a rejected
+// wallet change leaves the ledger untouched.
+async function bookUserPosting(
+  userId: string,
+  posting: LedgerPosting,
+  legs: (account: LedgerAccount, counter: LedgerAccount) => [LedgerAccount, LedgerAccount],
+  check?: (balance: number, amount: number) => void,
+  change?: WalletChange
+): Promise<number> {
+  const asset = posting.asset.toLowerCase();
+  const account = userAccount(userId);
+
+  return withFileLock(LEDGER_FILE_PATH, async () => {
+    const ledger = await readDataFileForUpdate<LedgerEntry[]>(LEDGER_FILE_PATH, []);
+    const opening = await openingBalanceEntries(userId, asset, ledger);
+    const current = accountBalance([...ledger, ...opening], account, asset);
+    check?.(current, roundAmount(posting.amount));
+
+    const [debit, credit] = legs(account, COUNTER_ACCOUNTS[posting.type]);
+    const updated = [...ledger, ...opening, ...buildTransfer(debit, credit, { ...posting, asset })];
+    const balance = accountBalance(updated, account, asset);
+    const wallet = await getWalletStore().update(userId, current => {
+      const changed = change ? change(current) : current;
+      return { ...changed, balances: { ...changed.balances, [asset]: balance } };
+    });
+    if (!wallet) throw new Error(WALLET_NOT_FOUND);
+    await writeFileAtomic(LEDGER_FILE_PATH, JSON.stringify(updated, null, 2));
+    return balance;
+  });
+}
+
+// Credits a user's wallet from the matching platform account and returns the new balance.
+export async function creditUser(userId: string, posting: LedgerPosting, change?: WalletChange): Promise<number> {
+  return bookUserPosting(userId, posting, (account, counter) => [counter, account], undefined, change);
+}
+
+// Debits a user's wallet to the matching platform account and returns the new balance.
+// Throws INSUFFICIENT_BALANCE if the ledger balance does not cover the amount.
+export async function debitUser(userId: string, posting: LedgerPosting, change?: WalletChange): Promise<number> {
+  return bookUserPosting(
+    userId,
+    posting,
+    (account, counter) => [account, counter],
+    (balance, amount) => {
+      if (balance < amount) {
+        throw new Error(INSUFFICIENT_BALANCE);
+      }
+    },
+    change
+  );
+}
+
+export async function getLedgerEntriesForUser(userId: string): Promise<LedgerEntry[]> {
+  const account = userAccount(userId);
+  const ledger = await readLedger();
+  return ledger.filter(entry => entry.account === account);
+}
+
+export async function getAllLedgerEntries(): Promise<LedgerEntry[]> {
+  return readLedger();
+}
+
+export async function getLedgerBalances(userId: string): Promise<Record<string, number>> {
+  const entries = await getLedgerEntriesForUser(userId);
+  const assets = Array.from(new Set(entries.map(entry => entry.asset)));
+  return Object.fromEntries(assets.map(asset => [asset, accountBalance(entries, userAccount(userId), asset)]));
+}
+
+export type BalanceCheck = {
+  asset: string;
+  walletBalance: number;
+  ledgerBalance: number;
+  difference: number;
+};
+
+// Compares the cached wallet balances against the ledger. Assets with no ledger
+// history yet are compared against zero, except for not-yet-booked opening balances.
+export async function checkWalletAgainstLedger(userId: string): Promise<BalanceCheck[]> {
+  const [wallet, entries] = await Promise.all([getWalletByUserId(userId), getLedgerEntriesForUser(userId)]);
+  const balances: Record<string, number> = wallet?.balances || {};
+  const assets = Array.from(new Set([...Object.keys(balances), ...entries.map(entry => entry.asset)]));
+
+  return assets.map(asset => {
+    const walletBalance = roundAmount(balances[asset] || 0);
+    const hasHistory = entries.some(entry => entry.asset === asset);
+    const ledgerBalance = hasHistory ? accountBalance(entries, userAccount(userId), asset) : walletBalance;
+    return { asset, walletBalance, ledgerBalance, difference: roundAmount(walletBalance - ledgerBalance) };
+  });
+}
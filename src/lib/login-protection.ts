@@ -0,0 +1,171 @@
+import { dataFilePath, readDataFile, withFileTransaction } from './data-file';
+import { addNotification } from './notifications';
+import { logSecurityEvent } from './security';
+
+// Per-account brute-force protection, on top of the per-IP authRateLimit in
+// middleware.ts. Every password attempt is counted on the account before the
+// password is checked. After FREE_ATTEMPTS failures each further attempt has
+// to wait a doubling delay, and MAX_FAILED_ATTEMPTS failures lock the account
+// for LOCKOUT_MS. A completed sign-in, including any second factor, resets the
+// counter; admins can clear a lockout early.
+//
+// The record also remembers the IPs and user agents the account has signed in
+// from, so that a sign-in from a new one can be reported to the owner.
+
+const STATE_FILE = dataFilePath('login-protection.json');
+const FREE_ATTEMPTS = 3;
+const MAX_DELAY_MS = 60 * 1000;
+const MAX_FAILED_ATTEMPTS = 10;
+const LOCKOUT_MS = 15 * 60 * 1000;
+const KNOWN_CLIENTS_LIMIT = 20;
+
+type LoginProtectionRecord = {
+  failedAttempts: number;
+  lastFailedAt?: string;
+  // No new attempt is checked before this time.
+  nextAttemptAt?: string;
+  lockedUntil?: string;
+  knownIps: string[];
+  knownUserAgents: string[];
+};
+
+type LoginProtectionState = Record<string, LoginProtectionRecord>;
+
+export type LoginClient = { ip?: string; userAgent?: string };
+
+export type LoginLockout = {
+  userId: string;
+  failedAttempts: number;
+  lastFailedAt?: string;
+  nextAttemptAt?: string;
+  lockedUntil?: string;
+};
+
+function emptyRecord(): LoginProtectionRecord {
+  return { failedAttempts: 0, knownIps: [], knownUserAgents: [] };
+}
+
+function delayAfter(failedAttempts: number): number {
+  if (failedAttempts < FREE_ATTEMPTS) return 0;
+  return Math.min(1000 * 2 ** (failedAttempts - FREE_ATTEMPTS), MAX_DELAY_MS);
+}
+
+function isFuture(time: string | undefined, now: number): boolean {
+  return !!time && new Date(time).getTime() > now;
+}
+
+function withState<R>(fn: (state: LoginProtectionState) => R): Promise<R> {
+  return withFileTransaction<LoginProtectionState, R>(STATE_FILE, fn, {});
+}
+
+// Reserves an attempt for the account. Returns retryAfter (seconds) when the
+// account is locked or still waiting out its delay; the attempt is not counted then.
+export async function beginLoginAttempt(userId: string): Promise<{ retryAfter?: number; locked?: boolean }> {
+  const now = Date.now();
+  return withState(state => {
+    const record = state[userId] || emptyRecord();
+    const blockedUntil = isFuture(record.lockedUntil, now) ? record.lockedUntil : isFuture(record.nextAttemptAt, now) ? record.nextAttemptAt : undefined;
+    if (blockedUntil) {
+      return { retryAfter: Math.ceil((new Date(blockedUntil).getTime() - now) / 1000), locked: isFuture(record.lockedUntil, now) };
+    }
+
+    record.failedAttempts += 1;
+    record.lockedUntil = undefined;
+    const delay = delayAfter(record.failedAttempts);
+    record.nextAttemptAt = delay ? new Date(now + delay).toISOString() : undefined;
+    state[userId] = record;
+    return {};
+  });
+}
+
+// Called when the reserved attempt had the wrong password. Locks the account
+// once it has reached MAX_FAILED_ATTEMPTS and tells the owner.
+export async function recordLoginFailure(userId: string): Promise<{ lockedUntil?: string }> {
+  const now = Date.now();
+  const lockedUntil = await withState(state => {
+    const record = state[userId];
+    if (!record) return undefined;
+    record.lastFailedAt = new Date(now).toISOString();
+    if (record.failedAttempts < MAX_FAILED_ATTEMPTS) return undefined;
+    record.failedAttempts = 0;
+    record.nextAttemptAt = undefined;
+    record.lockedUntil = new Date(now + LOCKOUT_MS).toISOString();
+    return record.lockedUntil;
+  });
+
+  if (lockedUntil) {
+    logSecurityEvent('account_locked', { userId, lockedUntil });
+    await addNotification(userId, {
+      title: 'Sign-in Locked',
+      content: `Sign-in to your account was locked for ${LOCKOUT_MS / 60000} minutes after ${MAX_FAILED_ATTEMPTS} incorrect passwords. If this wasn't you, consider changing your password.`,
+      href: '/dashboard/security',
+    });
+  }
+  return { lockedUntil };
+}
+
+// Called when the sign-in completes, after the second factor if there is one. Clears the counter.
+export async function recordLoginSuccess(userId: string): Promise<void> {
+  await withState(state => {
+    const record = state[userId];
+    if (!record) return;
+    record.failedAttempts = 0;
+    record.nextAttemptAt = undefined;
+    record.lockedUntil = undefined;
+  });
+}
+
+// Called once a session has been created. Remembers the client and notifies the
+// owner when it signed in from an IP or user agent not seen before. The very
+// first sign-in only records the client.
+export async function recordSignIn(userId: string, client: LoginClient): Promise<void> {
+  const changes = await withState(state => {
+    const record = state[userId] || emptyRecord();
+    state[userId] = record;
+    const firstSignIn = record.knownIps.length === 0 && record.knownUserAgents.length === 0;
+    const newIp = !!client.ip && !record.knownIps.includes(client.ip);
+    const newUserAgent = !!client.userAgent && !record.knownUserAgents.includes(client.userAgent);
+    if (newIp) record.knownIps = [...record.knownIps, client.ip!].slice(-KNOWN_CLIENTS_LIMIT);
+    if (newUserAgent) record.knownUserAgents = [...record.knownUserAgents, client.userAgent!].slice(-KNOWN_CLIENTS_LIMIT);
+    return firstSignIn ? null : { newIp, newUserAgent };
+  });
+
+  if (!changes || (!changes.newIp && !changes.newUserAgent)) return;
+
+  logSecurityEvent('new_login_client', { userId, ...client, ...changes });
+  const details = [
+    changes.newIp ? `IP address ${client.ip}` : null,
+    changes.newUserAgent ? `browser or device "${client.userAgent}"` : null,
+  ].filter(Boolean).join(' and ');
+  await addNotification(userId, {
+    title: 'New Sign-in',
+    content: `Your account was signed in to from a new ${details}. If this wasn't you, change your password and sign out your other sessions.`,
+    href: '/dashboard/security',
+  });
+}
+
+// Accounts with failed attempts outstanding or an active lockout, for the admin panel.
+export async function getLoginLockouts(): Promise<LoginLockout[]> {
+  const now = Date.now();
+  const state = await readDataFile<LoginProtectionState>(STATE_FILE, {});
+  return Object.entries(state)
+    .filter(([, record]) => record.failedAttempts > 0 || isFuture(record.lockedUntil, now))
+    .map(([userId, record]) => ({
+      userId,
+      failedAttempts: record.failedAttempts,
+      lastFailedAt: record.lastFailedAt,
+      nextAttemptAt: isFuture(record.nextAttemptAt, now) ? record.nextAttemptAt : undefined,
+      lockedUntil: isFuture(record.lockedUntil, now) ? record.lockedUntil : undefined,
+    }));
+}
+
+export async function clearLoginLockout(userId: string): Promise<boolean> {
+  return withState(state => {
+    const record = state[userId];
+    if (!record) return false;
+    record.failedAttempts = 0;
+    record.nextAttemptAt = undefined;
+    record.lockedUntil = undefined;
+    return true;
+  });
+}
@@ -0,0 +1,185 @@
+import * as net from 'net';
+import * as tls from 'tls';
+import { dataFilePath, withFileTransaction } from './data-file';
+import { env } from './env';
+
+// Outgoing email. MAIL_TRANSPORT picks how messages leave the app:
+//   smtp    - delivered to SMTP_HOST (the default when SMTP_HOST is set)
+//   file    - appended to data/mail-outbox.json, for local development and tests
+//   console - printed to the server log
+// Without SMTP_HOST the file transport is used, except in production where
+// sending fails instead of quietly dropping mail.
+
+const OUTBOX_FILE = dataFilePath('mail-outbox.json');
+const OUTBOX_LIMIT = 200;
+const SMTP_TIMEOUT_MS = 15_000;
+
+export type MailMessage = {
+  to: string;
+  subject: string;
+  text: string;
+};
+
+export type OutboxEntry = MailMessage & {
+  id: string;
+  from: string;
+  sentAt: string;
+};
+
+type MailTransport = 'smtp' | 'file' | 'console';
+
+function transport(): MailTransport {
+  const configured = env.MAIL_TRANSPORT;
+  if (configured === 'smtp' || configured === 'file' || configured === 'console') return configured;
+  if (env.SMTP_HOST) return 'smtp';
+  if (env.NODE_ENV === 'production') {
+    throw new Error('Email delivery is not configured. Set SMTP_HOST or MAIL_TRANSPORT.');
+  }
+  return 'file';
+}
+
+function sender(): string {
+  return env.MAIL_FROM || env.SMTP_USER || `no-reply@${new URL(env.NEXT_PUBLIC_APP_URL || 'http://localhost').hostname}`;
+}
+
+export async function sendMail(message: MailMessage): Promise<void> {
+  const from = sender();
+  switch (transport()) {
+    case 'smtp':
+      await sendWithSmtp(from, message);
+      break;
+    case 'console':
+      console.log(`[mail] To: ${message.to}\nSubject: ${message.subject}\n\n${message.text}`);
+      break;
+    case 'file': {
+      const entry: OutboxEntry = { id: crypto.randomUUID(), from, sentAt: new Date().toISOString(), ...message };
+      await withFileTransaction<OutboxEntry[]>(OUTBOX_FILE, (outbox, replace) => {
+        replace([...outbox, entry].slice(-OUTBOX_LIMIT));
+      }, []);
+      break;
+    }
+  }
+}
+
+// A minimal SMTP client: implicit TLS on port 465, otherwise STARTTLS when the
+// server offers it, and AUTH LOGIN when SMTP_USER/SMTP_PASS are set.
+async function sendWithSmtp(from: string, message: MailMessage): Promise<void> {
+  const host = env.SMTP_HOST;
+  if (!host) throw new Error('SMTP_HOST is not set.');
+  const port = Number(env.SMTP_PORT) || 587;
+
+  let socket: net.Socket = port === 465
+    ? tls.connect({ host, port, servername: host })
+    : net.connect({ host, port });
+  let reader = replyReader(socket);
+
+  try {
+    await reader.expect(220);
+    const clientName = 'localhost';
+    let features = await command(socket, reader, `EHLO ${clientName}`, 250);
+
+    if (!(socket instanceof tls.TLSSocket) && /^STARTTLS$/im.test(features)) {
+      await command(socket, reader, 'STARTTLS', 220);
+      socket = await upgradeToTls(socket, host);
+      reader = replyReader(socket);
+      features = await command(socket, reader, `EHLO ${clientName}`, 250);
+    }
+
+    if (env.SMTP_USER && env.SMTP_PASS) {
+      await command(socket, reader, 'AUTH LOGIN', 334);
+      await command(socket, reader, Buffer.from(env.SMTP_USER).toString('base64'), 334);
+      await command(socket, reader, Buffer.from(env.SMTP_PASS).toString('base64'), 235);
+    }
+
+    await command(socket, reader, `MAIL FROM:<${from}>`, 250);
+    await command(socket, reader, `RCPT TO:<${message.to}>`, 250);
+    await command(socket, reader, 'DATA', 354);
+    await command(socket, reader, `${formatMessage(from, message)}\r\n.`, 250);
+    await command(socket, reader, 'QUIT', 221).catch(() => undefined);
+  } finally {
+    socket.destroy();
+  }
+}
+
+function formatMessage(from: string, message: MailMessage): string {
+  const headers = [
+    `From: ${from}`,
+    `To: ${message.to}`,
+    `Subject: ${message.subject.replace(/[\r\n]+/g, ' ')}`,
+    `Date: ${new Date().toUTCString()}`,
+    `Message-ID: <${crypto.randomUUID()}@${from.split('@')[1] || 'localhost'}>`,
+    'MIME-Version: 1.0',
+    'Content-Type: text/plain; charset=utf-8',
+    'Content-Transfer-Encoding: 8bit',
+  ];
+  // Lines starting with a dot are escaped so they cannot end the DATA section early.
+  const body = message.text.replace(/\r?\n/g, '\r\n').replace(/^\./gm, '..');
+  return `${headers.join('\r\n')}\r\n\r\n${body}`;
+}
+
+async function command(socket: net.Socket, reader: ReplyReader, line: string, expected: number): Promise<string> {
+  socket.write(`${line}\r\n`);
+  return reader.expect(expected);
+}
+
+function upgradeToTls(socket: net.Socket, host: string): Promise<tls.TLSSocket> {
+  return new Promise((resolve, reject) => {
+    socket.removeAllListeners('data');
+    const secure = tls.connect({ socket, servername: host }, () => resolve(secure));
+    secure.once('error', reject);
+  });
+}
+
+type ReplyReader = { expect: (code: number) => Promise<string> };
+
+// Collects complete (possibly multi-line) replies from the server and hands
+// them out in order.
+function replyReader(socket: net.Socket): ReplyReader {
+  let buffer = '';
+  let lines: string[] = [];
+  const replies: { code: number; text: string }[] = [];
+  let waiting: { resolve: (reply: { code: number; text: string }) => void; reject: (error: Error) => void } | null = null;
+  let failure: Error | null = null;
+
+  const fail = (error: Error) => {
+    failure = error;
+    waiting?.reject(error);
+    waiting = null;
+  };
+
+  socket.setTimeout(SMTP_TIMEOUT_MS, () => fail(new Error('SMTP server timed out.')));
+  socket.on('error', fail);
+  socket.on('close', () => fail(new Error('SMTP connection closed.')));
+  socket.on('data', chunk => {
+    buffer += chunk.toString('utf8');
+    let index: number;
+    while ((index = buffer.indexOf('\n')) !== -1) {
+      const line = buffer.slice(0, index).replace(/\r$/, '');
+      buffer = buffer.slice(index + 1);
+      lines.push(line.slice(4));
+      // "250-..." continues a reply, "250 ..." ends it.
+      if (line[3] !== '-') {
+        replies.push({ code: Number(line.slice(0, 3)), text: lines.join('\n') });
+        lines = [];
+      }
+    }
+    while (waiting && replies.length) {
+      const next = waiting;
+      waiting = null;
+      next.resolve(replies.shift()!);
+    }
+  });
+
+  return {
+    async expect(code) {
+      const reply = replies.shift() || await new Promise<{ code: number; text: string }>((resolve, reject) => {
+        if (failure) return reject(failure);
+        waiting = { resolve, reject };
+      });
+      if (reply.code !== code) {
+        throw new Error(`SMTP server replied ${reply.code}: ${reply.text}`);
+      }
+      return reply.text;
+    },
+  };
+}
@@ -0,0 +1,249 @@
+import { randomUUID } from 'crypto';
+import { dataFilePath, readDataFile, readDataFileForUpdate, withFileLock, withFileTransaction, writeFileAtomic } from './data-file';
+import { getWalletStore } from './wallet-store';
+
+// Versioned migrations for the documents under data/.
+// Every target has an ordered list of migrations; the version each target has
+// reached is recorded in data/schema-versions.json and only newer migrations run.
+// Migrations must be idempotent so that re-running one (for example after a
+// crash between writing the data and the version manifest) is harmless.
+//
+// The wallet store and every long-lived JSON document are targets. The files in
+// UNVERSIONED_FILES are not; a release that changes their shape discards them
+// instead. Tables under DATABASE_URL are created by ensureDatabaseSchema
+// (src/supabase/schema.sql) and changed there.
+
+const SCHEMA_VERSIONS_FILE = dataFilePath('schema-versions.json');
+
+// Files under data/ that are not migrated, and why.
+export const UNVERSIONED_FILES: Record<string, string> = {
+  'sessions.json': 'Sessions expire; dropping them only signs users out.',
+  'login-challenges.json': 'Pending two-factor sign-in challenges expire within minutes.',
+  'login-protection.json': 'Failed sign-in counters and lockouts are short-lived.',
+  'idempotency-keys.json': 'Only guards recent requests against being repeated.',
+  'mail-outbox.json': 'Development copy of sent mail (MAIL_TRANSPORT=file).',
+  'schema-versions.json': 'The version manifest itself.',
+  'notifications.json': 'Seed data bundled at build time; notifications are kept in memory or in Postgres.',
+  'chats.json': 'Seed data bundled at build time; support chats are kept in memory or in Postgres.',
+  'app-config.json': 'Not read by the application.',
+  'sample-users.json': 'Not read by the application.',
+};
+
+export type DataMigration = {
+  version: number;
+  name: string;
+  up: (data: any) => any;
+};
+
+type MigrationTarget = {
+  // Key in the version manifest, e.g. "wallets.json".
+  key: string;
+  migrations: DataMigration[];
+  read(): Promise<any>;
+  // Atomically replaces the stored data with the result of fn.
+  transform(fn: (data: any) => any): Promise<void>;
+};
+
+export type AppliedMigration = {
+  version: number;
+  name: string;
+  // Number of top-level records (wallets, users, ...) the migration modified.
+  changed: number;
+};
+
+export type MigrationReport = {
+  target: string;
+  fromVersion: number;
+  toVersion: number;
+  applied: AppliedMigration[];
+};
+
+// Migrations see wallets in their older shapes, so they work on untyped documents.
+const mapWallets = (fn: (wallet: any) => any) => (wallets: Record<string, any>) =>
+  Object.fromEntries(Object.entries(wallets).map(([userId, wallet]) => [userId, fn({ ...wallet })]));
+
+const WALLET_MIGRATIONS: DataMigration[] = [
+  {
+    version: 1,
+    name: 'rename pendingWithdrawals to pending_withdrawals',
+    up: mapWallets(wallet => {
+      if (!('pendingWithdrawals' in wallet)) return wallet;
+      const { pendingWithdrawals, ...rest } = wallet;
+      return {
+        ...rest,
+        pending_withdrawals: [...(rest.pending_withdrawals || []), ...(pendingWithdrawals || [])],
+      };
+    }),
+  },
+  {
+    version: 2,
+    name: 'move profile.verificationStatus to verification_status',
+    up: mapWallets(wallet => {
+      const { verificationStatus, ...profile } = wallet.profile || {};
+      wallet.verification_status = wallet.verification_status || verificationStatus || 'unverified';
+      if (wallet.profile) wallet.profile = profile;
+      return wallet;
+    }),
+  },
+  {
+    version: 3,
+    name: 'add reward claim fields',
+    up: mapWallets(wallet => ({
+      ...wallet,
+      claimed_achievements: wallet.claimed_achievements || { ranks: [], tiers: [] },
+      claimed_referrals: wallet.claimed_referrals || [],
+    })),
+  },
+  {
+    version: 4,
+    name: 'move security.withdrawalAddresses to the address book',
+    up: mapWallets(wallet => {
+      const { withdrawalAddresses, ...security } = wallet.security || {};
+      if (!withdrawalAddresses && Array.isArray(security.addressBook)) return wallet;
+      // Addresses saved before the address book stay usable right away. Keys
+      // are "usdt" or, since per-network validation, "usdt:trc20".
+      const now = new Date().toISOString();
+      const migrated = Object.entries(withdrawalAddresses || {})
+        .filter(([, address]) => typeof address === 'string' && address)
+        .map(([key, address]) => {
+          const [asset, network = ''] = key.split(':');
+          return {
+            id: `addr_${randomUUID()}`,
+            label: `${asset.toUpperCase()} address`,
+            asset: asset.toUpperCase(),
+            network,
+            address,
+            createdAt: now,
+            availableAt: now,
+          };
+        });
+      return { ...wallet, security: { ...security, addressBook: [...(security.addressBook || []), ...migrated] } };
+    }),
+  },
+];
+
+// Version 1 of a document is its shape when it became a migration target.
+// Later changes to the document add migrations after it.
+const BASELINE: DataMigration[] = [{ version: 1, name: 'baseline', up: data => data }];
+
+// A JSON document under data/. A missing file is left missing, since whoever
+// creates it writes the current shape.
+function fileTarget(fileName: string, migrations: DataMigration[] = BASELINE): MigrationTarget {
+  const filePath = dataFilePath(fileName);
+  return {
+    key: fileName,
+    migrations,
+    read: () => readDataFile<any>(filePath, null),
+    transform: fn =>
+      withFileLock(filePath, async () => {
+        const data = await readDataFileForUpdate<any>(filePath, null);
+        if (data === null) return;
+        await writeFileAtomic(filePath, JSON.stringify(fn(data), null, 2));
+      }),
+  };
+}
+
+function getMigrationTargets(): MigrationTarget[] {
+  const walletStore = getWalletStore();
+  return [
+    {
+      key: walletStore.name,
+      migrations: WALLET_MIGRATIONS,
+      read: () => walletStore.getAll(),
+      transform: fn => walletStore.updateAll(fn),
+    },
+    fileTarget('users.json'),
+    fileTarget('ledger.json'),
+    fileTarget('audit-log.json'),
+    fileTarget('api-tokens.json'),
+    fileTarget('moderators.json'),
+    fileTarget('staff-invites.json'),
+    fileTarget('settings.json'),
+    fileTarget('action-logs.json'),
+    fileTarget('support-threads.json'),
+    fileTarget('squad-clans.json'),
+    fileTarget('squad-chats.json'),
+    fileTarget('web-pages.json'),
+    fileTarget('public-chat.json'),
+  ];
+}
+
+function countChanged(before: any, after: any): number {
+  if (before && after && typeof before === 'object' && typeof after === 'object') {
+    const keys = new Set([...Object.keys(before), ...Object.keys(after)]);
+    return Array.from(keys).filter(key => JSON.stringify(before[key]) !== JSON.stringify(after[key])).length;
+  }
+  return JSON.stringify(before) === JSON.stringify(after) ? 0 : 1;
+}
+
+// Applies the given migrations in order, recording how many records each one changed.
+function applyMigrations(data: any, migrations: DataMigration[], applied: AppliedMigration[]): any {
+  return migrations.reduce((current, migration) => {
+    const next = migration.up(current);
+    applied.push({ version: migration.version, name: migration.name, changed: countChanged(current, next) });
+    return next;
+  }, data);
+}
+
+export async function getSchemaVersions(): Promise<Record<string, number>> {
+  return readDataFile<Record<string, number>>(SCHEMA_VERSIONS_FILE, {});
+}
+
+// Highest schema version this release knows for a target, or 0 for unknown targets.
+export async function getLatestSchemaVersion(key: string): Promise<number> {
+  const target = getMigrationTargets().find(candidate => candidate.key === key);
+  return Math.max(0, ...(target?.migrations || []).map(migration => migration.version));
+}
+
+// Brings data read from elsewhere (e.g. a backup archive) from fromVersion up to the
+// latest schema of a target in memory, without touching the stored data.
+export async function upgradeData(key: string, data: any, fromVersion: number): Promise<any> {
+  const target = getMigrationTargets().find(candidate => candidate.key === key);
+  const pending = (target?.migrations || [])
+    .filter(migration => migration.version > fromVersion)
+    .sort((a, b) => a.version - b.version);
+  return applyMigrations(data, pending, []);
+}
+
+// Records the version a target's data is at without running anything.
+export async function setSchemaVersion(key: string, version: number): Promise<void> {
+  await withFileTransaction<Record<string, number>>(SCHEMA_VERSIONS_FILE, manifest => {
+    manifest[key] = version;
+  });
+}
+
+// Brings every data file up to its latest schema version. With dryRun the
+// pending migrations are evaluated in memory and nothing is written.
+export async function runMigrations({ dryRun = false }: { dryRun?: boolean } = {}): Promise<MigrationReport[]> {
+  const versions = await getSchemaVersions();
+  const reports: MigrationReport[] = [];
+
+  for (const target of getMigrationTargets()) {
+    const fromVersion = versions[target.key] || 0;
+    const pending = target.migrations
+      .filter(migration => migration.version > fromVersion)
+      .sort((a, b) => a.version - b.version);
+    const applied: AppliedMigration[] = [];
+
+    if (pending.length > 0) {
+      if (dryRun) {
+        applyMigrations(await target.read(), pending, applied);
+      } else {
+        await target.transform(data => applyMigrations(data, pending, applied));
+        const toVersion = pending[pending.length - 1].version;
+        await withFileTransaction<Record<string, number>>(SCHEMA_VERSIONS_FILE, manifest => {
+          manifest[target.key] = toVersion;
+        });
+      }
+    }
+
+    reports.push({
+      target: target.key,
+      fromVersion,
+      toVersion: pending.length > 0 ? pending[pending.length - 1].version : fromVersion,
+      applied,
+    });
+  }
+
+  return reports;
+}
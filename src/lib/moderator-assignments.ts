@@ -0,0 +1,52 @@
+import { getStaffUsers } from './auth-server';
+import { dataFilePath, readDataFile, withFileTransaction } from './data-file';
+import { MODERATOR_PERMISSIONS, type ModeratorAssignment, type ModeratorPermissions } from './moderator';
+
+// Which moderator accounts are active and what each may do, as configured by an
+// admin in ModeratorManager (data/moderators.json). A moderator account without
+// an active assignment has no access to moderator routes.
+
+const ASSIGNMENTS_FILE = dataFilePath('moderators.json');
+const MAX_MODERATORS = 2;
+
+export async function getModeratorAssignments(): Promise<ModeratorAssignment[]> {
+  return readDataFile<ModeratorAssignment[]>(ASSIGNMENTS_FILE, []);
+}
+
+export async function getModeratorStatus(userId: string): Promise<ModeratorAssignment | null> {
+  const assignments = await getModeratorAssignments();
+  return assignments.find(assignment => assignment.userId === userId) || null;
+}
+
+function parsePermissions(value: unknown): ModeratorPermissions | null {
+  if (!value || typeof value !== 'object') return null;
+  const permissions = {} as ModeratorPermissions;
+  for (const permission of MODERATOR_PERMISSIONS) {
+    const flag = (value as Record<string, unknown>)[permission];
+    if (typeof flag !== 'boolean') return null;
+    permissions[permission] = flag;
+  }
+  return permissions;
+}
+
+// Replaces all assignments. Every entry must name an existing moderator account.
+export async function saveModeratorAssignments(input: unknown): Promise<{ error: string } | { moderators: ModeratorAssignment[] }> {
+  if (!Array.isArray(input)) return { error: 'A list of moderators is required.' };
+  if (input.length > MAX_MODERATORS) return { error: `You can only have a maximum of ${MAX_MODERATORS} moderators.` };
+
+  const moderatorIds = new Set((await getStaffUsers()).filter(user => user.role === 'moderator').map(user => user.id));
+  const moderators: ModeratorAssignment[] = [];
+  for (const entry of input) {
+    const permissions = parsePermissions(entry?.permissions);
+    if (!moderatorIds.has(entry?.userId) || !permissions || (entry.status !== 'active' && entry.status !== 'inactive')) {
+      return { error: 'Each moderator needs a moderator account, a status and all permission flags.' };
+    }
+    if (moderators.some(existing => existing.userId === entry.userId)) {
+      return { error: 'A moderator can only be listed once.' };
+    }
+    moderators.push({ userId: entry.userId, status: entry.status, permissions });
+  }
+
+  await withFileTransaction<ModeratorAssignment[]>(ASSIGNMENTS_FILE, (_current, replace) => replace(moderators), []);
+  return { moderators };
+}
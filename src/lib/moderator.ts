@@ -1,4 +1,12 @@
-// Mock implementation after Supabase removal.
+import { randomUUID } from 'crypto';
+import { getUserById } from './auth-server';
+import { dataFilePath, readDataFile, withFileTransaction } from './data-file';
+import { getDatabasePool, isDatabaseConfigured } from './db';
+
+// Staff actions and the support requests staff should look at, shown to admins
+// in the action log viewer. Kept in data/action-logs.json (the newest
+// MAX_STORED_LOGS entries), or in the action_logs table when DATABASE_URL is
+// set. Account security changes also go to the audit log (audit-log.ts).
 
 export type ActionLog = {
   id: string;
@@ -8,17 +16,64 @@ export type ActionLog = {
   user: {username: string} | null;
 };
 
-export async function getModeratorStatus(
-  userId: string
-): Promise<{status: string; permissions: any} | null> {
-  // In a real implementation, you would fetch this from your new backend.
-  // For now, returning null to indicate no moderators are configured.
-  return null;
+// What an admin can allow each moderator to do (see ModeratorManager). The
+// assignments are stored server-side in moderator-assignments.ts.
+export const MODERATOR_PERMISSIONS = ['customer_support', 'user_verification', 'deposit_approval'] as const;
+
+export type ModeratorPermission = (typeof MODERATOR_PERMISSIONS)[number];
+export type ModeratorPermissions = Record<ModeratorPermission, boolean>;
+
+export type ModeratorAssignment = {
+  userId: string;
+  status: 'active' | 'inactive';
+  permissions: ModeratorPermissions;
+};
+
+const ACTION_LOGS_FILE = dataFilePath('action-logs.json');
+const MAX_STORED_LOGS = 1000;
+const MAX_LISTED_LOGS = 200;
+
+type StoredActionLog = Omit<ActionLog, 'user'> & { metadata?: Record<string, unknown> };
+
+// actorId is the account that acted: the staff member, or the user whose
+// request needs attention.
+export async function logModeratorAction(action: string, actorId: string, metadata?: Record<string, unknown>): Promise<void> {
+  const log: StoredActionLog = { id: randomUUID(), created_at: new Date().toISOString(), user_id: actorId, action, metadata };
+
+  if (isDatabaseConfigured()) {
+    await getDatabasePool().query(
+      'INSERT INTO action_logs (id, created_at, user_id, action, metadata) VALUES ($1, $2, $3, $4, $5)',
+      [log.id, log.created_at, log.user_id, log.action, metadata ? JSON.stringify(metadata) : null]
+    );
+    return;
+  }
+
+  await withFileTransaction<StoredActionLog[]>(ACTION_LOGS_FILE, (logs, replace) => {
+    replace([...logs, log].slice(-MAX_STORED_LOGS));
+  }, []);
 }
 
-export async function logModeratorAction(
-  action: string
-): Promise<void> {
-  // This would send a log to your new backend.
-  console.log(`Moderator Action: ${action}`);
+// The most recent actions, newest first, with the actor's name.
+export async function getActionLogs(): Promise<ActionLog[]> {
+  let logs: StoredActionLog[];
+  if (isDatabaseConfigured()) {
+    const { rows } = await getDatabasePool().query(
+      'SELECT id, created_at, user_id, action FROM action_logs ORDER BY created_at DESC LIMIT $1',
+      [MAX_LISTED_LOGS]
+    );
+    logs = rows.map(row => ({ ...row, created_at: new Date(row.created_at).toISOString() }));
+  } else {
+    logs = (await readDataFile<StoredActionLog[]>(ACTION_LOGS_FILE, [])).slice(-MAX_LISTED_LOGS).reverse();
+  }
+
+  const names = new Map<string, string | null>();
+  for (const log of logs) {
+    if (!names.has(log.user_id)) {
+      names.set(log.user_id, (await getUserById(log.user_id))?.fullName || null);
+    }
+  }
+  return logs.map(({ id, created_at, user_id, action }) => {
+    const username = names.get(user_id);
+    return { id, created_at, user_id, action, user: username ? { username } : null };
+  });
 }
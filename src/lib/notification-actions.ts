@@ -0,0 +1,32 @@
+'use server';
+
+// Server actions for the signed-in user's inbox. notifications.ts and
+// promotions.ts are server-only; client components go through these, which
+// take the user from the session cookie rather than from the caller.
+
+import { getNotifications, markAllAsRead, type Notification } from './notifications';
+import { getPromotions, type Promotion } from './promotions';
+import { getSessionUser } from './session';
+
+export type { Notification, Promotion };
+
+async function requireUserId(): Promise<string> {
+    const session = await getSessionUser();
+    if (!session) {
+        throw new Error("User not authenticated.");
+    }
+    return session.userId;
+}
+
+export async function getMyNotifications(): Promise<Notification[]> {
+    return getNotifications(await requireUserId());
+}
+
+export async function markMyNotificationsAsRead(): Promise<Notification[]> {
+    return markAllAsRead(await requireUserId());
+}
+
+export async function listPromotions(): Promise<Promotion[]> {
+    await requireUserId();
+    return getPromotions();
+}
@@ -0,0 +1,40 @@
+import assert from 'node:assert/strict';
+import { afterEach, beforeEach, describe, it } from 'node:test';
+import { addNotification, clearNotifications, getAllNotifications, getNotifications, markAllAsRead } from './notifications';
+import { resetTestDatabase, sleep, useTestDatabase } from './test-utils';
+
+describe('Postgres notifications', () => {
+  beforeEach(useTestDatabase);
+  afterEach(resetTestDatabase);
+
+  it('lists a user\'s notifications newest first', async () => {
+    await addNotification('usr_alice', { title: 'First', content: 'One', href: '/dashboard' });
+    await sleep(5);
+    await addNotification('usr_alice', { title: 'Second', content: 'Two' });
+    await addNotification('usr_bob', { title: 'Other', content: 'Not for Alice' });
+
+    const notifications = await getNotifications('usr_alice');
+    assert.deepEqual(notifications.map(n => n.title), ['Second', 'First']);
+    assert.equal(notifications[1].href, '/dashboard');
+    assert.equal(notifications[0].href, undefined);
+    assert.ok(notifications.every(n => !n.read && n.user_id === 'usr_alice'));
+  });
+
+  it('marks all of a user\'s notifications as read', async () => {
+    await addNotification('usr_alice', { title: 'First', content: 'One' });
+    await addNotification('usr_bob', { title: 'Other', content: 'Two' });
+
+    const read = await markAllAsRead('usr_alice');
+    assert.ok(read.every(n => n.read));
+    assert.equal((await getNotifications('usr_bob'))[0].read, false);
+  });
+
+  it('clears only the given user\'s notifications', async () => {
+    await addNotification('usr_alice', { title: 'First', content: 'One' });
+    await addNotification('usr_bob', { title: 'Other', content: 'Two' });
+
+    await clearNotifications('usr_alice');
+    assert.deepEqual(await getNotifications('usr_alice'), []);
+    assert.deepEqual(Object.keys(await getAllNotifications()), ['usr_bob']);
+  });
+});
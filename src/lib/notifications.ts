@@ -1,5 +1,7 @@
-// Mock implementation for notifications using a simple JSON structure.
+// Notifications are kept in memory (seeded from data/notifications.json), or in
+// the notifications table when DATABASE_URL is set.
 import initialNotifications from '../../data/notifications.json';
+import { getDatabasePool, isDatabaseConfigured, withTransaction } from './db';
 
 let mockNotifications: Record<string, any[]> = initialNotifications;
 const MOCK_USER_ID = 'mock-user-123';
@@ -15,14 +17,44 @@ export type Notification = {
   href?: string;
 };
 
-// Fetches notifications for the mock user
+function rowToNotification(row: any): Notification {
+    const createdAt = new Date(row.created_at);
+    return {
+        id: row.id,
+        user_id: row.user_id,
+        created_at: createdAt.toISOString(),
+        date: createdAt.getTime(),
+        title: row.title,
+        content: row.content,
+        read: row.read,
+        href: row.href ?? undefined,
+    };
+}
+
+// Fetches notifications for a user, newest first
 export async function getNotifications(userId: string): Promise<Notification[]> {
+    if (isDatabaseConfigured()) {
+        const { rows } = await getDatabasePool().query(
+            'SELECT * FROM notifications WHERE user_id = $1 ORDER BY created_at DESC',
+            [userId]
+        );
+        return rows.map(rowToNotification);
+    }
+
     const userNotifications = mockNotifications[userId] || [];
     return userNotifications.sort((a, b) => b.date - a.date);
 }
 
 // Adds a notification for a specific user
 export async function addNotification(userId: string, notificationData: Omit<Notification, 'id' | 'date' | 'read'>): Promise<void> {
+    if (isDatabaseConfigured()) {
+        await getDatabasePool().query(
+            'INSERT INTO notifications (id, user_id, title, content, href) VALUES ($1, $2, $3, $4, $5)',
+            [crypto.randomUUID(), userId, notificationData.title, notificationData.content, notificationData.href ?? null]
+        );
+        return;
+    }
+
     if (!mockNotifications[userId]) {
         mockNotifications[userId] = [];
     }
@@ -41,9 +73,16 @@ export async function addPlatformNotification(notificationData: Omit<Notificatio
     // In a real non-Supabase setup, this would notify admins/mods via another service.
 }
 
-export const addAdminNotification = addPlatformNotification;
+export async function addAdminNotification(notificationData: Omit<Notification, 'id' | 'date' | 'read' | 'user_id'>): Promise<void> {
+    return addPlatformNotification(notificationData);
+}
 
 export async function markAllAsRead(userId: string): Promise<Notification[]> {
+    if (isDatabaseConfigured()) {
+        await getDatabasePool().query('UPDATE notifications SET read = true WHERE user_id = $1', [userId]);
+        return getNotifications(userId);
+    }
+
     if (mockNotifications[userId]) {
         mockNotifications[userId].forEach(n => n.read = true);
         return getNotifications(userId);
@@ -52,11 +91,46 @@ export async function markAllAsRead(userId: string): Promise<Notification[]> {
 }
 
 export async function clearNotifications(userId: string): Promise<void> {
+    if (isDatabaseConfigured()) {
+        await getDatabasePool().query('DELETE FROM notifications WHERE user_id = $1', [userId]);
+        return;
+    }
+
     if (mockNotifications[userId]) {
         mockNotifications[userId] = [];
     }
 }
 
 export async function getAllNotifications(): Promise<Record<string, Notification[]>> {
+    if (isDatabaseConfigured()) {
+        const { rows } = await getDatabasePool().query('SELECT * FROM notifications ORDER BY created_at DESC');
+        const notifications: Record<string, Notification[]> = {};
+        for (const row of rows) {
+            (notifications[row.user_id] ||= []).push(rowToNotification(row));
+        }
+        return notifications;
+    }
+
     return mockNotifications;
 }
+
+// Replaces every user's notifications when a platform backup is restored; the
+// restore route only lets admins get here.
+export async function replaceAllNotifications(notifications: Record<string, Notification[]>): Promise<void> {
+    if (isDatabaseConfigured()) {
+        await withTransaction(async client => {
+            await client.query('DELETE FROM notifications');
+            for (const [userId, userNotifications] of Object.entries(notifications)) {
+                for (const notification of userNotifications) {
+                    await client.query(
+                        'INSERT INTO notifications (id, user_id, created_at, title, content, read, href) VALUES ($1, $2, $3, $4, $5, $6, $7)',
+                        [crypto.randomUUID(), userId, new Date(notification.date), notification.title, notification.content, !!notification.read, notification.href ?? null]
+                    );
+                }
+            }
+        });
+        return;
+    }
+
+    mockNotifications = notifications;
+}
@@ -1,4 +1,7 @@
-// Mock implementation for promotions since Supabase is removed.
+// Promotions come from the promotions table when DATABASE_URL is set and from
+// the built-in list below otherwise.
+
+import { getDatabasePool, isDatabaseConfigured } from './db';
 
 export type Promotion = {
   id: string;
@@ -24,8 +27,19 @@ const mockPromotions: Omit<Promotion, 'id' | 'created_at'>[] = [
     }
 ];
 
-// Fetches all promotions from the mock data
 export async function getPromotions(): Promise<Promotion[]> {
+    if (isDatabaseConfigured()) {
+        const { rows } = await getDatabasePool().query('SELECT * FROM promotions ORDER BY created_at DESC');
+        return rows.map(row => ({
+            id: row.id,
+            created_at: new Date(row.created_at).toISOString(),
+            title: row.title,
+            description: row.description,
+            image_url: row.image_url ?? undefined,
+            status: row.status,
+        }));
+    }
+
     // Add dynamic IDs and created_at dates to simulate a real database
     return mockPromotions.map((p, index) => ({
         ...p,
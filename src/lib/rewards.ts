@@ -1,7 +1,4 @@
-import * as fs from 'fs/promises';
-import * as path from 'path';
-
-const SETTINGS_FILE_PATH = path.join(process.cwd(), 'data', 'settings.json');
+import { getSetting } from './settings-store';
 
 const defaultRewardSettings = {
   rankAchievementBonus: 10,
@@ -11,19 +8,9 @@ const defaultRewardSettings = {
   newUserBonus: 5,
 };
 
-async function readSettings() {
-  try {
-    const data = await fs.readFile(SETTINGS_FILE_PATH, 'utf-8');
-    return JSON.parse(data);
-  } catch (error) {
-    return {};
-  }
-}
-
 export async function getRewardSettings() {
     try {
-        const settings = await readSettings();
-        return settings['rewardSettings'] || defaultRewardSettings;
+        return (await getSetting('rewardSettings')) || defaultRewardSettings;
     } catch (error) {
         console.error("Could not read reward settings from file, using defaults.", error);
     }
@@ -0,0 +1,81 @@
+import { NextResponse, type NextRequest } from 'next/server';
+import type { ApiTokenScope } from './api-token-scopes';
+import { resolveApiToken } from './api-tokens';
+import type { StaffRole } from './auth-server';
+import type { ModeratorPermission } from './moderator';
+import { getModeratorStatus } from './moderator-assignments';
+import { logSecurityEvent } from './security';
+import { getSessionUser, type CurrentSession } from './session';
+
+// Access checks for API routes. Each handler starts with one of the guards
+// below and returns `denied` as is:
+//
+//   const access = await requireStaff(request, 'deposit_approval');
+//   if (access.denied) return access.denied;
+//
+// Admins pass requireAdmin and requireStaff. Moderators pass requireStaff only
+// with an active assignment that grants the route's permission. requireUser
+// also accepts personal API tokens that carry the route's scope. Denied calls
+// answer 401 (no session) or 403 and are written to the security log.
+
+// For API token callers, session.sessionId is the token id and apiTokenId is set.
+export type RouteAccess =
+  | { session: CurrentSession; apiTokenId?: string; denied?: undefined }
+  | { session?: undefined; apiTokenId?: undefined; denied: NextResponse };
+
+function deny(request: Request, status: 401 | 403, details: Record<string, unknown>): RouteAccess {
+  const { pathname } = new URL(request.url);
+  logSecurityEvent('api_access_denied', { path: pathname, method: request.method, status, ...details }, request as NextRequest);
+  const error = status === 401 ? 'Authentication required' : 'You do not have access to this resource.';
+  return { denied: NextResponse.json({ error }, { status }) };
+}
+
+// Any signed-in account. With a scope, a bearer API token that carries the
+// scope is accepted instead of a session.
+export async function requireUser(request: Request, scope?: ApiTokenScope): Promise<RouteAccess> {
+  const authorization = request.headers.get('authorization');
+  if (scope && authorization?.startsWith('Bearer ')) {
+    const caller = await resolveApiToken(authorization.slice(7).trim());
+    if (!caller) return deny(request, 401, { reason: 'invalid_api_token' });
+    if (!caller.scopes.includes(scope)) {
+      return deny(request, 403, { reason: 'scope', userId: caller.user.id, tokenId: caller.tokenId, scope });
+    }
+    const { user, tokenId } = caller;
+    return { session: { userId: user.id, email: user.email, role: user.role, sessionId: tokenId }, apiTokenId: tokenId };
+  }
+
+  const session = await getSessionUser();
+  if (!session) return deny(request, 401, { reason: 'no_session' });
+  return { session };
+}
+
+// Callers with one of the given roles, regardless of moderator permissions.
+export async function requireRole(request: Request, roles: StaffRole[]): Promise<RouteAccess> {
+  const session = await getSessionUser();
+  if (!session) return deny(request, 401, { reason: 'no_session' });
+  if (!(roles as string[]).includes(session.role)) {
+    return deny(request, 403, { reason: 'role', userId: session.userId, role: session.role });
+  }
+  return { session };
+}
+
+export async function requireAdmin(request: Request): Promise<RouteAccess> {
+  return requireRole(request, ['admin']);
+}
+
+// Admins, and moderators whose assignment is active and grants the permission
+// (any active moderator when no permission is given).
+export async function requireStaff(request: Request, permission?: ModeratorPermission): Promise<RouteAccess> {
+  const session = await getSessionUser();
+  if (!session) return deny(request, 401, { reason: 'no_session' });
+  if (session.role === 'admin') return { session };
+  if (session.role !== 'moderator') {
+    return deny(request, 403, { reason: 'role', userId: session.userId, role: session.role });
+  }
+
+  const assignment = await getModeratorStatus(session.userId);
+  if (assignment?.status !== 'active' || (permission && !assignment.permissions[permission])) {
+    return deny(request, 403, { reason: 'permission', userId: session.userId, role: session.role, permission });
+  }
+  return { session };
+}
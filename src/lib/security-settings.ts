@@ -0,0 +1,37 @@
+// Platform security policy, stored under the "securitySettings" key and edited
+// from the admin panel. Safe to import from client components.
+
+export const SECURITY_SETTINGS_KEY = 'securitySettings';
+
+export const MAX_ADDRESS_COOLDOWN_HOURS = 720;
+
+export type SecuritySettings = {
+  // Staff roles that must use two-factor authentication; members without it
+  // enroll at their next sign-in.
+  requireTwoFactorRoles: ('admin' | 'moderator')[];
+  // Accounts with 2FA always confirm withdrawals with a code. When this is on,
+  // accounts without it cannot withdraw until they enroll.
+  requireTwoFactorForWithdrawals: boolean;
+  // How long a new or changed address-book entry waits before withdrawals
+  // can be sent to it; 0 allows it right away.
+  addressCooldownHours: number;
+};
+
+export const defaultSecuritySettings: SecuritySettings = {
+  requireTwoFactorRoles: [],
+  requireTwoFactorForWithdrawals: false,
+  addressCooldownHours: 24,
+};
+
+// Why a settings value cannot be saved, or null when it is valid.
+export function securitySettingsError(value: any): string | null {
+  if (!value || typeof value !== 'object') return 'Security settings must be an object.';
+  const { addressCooldownHours, requireTwoFactorForWithdrawals } = value;
+  if (requireTwoFactorForWithdrawals !== undefined && typeof requireTwoFactorForWithdrawals !== 'boolean') {
+    return 'requireTwoFactorForWithdrawals must be true or false.';
+  }
+  if (addressCooldownHours !== undefined && !(Number.isFinite(addressCooldownHours) && addressCooldownHours >= 0 && addressCooldownHours <= MAX_ADDRESS_COOLDOWN_HOURS)) {
+    return `The address cooldown must be between 0 and ${MAX_ADDRESS_COOLDOWN_HOURS} hours.`;
+  }
+  return null;
+}
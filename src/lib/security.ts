@@ -3,9 +3,13 @@ import { env } from './env';
 
 // Rate limiting configuration
 interface RateLimitConfig {
+  // Keeps each limiter's counters apart, so requests to one never use up another.
+  name: string;
   windowMs: number;
   maxRequests: number;
   message?: string;
+  // Bucket a request counts against; the client IP by default.
+  key?: (request: NextRequest) => string;
 }
 
 // In-memory store for rate limiting (use Redis in production)
@@ -13,8 +17,7 @@ const rateLimitStore = new Map<string, { count: number; resetTime: number }>();
 
 export function rateLimit(config: RateLimitConfig) {
   return (request: NextRequest): NextResponse | null => {
-    const ip = getClientIP(request);
-    const key = `rate_limit:${ip}`;
+    const key = `rate_limit:${config.name}:${config.key ? config.key(request) : getClientIP(request)}`;
     const now = Date.now();
     
     const record = rateLimitStore.get(key);
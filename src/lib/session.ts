@@ -0,0 +1,279 @@
+import { createHash, createHmac, randomBytes, timingSafeEqual } from 'crypto';
+import { cookies, headers } from 'next/headers';
+import { getUserById } from './auth-server';
+import { dataFilePath, readDataFile, withFileTransaction } from './data-file';
+import { env, isProduction } from './env';
+
+// Server-side sessions. The cookie holds an opaque random token plus an HMAC of
+// it; the store (data/sessions.json) only keeps a hash of the token, so neither
+// a leaked store nor a hand-made cookie can be turned into a session. Sessions
+// slide forward while in use and their token is rotated every
+// SESSION_ROTATE_AFTER seconds. The role and email of a session always come
+// from the user record, and sessions of deactivated accounts stop working.
+
+export const SESSION_COOKIE = 'astralcore-session';
+export const SESSION_MAX_AGE = 60 * 60 * 24 * 7; // 7 days, in seconds
+const SESSION_ROTATE_AFTER = 60 * 60 * 24; // 1 day, in seconds
+// A rotated-out token keeps working this long, so requests already in flight
+// with the old cookie are not signed out.
+const ROTATION_GRACE_MS = 60 * 1000;
+// lastSeenAt is only written back when it is older than this.
+const LAST_SEEN_RESOLUTION_MS = 5 * 60 * 1000;
+
+const SESSIONS_FILE = dataFilePath('sessions.json');
+
+export type SessionUser = {
+  userId: string;
+  email: string;
+  role: 'user' | 'admin' | 'moderator';
+};
+
+export type CurrentSession = SessionUser & {
+  sessionId: string;
+};
+
+type StoredSession = SessionUser & {
+  id: string;
+  tokenHash: string;
+  previousTokenHash?: string;
+  previousTokenValidUntil?: number;
+  createdAt: number;
+  rotatedAt: number;
+  lastSeenAt: number;
+  expiresAt: number;
+  ip?: string;
+  userAgent?: string;
+};
+
+type SessionRecords = Record<string, StoredSession>;
+
+// What the Security page shows; never includes token material.
+export type SessionInfo = {
+  id: string;
+  createdAt: string;
+  lastSeenAt: string;
+  expiresAt: string;
+  ip?: string;
+  userAgent?: string;
+  current: boolean;
+};
+
+export const SESSION_COOKIE_OPTIONS = {
+  httpOnly: true,
+  secure: process.env.NODE_ENV === 'production',
+  sameSite: 'lax' as const,
+  path: '/',
+  maxAge: SESSION_MAX_AGE,
+};
+
+// Development without a .env keeps working with a fixed key; production
+// refuses to sign or accept session cookies until JWT_SECRET is configured.
+const DEVELOPMENT_SIGNING_KEY = 'astralcore-development-session-key';
+
+function signingKey(): string {
+  if (env.JWT_SECRET) return env.JWT_SECRET;
+  if (isProduction()) {
+    throw new Error('JWT_SECRET is not configured; sessions cannot be signed.');
+  }
+  return DEVELOPMENT_SIGNING_KEY;
+}
+
+function sign(token: string): string {
+  return createHmac('sha256', signingKey()).update(token).digest('base64url');
+}
+
+function hashToken(token: string): string {
+  return createHash('sha256').update(token).digest('hex');
+}
+
+function newToken(): { value: string; tokenHash: string } {
+  const token = randomBytes(32).toString('base64url');
+  return { value: `${token}.${sign(token)}`, tokenHash: hashToken(token) };
+}
+
+// Returns the token hash of a correctly signed cookie value, or null.
+function verifyCookieValue(value: string): string | null {
+  const [token, signature, ...rest] = value.split('.');
+  if (!token || !signature || rest.length > 0) return null;
+  const expected = Buffer.from(sign(token));
+  const actual = Buffer.from(signature);
+  if (actual.length !== expected.length || !timingSafeEqual(actual, expected)) {
+    return null;
+  }
+  return hashToken(token);
+}
+
+function pruneExpired(records: SessionRecords, now: number) {
+  for (const [id, session] of Object.entries(records)) {
+    if (session.expiresAt <= now) {
+      delete records[id];
+    }
+  }
+}
+
+async function requestMetadata(): Promise<{ ip?: string; userAgent?: string }> {
+  try {
+    const headerStore = await headers();
+    const forwardedFor = headerStore.get('x-forwarded-for');
+    return {
+      ip: forwardedFor?.split(',')[0].trim() || headerStore.get('x-real-ip') || undefined,
+      userAgent: headerStore.get('user-agent') || undefined,
+    };
+  } catch {
+    return {};
+  }
+}
+
+// Starts a session for the user and returns the cookie value to set.
+export async function createSession(user: SessionUser): Promise<string> {
+  const { value, tokenHash } = newToken();
+  const metadata = await requestMetadata();
+  const now = Date.now();
+
+  await withFileTransaction<SessionRecords>(SESSIONS_FILE, records => {
+    pruneExpired(records, now);
+    const id = `ses_${crypto.randomUUID()}`;
+    records[id] = {
+      id,
+      userId: user.userId,
+      email: user.email,
+      role: user.role,
+      tokenHash,
+      createdAt: now,
+      rotatedAt: now,
+      lastSeenAt: now,
+      expiresAt: now + SESSION_MAX_AGE * 1000,
+      ...metadata,
+    };
+  });
+
+  return value;
+}
+
+function findSession(records: SessionRecords, tokenHash: string, now: number) {
+  for (const session of Object.values(records)) {
+    if (session.expiresAt <= now) continue;
+    if (session.tokenHash === tokenHash) {
+      return { session, previous: false };
+    }
+    if (session.previousTokenHash === tokenHash && (session.previousTokenValidUntil || 0) > now) {
+      return { session, previous: true };
+    }
+  }
+  return null;
+}
+
+// Looks the cookie value up in the store. When the session is due for rotation
+// a new cookie value is returned as well, and the caller must send it back.
+export async function resolveSession(
+  value: string | undefined
+): Promise<{ session: CurrentSession; rotatedValue?: string } | null> {
+  const tokenHash = value ? verifyCookieValue(value) : null;
+  if (!tokenHash) return null;
+
+  const now = Date.now();
+  const found = findSession(await readDataFile<SessionRecords>(SESSIONS_FILE, {}), tokenHash, now);
+  if (!found) return null;
+
+  const user = await getUserById(found.session.userId);
+  if (!user || !user.isActive) return null;
+
+  const dueForRotation = !found.previous && now - found.session.rotatedAt > SESSION_ROTATE_AFTER * 1000;
+  const dueForLastSeen = now - found.session.lastSeenAt > LAST_SEEN_RESOLUTION_MS;
+  let rotatedValue: string | undefined;
+
+  if (dueForRotation || dueForLastSeen) {
+    const rotated = dueForRotation ? newToken() : null;
+    const stillValid = await withFileTransaction<SessionRecords, boolean>(SESSIONS_FILE, records => {
+      const session = records[found.session.id];
+      if (!session || session.expiresAt <= now) return false;
+      session.lastSeenAt = now;
+      if (rotated && session.tokenHash === tokenHash) {
+        session.previousTokenHash = session.tokenHash;
+        session.previousTokenValidUntil = now + ROTATION_GRACE_MS;
+        session.tokenHash = rotated.tokenHash;
+        session.rotatedAt = now;
+        session.expiresAt = now + SESSION_MAX_AGE * 1000;
+        rotatedValue = rotated.value;
+      }
+      return true;
+    });
+    if (!stillValid) return null;
+  }
+
+  return { session: { sessionId: found.session.id, userId: user.id, email: user.email, role: user.role }, rotatedValue };
+}
+
+// Resolves the signed-in user for the current request (route handlers and server actions).
+// A rotated cookie is written through next/headers, which only works where cookies
+// can be set; elsewhere the old token stays valid until the next chance to rotate.
+export async function getSessionUser(): Promise<CurrentSession | null> {
+  const cookieStore = await cookies();
+  const resolved = await resolveSession(cookieStore.get(SESSION_COOKIE)?.value);
+  if (!resolved) return null;
+
+  if (resolved.rotatedValue) {
+    try {
+      cookieStore.set(SESSION_COOKIE, resolved.rotatedValue, SESSION_COOKIE_OPTIONS);
+    } catch {
+      // Read-only cookie store (server components).
+    }
+  }
+  return resolved.session;
+}
+
+export async function revokeSession(sessionId: string): Promise<void> {
+  await withFileTransaction<SessionRecords>(SESSIONS_FILE, records => {
+    delete records[sessionId];
+  });
+}
+
+// Signs the user out of every session, optionally keeping one (usually the
+// current one). Returns how many sessions were revoked.
+export async function revokeUserSessions(userId: string, { except }: { except?: string } = {}): Promise<number> {
+  return withFileTransaction<SessionRecords, number>(SESSIONS_FILE, records => {
+    let revoked = 0;
+    for (const [id, session] of Object.entries(records)) {
+      if (session.userId === userId && id !== except) {
+        delete records[id];
+        revoked++;
+      }
+    }
+    return revoked;
+  });
+}
+
+// Signs everyone out, e.g. after a backup restore replaced the accounts the
+// sessions were issued for. Returns how many sessions were revoked.
+export async function revokeAllSessions(): Promise<number> {
+  return withFileTransaction<SessionRecords, number>(SESSIONS_FILE, (records, replace) => {
+    replace({});
+    return Object.keys(records).length;
+  });
+}
+
+// Keeps the email stored with the user's sessions in step with the account.
+export async function updateUserSessionsEmail(userId: string, email: string): Promise<void> {
+  await withFileTransaction<SessionRecords>(SESSIONS_FILE, records => {
+    for (const session of Object.values(records)) {
+      if (session.userId === userId) session.email = email;
+    }
+  });
+}
+
+export async function listUserSessions(userId: string, currentSessionId?: string): Promise<SessionInfo[]> {
+  const now = Date.now();
+  const records = await readDataFile<SessionRecords>(SESSIONS_FILE, {});
+  return Object.values(records)
+    .filter(session => session.userId === userId && session.expiresAt > now)
+    .sort((a, b) => b.lastSeenAt - a.lastSeenAt)
+    .map(session => ({
+      id: session.id,
+      createdAt: new Date(session.createdAt).toISOString(),
+      lastSeenAt: new Date(session.lastSeenAt).toISOString(),
+      expiresAt: new Date(session.expiresAt).toISOString(),
+      ip: session.ip,
+      userAgent: session.userAgent,
+      current: session.id === currentSessionId,
+    }));
+}
@@ -0,0 +1,53 @@
+import { dataFilePath, readDataFile, withFileTransaction } from './data-file';
+import { getDatabasePool, isDatabaseConfigured, withTransaction } from './db';
+
+// Platform settings, stored as one JSON document keyed by setting name
+// (data/settings.json), or as rows of the settings table when DATABASE_URL is set.
+
+const SETTINGS_FILE_PATH = dataFilePath('settings.json');
+
+export async function getAllSettings(): Promise<Record<string, any>> {
+  if (isDatabaseConfigured()) {
+    const { rows } = await getDatabasePool().query('SELECT key, value FROM settings');
+    return Object.fromEntries(rows.map(row => [row.key, row.value]));
+  }
+  return readDataFile<Record<string, any>>(SETTINGS_FILE_PATH, {});
+}
+
+export async function getSetting<T = any>(key: string): Promise<T | undefined> {
+  if (isDatabaseConfigured()) {
+    const { rows } = await getDatabasePool().query('SELECT value FROM settings WHERE key = $1', [key]);
+    return rows[0]?.value ?? undefined;
+  }
+  const settings = await readDataFile<Record<string, any>>(SETTINGS_FILE_PATH, {});
+  return settings[key];
+}
+
+export async function setSetting(key: string, value: unknown): Promise<void> {
+  if (isDatabaseConfigured()) {
+    await getDatabasePool().query(
+      'INSERT INTO settings (key, value) VALUES ($1, $2) ON CONFLICT (key) DO UPDATE SET value = excluded.value',
+      [key, JSON.stringify(value)]
+    );
+    return;
+  }
+  await withFileTransaction<Record<string, any>>(SETTINGS_FILE_PATH, settings => {
+    settings[key] = value;
+  });
+}
+
+// Replaces every setting at once, e.g. when a platform backup is restored.
+export async function replaceAllSettings(settings: Record<string, any>): Promise<void> {
+  if (isDatabaseConfigured()) {
+    await withTransaction(async client => {
+      await client.query('DELETE FROM settings');
+      for (const [key, value] of Object.entries(settings)) {
+        await client.query('INSERT INTO settings (key, value) VALUES ($1, $2)', [key, JSON.stringify(value)]);
+      }
+    });
+    return;
+  }
+  await withFileTransaction<Record<string, any>>(SETTINGS_FILE_PATH, (_settings, replace) => {
+    replace(settings);
+  });
+}
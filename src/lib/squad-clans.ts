@@ -1,14 +1,12 @@
-'use server';
-
-import * as fs from 'fs/promises';
-import * as path from 'path';
+import { dataFilePath, readDataFile, withFileTransaction } from './data-file';
 import { getAllWallets, getWalletByUserId } from './wallet';
 import { type Rank } from './ranks';
 import { type TierSetting } from './tiers';
 import { getBotTierSettingsServer } from './tiers-server';
+import { getSetting } from './settings-store';
 
-const CLANS_FILE_PATH = path.join(process.cwd(), 'data', 'squad-clans.json');
-const CHATS_FILE_PATH = path.join(process.cwd(), 'data', 'squad-chats.json');
+const CLANS_FILE_PATH = dataFilePath('squad-clans.json');
+const CHATS_FILE_PATH = dataFilePath('squad-chats.json');
 
 export type Clan = {
     id: string;
@@ -31,40 +29,16 @@ export type ClanChatMessage = {
 };
 
 async function readClans(): Promise<Record<string, Clan>> {
-    try {
-        const data = await fs.readFile(CLANS_FILE_PATH, 'utf-8');
-        return JSON.parse(data);
-    } catch (error) {
-        return {};
-    }
-}
-
-async function writeClans(data: Record<string, Clan>): Promise<void> {
-    await fs.writeFile(CLANS_FILE_PATH, JSON.stringify(data, null, 2), 'utf-8');
+    return readDataFile<Record<string, Clan>>(CLANS_FILE_PATH, {});
 }
 
 async function readChats(): Promise<Record<string, ClanChatMessage[]>> {
-    try {
-        const data = await fs.readFile(CHATS_FILE_PATH, 'utf-8');
-        return JSON.parse(data);
-    } catch (error) {
-        return {};
-    }
-}
-
-async function writeChats(data: Record<string, ClanChatMessage[]>): Promise<void> {
-    await fs.writeFile(CHATS_FILE_PATH, JSON.stringify(data, null, 2), 'utf-8');
+    return readDataFile<Record<string, ClanChatMessage[]>>(CHATS_FILE_PATH, {});
 }
 
 async function getMinClanCreateBalance(): Promise<number> {
-    const SETTINGS_FILE_PATH = path.join(process.cwd(), 'data', 'settings.json');
-    try {
-        const data = await fs.readFile(SETTINGS_FILE_PATH, 'utf-8');
-        const settings = JSON.parse(data);
-        return settings?.botSettings?.minClanCreateBalance || 100;
-    } catch {
-        return 100;
-    }
+    const botSettings = await getSetting('botSettings');
+    return botSettings?.minClanCreateBalance || 100;
 }
 
 export async function createClan(leaderId: string, name: string, avatarUrl: string): Promise<Clan | null> {
@@ -75,8 +49,7 @@ export async function createClan(leaderId: string, name: string, avatarUrl: stri
     const squadMembers = leaderWallet.squad?.members || [];
     
     // Check if the leader already has a clan
-    const allClans = await readClans();
-    const existingClan = Object.values(allClans).find(c => c.leaderId === leaderId);
+    const existingClan = Object.values(await readClans()).find(c => c.leaderId === leaderId);
     if (existingClan) {
         throw new Error("Leader has already created a clan.");
     }
@@ -100,8 +73,13 @@ export async function createClan(leaderId: string, name: string, avatarUrl: stri
         members: [leaderId, ...squadMembers],
     };
 
-    allClans[newClan.id] = newClan;
-    await writeClans(allClans);
+    await withFileTransaction<Record<string, Clan>>(CLANS_FILE_PATH, allClans => {
+        // Re-check under the lock so a double submit cannot create two clans
+        if (Object.values(allClans).some(c => c.leaderId === leaderId)) {
+            throw new Error("Leader has already created a clan.");
+        }
+        allClans[newClan.id] = newClan;
+    });
 
     return newClan;
 }
@@ -117,11 +95,6 @@ export async function getClanById(clanId: string): Promise<Clan | null> {
 }
 
 export async function addClanMessage(clanId: string, messageData: Omit<ClanChatMessage, 'id' | 'clanId' | 'timestamp'>): Promise<void> {
-    const allChats = await readChats();
-    if (!allChats[clanId]) {
-        allChats[clanId] = [];
-    }
-    
     const newMessage: ClanChatMessage = {
         ...messageData,
         id: `cmsg_${crypto.randomUUID()}`,
@@ -129,21 +102,26 @@ export async function addClanMessage(clanId: string, messageData: Omit<ClanChatM
         timestamp: Date.now(),
     };
 
-    allChats[clanId].push(newMessage);
-    await writeChats(allChats);
+    await withFileTransaction<Record<string, ClanChatMessage[]>>(CHATS_FILE_PATH, allChats => {
+        if (!allChats[clanId]) {
+            allChats[clanId] = [];
+        }
+        allChats[clanId].push(newMessage);
+    });
 }
 
 export async function getClanMessages(clanId: string): Promise<ClanChatMessage[]> {
-    const allChats = await readChats();
     const twentyFourHoursAgo = Date.now() - (24 * 60 * 60 * 1000);
-    const clanMessages = allChats[clanId] || [];
+    const clanMessages = (await readChats())[clanId] || [];
 
     // Filter out old messages
     const recentMessages = clanMessages.filter(msg => msg.timestamp >= twentyFourHoursAgo);
 
     if (recentMessages.length < clanMessages.length) {
-        allChats[clanId] = recentMessages;
-        await writeChats(allChats); // Clean up the old messages from the file
+        // Clean up the old messages from the file
+        await withFileTransaction<Record<string, ClanChatMessage[]>>(CHATS_FILE_PATH, allChats => {
+            allChats[clanId] = (allChats[clanId] || []).filter(msg => msg.timestamp >= twentyFourHoursAgo);
+        });
     }
 
     return recentMessages;
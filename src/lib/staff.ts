@@ -0,0 +1,131 @@
+import { createHash, randomBytes } from 'crypto';
+import { createStaffUser, getUserByEmail, type StaffRole } from './auth-server';
+import { dataFilePath, readDataFile, withFileTransaction } from './data-file';
+import { env } from './env';
+import { validatePassword } from './security';
+
+// Staff invites. An admin invites an email address with a role; the invite
+// carries a random token that is handed out once as a setup link and only
+// stored hashed (data/staff-invites.json). Opening the link and choosing a
+// password creates the account and uses the invite up.
+
+const INVITES_FILE = dataFilePath('staff-invites.json');
+
+type StoredInvite = {
+  id: string;
+  email: string;
+  fullName?: string;
+  role: StaffRole;
+  tokenHash: string;
+  invitedBy: string;
+  createdAt: string;
+  expiresAt: string;
+  acceptedAt?: string;
+};
+
+export type StaffInvite = Omit<StoredInvite, 'tokenHash'>;
+
+function ttlMs(): number {
+  return (Number(env.STAFF_INVITE_TTL_HOURS) || 72) * 60 * 60 * 1000;
+}
+
+function hashToken(token: string): string {
+  return createHash('sha256').update(token).digest('hex');
+}
+
+function isPending(invite: StoredInvite, now = Date.now()): boolean {
+  return !invite.acceptedAt && new Date(invite.expiresAt).getTime() > now;
+}
+
+function toPublicInvite({ tokenHash: _tokenHash, ...invite }: StoredInvite): StaffInvite {
+  return invite;
+}
+
+export function isStaffRole(role: unknown): role is StaffRole {
+  return role === 'admin' || role === 'moderator';
+}
+
+// Creates an invite and returns it with the one-time token for the setup link.
+// Inviting an address again replaces its earlier pending invite.
+export async function createStaffInvite(details: {
+  email: string;
+  role: StaffRole;
+  fullName?: string;
+  invitedBy: string;
+}): Promise<{ error: string } | { invite: StaffInvite; token: string }> {
+  const email = details.email.trim().toLowerCase();
+  if (await getUserByEmail(email)) {
+    return { error: 'An account with this email address already exists.' };
+  }
+
+  const token = randomBytes(32).toString('base64url');
+  const now = Date.now();
+  const invite: StoredInvite = {
+    id: `inv_${crypto.randomUUID()}`,
+    email,
+    fullName: details.fullName?.trim() || undefined,
+    role: details.role,
+    tokenHash: hashToken(token),
+    invitedBy: details.invitedBy,
+    createdAt: new Date(now).toISOString(),
+    expiresAt: new Date(now + ttlMs()).toISOString(),
+  };
+
+  await withFileTransaction<StoredInvite[]>(INVITES_FILE, (invites, replace) => {
+    replace([...invites.filter(existing => existing.email !== email && isPending(existing, now)), invite]);
+  }, []);
+
+  return { invite: toPublicInvite(invite), token };
+}
+
+export async function getPendingStaffInvites(): Promise<StaffInvite[]> {
+  const invites = await readDataFile<StoredInvite[]>(INVITES_FILE, []);
+  return invites.filter(invite => isPending(invite)).map(toPublicInvite);
+}
+
+// The pending invite a setup token belongs to, or null if it is unknown, used or expired.
+export async function getStaffInviteByToken(token: string): Promise<StaffInvite | null> {
+  const invites = await readDataFile<StoredInvite[]>(INVITES_FILE, []);
+  const invite = invites.find(candidate => candidate.tokenHash === hashToken(token));
+  return invite && isPending(invite) ? toPublicInvite(invite) : null;
+}
+
+export async function revokeStaffInvite(id: string): Promise<boolean> {
+  return withFileTransaction<StoredInvite[], boolean>(INVITES_FILE, (invites, replace) => {
+    const remaining = invites.filter(invite => invite.id !== id);
+    replace(remaining);
+    return remaining.length !== invites.length;
+  }, []);
+}
+
+// Creates the staff account for a setup token. The invite is marked as used in
+// the same transaction, so a link can only ever create one account.
+export async function acceptStaffInvite(
+  token: string,
+  details: { password: string; fullName?: string }
+): Promise<{ error: string; problems?: string[] } | { email: string; role: StaffRole }> {
+  const validation = validatePassword(details.password);
+  if (!validation.isValid) {
+    return { error: 'Password does not meet the requirements.', problems: validation.errors };
+  }
+
+  return withFileTransaction<StoredInvite[], { error: string } | { email: string; role: StaffRole }>(
+    INVITES_FILE,
+    async invites => {
+      const invite = invites.find(candidate => candidate.tokenHash === hashToken(token));
+      if (!invite || !isPending(invite)) {
+        return { error: 'This setup link is invalid or has expired.' };
+      }
+
+      const fullName = details.fullName?.trim() || invite.fullName || invite.email;
+      const result = await createStaffUser({ email: invite.email, fullName, password: details.password, role: invite.role });
+      if ('error' in result) {
+        return result;
+      }
+
+      invite.acceptedAt = new Date().toISOString();
+      return { email: invite.email, role: invite.role };
+    },
+    []
+  );
+}
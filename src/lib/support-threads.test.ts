@@ -0,0 +1,50 @@
+import assert from 'node:assert/strict';
+import { afterEach, beforeEach, describe, it } from 'node:test';
+import { getActionLogs, logModeratorAction } from './moderator';
+import { claimSupportThread, getSupportClaims, releaseSupportThread } from './support-threads';
+import { resetTestDatabase, sleep, useTestDatabase } from './test-utils';
+
+describe('Postgres support claims', () => {
+  beforeEach(useTestDatabase);
+  afterEach(resetTestDatabase);
+
+  it('lets one handler hold a thread at a time', async () => {
+    const claimed = await claimSupportThread('usr_alice', 'usr_mod1');
+    assert.ok('claim' in claimed && claimed.claim?.handler_id === 'usr_mod1');
+    assert.ok('claim' in (await claimSupportThread('usr_alice', 'usr_mod1')));
+
+    const taken = await claimSupportThread('usr_alice', 'usr_mod2');
+    assert.ok('error' in taken && taken.conflict);
+    assert.deepEqual(Object.keys(await getSupportClaims()), ['usr_alice']);
+  });
+
+  it('releases a thread for its handler, or anyone\'s when forced', async () => {
+    await claimSupportThread('usr_alice', 'usr_mod1');
+
+    assert.ok('error' in (await releaseSupportThread('usr_alice', 'usr_mod2')));
+    assert.deepEqual(await releaseSupportThread('usr_alice', 'usr_mod1'), { claim: null });
+    assert.deepEqual(await getSupportClaims(), {});
+
+    await claimSupportThread('usr_alice', 'usr_mod2');
+    assert.deepEqual(await releaseSupportThread('usr_alice', 'usr_admin', true), { claim: null });
+    assert.ok('claim' in (await claimSupportThread('usr_alice', 'usr_mod1')));
+  });
+});
+
+describe('Postgres moderator action log', () => {
+  beforeEach(useTestDatabase);
+  afterEach(resetTestDatabase);
+
+  it('keeps actions with their actor, newest first', async () => {
+    await logModeratorAction('Replied to support thread for user alice.', 'usr_mod1', { userId: 'usr_alice' });
+    await sleep(5);
+    await logModeratorAction('Completed withdrawal of 20.00 for user alice.', 'usr_admin');
+
+    const logs = await getActionLogs();
+    assert.deepEqual(logs.map(log => [log.user_id, log.action]), [
+      ['usr_admin', 'Completed withdrawal of 20.00 for user alice.'],
+      ['usr_mod1', 'Replied to support thread for user alice.'],
+    ]);
+    assert.equal(logs[0].user, null);
+  });
+});
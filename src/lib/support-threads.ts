@@ -0,0 +1,88 @@
+import { getUserById } from './auth-server';
+import { dataFilePath, readDataFile, withFileTransaction } from './data-file';
+import { getDatabasePool, isDatabaseConfigured } from './db';
+
+// Which staff member handles each user's support chat, so two moderators do
+// not answer the same thread. Kept in data/support-threads.json, or in the
+// support_threads table when DATABASE_URL is set. A released thread keeps its
+// row with no handler.
+
+const SUPPORT_THREADS_FILE = dataFilePath('support-threads.json');
+
+type StoredThread = { user_id: string; created_at: string; handler_id: string | null };
+
+export type SupportClaim = {
+  user_id: string;
+  handler_id: string;
+  handler: { username: string };
+};
+
+export type SupportClaimResult = { error: string; conflict?: boolean } | { claim: SupportClaim | null };
+
+const CLAIMED_BY_OTHER = 'Another staff member is already handling this chat.';
+
+async function toClaim(userId: string, handlerId: string): Promise<SupportClaim> {
+  const handler = await getUserById(handlerId);
+  return { user_id: userId, handler_id: handlerId, handler: { username: handler?.fullName || handlerId } };
+}
+
+// The claimed threads, keyed by the id of the user they belong to.
+export async function getSupportClaims(): Promise<Record<string, SupportClaim>> {
+  let threads: StoredThread[];
+  if (isDatabaseConfigured()) {
+    const { rows } = await getDatabasePool().query('SELECT user_id, handler_id FROM support_threads WHERE handler_id IS NOT NULL');
+    threads = rows;
+  } else {
+    threads = Object.values(await readDataFile<Record<string, StoredThread>>(SUPPORT_THREADS_FILE, {}));
+  }
+
+  const claims: Record<string, SupportClaim> = {};
+  for (const thread of threads) {
+    if (thread.handler_id) claims[thread.user_id] = await toClaim(thread.user_id, thread.handler_id);
+  }
+  return claims;
+}
+
+// Takes a thread that nobody, or the same handler, already holds.
+export async function claimSupportThread(userId: string, handlerId: string): Promise<SupportClaimResult> {
+  let holder: string | null;
+  if (isDatabaseConfigured()) {
+    const pool = getDatabasePool();
+    await pool.query('INSERT INTO support_threads (user_id) VALUES ($1) ON CONFLICT (user_id) DO NOTHING', [userId]);
+    await pool.query('UPDATE support_threads SET handler_id = $2 WHERE user_id = $1 AND handler_id IS NULL', [userId, handlerId]);
+    const { rows } = await pool.query('SELECT handler_id FROM support_threads WHERE user_id = $1', [userId]);
+    holder = rows[0]?.handler_id ?? null;
+  } else {
+    holder = await withFileTransaction<Record<string, StoredThread>, string | null>(SUPPORT_THREADS_FILE, threads => {
+      const thread = threads[userId] || { user_id: userId, created_at: new Date().toISOString(), handler_id: null };
+      thread.handler_id ||= handlerId;
+      threads[userId] = thread;
+      return thread.handler_id;
+    }, {});
+  }
+
+  if (holder !== handlerId) return { error: CLAIMED_BY_OTHER, conflict: true };
+  return { claim: await toClaim(userId, handlerId) };
+}
+
+// Releases a thread held by handlerId; admins (force) can release anyone's.
+export async function releaseSupportThread(userId: string, handlerId: string, force = false): Promise<SupportClaimResult> {
+  let released: boolean;
+  if (isDatabaseConfigured()) {
+    const { rowCount } = await getDatabasePool().query(
+      'UPDATE support_threads SET handler_id = NULL WHERE user_id = $1 AND handler_id IS NOT NULL AND ($2 OR handler_id = $3)',
+      [userId, force, handlerId]
+    );
+    released = !!rowCount;
+  } else {
+    released = await withFileTransaction<Record<string, StoredThread>, boolean>(SUPPORT_THREADS_FILE, threads => {
+      const thread = threads[userId];
+      if (!thread?.handler_id || (!force && thread.handler_id !== handlerId)) return false;
+      thread.handler_id = null;
+      return true;
+    }, {});
+  }
+
+  if (!released && (await getSupportClaims())[userId]) return { error: CLAIMED_BY_OTHER, conflict: true };
+  return { claim: null };
+}
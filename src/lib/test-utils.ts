@@ -1,6 +1,14 @@
 // Test utilities for the application
 // This file provides common testing utilities and mocks
 
+import { mkdtempSync, symlinkSync } from 'fs';
+import { tmpdir } from 'os';
+import * as path from 'path';
+import { newDb } from 'pg-mem';
+import type { Pool } from 'pg';
+import { ensureDatabaseSchema, setDatabasePool } from './db';
+import { parseWallet, type WalletData } from './wallet-schema';
+
 export interface MockUser {
   id: string;
   email: string;
@@ -208,6 +216,48 @@ export function mockEnvVars(vars: { [key: string]: string }) {
   });
 }
 
+// Points every Postgres-backed module at a fresh in-memory database (pg-mem)
+// with the application schema. Call resetTestDatabase() afterwards.
+export async function useTestDatabase(): Promise<void> {
+  const { Pool: MemoryPool } = newDb().adapters.createPg();
+  setDatabasePool(new MemoryPool() as Pool);
+  await ensureDatabaseSchema();
+}
+
+export function resetTestDatabase(): void {
+  setDatabasePool(null);
+}
+
+// Moves the process into an empty scratch directory, so data/ files are written
+// there. Modules resolve their data file paths when they are loaded, so import
+// file-backed modules (dynamically) after calling this. node_modules is linked
+// in for code that loads files from it (sql.js). Returns the directory.
+export function useTestDataDir(): string {
+  const dir = mkdtempSync(path.join(tmpdir(), 'astralcore-test-'));
+  symlinkSync(path.join(process.cwd(), 'node_modules'), path.join(dir, 'node_modules'), 'dir');
+  process.chdir(dir);
+  return dir;
+}
+
+// A valid wallet with 125.5 USDT and one pending withdrawal.
+export function sampleWallet(username: string): WalletData {
+  return parseWallet(username, {
+    balances: { usdt: 125.5, btc: 0, eth: 0 },
+    addresses: { usdt: 'TgBkSNsxjUYOReLooneDs30nQoKUqpAMB1' },
+    growth: { clicksLeft: 4, lastReset: 1752503271062, dailyEarnings: 0, earningsHistory: [] },
+    squad: { referralCode: 'XYS0AR6R', members: [] },
+    profile: { username, fullName: 'Test User', country: 'Nowhere', dateOfBirth: '1990-01-02T00:00:00.000Z' },
+    security: { addressBook: [] },
+    verification_status: 'unverified',
+    pending_withdrawals: [
+      { id: 'wd_1', amount: 20, asset: 'usdt', address: 'TgBkSNsxjUYOReLooneDs30nQoKUqpAMB1', timestamp: '2025-01-01T00:00:00.000Z', status: 'pending' },
+    ],
+    pending_deposits: [],
+    claimed_achievements: { ranks: [], tiers: [] },
+    claimed_referrals: [],
+  });
+}
+
 // Common test data generators
 export function generateRandomEmail(): string {
   return `test${Math.random().toString(36).substring(2)}@example.com`;
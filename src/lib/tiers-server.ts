@@ -1,9 +1,6 @@
-import * as fs from 'fs/promises';
-import * as path from 'path';
+import { getSetting } from './settings-store';
 import type { TierSetting } from './tiers';
 
-const SETTINGS_FILE_PATH = path.join(process.cwd(), 'data', 'settings.json');
-
 const defaultTierSettings: TierSetting[] = [
   { id: 'tier-1', name: 'VIP CORE I', balanceThreshold: 100, dailyProfit: 0.02, clicks: 4, locked: false },
   { id: 'tier-2', name: 'VIP CORE II', balanceThreshold: 500, dailyProfit: 0.03, clicks: 5, locked: false },
@@ -15,19 +12,9 @@ const defaultTierSettings: TierSetting[] = [
   { id: 'tier-8', name: 'VIP CORE VIII', balanceThreshold: 100000, dailyProfit: 0.12, clicks: 15, locked: true },
 ];
 
-async function readSettings() {
-  try {
-    const data = await fs.readFile(SETTINGS_FILE_PATH, 'utf-8');
-    return JSON.parse(data);
-  } catch (error) {
-    return {};
-  }
-}
-
 export async function getBotTierSettingsServer(): Promise<TierSetting[]> {
     try {
-        const settings = await readSettings();
-        const tierSettings = settings['botTierSettings'];
+        const tierSettings = await getSetting<TierSetting[]>('botTierSettings');
         if (tierSettings && Array.isArray(tierSettings) && tierSettings.length > 0) {
             return tierSettings.sort((a, b) => a.balanceThreshold - b.balanceThreshold);
         }
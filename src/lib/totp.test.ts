@@ -0,0 +1,60 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { base32Decode, base32Encode, currentTimeStep, generateTotp, generateTotpSecret, totpUri, verifyTotp } from './totp';
+
+// The SHA-1 seed of RFC 4226 and RFC 6238, "12345678901234567890", in base32.
+const RFC_SECRET = base32Encode(Buffer.from('12345678901234567890'));
+
+describe('TOTP', () => {
+  it('encodes the RFC secret and round-trips random secrets through base32', () => {
+    assert.equal(RFC_SECRET, 'GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ');
+    const secret = generateTotpSecret();
+    assert.equal(secret.length, 32);
+    assert.equal(base32Encode(base32Decode(secret.toLowerCase())), secret);
+    assert.throws(() => base32Decode('GEZ1'), /Invalid base32/);
+  });
+
+  it('matches the RFC 4226 HOTP values', () => {
+    const expected = ['755224', '287082', '359152', '969429', '338314', '254676', '287922', '162583', '399871', '520489'];
+    assert.deepEqual(expected.map((_, counter) => generateTotp(RFC_SECRET, counter)), expected);
+  });
+
+  it('matches the RFC 6238 SHA-1 values, truncated to 6 digits', () => {
+    const vectors: [number, string][] = [
+      [59, '94287082'],
+      [1111111109, '07081804'],
+      [1111111111, '14050471'],
+      [1234567890, '89005924'],
+      [2000000000, '69279037'],
+      [20000000000, '65353130'],
+    ];
+    for (const [seconds, code] of vectors) {
+      const step = currentTimeStep(seconds * 1000);
+      assert.equal(generateTotp(RFC_SECRET, step), code.slice(-6), `T = ${seconds}`);
+      assert.equal(verifyTotp(RFC_SECRET, code.slice(-6), seconds * 1000), step);
+    }
+  });
+
+  it('accepts one step of clock drift either way, and no more', () => {
+    const now = 1111111111 * 1000;
+    const step = currentTimeStep(now);
+    assert.equal(verifyTotp(RFC_SECRET, generateTotp(RFC_SECRET, step - 1), now), step - 1);
+    assert.equal(verifyTotp(RFC_SECRET, generateTotp(RFC_SECRET, step + 1), now), step + 1);
+    assert.equal(verifyTotp(RFC_SECRET, generateTotp(RFC_SECRET, step - 2), now), null);
+    assert.equal(verifyTotp(RFC_SECRET, generateTotp(RFC_SECRET, step + 2), now), null);
+  });
+
+  it('ignores spaces and rejects anything but six digits', () => {
+    assert.equal(verifyTotp(RFC_SECRET, '050 471', 1111111111 * 1000), currentTimeStep(1111111111 * 1000));
+    for (const code of ['', '50471', '0504711', '05047a', '14050471']) {
+      assert.equal(verifyTotp(RFC_SECRET, code, 1111111111 * 1000), null, code);
+    }
+  });
+
+  it('builds the otpauth URI authenticator apps read', () => {
+    assert.equal(
+      totpUri(RFC_SECRET, 'alice@example.com'),
+      'otpauth://totp/AstralCore%3Aalice%40example.com?secret=GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ&issuer=AstralCore&algorithm=SHA1&digits=6&period=30'
+    );
+  });
+});
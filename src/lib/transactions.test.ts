@@ -0,0 +1,39 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { transactionsToCsv, type Transaction } from './transactions';
+
+const transaction = (memo: string | undefined, amount = -20): Transaction => ({
+  id: 'tx_1',
+  type: 'withdrawal',
+  asset: 'usdt',
+  amount,
+  status: 'completed',
+  createdAt: '2025-01-01T00:00:00.000Z',
+  referenceId: 'wd_1',
+  memo,
+});
+
+const memoCell = (memo: string) => transactionsToCsv([transaction(memo)]).split('\n')[1].split(',').slice(7).join(',');
+
+describe('Transaction CSV export', () => {
+  it('writes a header and one row per transaction, quoting where needed', () => {
+    assert.equal(
+      transactionsToCsv([transaction(undefined), transaction('Cold, "main" wallet', 5)]),
+      [
+        'id,type,asset,amount,status,createdAt,referenceId,memo',
+        'tx_1,withdrawal,usdt,-20,completed,2025-01-01T00:00:00.000Z,wd_1,',
+        'tx_1,withdrawal,usdt,5,completed,2025-01-01T00:00:00.000Z,wd_1,"Cold, ""main"" wallet"',
+        '',
+      ].join('\n')
+    );
+  });
+
+  it('keeps spreadsheets from running memos as formulas', () => {
+    assert.equal(memoCell('=HYPERLINK("http://evil.example","x")'), `"'=HYPERLINK(""http://evil.example"",""x"")"`);
+    assert.equal(memoCell('+1+1'), `"'+1+1"`);
+    assert.equal(memoCell('-2+3'), `"'-2+3"`);
+    assert.equal(memoCell('@SUM(A1)'), `"'@SUM(A1)"`);
+    assert.equal(memoCell('\t=1'), `"'\t=1"`);
+    assert.equal(memoCell("Bob's wallet = savings"), "Bob's wallet = savings");
+  });
+});
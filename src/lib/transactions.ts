@@ -0,0 +1,173 @@
+import { getLedgerEntriesForUser, type LedgerEntry } from './ledger';
+import { getWalletByUserId } from './wallet';
+
+// A user's transaction history. Completed movements come from the ledger;
+// deposit requests still awaiting approval (or waiting on the user for more
+// information) and rejected ones come from the wallet. A withdrawal stays
+// "pending" until it leaves wallet.pending_withdrawals; a rejected or cancelled
+// one keeps that status, and its refund shows up as a separate credit.
+
+export const TRANSACTION_TYPES = ['deposit', 'withdrawal', 'grid_earning', 'reward', 'adjustment'] as const;
+
+export type TransactionType = (typeof TRANSACTION_TYPES)[number];
+export type TransactionStatus = 'pending' | 'info_requested' | 'rejected' | 'cancelled' | 'completed';
+
+export type Transaction = {
+  id: string;
+  type: TransactionType;
+  asset: string;
+  // Signed: positive amounts were credited to the user, negative ones debited.
+  amount: number;
+  status: TransactionStatus;
+  createdAt: string;
+  referenceId: string;
+  memo?: string;
+};
+
+export type TransactionFilters = {
+  types?: TransactionType[];
+  asset?: string;
+  from?: Date;
+  to?: Date;
+};
+
+export type TransactionPage = {
+  transactions: Transaction[];
+  nextCursor: string | null;
+};
+
+export const DEFAULT_PAGE_SIZE = 25;
+export const MAX_PAGE_SIZE = 100;
+
+function isTransactionType(type: string): type is TransactionType {
+  return (TRANSACTION_TYPES as readonly string[]).includes(type);
+}
+
+// Statuses of the user's withdrawal requests by id, for those still pending or
+// closed without being paid out.
+type WithdrawalStatuses = Map<string, TransactionStatus>;
+
+function fromLedgerEntry(entry: LedgerEntry, withdrawalStatuses: WithdrawalStatuses): Transaction | null {
+  if (!isTransactionType(entry.type)) return null;
+  // Only the debit that held the amount takes the request's status; a refund is a completed credit.
+  const withdrawalStatus = entry.type === 'withdrawal' && entry.direction === 'debit' ? withdrawalStatuses.get(entry.referenceId) : undefined;
+  return {
+    id: entry.transactionId,
+    type: entry.type,
+    asset: entry.asset,
+    amount: entry.direction === 'credit' ? entry.amount : -entry.amount,
+    status: withdrawalStatus || 'completed',
+    createdAt: entry.createdAt,
+    referenceId: entry.referenceId,
+    memo: entry.memo,
+  };
+}
+
+// Newest first; the id breaks ties so the order (and therefore the cursor) is stable.
+function compareTransactions(a: Transaction, b: Transaction): number {
+  return b.createdAt.localeCompare(a.createdAt) || b.id.localeCompare(a.id);
+}
+
+function encodeCursor(transaction: Transaction): string {
+  return Buffer.from(JSON.stringify([transaction.createdAt, transaction.id])).toString('base64url');
+}
+
+// Returns null for anything that is not a cursor produced by encodeCursor.
+export function decodeCursor(cursor: string): Pick<Transaction, 'createdAt' | 'id'> | null {
+  try {
+    const [createdAt, id] = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf-8'));
+    return typeof createdAt === 'string' && typeof id === 'string' ? { createdAt, id } : null;
+  } catch {
+    return null;
+  }
+}
+
+function matchesFilters(transaction: Transaction, { types, asset, from, to }: TransactionFilters): boolean {
+  const createdAt = new Date(transaction.createdAt);
+  return (
+    (!types || types.length === 0 || types.includes(transaction.type)) &&
+    (!asset || transaction.asset === asset.toLowerCase()) &&
+    (!from || createdAt >= from) &&
+    (!to || createdAt < to)
+  );
+}
+
+// Every transaction of the user that matches the filters, newest first.
+export async function getTransactions(userId: string, filters: TransactionFilters = {}): Promise<Transaction[]> {
+  const [wallet, entries] = await Promise.all([getWalletByUserId(userId), getLedgerEntriesForUser(userId)]);
+  const withdrawalStatuses: WithdrawalStatuses = new Map();
+  for (const withdrawal of wallet?.pending_withdrawals || []) {
+    withdrawalStatuses.set(withdrawal.id, 'pending');
+  }
+  for (const withdrawal of wallet?.withdrawal_history || []) {
+    if (withdrawal.status === 'rejected' || withdrawal.status === 'cancelled') {
+      withdrawalStatuses.set(withdrawal.id, withdrawal.status);
+    }
+  }
+
+  const transactions: Transaction[] = [];
+  for (const entry of entries) {
+    const transaction = fromLedgerEntry(entry, withdrawalStatuses);
+    if (transaction) transactions.push(transaction);
+  }
+  // Approved deposits are already in the ledger.
+  const openOrRejected = [
+    ...(wallet?.pending_deposits || []),
+    ...(wallet?.deposit_history || []).filter(deposit => deposit.status === 'rejected'),
+  ];
+  for (const deposit of openOrRejected) {
+    transactions.push({
+      id: deposit.id,
+      type: 'deposit',
+      asset: deposit.asset.toLowerCase(),
+      amount: deposit.amount,
+      status: deposit.status === 'info_requested' || deposit.status === 'rejected' ? deposit.status : 'pending',
+      createdAt: new Date(deposit.timestamp).toISOString(),
+      referenceId: deposit.id,
+      memo: deposit.reason,
+    });
+  }
+
+  return transactions.filter(transaction => matchesFilters(transaction, filters)).sort(compareTransactions);
+}
+
+// One page of getTransactions, starting after the transaction the cursor points at.
+export async function getTransactionPage(
+  userId: string,
+  filters: TransactionFilters,
+  { cursor, limit = DEFAULT_PAGE_SIZE }: { cursor?: Pick<Transaction, 'createdAt' | 'id'> | null; limit?: number } = {}
+): Promise<TransactionPage> {
+  const all = await getTransactions(userId, filters);
+  const start = cursor
+    ? all.findIndex(transaction => compareTransactions(transaction, cursor as Transaction) > 0)
+    : 0;
+  if (start === -1) {
+    return { transactions: [], nextCursor: null };
+  }
+
+  const transactions = all.slice(start, start + limit);
+  const hasMore = start + limit < all.length;
+  return {
+    transactions,
+    nextCursor: hasMore ? encodeCursor(transactions[transactions.length - 1]) : null,
+  };
+}
+
+const CSV_COLUMNS: (keyof Transaction)[] = ['id', 'type', 'asset', 'amount', 'status', 'createdAt', 'referenceId', 'memo'];
+
+// Spreadsheets run text cells starting with one of these as formulas. Memos
+// carry user-chosen address labels, so such cells get a leading quote.
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+function csvCell(value: unknown): string {
+  const text = value === undefined || value === null ? '' : String(value);
+  if (typeof value === 'string' && FORMULA_PREFIX.test(text)) {
+    return `"'${text.replace(/"/g, '""')}"`;
+  }
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export function transactionsToCsv(transactions: Transaction[]): string {
+  const rows = transactions.map(transaction => CSV_COLUMNS.map(column => csvCell(transaction[column])).join(','));
+  return [CSV_COLUMNS.join(','), ...rows].join('\n') + '\n';
+}
@@ -0,0 +1,131 @@
+import assert from 'node:assert/strict';
+import { mkdirSync, rmSync, writeFileSync } from 'node:fs';
+import { after, afterEach, before, beforeEach, describe, it } from 'node:test';
+import { resetTestDatabase, useTestDatabase, useTestDataDir } from './test-utils';
+import { currentTimeStep, generateTotp } from './totp';
+
+let twoFactor: typeof import('./two-factor');
+let notifications: typeof import('./notifications');
+let dataDir: string;
+
+const USER_ID = 'usr_alice';
+
+function writeUser() {
+  mkdirSync(`${dataDir}/data`, { recursive: true });
+  const user = {
+    id: USER_ID,
+    email: 'alice@example.com',
+    password: 'not-a-real-hash',
+    fullName: 'Alice',
+    isVerified: true,
+    createdAt: '2025-01-01T00:00:00.000Z',
+    tier: 'recruit',
+    balance: 0,
+    totalDeposits: 0,
+    totalWithdrawals: 0,
+    totalProfits: 0,
+    isActive: true,
+    role: 'user',
+  };
+  writeFileSync(`${dataDir}/data/users.json`, JSON.stringify([user]));
+}
+
+// Enrolls the user with a code for the current time step, which is then used
+// up, and returns the secret, that step and the backup codes.
+async function enroll(): Promise<{ secret: string; step: number; backupCodes: string[] }> {
+  const setup = await twoFactor.beginTwoFactorSetup(USER_ID);
+  assert.ok('secret' in setup);
+  const step = currentTimeStep();
+  const enabled = await twoFactor.enableTwoFactor(USER_ID, generateTotp(setup.secret, step));
+  assert.ok('backupCodes' in enabled);
+  return { secret: setup.secret, step, backupCodes: enabled.backupCodes };
+}
+
+describe('Two-factor authentication', () => {
+  before(async () => {
+    dataDir = useTestDataDir();
+    twoFactor = await import('./two-factor');
+    notifications = await import('./notifications');
+  });
+  after(() => rmSync(dataDir, { recursive: true, force: true }));
+  beforeEach(async () => {
+    await useTestDatabase();
+    writeUser();
+  });
+  afterEach(() => {
+    resetTestDatabase();
+    rmSync(`${dataDir}/data`, { recursive: true, force: true });
+  });
+
+  it('enables 2FA only with a code for the pending secret', async () => {
+    assert.deepEqual(await twoFactor.enableTwoFactor(USER_ID, '123456'), { error: 'Start two-factor setup first.' });
+
+    const setup = await twoFactor.beginTwoFactorSetup(USER_ID);
+    assert.ok('otpauthUrl' in setup && setup.otpauthUrl.includes(setup.secret));
+    const wrong = String((Number(generateTotp(setup.secret)) + 1) % 1e6).padStart(6, '0');
+    assert.match((await twoFactor.enableTwoFactor(USER_ID, wrong) as { error: string }).error, /Invalid code/);
+    assert.equal((await twoFactor.getTwoFactorStatus(USER_ID))?.enabled, false);
+
+    const enabled = await twoFactor.enableTwoFactor(USER_ID, generateTotp(setup.secret));
+    assert.ok('backupCodes' in enabled);
+    assert.equal(enabled.backupCodes.length, 10);
+    assert.equal(new Set(enabled.backupCodes).size, 10);
+    assert.deepEqual(
+      { ...(await twoFactor.getTwoFactorStatus(USER_ID)), enabledAt: undefined },
+      { enabled: true, enabledAt: undefined, backupCodesRemaining: 10, required: false, requiredForWithdrawals: false }
+    );
+    assert.deepEqual(await twoFactor.beginTwoFactorSetup(USER_ID), { error: 'Two-factor authentication is already enabled.' });
+  });
+
+  it('accepts each authenticator code once, and none older than the last one used', async () => {
+    const { secret, step } = await enroll();
+
+    assert.ok((await twoFactor.verifySecondFactor(USER_ID, generateTotp(secret, step))).error);
+    assert.deepEqual(await twoFactor.verifySecondFactor(USER_ID, generateTotp(secret, step + 1)), {});
+    assert.ok((await twoFactor.verifySecondFactor(USER_ID, generateTotp(secret, step + 1))).error);
+    assert.ok((await twoFactor.verifySecondFactor(USER_ID, generateTotp(secret, step - 1))).error);
+  });
+
+  it('accepts each backup code once, and not where backup codes are refused', async () => {
+    const { backupCodes } = await enroll();
+
+    assert.ok((await twoFactor.verifySecondFactor(USER_ID, backupCodes[0], { allowBackupCode: false })).error);
+    assert.deepEqual(await twoFactor.verifySecondFactor(USER_ID, backupCodes[0].toUpperCase().replace('-', ' ')), {});
+    assert.ok((await twoFactor.verifySecondFactor(USER_ID, backupCodes[0])).error);
+    assert.equal((await twoFactor.getTwoFactorStatus(USER_ID))?.backupCodesRemaining, 9);
+
+    const regenerated = await twoFactor.regenerateBackupCodes(USER_ID, backupCodes[1]);
+    assert.ok('error' in regenerated, 'a backup code cannot replace the backup codes');
+  });
+
+  it('locks code entry after repeated wrong codes and tells the owner', async () => {
+    const { secret, step } = await enroll();
+
+    for (let attempt = 1; attempt < 5; attempt++) {
+      assert.deepEqual(await twoFactor.verifySecondFactor(USER_ID, '000000x'), { error: 'Invalid or already used two-factor code.' });
+    }
+    assert.deepEqual(await twoFactor.verifySecondFactor(USER_ID, '000000x'), {
+      error: 'Too many invalid two-factor codes. Try again later.',
+      locked: true,
+    });
+    assert.equal((await twoFactor.verifySecondFactor(USER_ID, generateTotp(secret, step + 1))).locked, true);
+    assert.deepEqual((await notifications.getNotifications(USER_ID)).map(n => n.title), ['Two-Factor Codes Locked']);
+  });
+
+  it('disables 2FA only with a valid code', async () => {
+    const { backupCodes } = await enroll();
+
+    assert.ok((await twoFactor.disableTwoFactor(USER_ID, 'abcde-fghij')).error);
+    assert.equal((await twoFactor.getTwoFactorStatus(USER_ID))?.enabled, true);
+
+    assert.deepEqual(await twoFactor.disableTwoFactor(USER_ID, backupCodes[3]), {});
+    assert.deepEqual(await twoFactor.getTwoFactorStatus(USER_ID), {
+      enabled: false,
+      enabledAt: undefined,
+      backupCodesRemaining: 0,
+      required: false,
+      requiredForWithdrawals: false,
+    });
+    assert.ok((await twoFactor.verifySecondFactor(USER_ID, backupCodes[4])).error);
+  });
+});
@@ -0,0 +1,319 @@
+import { createHash, randomBytes } from 'crypto';
+import { getUserById, withUser, type TwoFactorSettings, type User } from './auth-server';
+import { dataFilePath, withFileTransaction } from './data-file';
+import { addNotification } from './notifications';
+import { logSecurityEvent } from './security';
+import { defaultSecuritySettings, SECURITY_SETTINGS_KEY, type SecuritySettings } from './security-settings';
+import { getSetting } from './settings-store';
+import { generateTotpSecret, totpUri, verifyTotp } from './totp';
+
+// Two-factor authentication with an authenticator app (see totp.ts) and
+// single-use backup codes. The settings live on the user record; backup codes
+// are only shown when generated and stored hashed.
+//
+// Signing in to an account with 2FA, or to a staff account whose role the
+// security settings require 2FA for, goes through a login challenge: the
+// password check returns a short-lived challenge token instead of a session,
+// and the session is only created once a code for it has been accepted.
+//
+// Wrong codes are counted on the user record, like wrong withdrawal passcodes:
+// after MAX_FAILED_CODES in a row, codes are refused for CODE_LOCKOUT_MS and
+// the owner is notified.
+
+const BACKUP_CODE_COUNT = 10;
+const CHALLENGES_FILE = dataFilePath('login-challenges.json');
+const CHALLENGE_TTL_MS = 10 * 60 * 1000;
+const MAX_CHALLENGE_ATTEMPTS = 5;
+const MAX_FAILED_CODES = 5;
+const CODE_LOCKOUT_MS = 15 * 60 * 1000;
+const INVALID_CODE_ERROR = 'Invalid or already used two-factor code.';
+const LOCKED_ERROR = 'Too many invalid two-factor codes. Try again later.';
+
+type LoginChallenge = {
+  userId: string;
+  purpose: 'verify' | 'enroll';
+  // Secret being enrolled when purpose is "enroll".
+  pendingSecret?: string;
+  expiresAt: number;
+  attempts: number;
+};
+
+export type LoginChallengeResponse = {
+  twoFactorRequired: true;
+  challengeToken: string;
+  purpose: LoginChallenge['purpose'];
+  // Only for "enroll": what the authenticator app needs.
+  secret?: string;
+  otpauthUrl?: string;
+};
+
+export type TwoFactorStatus = {
+  enabled: boolean;
+  enabledAt?: string;
+  backupCodesRemaining: number;
+  required: boolean;
+  // Whether withdrawals are refused while 2FA is off.
+  requiredForWithdrawals: boolean;
+};
+
+const sha256 = (value: string) => createHash('sha256').update(value).digest('hex');
+const normalizeBackupCode = (code: string) => code.replace(/[\s-]/g, '').toLowerCase();
+
+function generateBackupCodes(): { codes: string[]; hashes: string[] } {
+  const codes = Array.from({ length: BACKUP_CODE_COUNT }, () => {
+    const hex = randomBytes(5).toString('hex');
+    return `${hex.slice(0, 5)}-${hex.slice(5)}`;
+  });
+  return { codes, hashes: codes.map(code => sha256(normalizeBackupCode(code))) };
+}
+
+export async function getSecuritySettings(): Promise<SecuritySettings> {
+  return { ...defaultSecuritySettings, ...(await getSetting<SecuritySettings>(SECURITY_SETTINGS_KEY)) };
+}
+
+async function isTwoFactorRequired(role: User['role']): Promise<boolean> {
+  if (role === 'user') return false;
+  const settings = await getSecuritySettings();
+  return settings.requireTwoFactorRoles.includes(role);
+}
+
+export function isTwoFactorEnabled(user: Pick<User, 'twoFactor'>): boolean {
+  return !!user.twoFactor?.secret;
+}
+
+// Checks a TOTP code, or a backup code when allowed, against enabled settings and
+// marks it used. A TOTP code is only accepted for a time step after the last one
+// used, so every code works once.
+function acceptCode(settings: TwoFactorSettings, code: string, allowBackupCode: boolean): boolean {
+  if (!settings.secret) return false;
+
+  const step = verifyTotp(settings.secret, code);
+  if (step !== null) {
+    if (settings.lastUsedStep !== undefined && step <= settings.lastUsedStep) return false;
+    settings.lastUsedStep = step;
+    return true;
+  }
+
+  if (allowBackupCode) {
+    const hash = sha256(normalizeBackupCode(code));
+    const index = settings.backupCodeHashes.indexOf(hash);
+    if (index !== -1) {
+      settings.backupCodeHashes.splice(index, 1);
+      return true;
+    }
+  }
+  return false;
+}
+
+type CodeCheck = { error?: string; locked?: boolean; lockedUntil?: string };
+
+// acceptCode with the failed-attempt throttle. Runs under the users lock, so
+// parallel requests cannot get extra guesses. lockedUntil is only set by the
+// attempt that caused the lockout.
+function checkCode(settings: TwoFactorSettings, code: string | undefined, allowBackupCode: boolean, now = Date.now()): CodeCheck {
+  if (settings.lockedUntil && new Date(settings.lockedUntil).getTime() > now) {
+    return { error: LOCKED_ERROR, locked: true };
+  }
+  if (code && acceptCode(settings, code, allowBackupCode)) {
+    settings.failedAttempts = 0;
+    delete settings.lockedUntil;
+    return {};
+  }
+
+  settings.failedAttempts = (settings.failedAttempts || 0) + 1;
+  if (settings.failedAttempts < MAX_FAILED_CODES) {
+    return { error: INVALID_CODE_ERROR };
+  }
+  settings.failedAttempts = 0;
+  settings.lockedUntil = new Date(now + CODE_LOCKOUT_MS).toISOString();
+  return { error: LOCKED_ERROR, locked: true, lockedUntil: settings.lockedUntil };
+}
+
+// Logs and announces a lockout started by checkCode; returns the result without lockedUntil.
+async function reportCodeCheck(userId: string, { lockedUntil, ...result }: CodeCheck): Promise<{ error?: string; locked?: boolean }> {
+  if (lockedUntil) {
+    logSecurityEvent('two_factor_locked', { userId, lockedUntil });
+    await addNotification(userId, {
+      title: 'Two-Factor Codes Locked',
+      content: `Two-factor codes were refused for ${CODE_LOCKOUT_MS / 60000} minutes after ${MAX_FAILED_CODES} invalid codes. If this wasn't you, change your password.`,
+      href: '/dashboard/security',
+    });
+  }
+  return result;
+}
+
+export async function getTwoFactorStatus(userId: string): Promise<TwoFactorStatus | null> {
+  const user = await getUserById(userId);
+  if (!user) return null;
+  return {
+    enabled: isTwoFactorEnabled(user),
+    enabledAt: user.twoFactor?.enabledAt,
+    backupCodesRemaining: user.twoFactor?.backupCodeHashes.length || 0,
+    required: await isTwoFactorRequired(user.role),
+    requiredForWithdrawals: (await getSecuritySettings()).requireTwoFactorForWithdrawals,
+  };
+}
+
+// Verifies a second factor for an action of a signed-in user. Withdrawals pass
+// allowBackupCode: false so that only a fresh authenticator code is accepted.
+export async function verifySecondFactor(
+  userId: string,
+  code: string | undefined,
+  { allowBackupCode = true }: { allowBackupCode?: boolean } = {}
+): Promise<{ error?: string; locked?: boolean }> {
+  const result = await withUser<CodeCheck>(userId, user => {
+    if (!user.twoFactor || !isTwoFactorEnabled(user)) {
+      return { error: 'Two-factor authentication is not enabled.' };
+    }
+    return checkCode(user.twoFactor, code, allowBackupCode);
+  });
+  return result ? reportCodeCheck(userId, result) : { error: 'User not found.' };
+}
+
+// Starts enrollment: a new secret is kept as pending until enableTwoFactor confirms it.
+export async function beginTwoFactorSetup(userId: string): Promise<{ error: string } | { secret: string; otpauthUrl: string }> {
+  const secret = generateTotpSecret();
+  const result = await withUser(userId, user => {
+    if (isTwoFactorEnabled(user)) {
+      return { error: 'Two-factor authentication is already enabled.' };
+    }
+    user.twoFactor = { backupCodeHashes: [], ...user.twoFactor, pendingSecret: secret };
+    return { secret, otpauthUrl: totpUri(secret, user.email) };
+  });
+  return result || { error: 'User not found.' };
+}
+
+function enable(user: User, secret: string, step: number): string[] {
+  const { codes, hashes } = generateBackupCodes();
+  user.twoFactor = {
+    secret,
+    enabledAt: new Date().toISOString(),
+    backupCodeHashes: hashes,
+    lastUsedStep: step,
+  };
+  return codes;
+}
+
+// Confirms enrollment with a code from the app and returns the backup codes.
+export async function enableTwoFactor(userId: string, code: string): Promise<{ error: string } | { backupCodes: string[] }> {
+  const result = await withUser(userId, user => {
+    const pendingSecret = user.twoFactor?.pendingSecret;
+    if (isTwoFactorEnabled(user) || !pendingSecret) {
+      return { error: 'Start two-factor setup first.' };
+    }
+    const step = verifyTotp(pendingSecret, code);
+    if (step === null) {
+      return { error: 'Invalid code. Check the time on your device and try again.' };
+    }
+    return { backupCodes: enable(user, pendingSecret, step) };
+  });
+  return result || { error: 'User not found.' };
+}
+
+export async function disableTwoFactor(userId: string, code: string): Promise<{ error?: string }> {
+  const user = await getUserById(userId);
+  if (!user) return { error: 'User not found.' };
+  if (await isTwoFactorRequired(user.role)) {
+    return { error: 'Two-factor authentication is required for your account.' };
+  }
+
+  const result = await withUser<CodeCheck>(userId, current => {
+    if (!current.twoFactor) return { error: INVALID_CODE_ERROR };
+    const check = checkCode(current.twoFactor, code, true);
+    if (check.error) return check;
+    delete current.twoFactor;
+    return {};
+  });
+  return result ? reportCodeCheck(userId, result) : { error: 'User not found.' };
+}
+
+// Replaces all backup codes; the old ones stop working.
+export async function regenerateBackupCodes(userId: string, code: string): Promise<{ error: string } | { backupCodes: string[] }> {
+  const result = await withUser<CodeCheck | { backupCodes: string[] }>(userId, user => {
+    if (!user.twoFactor) return { error: INVALID_CODE_ERROR };
+    const check = checkCode(user.twoFactor, code, false);
+    if (check.error) return check;
+    const { codes, hashes } = generateBackupCodes();
+    user.twoFactor.backupCodeHashes = hashes;
+    return { backupCodes: codes };
+  });
+  if (!result) return { error: 'User not found.' };
+  if ('backupCodes' in result) return result;
+  const { error } = await reportCodeCheck(userId, result);
+  return { error: error || INVALID_CODE_ERROR };
+}
+
+function pruneChallenges(challenges: Record<string, LoginChallenge>, now: number) {
+  for (const [hash, challenge] of Object.entries(challenges)) {
+    if (challenge.expiresAt <= now) delete challenges[hash];
+  }
+}
+
+// Called after the password check. Returns the challenge the client has to
+// answer before it gets a session, or null if no second factor is needed.
+export async function createLoginChallenge(userId: string): Promise<LoginChallengeResponse | null> {
+  const user = await getUserById(userId);
+  if (!user) return null;
+
+  let challenge: LoginChallenge;
+  let enrollment: { secret: string; otpauthUrl: string } | undefined;
+  const now = Date.now();
+  if (isTwoFactorEnabled(user)) {
+    challenge = { userId, purpose: 'verify', expiresAt: now + CHALLENGE_TTL_MS, attempts: 0 };
+  } else if (await isTwoFactorRequired(user.role)) {
+    const secret = generateTotpSecret();
+    enrollment = { secret, otpauthUrl: totpUri(secret, user.email) };
+    challenge = { userId, purpose: 'enroll', pendingSecret: secret, expiresAt: now + CHALLENGE_TTL_MS, attempts: 0 };
+  } else {
+    return null;
+  }
+
+  const challengeToken = randomBytes(32).toString('base64url');
+  await withFileTransaction<Record<string, LoginChallenge>>(CHALLENGES_FILE, challenges => {
+    pruneChallenges(challenges, now);
+    challenges[sha256(challengeToken)] = challenge;
+  });
+
+  return { twoFactorRequired: true, challengeToken, purpose: challenge.purpose, ...enrollment };
+}
+
+// Answers a login challenge. On success the challenge is used up and the caller
+// creates the session; enrolling returns the new backup codes as well.
+export async function completeLoginChallenge(
+  challengeToken: string,
+  code: string
+): Promise<{ error: string } | { userId: string; backupCodes?: string[] }> {
+  const tokenHash = sha256(challengeToken);
+  return withFileTransaction<Record<string, LoginChallenge>, { error: string } | { userId: string; backupCodes?: string[] }>(
+    CHALLENGES_FILE,
+    async challenges => {
+      const now = Date.now();
+      pruneChallenges(challenges, now);
+      const challenge = challenges[tokenHash];
+      if (!challenge) {
+        return { error: 'This sign-in attempt has expired. Please sign in again.' };
+      }
+
+      challenge.attempts++;
+      if (challenge.attempts > MAX_CHALLENGE_ATTEMPTS) {
+        delete challenges[tokenHash];
+        return { error: 'Too many invalid codes. Please sign in again.' };
+      }
+
+      if (challenge.purpose === 'verify') {
+        const result = await verifySecondFactor(challenge.userId, code);
+        if (result.error) return { error: result.error };
+        delete challenges[tokenHash];
+        return { userId: challenge.userId };
+      }
+
+      const step = challenge.pendingSecret ? verifyTotp(challenge.pendingSecret, code) : null;
+      if (step === null) {
+        return { error: 'Invalid code. Check the time on your device and try again.' };
+      }
+      const backupCodes = await withUser(challenge.userId, user => enable(user, challenge.pendingSecret!, step));
+      delete challenges[tokenHash];
+      return backupCodes ? { userId: challenge.userId, backupCodes } : { error: 'User not found.' };
+    }
+  );
+}
@@ -70,14 +70,14 @@ export const profileUpdateSchema = z.object({
 // Trading validation schemas
 export const depositRequestSchema = z.object({
   amount: z.number().min(1, "Amount must be at least $1"),
-  currency: z.enum(["USDT", "BTC", "ETH"]),
+  currency: z.string().min(1, "Currency selection is required"),
   transactionId: z.string().min(1, "Transaction ID is required"),
   proofOfPayment: z.string().min(1, "Proof of payment is required"),
 });
 
 export const withdrawRequestSchema = z.object({
   amount: z.number().min(1, "Amount must be at least $1"),
-  currency: z.enum(["USDT", "BTC", "ETH"]),
+  currency: z.string().min(1, "Currency selection is required"),
   walletAddress: z.string().min(1, "Wallet address is required"),
   network: z.string().min(1, "Network selection is required"),
 });
@@ -117,8 +117,8 @@ export const adminUserUpdateSchema = z.object({
 export const emailVerificationSchema = z.object({
   email: z.string().email("Please enter a valid email address"),
   verificationCode: z.string()
-    .length(6, "Verification code must be 6 characters")
-    .regex(/^[A-Z0-9]+$/, "Verification code can only contain uppercase letters and numbers"),
+    .length(6, "Verification code must be 6 digits")
+    .regex(/^\d+$/, "Verification code can only contain digits"),
 });
 
 // Contact form schema
@@ -0,0 +1,58 @@
+'use server';
+
+// Server actions used by client components. Every action resolves the wallet
+// from the session cookie; a caller can never pick whose wallet it touches.
+
+import { getUserById } from './auth-server';
+import { getSessionUser } from './session';
+import {
+    createWalletForUser,
+    getWalletByUserId,
+    redactWallet,
+    refreshDailyGrowth,
+    updateWalletByUserId,
+    type ProfileData,
+    type WalletData,
+} from './wallet';
+import { profileUpdateSchema, walletFieldErrors } from './wallet-schema';
+
+export type { ProfileData, WalletData };
+
+async function requireUserId(): Promise<string> {
+    const session = await getSessionUser();
+    if (!session) {
+        throw new Error("User not authenticated.");
+    }
+    return session.userId;
+}
+
+// Returns the signed-in user's wallet, provisioning one for accounts that predate
+// wallet creation at registration (and for staff accounts, which have none).
+export async function getOrCreateWallet(): Promise<WalletData> {
+    const session = await getSessionUser();
+    if (!session) {
+        throw new Error("User not authenticated.");
+    }
+
+    const wallet = await refreshDailyGrowth(session.userId);
+    if (wallet) {
+        return redactWallet(wallet);
+    }
+
+    const user = await getUserById(session.userId);
+    return createWalletForUser(user || { id: session.userId, email: session.email });
+}
+
+export async function updateProfile(profileData: Partial<ProfileData>): Promise<WalletData | null> {
+    const userId = await requireUserId();
+    const parsed = profileUpdateSchema.safeParse(profileData);
+    if (!parsed.success) {
+        const problems = Object.entries(walletFieldErrors(parsed.error)).map(([field, message]) => `${field}: ${message}`);
+        throw new Error(`Invalid profile data: ${problems.join('; ')}`);
+    }
+
+    const wallet = await getWalletByUserId(userId);
+    if (!wallet) return null;
+    const updated = await updateWalletByUserId(userId, { profile: { ...wallet.profile, ...parsed.data } });
+    return updated && redactWallet(updated);
+}
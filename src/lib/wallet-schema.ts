@@ -0,0 +1,192 @@
+import { z } from 'zod';
+
+// The stored shape of a wallet document. Every write through the wallet store is
+// parsed against walletSchema, and unknown keys are rejected at every level, so
+// adding a field to a wallet means adding it here first.
+
+const amount = z.number().finite().nonnegative();
+// Older records store epoch milliseconds, newer ones ISO strings.
+const timestamp = z.union([z.number(), z.string()]);
+
+// A saved withdrawal address. New and changed addresses can only be used from
+// availableAt, after the cooldown in the security settings. Entries carried
+// over from the old one-address-per-asset map may have no network yet.
+export const addressBookEntrySchema = z
+  .object({
+    id: z.string().min(1),
+    label: z.string().min(1),
+    asset: z.string().min(1),
+    network: z.string(),
+    address: z.string().min(1),
+    createdAt: z.string(),
+    updatedAt: z.string().optional(),
+    availableAt: z.string(),
+  })
+  .strict();
+
+// The withdrawal passcode is only stored as a bcrypt hash, with the failed
+// attempt counter and lockout used to throttle guessing.
+export const withdrawalPasscodeSchema = z
+  .object({
+    hash: z.string().min(1),
+    updatedAt: z.string(),
+    failedAttempts: z.number().int().nonnegative(),
+    lockedUntil: z.string().optional(),
+  })
+  .strict();
+
+// One step in the life of a deposit or withdrawal request, newest last. `by`
+// is the staff member who made the change and `reason` what they told the user.
+export const statusChangeSchema = z
+  .object({
+    status: z.string(),
+    at: z.string(),
+    by: z.string().optional(),
+    reason: z.string().optional(),
+  })
+  .strict();
+
+export const pendingDepositSchema = z
+  .object({
+    id: z.string().min(1),
+    amount,
+    asset: z.string().min(1),
+    timestamp: z.string(),
+    status: z.string(),
+    // The reason given with the latest rejection or request for information.
+    reason: z.string().optional(),
+    history: z.array(statusChangeSchema).optional(),
+  })
+  .strict();
+
+export const pendingWithdrawalSchema = z
+  .object({
+    id: z.string().min(1),
+    amount,
+    asset: z.string().min(1),
+    address: z.string().min(1),
+    // The network ID from the asset registry and the fee taken out of the amount.
+    network: z.string().optional(),
+    fee: amount.optional(),
+    timestamp: z.string(),
+    status: z.string(),
+    // Why the withdrawal was rejected or cancelled.
+    reason: z.string().optional(),
+    history: z.array(statusChangeSchema).optional(),
+  })
+  .strict();
+
+export const profileSchema = z
+  .object({
+    username: z.string().min(1),
+    fullName: z.string().optional(),
+    idCardNo: z.string().optional(),
+    contactNumber: z.string().optional(),
+    country: z.string().optional(),
+    avatarUrl: z.string().optional(),
+    address: z.string().optional(),
+    dateOfBirth: z.string().optional(),
+    idCardFrontUrl: z.string().optional(),
+    idCardBackUrl: z.string().optional(),
+    verificationSubmittedAt: z.string().optional(),
+  })
+  .strict();
+
+export const walletSchema = z
+  .object({
+    created_at: z.string().optional(),
+    balances: z.record(z.string(), amount),
+    addresses: z.record(z.string(), z.string()),
+    growth: z
+      .object({
+        clicksLeft: z.number().int().nonnegative(),
+        lastReset: timestamp,
+        dailyEarnings: amount,
+        earningsHistory: z.array(
+          z
+            .object({
+              id: z.string().optional(),
+              amount: z.number().finite(),
+              timestamp,
+            })
+            .strict()
+        ),
+      })
+      .strict(),
+    squad: z
+      .object({
+        referralCode: z.string().min(1),
+        members: z.array(z.string()),
+        squad_leader: z
+          .object({
+            id: z.string(),
+            username: z.string(),
+          })
+          .strict()
+          .optional(),
+        squadCode: z.string().optional(),
+      })
+      .strict(),
+    profile: profileSchema,
+    security: z
+      .object({
+        addressBook: z.array(addressBookEntrySchema),
+        withdrawalPasscode: withdrawalPasscodeSchema.optional(),
+      })
+      .strict(),
+    verification_status: z.enum(['unverified', 'verifying', 'verified']),
+    pending_withdrawals: z.array(pendingWithdrawalSchema),
+    withdrawal_history: z.array(pendingWithdrawalSchema).optional(),
+    pending_deposits: z.array(pendingDepositSchema).optional(),
+    deposit_history: z.array(pendingDepositSchema).optional(),
+    claimed_achievements: z
+      .object({
+        ranks: z.array(z.string()),
+        tiers: z.array(z.string()),
+      })
+      .strict(),
+    claimed_referrals: z.array(z.string()),
+  })
+  .strict();
+
+// Profile fields a user may change themselves.
+export const profileUpdateSchema = profileSchema.omit({ verificationSubmittedAt: true }).partial().strict();
+
+// The fields an admin may set through /api/admin/update-wallet. Each one is
+// replaced as a whole, so it has to be valid on its own.
+export const walletUpdateSchema = walletSchema.partial().strict();
+
+export type WalletData = z.infer<typeof walletSchema>;
+export type ProfileData = z.infer<typeof profileSchema>;
+export type AddressBookEntry = z.infer<typeof addressBookEntrySchema>;
+export type WithdrawalPasscode = z.infer<typeof withdrawalPasscodeSchema>;
+export type PendingDeposit = z.infer<typeof pendingDepositSchema>;
+export type PendingWithdrawal = z.infer<typeof pendingWithdrawalSchema>;
+export type StatusChange = z.infer<typeof statusChangeSchema>;
+
+// Flattens zod issues into { "profile.username": "Required", ... }.
+export function walletFieldErrors(error: z.ZodError): Record<string, string> {
+  const fieldErrors: Record<string, string> = {};
+  for (const issue of error.issues) {
+    const field = issue.path.join('.') || '(wallet)';
+    if (issue.code === 'unrecognized_keys') {
+      for (const key of issue.keys) {
+        fieldErrors[[...issue.path, key].join('.')] = 'Unknown field';
+      }
+    } else if (!fieldErrors[field]) {
+      fieldErrors[field] = issue.message;
+    }
+  }
+  return fieldErrors;
+}
+
+// Parses a wallet that is about to be stored, throwing with every invalid field
+// listed when it does not match the schema.
+export function parseWallet(userId: string, wallet: unknown): WalletData {
+  const result = walletSchema.safeParse(wallet);
+  if (!result.success) {
+    const problems = Object.entries(walletFieldErrors(result.error)).map(([field, message]) => `${field}: ${message}`);
+    throw new Error(`Invalid wallet data for ${userId}: ${problems.join('; ')}`);
+  }
+  return result.data;
+}
@@ -0,0 +1,154 @@
+import assert from 'node:assert/strict';
+import { mkdirSync, rmSync, writeFileSync } from 'node:fs';
+import { after, afterEach, before, beforeEach, describe, it } from 'node:test';
+import { resetTestDatabase, sampleWallet, useTestDatabase, useTestDataDir } from './test-utils';
+import type { WalletStore } from './wallet-store';
+
+let walletStore: typeof import('./wallet-store');
+let dataDir: string;
+
+before(async () => {
+  dataDir = useTestDataDir();
+  walletStore = await import('./wallet-store');
+});
+after(() => rmSync(dataDir, { recursive: true, force: true }));
+
+const withUsdt = (usdt: number) => (wallet: ReturnType<typeof sampleWallet>) => ({ ...wallet, balances: { ...wallet.balances, usdt } });
+
+// The behaviour every store shares; create returns a store over an empty data/ directory.
+function describeStore(name: string, create: () => WalletStore, hooks: { beforeEach?: () => Promise<void>; afterEach?: () => void } = {}) {
+  describe(name, () => {
+    beforeEach(async () => {
+      mkdirSync(`${dataDir}/data`, { recursive: true });
+      await hooks.beforeEach?.();
+    });
+    afterEach(() => {
+      hooks.afterEach?.();
+      rmSync(`${dataDir}/data`, { recursive: true, force: true });
+    });
+
+    it('stores a wallet and reads it back', async () => {
+      const store = create();
+      const wallet = sampleWallet('alice');
+      await store.put('usr_alice', wallet);
+
+      assert.deepEqual(await store.get('usr_alice'), wallet);
+      assert.equal(await store.get('usr_nobody'), null);
+    });
+
+    it('applies updates and returns null for a missing wallet', async () => {
+      const store = create();
+      await store.put('usr_alice', sampleWallet('alice'));
+
+      const updated = await store.update('usr_alice', wallet => ({ ...withUsdt(100)(wallet), pending_withdrawals: [] }));
+      assert.equal(updated?.balances.usdt, 100);
+      const stored = await store.get('usr_alice');
+      assert.equal(stored?.balances.usdt, 100);
+      assert.deepEqual(stored?.pending_withdrawals, []);
+
+      assert.equal(await store.update('usr_nobody', wallet => wallet), null);
+      assert.equal(await store.get('usr_nobody'), null);
+    });
+
+    it('leaves the wallet unchanged when an update throws', async () => {
+      const store = create();
+      const wallet = sampleWallet('alice');
+      await store.put('usr_alice', wallet);
+
+      await assert.rejects(
+        store.update('usr_alice', () => {
+          throw new Error('Insufficient balance.');
+        }),
+        /Insufficient balance/
+      );
+      assert.deepEqual(await store.get('usr_alice'), wallet);
+    });
+
+    it('replaces every wallet with updateAll and deletes single wallets', async () => {
+      const store = create();
+      await store.put('usr_alice', sampleWallet('alice'));
+      await store.put('usr_bob', sampleWallet('bob'));
+
+      await store.updateAll(wallets => ({ usr_bob: wallets.usr_bob, usr_carol: sampleWallet('carol') }));
+      assert.deepEqual(Object.keys(await store.getAll()).sort(), ['usr_bob', 'usr_carol']);
+
+      await store.delete('usr_bob');
+      assert.deepEqual(Object.keys(await store.getAll()), ['usr_carol']);
+    });
+
+    it('keeps nothing from an updateAll that throws', async () => {
+      const store = create();
+      await store.put('usr_alice', sampleWallet('alice'));
+
+      await assert.rejects(
+        store.updateAll(() => {
+          throw new Error('Migration failed');
+        }),
+        /Migration failed/
+      );
+      assert.deepEqual(await store.getAll(), { usr_alice: sampleWallet('alice') });
+    });
+  });
+}
+
+describeStore('JSON wallet store', () => walletStore.createJsonWalletStore(`${dataDir}/data/test-wallets.json`));
+describeStore('SQLite wallet store', () => walletStore.createSqliteWalletStore(`${dataDir}/data/test-wallets.sqlite`));
+describeStore('Postgres wallet store', () => walletStore.createPostgresWalletStore(), {
+  beforeEach: useTestDatabase,
+  afterEach: resetTestDatabase,
+});
+
+describe('File wallet stores', () => {
+  afterEach(() => rmSync(`${dataDir}/data`, { recursive: true, force: true }));
+
+  it('keeps JSON wallets in one document named after the file', async () => {
+    const store = walletStore.createJsonWalletStore(`${dataDir}/data/wallets.json`);
+    assert.equal(store.name, 'wallets.json');
+    await store.put('usr_alice', sampleWallet('alice'));
+
+    assert.deepEqual(await walletStore.createJsonWalletStore(`${dataDir}/data/wallets.json`).getAll(), { usr_alice: sampleWallet('alice') });
+  });
+
+  it('imports the JSON seed wallets into a new SQLite database once', async () => {
+    mkdirSync(`${dataDir}/data`, { recursive: true });
+    writeFileSync(`${dataDir}/data/wallets.json`, JSON.stringify({ usr_seed: sampleWallet('seed') }));
+
+    const store = walletStore.createSqliteWalletStore(`${dataDir}/data/wallets.sqlite`);
+    assert.equal(store.name, 'wallets.sqlite');
+    assert.deepEqual(await store.getAll(), { usr_seed: sampleWallet('seed') });
+
+    await store.put('usr_alice', sampleWallet('alice'));
+    await store.delete('usr_seed');
+    const reopened = walletStore.createSqliteWalletStore(`${dataDir}/data/wallets.sqlite`);
+    assert.deepEqual(Object.keys(await reopened.getAll()), ['usr_alice']);
+  });
+});
+
+describe('Wallet store validation', () => {
+  beforeEach(() => mkdirSync(`${dataDir}/data`, { recursive: true }));
+  afterEach(() => rmSync(`${dataDir}/data`, { recursive: true, force: true }));
+
+  it('validates wallets on put and refuses invalid ones', async () => {
+    const store = walletStore.getWalletStore();
+    await store.put('usr_bob', sampleWallet('bob'));
+    assert.deepEqual(await store.get('usr_bob'), sampleWallet('bob'));
+
+    const withoutGrowth: Partial<ReturnType<typeof sampleWallet>> = sampleWallet('alice');
+    delete withoutGrowth.growth;
+    await assert.rejects(store.put('usr_alice', withoutGrowth as ReturnType<typeof sampleWallet>), /Invalid wallet data for usr_alice: growth/);
+    await assert.rejects(store.put('usr_alice', withUsdt(-1)(sampleWallet('alice'))), /Invalid wallet data for usr_alice: balances\.usdt/);
+    assert.equal(await store.get('usr_alice'), null);
+  });
+
+  it('refuses updates that leave a wallet invalid, keeping the stored wallet', async () => {
+    const store = walletStore.getWalletStore();
+    await store.put('usr_alice', sampleWallet('alice'));
+
+    await assert.rejects(store.update('usr_alice', withUsdt(Number.NaN)), /Invalid wallet data for usr_alice/);
+    await assert.rejects(
+      store.updateAll(wallets => ({ ...wallets, usr_bob: { ...sampleWallet('bob'), verification_status: 'approved' as any } })),
+      /Invalid wallet data for usr_bob: verification_status/
+    );
+    assert.deepEqual(await store.getAll(), { usr_alice: sampleWallet('alice') });
+  });
+});
@@ -0,0 +1,388 @@
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import type { Database, SqlJsStatic } from 'sql.js';
+import { env } from './env';
+import { DATA_DIR, readDataFile, withFileLock, withFileTransaction, writeFileAtomic } from './data-file';
+import { getDatabasePool, isDatabaseConfigured, withTransaction, type Queryable } from './db';
+import { parseWallet, type WalletData } from './wallet-schema';
+
+const SEED_WALLETS_FILE = path.join(DATA_DIR, 'wallets.json');
+
+// Storage backend for wallet documents, keyed by user ID.
+export interface WalletStore {
+  // Identifies the backing storage in the migration manifest, e.g. "wallets.json".
+  readonly name: string;
+  get(userId: string): Promise<WalletData | null>;
+  getAll(): Promise<Record<string, WalletData>>;
+  put(userId: string, wallet: WalletData): Promise<void>;
+  delete(userId: string): Promise<void>;
+  // Atomically applies updater to an existing wallet; resolves to null if there is none.
+  update(userId: string, updater: (wallet: WalletData) => WalletData): Promise<WalletData | null>;
+  // Atomically rewrites the whole collection; used by data migrations.
+  updateAll(updater: (wallets: Record<string, WalletData>) => Record<string, WalletData>): Promise<void>;
+}
+
+export type WalletStoreKind = 'json' | 'sqlite';
+
+async function readSeedWallets(): Promise<Record<string, WalletData>> {
+  return readDataFile<Record<string, WalletData>>(SEED_WALLETS_FILE, {});
+}
+
+// Keeps every wallet in a single JSON document (data/wallets.json by default).
+export function createJsonWalletStore(filePath: string = SEED_WALLETS_FILE): WalletStore {
+  async function readAll(): Promise<Record<string, WalletData>> {
+    return readDataFile<Record<string, WalletData>>(filePath, {});
+  }
+
+  return {
+    name: path.relative(DATA_DIR, filePath),
+    async get(userId) {
+      const wallets = await readAll();
+      return wallets[userId] || null;
+    },
+    async getAll() {
+      return readAll();
+    },
+    async put(userId, wallet) {
+      await withFileTransaction<Record<string, WalletData>>(filePath, wallets => {
+        wallets[userId] = wallet;
+      });
+    },
+    async delete(userId) {
+      await withFileTransaction<Record<string, WalletData>>(filePath, wallets => {
+        delete wallets[userId];
+      });
+    },
+    async update(userId, updater) {
+      return withFileTransaction<Record<string, WalletData>, WalletData | null>(filePath, wallets => {
+        if (!wallets[userId]) return null;
+        wallets[userId] = updater(wallets[userId]);
+        return wallets[userId];
+      });
+    },
+    async updateAll(updater) {
+      await withFileTransaction<Record<string, WalletData>>(filePath, (wallets, replace) => {
+        replace(updater(wallets));
+      });
+    },
+  };
+}
+
+let sqlJsPromise: Promise<SqlJsStatic> | null = null;
+
+function loadSqlJs(): Promise<SqlJsStatic> {
+  if (!sqlJsPromise) {
+    sqlJsPromise = import('sql.js').then(({ default: initSqlJs }) =>
+      initSqlJs({
+        locateFile: (file: string) => path.join(process.cwd(), 'node_modules', 'sql.js', 'dist', file),
+      })
+    );
+  }
+  return sqlJsPromise;
+}
+
+// Embedded SQLite database persisted to a single file (data/wallets.sqlite by default).
+// sql.js keeps the database in memory, so every operation reopens the file and
+// writes the whole database back. Writes are only serialised by the in-process
+// file lock: two server processes sharing the file can overwrite each other's
+// changes, so run a single instance or use DATABASE_URL.
+export function createSqliteWalletStore(filePath: string = path.join(DATA_DIR, 'wallets.sqlite')): WalletStore {
+  async function open(): Promise<Database> {
+    const SQL = await loadSqlJs();
+    let db: Database;
+    try {
+      db = new SQL.Database(await fs.readFile(filePath));
+    } catch (error: any) {
+      if (error?.code !== 'ENOENT') throw error;
+      db = new SQL.Database();
+    }
+    db.run('CREATE TABLE IF NOT EXISTS wallets (user_id TEXT PRIMARY KEY, data TEXT NOT NULL, updated_at TEXT NOT NULL)');
+
+    const [{ values }] = db.exec('SELECT COUNT(*) FROM wallets');
+    if (values[0][0] === 0) {
+      // First run: import the wallets that shipped with the JSON seed file.
+      const seed = await readSeedWallets();
+      for (const [userId, wallet] of Object.entries(seed)) {
+        db.run('INSERT INTO wallets (user_id, data, updated_at) VALUES (?, ?, ?)', [userId, JSON.stringify(wallet), new Date().toISOString()]);
+      }
+      if (Object.keys(seed).length > 0) {
+        await persist(db);
+      }
+    }
+    return db;
+  }
+
+  async function persist(db: Database): Promise<void> {
+    await writeFileAtomic(filePath, db.export());
+  }
+
+  function selectWallet(db: Database, userId: string): WalletData | null {
+    const statement = db.prepare('SELECT data FROM wallets WHERE user_id = ?');
+    statement.bind([userId]);
+    const row = statement.step() ? statement.getAsObject() : null;
+    statement.free();
+    return row ? JSON.parse(row.data as string) : null;
+  }
+
+  function upsertWallet(db: Database, userId: string, wallet: WalletData): void {
+    db.run(
+      'INSERT INTO wallets (user_id, data, updated_at) VALUES (?, ?, ?) ON CONFLICT(user_id) DO UPDATE SET data = excluded.data, updated_at = excluded.updated_at',
+      [userId, JSON.stringify(wallet), new Date().toISOString()]
+    );
+  }
+
+  // Serialises every open/modify/persist cycle on the database file.
+  function withDatabase<R>(fn: (db: Database) => Promise<R>): Promise<R> {
+    return withFileLock(filePath, async () => {
+      const db = await open();
+      try {
+        return await fn(db);
+      } finally {
+        db.close();
+      }
+    });
+  }
+
+  function selectAll(db: Database): Record<string, WalletData> {
+    const wallets: Record<string, WalletData> = {};
+    const statement = db.prepare('SELECT user_id, data FROM wallets');
+    while (statement.step()) {
+      const row = statement.getAsObject();
+      wallets[row.user_id as string] = JSON.parse(row.data as string);
+    }
+    statement.free();
+    return wallets;
+  }
+
+  return {
+    name: path.relative(DATA_DIR, filePath),
+    async get(userId) {
+      return withDatabase(async db => selectWallet(db, userId));
+    },
+    async getAll() {
+      return withDatabase(async db => selectAll(db));
+    },
+    async put(userId, wallet) {
+      await withDatabase(async db => {
+        upsertWallet(db, userId, wallet);
+        await persist(db);
+      });
+    },
+    async delete(userId) {
+      await withDatabase(async db => {
+        db.run('DELETE FROM wallets WHERE user_id = ?', [userId]);
+        await persist(db);
+      });
+    },
+    async update(userId, updater) {
+      return withDatabase(async db => {
+        const current = selectWallet(db, userId);
+        if (!current) return null;
+        const updated = updater(current);
+        upsertWallet(db, userId, updated);
+        await persist(db);
+        return updated;
+      });
+    },
+    async updateAll(updater) {
+      await withDatabase(async db => {
+        const updated = updater(selectAll(db));
+        db.run('DELETE FROM wallets');
+        for (const [userId, wallet] of Object.entries(updated)) {
+          upsertWallet(db, userId, wallet);
+        }
+        await persist(db);
+      });
+    },
+  };
+}
+
+// Profile fields stored in dedicated columns of the profiles table.
+const PROFILE_COLUMNS: Record<string, string> = {
+  username: 'username',
+  fullName: 'full_name',
+  avatarUrl: 'avatar_url',
+  contactNumber: 'contact_number',
+  country: 'country',
+  idCardNo: 'id_card_no',
+  address: 'address',
+  dateOfBirth: 'date_of_birth',
+  idCardFrontUrl: 'id_card_front_url',
+  idCardBackUrl: 'id_card_back_url',
+};
+
+function rowToWallet(walletRow: any, profileRow: any): WalletData {
+  const { profile: profileExtra, ...extra } = walletRow.extra || {};
+  const wallet: Record<string, any> = {
+    ...extra,
+    balances: walletRow.balances,
+    addresses: walletRow.addresses,
+    security: walletRow.security,
+    growth: walletRow.growth,
+    verification_status: walletRow.verification_status,
+    pending_withdrawals: walletRow.pending_withdrawals || [],
+  };
+
+  if (profileRow || profileExtra) {
+    const profile: Record<string, any> = { ...(profileExtra || {}) };
+    for (const [field, column] of Object.entries(PROFILE_COLUMNS)) {
+      const value = profileRow?.[column];
+      if (value === null || value === undefined) continue;
+      profile[field] = value instanceof Date ? value.toISOString() : value;
+    }
+    wallet.profile = profile;
+  }
+  return wallet as WalletData;
+}
+
+async function writeWalletRows(db: Queryable, userId: string, wallet: WalletData): Promise<void> {
+  const {
+    balances = {},
+    addresses = {},
+    security = {},
+    growth = {},
+    verification_status = 'unverified',
+    pending_withdrawals = [],
+    profile,
+    ...walletExtra
+  } = wallet;
+  const extra: Record<string, any> = walletExtra;
+
+  const profileExtra: Record<string, any> = {};
+  const profileValues: Record<string, any> = {};
+  for (const [field, value] of Object.entries(profile || {})) {
+    if (PROFILE_COLUMNS[field]) {
+      profileValues[PROFILE_COLUMNS[field]] = value === '' && field === 'dateOfBirth' ? null : value;
+    } else {
+      profileExtra[field] = value;
+    }
+  }
+  if (Object.keys(profileExtra).length > 0) {
+    extra.profile = profileExtra;
+  }
+
+  await db.query(
+    `INSERT INTO wallets (id, user_id, balances, addresses, security, growth, verification_status, pending_withdrawals, extra)
+     VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)
+     ON CONFLICT (user_id) DO UPDATE SET
+       balances = excluded.balances,
+       addresses = excluded.addresses,
+       security = excluded.security,
+       growth = excluded.growth,
+       verification_status = excluded.verification_status,
+       pending_withdrawals = excluded.pending_withdrawals,
+       extra = excluded.extra`,
+    [
+      crypto.randomUUID(),
+      userId,
+      JSON.stringify(balances),
+      JSON.stringify(addresses),
+      JSON.stringify(security),
+      JSON.stringify(growth),
+      verification_status,
+      pending_withdrawals.map((withdrawal: unknown) => JSON.stringify(withdrawal)),
+      JSON.stringify(extra),
+    ]
+  );
+
+  if (!profile) return;
+  const columns = Object.values(PROFILE_COLUMNS);
+  await db.query(
+    `INSERT INTO profiles (user_id, referral_code, ${columns.join(', ')})
+     VALUES ($1, $2, ${columns.map((_, index) => `$${index + 3}`).join(', ')})
+     ON CONFLICT (user_id) DO UPDATE SET
+       referral_code = excluded.referral_code,
+       ${columns.map(column => `${column} = excluded.${column}`).join(',\n       ')}`,
+    [
+      userId,
+      extra.squad?.referralCode || null,
+      ...columns.map(column => (column === 'username' ? profileValues[column] || userId : profileValues[column] ?? null)),
+    ]
+  );
+}
+
+async function selectWalletRows(db: Queryable, userId?: string, forUpdate = false): Promise<Record<string, WalletData>> {
+  const filter = userId ? ' WHERE user_id = $1' : '';
+  const params = userId ? [userId] : [];
+  const { rows: walletRows } = await db.query(`SELECT * FROM wallets${filter}${forUpdate ? ' FOR UPDATE' : ''}`, params);
+  const { rows: profileRows } = await db.query(`SELECT * FROM profiles${filter}`, params);
+  const profiles = new Map(profileRows.map(row => [row.user_id, row]));
+
+  return Object.fromEntries(walletRows.map(row => [row.user_id, rowToWallet(row, profiles.get(row.user_id))]));
+}
+
+// Wallets in PostgreSQL, split across the wallets and profiles tables (see db.ts).
+export function createPostgresWalletStore(): WalletStore {
+  return {
+    name: 'postgres:wallets',
+    async get(userId) {
+      const wallets = await selectWalletRows(getDatabasePool(), userId);
+      return wallets[userId] || null;
+    },
+    async getAll() {
+      return selectWalletRows(getDatabasePool());
+    },
+    async put(userId, wallet) {
+      await withTransaction(client => writeWalletRows(client, userId, wallet));
+    },
+    async delete(userId) {
+      await withTransaction(async client => {
+        await client.query('DELETE FROM wallets WHERE user_id = $1', [userId]);
+        await client.query('DELETE FROM profiles WHERE user_id = $1', [userId]);
+      });
+    },
+    async update(userId, updater) {
+      return withTransaction(async client => {
+        const current = (await selectWalletRows(client, userId, true))[userId];
+        if (!current) return null;
+        const updated = updater(current);
+        await writeWalletRows(client, userId, updated);
+        return updated;
+      });
+    },
+    async updateAll(updater) {
+      await withTransaction(async client => {
+        const updated = updater(await selectWalletRows(client, undefined, true));
+        const keep = Object.keys(updated);
+        await client.query('DELETE FROM wallets WHERE NOT (user_id = ANY($1))', [keep]);
+        await client.query('DELETE FROM profiles WHERE NOT (user_id = ANY($1))', [keep]);
+        for (const [userId, wallet] of Object.entries(updated)) {
+          await writeWalletRows(client, userId, wallet);
+        }
+      });
+    },
+  };
+}
+
+// Parses every wallet against the wallet schema before the backend stores it.
+function withValidation(store: WalletStore): WalletStore {
+  return {
+    ...store,
+    put: async (userId, wallet) => store.put(userId, parseWallet(userId, wallet)),
+    update: (userId, updater) => store.update(userId, wallet => parseWallet(userId, updater(wallet))),
+    updateAll: updater =>
+      store.updateAll(wallets =>
+        Object.fromEntries(Object.entries(updater(wallets)).map(([userId, wallet]) => [userId, parseWallet(userId, wallet)]))
+      ),
+  };
+}
+
+let walletStore: WalletStore | null = null;
+let postgresWalletStore: WalletStore | null = null;
+
+// Returns PostgreSQL when DATABASE_URL is set, otherwise the backend selected by
+// WALLET_STORE ("json" or "sqlite"), defaulting to JSON.
+export function getWalletStore(): WalletStore {
+  if (isDatabaseConfigured()) {
+    if (!postgresWalletStore) {
+      postgresWalletStore = withValidation(createPostgresWalletStore());
+    }
+    return postgresWalletStore;
+  }
+  if (!walletStore) {
+    const kind: WalletStoreKind = env.WALLET_STORE || 'json';
+    const filePath = env.WALLET_STORE_PATH ? path.resolve(process.cwd(), env.WALLET_STORE_PATH) : undefined;
+    walletStore = withValidation(kind === 'sqlite' ? createSqliteWalletStore(filePath) : createJsonWalletStore(filePath));
+  }
+  return walletStore;
+}
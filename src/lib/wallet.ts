@@ -1,102 +1,160 @@
+import { createHash, randomBytes, randomInt } from 'crypto';
 import { getBotTierSettings, getCurrentTier } from './tiers';
-import initialWallets from '../../data/wallets.json';
+import type { WalletData } from './wallet-schema';
+import { getWalletStore } from './wallet-store';
 
-let mockWallets: Record<string, any> = initialWallets;
-const MOCK_USER_ID = 'mock-user-123';
+// Server-side wallet data access. Client components must go through
+// wallet-actions.ts, which scopes every call to the signed-in user.
 
-export type WalletData = any;
-export type ProfileData = any;
-export type WithdrawalAddresses = any;
+export type { AddressBookEntry, PendingDeposit, PendingWithdrawal, ProfileData, StatusChange, WalletData, WithdrawalPasscode } from './wallet-schema';
+
+export type WalletOwner = {
+    id: string;
+    email: string;
+    fullName?: string;
+    phoneNumber?: string;
+    country?: string;
+};
+
+const REFERRAL_CODE_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+const REFERRAL_CODE_LENGTH = 8;
+const BASE58_ALPHABET = '123456789ABCDEFGHJKLMNPQRSTUVWXYZabcdefghijkmnopqrstuvwxyz';
 
 export async function getAllWallets(): Promise<Record<string, WalletData>> {
-    // Ensure all wallets have the new reward fields for safety
-    Object.keys(mockWallets).forEach(userId => {
-        if (!mockWallets[userId].claimed_achievements) {
-            mockWallets[userId].claimed_achievements = { ranks: [], tiers: [] };
-        }
-        if (!mockWallets[userId].claimed_referrals) {
-            mockWallets[userId].claimed_referrals = [];
-        }
-    });
-    return mockWallets;
+    return getWalletStore().getAll();
 }
 
 export async function getWalletByUserId(userId: string): Promise<WalletData | null> {
-    const wallet = mockWallets[userId] || null;
-    if (wallet) {
-        if (!wallet.claimed_achievements) wallet.claimed_achievements = { ranks: [], tiers: [] };
-        if (!wallet.claimed_referrals) wallet.claimed_referrals = [];
-    }
-    return wallet;
+    return getWalletStore().get(userId);
+}
+
+// The wallet as it may be sent to a browser: without the withdrawal passcode hash.
+export function redactWallet(wallet: WalletData): WalletData {
+    if (!wallet.security?.withdrawalPasscode) return wallet;
+    const security = { ...wallet.security };
+    delete security.withdrawalPasscode;
+    return { ...wallet, security };
 }
 
 export async function updateWalletByUserId(userId: string, newData: Partial<WalletData>): Promise<WalletData | null> {
-    if (!mockWallets[userId]) {
-        return null;
-    }
-    const updatedWallet = { ...mockWallets[userId], ...newData };
-    mockWallets[userId] = updatedWallet;
-    return updatedWallet;
+    return getWalletStore().update(userId, currentWallet => ({ ...currentWallet, ...newData }));
 }
 
-export async function getOrCreateWallet(userId?: string): Promise<WalletData> {
-    const currentUserId = userId || MOCK_USER_ID;
+function generateReferralCode(): string {
+    return Array.from({ length: REFERRAL_CODE_LENGTH }, () => REFERRAL_CODE_ALPHABET[randomInt(REFERRAL_CODE_ALPHABET.length)]).join('');
+}
 
-    if (!currentUserId) {
-        throw new Error("User not authenticated.");
+function base58Encode(bytes: Buffer): string {
+    let value = BigInt('0x' + bytes.toString('hex'));
+    let encoded = '';
+    while (value > BigInt(0)) {
+        encoded = BASE58_ALPHABET[Number(value % BigInt(58))] + encoded;
+        value /= BigInt(58);
     }
-    
-    let wallet = mockWallets[currentUserId];
-
-    if (wallet && wallet.profile) {
-        // Ensure reward fields exist
-        if (!wallet.claimed_achievements) wallet.claimed_achievements = { ranks: [], tiers: [] };
-        if (!wallet.claimed_referrals) wallet.claimed_referrals = [];
-        
-        const now = Date.now();
-        const oneDay = 24 * 60 * 60 * 1000;
-        const growthData = wallet.growth as any;
-        const lastReset = growthData?.lastReset ? new Date(growthData.lastReset).getTime() : 0;
-
-        if (now - lastReset > oneDay) {
-            const settings = getBotTierSettings();
-            const balance = wallet.balances?.usdt || 0;
-            const currentTier = getCurrentTier(balance, settings);
-            
-            if(currentTier) {
-                wallet.growth.clicksLeft = currentTier.clicks;
-                wallet.growth.lastReset = new Date().toISOString();
-                wallet.growth.dailyEarnings = 0;
-            }
-        }
-        return wallet;
+    for (const byte of bytes) {
+        if (byte !== 0) break;
+        encoded = '1' + encoded;
     }
+    return encoded;
+}
+
+// A TRON (TRC-20) address: base58check of the 0x41 prefix and a 20-byte account id.
+function generateDepositAddress(): string {
+    const payload = Buffer.concat([Buffer.from([0x41]), randomBytes(20)]);
+    const sha256 = (data: Buffer) => createHash('sha256').update(data).digest();
+    const checksum = sha256(sha256(payload)).subarray(0, 4);
+    return base58Encode(Buffer.concat([payload, checksum]));
+}
 
-    // Fallback to default user if no user is found. In a real app, this might create a new wallet.
-    return initialWallets[MOCK_USER_ID];
+function buildWallet(owner: WalletOwner, referralCode: string, username: string): WalletData {
+    return {
+        created_at: new Date().toISOString(),
+        addresses: {
+            usdt: generateDepositAddress(),
+        },
+        balances: { usdt: 0, btc: 0, eth: 0 },
+        pending_withdrawals: [],
+        growth: {
+            clicksLeft: 0,
+            lastReset: 0,
+            dailyEarnings: 0,
+            earningsHistory: [],
+        },
+        squad: {
+            referralCode,
+            members: [],
+        },
+        profile: {
+            username,
+            fullName: owner.fullName || '',
+            idCardNo: '',
+            contactNumber: owner.phoneNumber || '',
+            country: owner.country || '',
+            avatarUrl: '',
+        },
+        security: {
+            addressBook: [],
+        },
+        verification_status: 'unverified',
+        claimed_achievements: { ranks: [], tiers: [] },
+        claimed_referrals: [],
+    };
 }
 
-export async function updateWallet(newData: Partial<WalletData>): Promise<WalletData | null> {
-    const user = { id: MOCK_USER_ID };
-    if (!user) throw new Error("User not authenticated.");
+// Creates the wallet for a new account with a unique referral code, a deposit
+// address and a profile seeded from the registration details.
+export async function createWalletForUser(owner: WalletOwner): Promise<WalletData> {
+    const store = getWalletStore();
+    if (await store.get(owner.id)) {
+        throw new Error(`A wallet already exists for user ${owner.id}.`);
+    }
+
+    const wallets = Object.values(await store.getAll());
+    const takenCodes = new Set(wallets.map(wallet => wallet.squad?.referralCode));
+    let referralCode = generateReferralCode();
+    while (takenCodes.has(referralCode)) {
+        referralCode = generateReferralCode();
+    }
+
+    // Usernames default to the email's local part and must stay unique.
+    const takenUsernames = new Set(wallets.map(wallet => wallet.profile?.username));
+    const baseUsername = owner.email.split('@')[0];
+    let username = baseUsername;
+    for (let suffix = 2; takenUsernames.has(username); suffix++) {
+        username = `${baseUsername}${suffix}`;
+    }
 
-    const currentWallet = await getOrCreateWallet(user.id);
-    const updatedWallet = { ...currentWallet, ...newData };
-    mockWallets[user.id] = updatedWallet;
-    return updatedWallet;
+    const wallet = buildWallet(owner, referralCode, username);
+    await store.put(owner.id, wallet);
+    return wallet;
 }
 
-export async function saveWithdrawalAddress(asset: string, address: string): Promise<void> {
-    const wallet = await getOrCreateWallet();
-    const currentSecurity = wallet.security || {};
-    const newAddresses = {
-        ...(currentSecurity.withdrawalAddresses || {}),
-        [asset]: address,
-    };
-    wallet.security.withdrawalAddresses = newAddresses;
+export async function deleteWallet(userId: string): Promise<void> {
+    await getWalletStore().delete(userId);
 }
 
-export async function getWithdrawalAddresses(): Promise<WithdrawalAddresses> {
-    const wallet = await getOrCreateWallet();
-    return wallet.security?.withdrawalAddresses || {};
+// Restores the daily grid trading clicks once a day has passed since the last reset.
+export async function refreshDailyGrowth(userId: string): Promise<WalletData | null> {
+    const oneDay = 24 * 60 * 60 * 1000;
+    return getWalletStore().update(userId, wallet => {
+        const lastReset = wallet.growth?.lastReset ? new Date(wallet.growth.lastReset).getTime() : 0;
+        if (Date.now() - lastReset <= oneDay) {
+            return wallet;
+        }
+
+        const currentTier = getCurrentTier(wallet.balances?.usdt || 0, getBotTierSettings());
+        if (!currentTier) {
+            return wallet;
+        }
+
+        return {
+            ...wallet,
+            growth: {
+                ...wallet.growth,
+                clicksLeft: currentTier.clicks,
+                lastReset: new Date().toISOString(),
+                dailyEarnings: 0,
+            },
+        };
+    });
 }
@@ -0,0 +1,155 @@
+import bcrypt from 'bcryptjs';
+import { getUserById, verifyUserPassword } from './auth-server';
+import { addNotification } from './notifications';
+import { logSecurityEvent } from './security';
+import { isTwoFactorEnabled, verifySecondFactor } from './two-factor';
+import { getWalletStore } from './wallet-store';
+import type { WalletData, WithdrawalPasscode } from './wallet-schema';
+
+// The withdrawal passcode: a 4-6 digit code stored as a bcrypt hash under the
+// wallet's security settings and asked for on every withdrawal request.
+// Wrong guesses are counted on the wallet; after MAX_FAILED_ATTEMPTS the
+// passcode is locked for a while and the owner is notified.
+
+const MAX_FAILED_ATTEMPTS = 5;
+const LOCKOUT_MS = 30 * 60 * 1000;
+
+export type WithdrawalPasscodeStatus = {
+  isSet: boolean;
+  updatedAt?: string;
+  lockedUntil?: string;
+};
+
+export function isValidPasscode(passcode: unknown): passcode is string {
+  return typeof passcode === 'string' && /^\d{4,6}$/.test(passcode);
+}
+
+function isLocked(passcode: WithdrawalPasscode, now = Date.now()): boolean {
+  return !!passcode.lockedUntil && new Date(passcode.lockedUntil).getTime() > now;
+}
+
+function withPasscode(wallet: WalletData, passcode: WithdrawalPasscode | undefined): WalletData {
+  return { ...wallet, security: { ...wallet.security, withdrawalPasscode: passcode } };
+}
+
+async function storePasscode(userId: string, passcode: string): Promise<boolean> {
+  const hash = await bcrypt.hash(passcode, 12);
+  const wallet = await getWalletStore().update(userId, current =>
+    withPasscode(current, { hash, updatedAt: new Date().toISOString(), failedAttempts: 0 })
+  );
+  return !!wallet;
+}
+
+export async function getWithdrawalPasscodeStatus(userId: string): Promise<WithdrawalPasscodeStatus | null> {
+  const wallet = await getWalletStore().get(userId);
+  if (!wallet) return null;
+  const passcode = wallet.security?.withdrawalPasscode;
+  return {
+    isSet: !!passcode,
+    updatedAt: passcode?.updatedAt,
+    lockedUntil: passcode && isLocked(passcode) ? passcode.lockedUntil : undefined,
+  };
+}
+
+// Checks a passcode and counts it against the throttle. The attempt is counted
+// before the hash is compared, so parallel requests cannot get extra guesses.
+export async function verifyWithdrawalPasscode(userId: string, passcode: unknown): Promise<{ error?: string; locked?: boolean }> {
+  const now = Date.now();
+  let stored: WithdrawalPasscode | undefined;
+  let locked = false;
+  await getWalletStore().update(userId, wallet => {
+    stored = wallet.security?.withdrawalPasscode;
+    if (!stored) return wallet;
+    if (isLocked(stored, now) || stored.failedAttempts >= MAX_FAILED_ATTEMPTS) {
+      locked = true;
+      return wallet;
+    }
+    return withPasscode(wallet, { ...stored, lockedUntil: undefined, failedAttempts: stored.failedAttempts + 1 });
+  });
+
+  if (!stored) {
+    return { error: 'Set a withdrawal passcode in your security settings before withdrawing.' };
+  }
+  if (locked) {
+    return { error: 'Too many incorrect passcodes. Withdrawals are locked for now; try again later or reset your passcode.', locked: true };
+  }
+
+  if (isValidPasscode(passcode) && (await bcrypt.compare(passcode, stored.hash))) {
+    await getWalletStore().update(userId, wallet => {
+      const current = wallet.security?.withdrawalPasscode;
+      return current ? withPasscode(wallet, { ...current, failedAttempts: 0 }) : wallet;
+    });
+    return {};
+  }
+
+  let lockedUntil: string | undefined;
+  await getWalletStore().update(userId, wallet => {
+    const current = wallet.security?.withdrawalPasscode;
+    if (!current || current.failedAttempts < MAX_FAILED_ATTEMPTS || current.lockedUntil) return wallet;
+    lockedUntil = new Date(Date.now() + LOCKOUT_MS).toISOString();
+    return withPasscode(wallet, { ...current, failedAttempts: 0, lockedUntil });
+  });
+
+  if (lockedUntil) {
+    logSecurityEvent('withdrawal_passcode_locked', { userId, lockedUntil });
+    await addNotification(userId, {
+      title: 'Withdrawal Passcode Locked',
+      content: `Withdrawals were locked for ${LOCKOUT_MS / 60000} minutes after ${MAX_FAILED_ATTEMPTS} incorrect passcodes. If this wasn't you, change your password and reset the passcode.`,
+      href: '/dashboard/security',
+    });
+    return { error: 'Too many incorrect passcodes. Withdrawals are locked for now; try again later or reset your passcode.', locked: true };
+  }
+  return { error: 'Incorrect withdrawal passcode.' };
+}
+
+// First-time setup, confirmed with the account password.
+export async function setWithdrawalPasscode(userId: string, password: string, passcode: unknown): Promise<{ error?: string }> {
+  if (!isValidPasscode(passcode)) return { error: 'Passcode must be 4-6 digits.' };
+  const status = await getWithdrawalPasscodeStatus(userId);
+  if (!status) return { error: 'User wallet not found.' };
+  if (status.isSet) return { error: 'A withdrawal passcode is already set. Change or reset it instead.' };
+  if (!(await verifyUserPassword(userId, password))) return { error: 'Incorrect account password.' };
+
+  await storePasscode(userId, passcode);
+  return {};
+}
+
+// Changing needs the current passcode, which counts against the same throttle.
+export async function changeWithdrawalPasscode(userId: string, currentPasscode: unknown, passcode: unknown): Promise<{ error?: string }> {
+  if (!isValidPasscode(passcode)) return { error: 'Passcode must be 4-6 digits.' };
+  const check = await verifyWithdrawalPasscode(userId, currentPasscode);
+  if (check.error) return { error: check.error };
+
+  await storePasscode(userId, passcode);
+  await addNotification(userId, {
+    title: 'Withdrawal Passcode Changed',
+    content: "Your withdrawal passcode was changed. If this wasn't you, contact support immediately.",
+    href: '/dashboard/security',
+  });
+  return {};
+}
+
+// For a forgotten or locked passcode: the account password plus, when 2FA is
+// on, an authenticator code replace it and lift the lockout.
+export async function resetWithdrawalPasscode(
+  userId: string,
+  details: { password: string; totpCode?: string; passcode: unknown }
+): Promise<{ error?: string }> {
+  if (!isValidPasscode(details.passcode)) return { error: 'Passcode must be 4-6 digits.' };
+  const user = await getUserById(userId);
+  if (!user || !(await getWithdrawalPasscodeStatus(userId))) return { error: 'User wallet not found.' };
+  if (!(await verifyUserPassword(userId, details.password))) return { error: 'Incorrect account password.' };
+  if (isTwoFactorEnabled(user)) {
+    const secondFactor = await verifySecondFactor(userId, details.totpCode, { allowBackupCode: false });
+    if (secondFactor.error) return { error: secondFactor.error };
+  }
+
+  await storePasscode(userId, details.passcode);
+  logSecurityEvent('withdrawal_passcode_reset', { userId });
+  await addNotification(userId, {
+    title: 'Withdrawal Passcode Reset',
+    content: "Your withdrawal passcode was reset. If this wasn't you, change your password and contact support immediately.",
+    href: '/dashboard/security',
+  });
+  return {};
+}
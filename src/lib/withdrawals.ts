@@ -0,0 +1,177 @@
+import { ASSET_NETWORKS_KEY, findAssetNetwork, parseAssetRegistry, type AssetNetwork, type RegistryAsset } from './asset-networks';
+import { addNotification } from './notifications';
+import { creditUser } from './ledger';
+import { logModeratorAction } from './moderator';
+import { getSetting } from './settings-store';
+import { getWalletStore } from './wallet-store';
+import type { PendingWithdrawal, WalletData } from './wallet-schema';
+
+// New requests are checked against the network settings of the asset registry
+// (asset-networks.ts) with quoteWithdrawal.
+//
+// Closing withdrawal requests. The amount is debited through the ledger when
+// the request is made (see /api/withdraw/request), so a request that is
+// rejected by an admin or cancelled by the user while still pending is
+// refunded with a matching ledger credit. Closed requests move from
+// wallet.pending_withdrawals to wallet.withdrawal_history with the change
+// added to their history.
+
+export type WithdrawalStatus = 'pending' | 'completed' | 'rejected' | 'cancelled';
+
+const MAX_REASON_LENGTH = 500;
+const WITHDRAWAL_NOT_PENDING = 'Withdrawal request is no longer pending.';
+
+export async function getAssetRegistry(): Promise<RegistryAsset[]> {
+  return parseAssetRegistry(await getSetting(ASSET_NETWORKS_KEY));
+}
+
+export type WithdrawalQuote = {
+  network: AssetNetwork;
+  fee: number;
+  // What arrives at the address once the fee is taken out.
+  netAmount: number;
+};
+
+// Checks a withdrawal against the settings of the network it is sent over.
+export async function quoteWithdrawal(asset: string, networkId: unknown, amount: number): Promise<{ error: string } | WithdrawalQuote> {
+  if (typeof networkId !== 'string' || !networkId) return { error: 'Choose a network for the withdrawal.' };
+  const found = findAssetNetwork(await getAssetRegistry(), asset, networkId);
+  if (!found || !found.network.enabled) {
+    return { error: `Withdrawals of ${asset.toUpperCase()} over this network are not available.` };
+  }
+
+  const { network } = found;
+  const symbol = found.asset.symbol;
+  if (amount < network.minWithdraw) return { error: `The minimum withdrawal over ${network.name} is ${network.minWithdraw} ${symbol}.` };
+  if (amount > network.maxWithdraw) return { error: `The maximum withdrawal over ${network.name} is ${network.maxWithdraw} ${symbol}.` };
+  if (amount <= network.fee) return { error: `The amount must be more than the ${network.fee} ${symbol} network fee.` };
+
+  return { network, fee: network.fee, netAmount: Math.round((amount - network.fee) * 1e8) / 1e8 };
+}
+
+export type WithdrawalCloseResult = {
+  error?: string;
+  notFound?: boolean;
+  withdrawal?: PendingWithdrawal;
+};
+
+async function closeWithdrawal(
+  userId: string,
+  withdrawalId: string,
+  change: { status: Exclude<WithdrawalStatus, 'pending'>; actor: string; reason?: string }
+): Promise<WithdrawalCloseResult> {
+  const found = await getWalletStore().get(userId);
+  if (!found) return { error: 'User not found', notFound: true };
+  const requested = found.pending_withdrawals.find(candidate => candidate.id === withdrawalId);
+  if (!requested) return { error: 'Withdrawal request not found', notFound: true };
+
+  let closed: PendingWithdrawal | undefined;
+  const closeRequest = (current: WalletData): WalletData => {
+    const withdrawal = current.pending_withdrawals.find(candidate => candidate.id === withdrawalId);
+    if (!withdrawal) return current;
+
+    const updated: PendingWithdrawal = {
+      ...withdrawal,
+      status: change.status,
+      reason: change.reason,
+      history: [
+        ...(withdrawal.history || [{ status: withdrawal.status, at: withdrawal.timestamp }]),
+        { status: change.status, at: new Date().toISOString(), by: change.actor, reason: change.reason },
+      ],
+    };
+    closed = updated;
+    return {
+      ...current,
+      pending_withdrawals: current.pending_withdrawals.filter(candidate => candidate.id !== withdrawalId),
+      withdrawal_history: [...(current.withdrawal_history || []), updated],
+    };
+  };
+
+  if (change.status === 'completed') {
+    const wallet = await getWalletStore().update(userId, closeRequest);
+    if (!wallet) return { error: 'User not found', notFound: true };
+  } else {
+    // The refund is booked together with moving the request out of
+    // pending_withdrawals, so a request is refunded exactly once.
+    try {
+      await creditUser(
+        userId,
+        {
+          type: 'withdrawal',
+          referenceId: requested.id,
+          asset: requested.asset,
+          amount: requested.amount,
+          actor: change.actor,
+          memo: `Refund: ${change.reason}`,
+        },
+        current => {
+          const updated = closeRequest(current);
+          if (!closed) throw new Error(WITHDRAWAL_NOT_PENDING);
+          return updated;
+        }
+      );
+    } catch (error: any) {
+      if (error?.message === WITHDRAWAL_NOT_PENDING) return { error: 'Withdrawal request not found', notFound: true };
+      throw error;
+    }
+  }
+  if (!closed) return { error: 'Withdrawal request not found', notFound: true };
+  const withdrawal: PendingWithdrawal = closed;
+
+  const username = found.profile.username || userId;
+  const amount = `${withdrawal.amount.toFixed(2)} ${withdrawal.asset.toUpperCase()}`;
+  switch (change.status) {
+    case 'completed':
+      await addNotification(userId, {
+        title: 'Withdrawal Successful',
+        content: `Your withdrawal of ${amount} has been successfully processed.`,
+        href: '/dashboard/withdraw',
+      });
+      await logModeratorAction(`Completed withdrawal of ${withdrawal.amount.toFixed(2)} for user ${username}.`, change.actor, { userId, withdrawalId });
+      break;
+    case 'rejected':
+      await addNotification(userId, {
+        title: 'Withdrawal Rejected',
+        content: `Your withdrawal of ${amount} was rejected and the amount has been returned to your balance: ${change.reason}`,
+        href: '/dashboard/withdraw',
+      });
+      await logModeratorAction(`Rejected withdrawal of ${withdrawal.amount.toFixed(2)} for user ${username}: ${change.reason}`, change.actor, { userId, withdrawalId });
+      break;
+    case 'cancelled':
+      await addNotification(userId, {
+        title: 'Withdrawal Cancelled',
+        content: `Your withdrawal of ${amount} was cancelled and the amount has been returned to your balance.`,
+        href: '/dashboard/withdraw',
+      });
+      await logModeratorAction(`User ${username} cancelled a withdrawal of ${withdrawal.amount.toFixed(2)}.`, change.actor, { userId, withdrawalId });
+      break;
+  }
+
+  return { withdrawal };
+}
+
+function normalizeReason(reason: unknown): string {
+  return typeof reason === 'string' ? reason.trim() : '';
+}
+
+export async function completeWithdrawal(userId: string, withdrawalId: string, reviewerId: string): Promise<WithdrawalCloseResult> {
+  return closeWithdrawal(userId, withdrawalId, { status: 'completed', actor: reviewerId });
+}
+
+export async function rejectWithdrawal(
+  userId: string,
+  withdrawalId: string,
+  review: { reviewerId: string; reason: unknown }
+): Promise<WithdrawalCloseResult> {
+  const reason = normalizeReason(review.reason);
+  if (!reason) return { error: 'A reason is required.' };
+  if (reason.length > MAX_REASON_LENGTH) return { error: `The reason must be at most ${MAX_REASON_LENGTH} characters.` };
+  return closeWithdrawal(userId, withdrawalId, { status: 'rejected', actor: review.reviewerId, reason });
+}
+
+// A user may cancel their own request while it is still pending; the reason is optional.
+export async function cancelWithdrawal(userId: string, withdrawalId: string, reason?: unknown): Promise<WithdrawalCloseResult> {
+  const given = normalizeReason(reason);
+  if (given.length > MAX_REASON_LENGTH) return { error: `The reason must be at most ${MAX_REASON_LENGTH} characters.` };
+  return closeWithdrawal(userId, withdrawalId, { status: 'cancelled', actor: userId, reason: given || 'Cancelled by the user.' });
+}
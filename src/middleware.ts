@@ -1,21 +1,63 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { getSecurityHeaders, rateLimit, configureCORS, getClientIP, logSecurityEvent } from '@/lib/security';
 import { env } from '@/lib/env';
+import { apiTokenId } from '@/lib/api-token-scopes';
 
 // Rate limiting configurations
 const apiRateLimit = rateLimit({
+  name: 'api',
   windowMs: 15 * 60 * 1000, // 15 minutes
   maxRequests: 100,
   message: 'Too many API requests from this IP',
 });
 
 const authRateLimit = rateLimit({
+  name: 'auth',
   windowMs: 15 * 60 * 1000, // 15 minutes
   maxRequests: 5,
   message: 'Too many authentication attempts',
 });
 
+// Endpoints that check a password or an emailed code or token, or send mail, get
+// the strict limit. Session, security settings and other signed-in /api/auth
+// routes are called on every page load and use the general API limit.
+const CREDENTIAL_ENDPOINTS = [
+  '/api/auth/login',
+  '/api/auth/register',
+  '/api/auth/forgot-password',
+  '/api/auth/reset-password',
+  '/api/auth/verify-email',
+  '/api/auth/staff-setup',
+];
+
+function isCredentialEndpoint(pathname: string): boolean {
+  return CREDENTIAL_ENDPOINTS.some(endpoint => pathname === endpoint || pathname.startsWith(`${endpoint}/`));
+}
+
+// Requests with a personal API token are limited per token instead of per IP,
+// with a looser per-IP cap so that made-up tokens cannot dodge the IP limit.
+function bearerTokenId(request: NextRequest): string | null {
+  const authorization = request.headers.get('authorization');
+  return authorization?.startsWith('Bearer ') ? apiTokenId(authorization.slice(7).trim()) : null;
+}
+
+const apiTokenRateLimit = rateLimit({
+  name: 'api_token',
+  windowMs: 60 * 1000, // 1 minute
+  maxRequests: Number(env.API_TOKEN_RATE_LIMIT_PER_MINUTE) || 60,
+  message: 'Too many requests for this API token',
+  key: request => bearerTokenId(request) || '',
+});
+
+const apiTokenIpRateLimit = rateLimit({
+  name: 'api_token_ip',
+  windowMs: 60 * 1000, // 1 minute
+  maxRequests: 5 * (Number(env.API_TOKEN_RATE_LIMIT_PER_MINUTE) || 60),
+  message: 'Too many API token requests from this IP',
+});
+
 const generalRateLimit = rateLimit({
+  name: 'general',
   windowMs: 60 * 1000, // 1 minute
   maxRequests: 60,
   message: 'Too many requests from this IP',
@@ -44,8 +86,8 @@ export function middleware(request: NextRequest) {
 
   // Apply rate limiting
   try {
-    // Authentication endpoints - strict rate limiting
-    if (pathname.startsWith('/api/auth/')) {
+    // Sign-in and account recovery endpoints - strict rate limiting
+    if (isCredentialEndpoint(pathname)) {
       const rateLimitResponse = authRateLimit(request);
       if (rateLimitResponse) {
         logSecurityEvent('rate_limit_exceeded', {
@@ -56,6 +98,19 @@ export function middleware(request: NextRequest) {
         return rateLimitResponse;
       }
     }
+    // API token requests - per token
+    else if (pathname.startsWith('/api/') && bearerTokenId(request)) {
+      const rateLimitResponse = apiTokenIpRateLimit(request) || apiTokenRateLimit(request);
+      if (rateLimitResponse) {
+        logSecurityEvent('rate_limit_exceeded', {
+          endpoint: pathname,
+          ip,
+          type: 'api_token',
+          tokenId: bearerTokenId(request),
+        }, request);
+        return rateLimitResponse;
+      }
+    }
     // API endpoints - moderate rate limiting
     else if (pathname.startsWith('/api/')) {
       const rateLimitResponse = apiRateLimit(request);